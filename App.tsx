@@ -1,217 +1,844 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { StepSection } from './components/StepSection';
 import { SettingsControls } from './components/SettingsControls';
+import { ChunkProgress } from './components/ChunkProgress';
+import { SpokenPreview } from './components/SpokenPreview';
+import { LexiconManager } from './components/LexiconManager';
+import { SubstitutionHighlights } from './components/SubstitutionHighlights';
+import { DialectAdaptation } from './components/DialectAdaptation';
+import { DialogueCaster } from './components/DialogueCaster';
+import { SSMLEditor } from './components/SSMLEditor';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ProviderSettings } from './components/ProviderSettings';
+import { BatchPanel } from './components/BatchPanel';
+import { ChapterPanel } from './components/ChapterPanel';
+import { WaveformEditor } from './components/WaveformEditor';
+import { ExportDialog } from './components/ExportDialog';
+import { MusicPanel } from './components/MusicPanel';
+import { LibraryTab, PersonaManager } from './components/PersonaManager';
 import { 
   AVAILABLE_VOICES, 
   VoiceSettings, 
-  EmotionType, 
+  DEFAULT_VOICE_SETTINGS,
   VoiceOption, 
   DialectOption,
-  SUPPORTED_DIALECTS
+  SUPPORTED_DIALECTS,
+  SpeakerAssignment
 } from './types';
-import { generateSpeech } from './services/geminiService';
-import { audioBufferToWav, audioBufferToMp3 } from './services/audioUtils';
-import { Mic, Code, Play, Download, Loader2, Volume2, User, StopCircle } from 'lucide-react';
+import { generateSpeech } from './services/speechService';
+import { ProviderConfig, getActiveProvider, getProviderConfig, setProviderConfig } from './services/ttsProvider';
+import { splitIntoChunks } from './services/textChunker';
+import { buildSSML, resolveProsody } from './services/ssmlBuilder';
+import { validateSSML } from './services/ssmlValidator';
+import {
+  parseDialogue,
+  listSpeakers,
+  defaultAssignment,
+  canUseMultiSpeaker,
+  buildDialogueChunks,
+  stitchDialogue
+} from './services/dialogueScript';
+import {
+  ChunkAudioSink,
+  ChunkState,
+  createChunkStates,
+  synthesizeChunks,
+  stitchChunks,
+  collectWarnings
+} from './services/synthesisPipeline';
+import { audioBufferToWav, applyProsody, audioBufferToPcm16, PcmBuffer } from './services/audioUtils';
+import { GenerationRecord, listProjects, saveGeneration } from './services/historyStore';
+import { enhanceSpeech } from './services/audioEnhancer';
+import { normalizeArabicText } from './services/textNormalizer';
+import { normalizeSpokenText, substituteLexicon } from './services/spokenText';
+import { CancelledError, toTTSError, TTSError } from './services/ttsErrors';
+import { applyLexicon, LexiconEntry, listLexiconEntries, Substitution } from './services/lexicon';
+import { buildCaptionCues, CAPTION_SEGMENT_CHARS, toSRT, toWebVTT } from './services/captions';
+import { CacheStats, clearAudioCache, getCacheStats } from './services/audioCache';
+import { applyEdits, EditHistory, EditResult, EMPTY_HISTORY } from './services/audioEditor';
+import { ComplianceReport, conformToProfile, findDeliveryProfile, formatComplianceReport } from './services/deliveryProfiles';
+import { DEFAULT_MIX_SETTINGS, hasMusic, MixResult, MixSettings, mixWithMusic, MusicTracks } from './services/musicMixer';
+import { DEFAULT_EXPORT_OPTIONS, encodeAudio, exportFileName, ExportFormat, ExportMetadata, ExportOptions } from './services/audioExport';
+import {
+  createChunkSequencer,
+  createStreamPlayer,
+  isStreamPlaybackSupported,
+  StreamPlayer,
+  StreamPlayerState
+} from './services/streamPlayer';
+import { findVoice, listVoices, registerPersonaVoices } from './services/voiceCatalog';
+import { listPersonas, listPresets, personaToVoice, savePreset, SettingsPreset, VoicePersona } from './services/personas';
+import { Mic, Code, Play, Download, Loader2, Volume2, User, StopCircle, MessagesSquare, AlertTriangle, Zap, Captions, AudioWaveform, Settings2, Radio, Library, XCircle, Music } from 'lucide-react';
+
+const ACTIVE_PROJECT_KEY = 'hamza.activeProjectId';
+const EXPORT_OPTIONS_KEY = 'hamza.exportOptions';
+const MIX_SETTINGS_KEY = 'hamza.mixSettings';
+const STREAM_PLAYBACK_KEY = 'hamza.streamPlayback';
+const VOICE_SELECTION_KEY = 'hamza.voiceSelection';
+
+interface VoiceSelection {
+  voiceId?: string;
+  dialectCode?: string;
+  settings?: Partial<VoiceSettings>;
+}
+
+// The voice, dialect and settings in use when the page was last open
+const readVoiceSelection = (): VoiceSelection => {
+  try {
+    return JSON.parse(localStorage.getItem(VOICE_SELECTION_KEY) ?? '{}') ?? {};
+  } catch {
+    return {};
+  }
+};
+
+const looksLikeSSML = (value: string) => /^\s*<speak[\s>]/.test(value);
 
 const DEFAULT_TEXT_AR = "مرحباً بكم في العرض التوضيحي لمولد الصوت بالذكاء الاصطناعي. يمكننا التحدث بلهجات متعددة.";
 
 type PreviewStatus = {
   id: string;
   status: 'loading' | 'playing';
+  cached?: boolean;
 } | null;
 
 export default function App() {
   // State
   const [text, setText] = useState<string>(DEFAULT_TEXT_AR);
   const [isAdvancedMode, setIsAdvancedMode] = useState<boolean>(false);
-  const [selectedVoice, setSelectedVoice] = useState<VoiceOption>(AVAILABLE_VOICES[0]);
-  const [selectedDialect, setSelectedDialect] = useState<DialectOption>(SUPPORTED_DIALECTS[0]);
-  const [settings, setSettings] = useState<VoiceSettings>({
-    pitch: 0,
-    speed: 1.0,
-    emotion: EmotionType.Calm,
-    clarity: 90
-  });
+  const [isScriptMode, setIsScriptMode] = useState<boolean>(false);
+  const [savedSelection] = useState<VoiceSelection>(readVoiceSelection);
+  const [selectedVoice, setSelectedVoice] = useState<VoiceOption>(() => findVoice(savedSelection.voiceId ?? '') ?? AVAILABLE_VOICES[0]);
+  const [selectedDialect, setSelectedDialect] = useState<DialectOption>(
+    () => SUPPORTED_DIALECTS.find(d => d.code === savedSelection.dialectCode) ?? SUPPORTED_DIALECTS[0]
+  );
+  const [settings, setSettings] = useState<VoiceSettings>(() => ({ ...DEFAULT_VOICE_SETTINGS, ...savedSelection.settings }));
+
+  // Voice library: personas show up in the voice picker, presets in Step 3
+  const [personas, setPersonas] = useState<VoicePersona[]>([]);
+  const [presets, setPresets] = useState<SettingsPreset[]>([]);
+  const [libraryTab, setLibraryTab] = useState<LibraryTab | null>(null); // Set while the manager is open
+  // A saved persona id waits here until the personas have been read
+  const pendingVoiceIdRef = useRef<string | null>(savedSelection.voiceId ?? null);
+  
+  // Normalization State: a manual edit only applies to the normalized text it was made on
+  const [normalizeEnabled, setNormalizeEnabled] = useState<boolean>(true);
+  const [spokenEdit, setSpokenEdit] = useState<{ source: string; text: string } | null>(null);
+  const [lexiconEntries, setLexiconEntries] = useState<LexiconEntry[]>([]);
+
+  const [providerConfig, setProviderConfigState] = useState<ProviderConfig>(getProviderConfig);
   
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [wavUrl, setWavUrl] = useState<string | null>(null);
-  const [mp3Url, setMp3Url] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | TTSError | null>(null);
+  const [chunks, setChunks] = useState<ChunkState[]>([]);
+
+  // Output State: the stitched model audio is kept so prosody and Clarity can be re-applied.
+  // rawBuffer is the model audio after exact prosody, i.e. the "B" side of the A/B comparison.
+  const [modelBuffer, setModelBuffer] = useState<PcmBuffer | null>(null);
+  const [rawBuffer, setRawBuffer] = useState<PcmBuffer | null>(null);
+  // Whether the current take was requested without prosody, so it can be applied locally
+  const localProsodyRef = useRef<boolean>(false);
+  const [rawWavUrl, setRawWavUrl] = useState<string | null>(null);
+  const [playbackSource, setPlaybackSource] = useState<'processed' | 'raw'>('processed');
+  const [isEnhancing, setIsEnhancing] = useState<boolean>(false);
+  // Clarity output, and the same audio with the waveform editor's edits replayed over it
+  const [processedBuffer, setProcessedBuffer] = useState<AudioBuffer | null>(null);
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [editResult, setEditResult] = useState<EditResult | null>(null);
+  // Music bed and stingers mixed around the edited speech; the mix is what plays and exports
+  const [musicTracks, setMusicTracks] = useState<MusicTracks>({});
+  const [mixSettings, setMixSettings] = useState<MixSettings>(() => {
+    try {
+      return { ...DEFAULT_MIX_SETTINGS, ...JSON.parse(localStorage.getItem(MIX_SETTINGS_KEY) ?? '{}') };
+    } catch {
+      return DEFAULT_MIX_SETTINGS;
+    }
+  });
+  const [mixResult, setMixResult] = useState<MixResult | null>(null);
+
+  // Export State: the dialog's choices are remembered between sessions
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(() => {
+    try {
+      return { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(localStorage.getItem(EXPORT_OPTIONS_KEY) ?? '{}') };
+    } catch {
+      return DEFAULT_EXPORT_OPTIONS;
+    }
+  });
+  const [exportMetadata, setExportMetadata] = useState<ExportMetadata | null>(null); // Set while the dialog is open
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const outputAudioRef = useRef<HTMLAudioElement | null>(null);
+  // Playback position to restore when the player's source is swapped
+  const resumeRef = useRef<{ time: number; playing: boolean } | null>(null);
+  // Voice used for the current chunk set, so retries don't mix voices
+  const chunkVoiceRef = useRef<string>(selectedVoice.id);
+
+  // Dialogue script State
+  const [speakerOverrides, setSpeakerOverrides] = useState<Record<string, SpeakerAssignment>>({});
+  const [turnGapMs, setTurnGapMs] = useState<number>(400);
+  const [preferMultiSpeaker, setPreferMultiSpeaker] = useState<boolean>(true);
+
+  // History State
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(() => localStorage.getItem(ACTIVE_PROJECT_KEY));
+  const [historyRefreshKey, setHistoryRefreshKey] = useState<number>(0);
+  // What the current take was generated from, saved to history once its audio is complete
+  const takeRef = useRef<Omit<GenerationRecord, 'id' | 'createdAt' | 'projectId' | 'pcm' | 'sampleRate' | 'durationSec'> | null>(null);
+
+  // Cache State
+  const [forceRegenerate, setForceRegenerate] = useState<boolean>(false);
+  // One request per sentence so caption cues line up exactly with the audio
+  const [sentenceTiming, setSentenceTiming] = useState<boolean>(false);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
 
   // Preview State
   const [previewState, setPreviewState] = useState<PreviewStatus>(null);
-  const previewAudioRef = useRef<HTMLAudioElement | null>(null);
+  // Stops whatever is playing the current preview (a streamed player or an <audio>)
+  const previewStopRef = useRef<(() => void) | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+
+  // Live playback: audio is heard while it streams in; the full take still renders afterwards
+  const [streamPlayback, setStreamPlayback] = useState<boolean>(() => localStorage.getItem(STREAM_PLAYBACK_KEY) !== 'false');
+  const [streamState, setStreamState] = useState<StreamPlayerState | null>(null);
+  const streamPlayerRef = useRef<StreamPlayer | null>(null);
+  // The current take was heard live, so the finished player should not start again by itself
+  const [liveTake, setLiveTake] = useState<boolean>(false);
+
+  // Lexicon substitutions come first so entries match the words as the user typed them.
+  // Neither step touches [style] tags.
+  const lexiconText = useMemo(
+    () => substituteLexicon(text, lexiconEntries, selectedDialect.code),
+    [text, lexiconEntries, selectedDialect]
+  );
+  const normalizedText = useMemo(
+    () => (normalizeEnabled ? normalizeSpokenText(lexiconText, selectedDialect.code) : lexiconText),
+    [normalizeEnabled, lexiconText, selectedDialect]
+  );
+  const spokenEdited = spokenEdit !== null && spokenEdit.source === normalizedText;
+  const spokenText = spokenEdited ? spokenEdit!.text : normalizedText;
 
   // Construct SSML based on settings
-  const constructSSML = useCallback(() => {
-    // If text is empty, return empty
-    if (!text.trim()) return '';
-
-    // Map emotion to prosody tweaks since standard SSML doesn't have a universal 'emotion' tag supported by all engines
-    // We modify pitch/rate slightly for emotions if the user hasn't drastically overridden them
-    let emotionPitchMod = 0;
-    let emotionRateMod = 1.0;
-
-    // These act as "presets" applied on top of user settings
-    switch (settings.emotion) {
-      case EmotionType.Happy:
-        emotionPitchMod = 10;
-        emotionRateMod = 1.1;
-        break;
-      case EmotionType.Sad:
-        emotionPitchMod = -10;
-        emotionRateMod = 0.85;
-        break;
-      case EmotionType.Energetic:
-        emotionPitchMod = 5;
-        emotionRateMod = 1.2;
-        break;
-      case EmotionType.Dramatic:
-        emotionPitchMod = -5;
-        emotionRateMod = 0.9;
-        break;
-      case EmotionType.Calm:
-      default:
-        break;
+  const constructSSML = useCallback(
+    () => buildSSML(spokenText, settings, selectedDialect.code),
+    [spokenText, settings, selectedDialect]
+  );
+
+  const dialogueLines = useMemo(() => (isScriptMode ? parseDialogue(text) : []), [isScriptMode, text]);
+  const speakers = useMemo(() => listSpeakers(dialogueLines), [dialogueLines]);
+
+  // Speakers keep any voice/dialect the user picked; new ones get a default
+  const speakerAssignments = useMemo(() => {
+    const result: Record<string, SpeakerAssignment> = {};
+    speakers.forEach((speaker, i) => {
+      result[speaker] = speakerOverrides[speaker] ?? defaultAssignment(i, selectedDialect.code);
+    });
+    return result;
+  }, [speakers, speakerOverrides, selectedDialect]);
+
+  // Where the lexicon will substitute, for highlighting. Script lines use their speaker's dialect.
+  const lexiconSubstitutions = useMemo((): Substitution[] => {
+    if (!isScriptMode) return applyLexicon(text, lexiconEntries, selectedDialect.code, isAdvancedMode).substitutions;
+    const result: Substitution[] = [];
+    let offset = 0;
+    for (const line of text.split('\n')) {
+      const trimmed = line.trimStart();
+      const speaker = speakers.find(s => trimmed.startsWith(s) && /^\s*[:：]/.test(trimmed.slice(s.length)));
+      const dialectCode = speaker ? speakerAssignments[speaker].dialectCode : selectedDialect.code;
+      applyLexicon(line, lexiconEntries, dialectCode).substitutions.forEach(sub =>
+        result.push({ ...sub, start: sub.start + offset, end: sub.end + offset })
+      );
+      offset += line.length + 1;
+    }
+    return result;
+  }, [isScriptMode, isAdvancedMode, text, lexiconEntries, selectedDialect, speakers, speakerAssignments]);
+
+  const handleAssignSpeaker = (speaker: string, assignment: SpeakerAssignment) => {
+    setSpeakerOverrides(prev => ({ ...prev, [speaker]: assignment }));
+  };
+
+  // Block paid calls while the raw SSML has errors
+  const ssmlErrorCount = useMemo(
+    () => (isAdvancedMode ? validateSSML(text).filter(d => d.severity === 'error').length : 0),
+    [isAdvancedMode, text]
+  );
+
+  const stopPreview = () => {
+    previewStopRef.current?.();
+    previewStopRef.current = null;
+  };
+
+  const stopLivePlayback = () => {
+    streamPlayerRef.current?.stop();
+    streamPlayerRef.current = null;
+  };
+
+  const handleStreamPlaybackChange = (enabled: boolean) => {
+    setStreamPlayback(enabled);
+    localStorage.setItem(STREAM_PLAYBACK_KEY, String(enabled));
+  };
+
+  // Streamed previews start speaking as soon as the first audio arrives
+  const streamPreview = async (voice: VoiceOption, ssml: string, controller: AbortController) => {
+    const player = await createStreamPlayer(getActiveProvider().capabilities.sampleRate, state => {
+      if (state === 'playing') setPreviewState(prev => (prev?.id === voice.id ? { ...prev, status: 'playing' } : prev));
+    });
+    if (controller.signal.aborted) {
+      player.stop();
+      return;
     }
+    const stop = () => {
+      controller.abort();
+      player.stop();
+    };
+    previewStopRef.current = stop;
+    player.finished.then(() => {
+      if (previewStopRef.current !== stop) return;
+      previewStopRef.current = null;
+      setPreviewState(null);
+    });
 
-    const finalPitch = settings.pitch + emotionPitchMod;
-    const finalRate = settings.speed * emotionRateMod;
-
-    // Sanitize text for XML
-    const sanitizedText = text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
-
-    return `
-<speak version="1.1" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="${selectedDialect.code}">
-  <prosody rate="${finalRate.toFixed(2)}" pitch="${finalPitch > 0 ? '+' : ''}${finalPitch}%">
-    ${sanitizedText}
-  </prosody>
-</speak>
-    `.trim();
-  }, [text, settings, selectedDialect]);
+    try {
+      const { cached } = await generateSpeech({
+        text: ssml,
+        voiceId: voice.id,
+        isSSML: true,
+        bypassCache: forceRegenerate,
+        onAudio: pcm => player.push(pcm),
+        signal: controller.signal
+      });
+      if (!cached) refreshCacheStats();
+      player.end();
+      setPreviewState(prev => (prev?.id === voice.id ? { ...prev, cached } : prev));
+    } catch (err) {
+      player.stop();
+      throw err;
+    }
+  };
 
   const handlePreviewVoice = async (voice: VoiceOption, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent voice selection click
 
     // If currently previewing this voice, stop it
     if (previewState?.id === voice.id) {
-      if (previewAudioRef.current) {
-        previewAudioRef.current.pause();
-        previewAudioRef.current = null;
-      }
+      stopPreview();
       setPreviewState(null);
       return;
     }
 
     // Stop any existing audio
-    if (previewAudioRef.current) {
-      previewAudioRef.current.pause();
-      previewAudioRef.current = null;
-    }
+    stopPreview();
+    stopLivePlayback();
 
     setPreviewState({ id: voice.id, status: 'loading' });
+    // Stopping while the preview is still being generated cancels the request
+    const controller = new AbortController();
+    previewStopRef.current = () => controller.abort();
 
     try {
       const previewText = "أهلاً بك، هذا صوت تجريبي"; // "Welcome, this is a test voice"
       // Use SSML to ensure the correct dialect/lang code is sent
       const ssml = `<speak version="1.1" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="${selectedDialect.code}">${previewText}</speak>`;
 
-      const { audioBuffer } = await generateSpeech({
+      if (streamPlayback && isStreamPlaybackSupported()) {
+        await streamPreview(voice, ssml, controller);
+        return;
+      }
+
+      const { audioBuffer, cached } = await generateSpeech({
         text: ssml,
-        voiceName: voice.geminiVoiceName,
-        isSSML: true
+        voiceId: voice.id,
+        isSSML: true,
+        bypassCache: forceRegenerate,
+        signal: controller.signal
       });
+      if (!cached) refreshCacheStats();
+      if (controller.signal.aborted) return;
 
       const wavBlob = audioBufferToWav(audioBuffer);
       const url = URL.createObjectURL(wavBlob);
       const audio = new Audio(url);
       
-      previewAudioRef.current = audio;
+      previewStopRef.current = () => audio.pause();
       
       audio.onended = () => {
         setPreviewState(null);
-        previewAudioRef.current = null;
+        previewStopRef.current = null;
         URL.revokeObjectURL(url);
       };
       
       audio.onerror = () => {
         setPreviewState(null);
-        previewAudioRef.current = null;
+        previewStopRef.current = null;
       };
 
       await audio.play();
-      setPreviewState({ id: voice.id, status: 'playing' });
+      setPreviewState({ id: voice.id, status: 'playing', cached });
 
     } catch (err) {
+      // A cancelled preview was stopped by whoever now owns the preview state
+      if (controller.signal.aborted) return;
       console.error("Preview failed:", err);
+      setError(toTTSError(err));
       setPreviewState(null);
-      previewAudioRef.current = null;
+      stopPreview();
     }
   };
 
-  const handleGenerate = async () => {
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+    stopLivePlayback();
+  };
+
+  const runPipeline = async (initialChunks: ChunkState[]) => {
     setError(null);
     setIsGenerating(true);
     // Cleanup previous URLs
     if (wavUrl) URL.revokeObjectURL(wavUrl);
-    if (mp3Url) URL.revokeObjectURL(mp3Url);
     setWavUrl(null);
-    setMp3Url(null);
+    setModelBuffer(null);
+    setRawBuffer(null);
+    setRawWavUrl(null);
+    setProcessedBuffer(null);
+    setEditResult(null);
+    setMixResult(null);
+    setEditHistory(EMPTY_HISTORY);
+    resumeRef.current = null;
 
-    // Stop any preview audio if playing
-    if (previewAudioRef.current) {
-      previewAudioRef.current.pause();
-      previewAudioRef.current = null;
+    // Stop any preview or live audio if playing
+    if (previewStopRef.current) {
+      stopPreview();
       setPreviewState(null);
     }
+    stopLivePlayback();
+
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+
+    // Chunks are heard in order as they stream in. Retries only play the chunks being resent.
+    let player: StreamPlayer | null = null;
+    let audioSink: ChunkAudioSink | undefined;
+    if (streamPlayback && isStreamPlaybackSupported()) {
+      try {
+        player = await createStreamPlayer(getActiveProvider().capabilities.sampleRate, state =>
+          setStreamState(state === 'ended' || state === 'stopped' ? null : state)
+        );
+        streamPlayerRef.current = player;
+        audioSink = createChunkSequencer(initialChunks.filter(c => c.status !== 'done').map(c => c.index), player);
+      } catch (err) {
+        console.warn("Live playback unavailable:", err);
+      }
+    }
+    setLiveTake(!!player);
 
     try {
-      const payloadText = isAdvancedMode ? text : constructSSML();
-      
-      const { audioBuffer } = await generateSpeech({
-        text: payloadText,
-        voiceName: selectedVoice.geminiVoiceName,
-        isSSML: true // We always send SSML (either constructed or raw)
+      const result = await synthesizeChunks(initialChunks, {
+        voiceId: chunkVoiceRef.current,
+        bypassCache: forceRegenerate,
+        audioSink,
+        signal: controller.signal,
+        onProgress: setChunks
       });
+      setChunks(result);
+      refreshCacheStats();
 
-      // 1. Generate WAV
-      const wavBlob = audioBufferToWav(audioBuffer);
-      const wUrl = URL.createObjectURL(wavBlob);
-      setWavUrl(wUrl);
+      const failed = result.filter(c => c.status === 'failed');
+      if (controller.signal.aborted) {
+        setError(new CancelledError());
+        return;
+      }
+      if (failed.length > 0) {
+        // When every chunk failed the same way, the cause says more than the count
+        const causes = new Set(failed.map(c => c.failure?.code));
+        setError(failed.length === result.length && causes.size === 1 && failed[0].failure
+          ? failed[0].failure
+          : `${failed.length} of ${result.length} chunks failed. Retry them to complete the audio.`);
+        return;
+      }
 
-      // 2. Generate MP3 (if available)
-      try {
-        const mp3Blob = audioBufferToMp3(audioBuffer);
-        const mUrl = URL.createObjectURL(mp3Blob);
-        setMp3Url(mUrl);
-      } catch (mp3Err) {
-        console.warn("MP3 Encoding failed:", mp3Err);
-        // We do not fail the whole process if MP3 fails, just WAV is enough
+      // Dialogue chunks carry a turn group and are joined with the turn gap
+      const audioBuffer = result.some(c => c.group !== undefined)
+        ? stitchDialogue(result, turnGapMs)
+        : stitchChunks(result);
+
+      // Prosody, Clarity and the exports are rendered by the effects below
+      setModelBuffer(audioBuffer);
+
+      if (takeRef.current && activeProjectId) {
+        saveGeneration({
+          ...takeRef.current,
+          projectId: activeProjectId,
+          sampleRate: audioBuffer.sampleRate,
+          durationSec: audioBuffer.duration,
+          pcm: audioBufferToPcm16(audioBuffer)
+        })
+          .then(() => setHistoryRefreshKey(k => k + 1))
+          .catch(err => console.warn("Could not save to history:", err));
       }
 
-    } catch (err: any) {
-      setError(err.message || "Failed to generate speech. Please check your API key and try again.");
+    } catch (err) {
+      setError(toTTSError(err));
     } finally {
+      // Whatever is still queued plays out; nothing more will arrive
+      player?.end();
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const handleGenerate = async () => {
+    let initialChunks: ChunkState[];
+    if (isScriptMode) {
+      // Each line is normalized for the dialect of the speaker saying it
+      const lines = dialogueLines.map(line => {
+        const { dialectCode } = speakerAssignments[line.speaker];
+        const substituted = applyLexicon(line.text, lexiconEntries, dialectCode).text;
+        return { ...line, text: normalizeEnabled ? normalizeArabicText(substituted, dialectCode) : substituted };
+      });
+      initialChunks = buildDialogueChunks(lines, speakerAssignments, settings, preferMultiSpeaker);
+    } else {
+      // We always send SSML (either constructed or raw), split so long texts stay within model limits
+      const payloadText = isAdvancedMode
+        ? applyLexicon(text, lexiconEntries, selectedDialect.code, true).text
+        : constructSSML();
+      initialChunks = createChunkStates(splitIntoChunks(payloadText, sentenceTiming ? CAPTION_SEGMENT_CHARS : undefined));
+    }
+    chunkVoiceRef.current = selectedVoice.id;
+    localProsodyRef.current = !isAdvancedMode && settings.exactProsody;
+    takeRef.current = {
+      mode: isScriptMode ? 'script' : isAdvancedMode ? 'ssml' : 'text',
+      text,
+      voiceId: selectedVoice.id,
+      dialectCode: selectedDialect.code,
+      settings,
+      localProsody: localProsodyRef.current,
+      speakerAssignments: isScriptMode ? speakerAssignments : undefined,
+      turnGapMs: isScriptMode ? turnGapMs : undefined,
+      spokenText: !isScriptMode && !isAdvancedMode && spokenEdited ? spokenText : undefined
+    };
+    setChunks(initialChunks);
+    await runPipeline(initialChunks);
+  };
+
+  const refreshCacheStats = () => {
+    getCacheStats().then(setCacheStats).catch(() => setCacheStats(null));
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearAudioCache();
+    } catch (err) {
+      console.warn("Could not clear the audio cache:", err);
+    }
+    refreshCacheStats();
+  };
+
+  useEffect(refreshCacheStats, []);
+
+  useEffect(() => stopLivePlayback, []);
+
+  // Registers the personas before any state update, so every voice lookup during the
+  // next render already knows them; the selected voice is re-read to pick up edits
+  const refreshLibrary = useCallback(async () => {
+    const [nextPersonas, nextPresets] = await Promise.all([listPersonas(), listPresets()]);
+    registerPersonaVoices(nextPersonas.map(personaToVoice));
+    setPersonas(nextPersonas);
+    setPresets(nextPresets);
+    const pendingId = pendingVoiceIdRef.current;
+    pendingVoiceIdRef.current = null;
+    setSelectedVoice(current => findVoice(pendingId ?? current.id) ?? AVAILABLE_VOICES[0]);
+  }, []);
+
+  useEffect(() => {
+    refreshLibrary().catch(err => {
+      pendingVoiceIdRef.current = null;
+      console.warn("Could not load the voice library:", err);
+    });
+  }, [refreshLibrary]);
+
+  useEffect(() => {
+    const selection: VoiceSelection = {
+      voiceId: pendingVoiceIdRef.current ?? selectedVoice.id,
+      dialectCode: selectedDialect.code,
+      settings
+    };
+    localStorage.setItem(VOICE_SELECTION_KEY, JSON.stringify(selection));
+  }, [selectedVoice, selectedDialect, settings]);
+
+  // A persona brings its own dialect and settings along
+  const handleSelectVoice = (voice: VoiceOption) => {
+    setSelectedVoice(voice);
+    if (voice.dialectCode) {
+      setSelectedDialect(SUPPORTED_DIALECTS.find(d => d.code === voice.dialectCode) ?? selectedDialect);
+    }
+    if (voice.settings) setSettings(voice.settings);
+  };
+
+  const handleApplyPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (preset) setSettings(preset.settings);
+  };
+
+  const handleSavePreset = async () => {
+    const name = window.prompt('Preset name');
+    if (!name?.trim()) return;
+    try {
+      await savePreset({ name, settings });
+      await refreshLibrary();
+    } catch (err: any) {
+      setError(err.message || "Saving the preset failed.");
+    }
+  };
+
+  useEffect(() => {
+    listLexiconEntries()
+      .then(setLexiconEntries)
+      .catch(err => console.warn("Could not load the pronunciation lexicon:", err));
+  }, []);
+
+  const handleDownloadCaptions = (format: 'srt' | 'vtt') => {
+    const editTime = editResult?.mapTime ?? ((t: number) => t);
+    const mapTime = (t: number) => editTime(t) + (mixResult?.speechOffset ?? 0);
+    // Cue times follow the waveform edits and the music intro; cues that were cut out entirely are dropped
+    const cues = buildCaptionCues(chunks, {
+      gapMs: takeRef.current?.turnGapMs ?? 0,
+      outputDuration: rawBuffer?.duration
+    })
+      .map(cue => ({ ...cue, start: mapTime(cue.start), end: mapTime(cue.end) }))
+      .filter(cue => cue.end - cue.start > 0.05);
+    const content = format === 'srt' ? toSRT(cues) : toWebVTT(cues);
+    const blob = new Blob([content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `hamza-speech-${Date.now()}.${format}`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleExportOptionsChange = (options: ExportOptions) => {
+    setExportOptions(options);
+    localStorage.setItem(EXPORT_OPTIONS_KEY, JSON.stringify(options));
+  };
+
+  // Tags for the current take: its opening words, the voice, the dialect and the project
+  const buildExportMetadata = async (): Promise<ExportMetadata> => {
+    const take = takeRef.current;
+    const voice = findVoice(take?.voiceId ?? '') ?? selectedVoice;
+    const dialect = SUPPORTED_DIALECTS.find(d => d.code === take?.dialectCode) ?? selectedDialect;
+    const words = (take?.text ?? text).replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+    const projects = await listProjects().catch(() => []);
+    return {
+      title: words.length > 60 ? `${words.slice(0, 60).trim()}…` : words,
+      artist: voice.name,
+      album: projects.find(p => p.id === activeProjectId)?.name ?? '',
+      language: dialect.code,
+      comment: `${dialect.label} • HAMZA Hilal Speech Studio`
+    };
+  };
+
+  const handleMixSettingsChange = (next: MixSettings) => {
+    setMixSettings(next);
+    localStorage.setItem(MIX_SETTINGS_KEY, JSON.stringify(next));
+  };
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // With a delivery profile the take is conformed first, and the compliance report goes out with it
+  const handleExport = async (options: ExportOptions, metadata: ExportMetadata): Promise<ComplianceReport | null> => {
+    if (!mixResult) return null;
+    const profile = findDeliveryProfile(options.deliveryProfileId);
+    const delivery = profile ? conformToProfile(mixResult.buffer, profile, options) : null;
+    const blob = await encodeAudio(delivery?.buffer ?? mixResult.buffer, options, metadata);
+    const base = `hamza-speech-${Date.now()}`;
+    const fileName = exportFileName(base, options.format);
+    downloadBlob(blob, fileName);
+    if (!delivery) return null;
+    const text = formatComplianceReport(delivery.report, fileName);
+    downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8' }), `${base}.compliance.txt`);
+    return delivery.report;
+  };
+
+  // One-click export in a given format with the remembered options
+  const handleQuickExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const report = await handleExport({ ...exportOptions, format }, await buildExportMetadata());
+      if (report && !report.passed) setError(`The export does not meet ${report.profileLabel}; see the compliance report.`);
+    } catch (err: any) {
+      setError(err.message || "Export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleProviderChange = (config: ProviderConfig) => {
+    setProviderConfig(config);
+    setProviderConfigState(config);
+  };
+
+  const handleActiveProjectChange = (projectId: string) => {
+    setActiveProjectId(projectId);
+    localStorage.setItem(ACTIVE_PROJECT_KEY, projectId);
+  };
+
+  // Put a saved take's input and settings back into the editor
+  const handleRestore = (record: GenerationRecord) => {
+    setText(record.text);
+    setIsAdvancedMode(record.mode === 'ssml');
+    setIsScriptMode(record.mode === 'script');
+    setSelectedVoice(findVoice(record.voiceId) ?? AVAILABLE_VOICES[0]);
+    setSelectedDialect(SUPPORTED_DIALECTS.find(d => d.code === record.dialectCode) ?? SUPPORTED_DIALECTS[0]);
+    setSettings({ ...DEFAULT_VOICE_SETTINGS, ...record.settings });
+    if (record.speakerAssignments) setSpeakerOverrides(record.speakerAssignments);
+    if (record.turnGapMs !== undefined) setTurnGapMs(record.turnGapMs);
+    if (record.spokenText !== undefined) {
+      setNormalizeEnabled(true);
+      setSpokenEdit({
+        source: normalizeSpokenText(record.text, record.dialectCode),
+        text: record.spokenText
+      });
+    } else {
+      setSpokenEdit(null);
+    }
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Only the failed chunks are sent again; completed audio is kept
+  const handleRetryFailed = () => runPipeline(chunks);
+
+  const rememberPlayback = () => {
+    const el = outputAudioRef.current;
+    if (el && el.src) resumeRef.current = { time: el.currentTime, playing: !el.paused };
+  };
+
+  const handleOutputLoaded = () => {
+    const el = outputAudioRef.current;
+    const resume = resumeRef.current;
+    if (!el || !resume) return;
+    el.currentTime = Math.min(resume.time, el.duration || resume.time);
+    if (!resume.playing) el.pause();
+    resumeRef.current = null;
+  };
+
+  const handleSwitchPlayback = (source: 'processed' | 'raw') => {
+    if (source === playbackSource) return;
+    rememberPlayback();
+    setPlaybackSource(source);
+  };
+
+  // Apply exact pitch and speed to the model audio. Re-runs when the sliders move,
+  // without another API call, as long as the take was generated with exact prosody.
+  useEffect(() => {
+    if (!modelBuffer) return;
+    let cancelled = false;
+
+    const timer = setTimeout(() => {
+      let adjusted = modelBuffer;
+      if (localProsodyRef.current && settings.exactProsody) {
+        const { pitch, rate } = resolveProsody(settings);
+        adjusted = applyProsody(modelBuffer, rate, pitch);
+      }
+      if (cancelled) return;
+      rememberPlayback();
+      // Edit positions only hold while the length does; a speed change starts a fresh edit
+      if (rawBuffer && adjusted.length !== rawBuffer.length) setEditHistory(EMPTY_HISTORY);
+      setRawWavUrl(URL.createObjectURL(audioBufferToWav(adjusted)));
+      setRawBuffer(adjusted);
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [modelBuffer, settings.pitch, settings.speed, settings.emotion, settings.exactProsody]);
+
+  // Run the Clarity chain on the raw audio. Re-runs when Clarity changes, without another API call.
+  useEffect(() => {
+    if (!rawBuffer) return;
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      setIsEnhancing(true);
+      try {
+        const processed = await enhanceSpeech(rawBuffer, settings.clarity);
+        if (!cancelled) setProcessedBuffer(processed);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || "Audio enhancement failed.");
+      } finally {
+        if (!cancelled) setIsEnhancing(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [rawBuffer, settings.clarity]);
+
+  // Replay the waveform edits over the Clarity output; the music mix is built on the result
+  useEffect(() => {
+    if (!processedBuffer) return;
+    let cancelled = false;
+
+    const timer = setTimeout(() => {
+      try {
+        const result = applyEdits(processedBuffer, editHistory.edits);
+        if (!cancelled) setEditResult(result);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || "Applying the audio edits failed.");
+      }
+    }, 50);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [processedBuffer, editHistory]);
+
+  // Mix the edited speech with the music bed, intro and outro; the player and every export use the mix
+  useEffect(() => {
+    if (!editResult) return;
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      try {
+        const result = await mixWithMusic(editResult.buffer, musicTracks, mixSettings);
+        if (cancelled) return;
+
+        rememberPlayback();
+        setMixResult(result);
+
+        const wavBlob = audioBufferToWav(result.buffer);
+        setWavUrl(URL.createObjectURL(wavBlob));
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || "Mixing the background music failed.");
+      }
+    }, hasMusic(musicTracks) ? 250 : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [editResult, musicTracks, mixSettings]);
+
+  useEffect(() => {
+    return () => {
+      if (rawWavUrl) URL.revokeObjectURL(rawWavUrl);
+    };
+  }, [rawWavUrl]);
+
   // Cleanup object URLs on unmount or change
   useEffect(() => {
     return () => {
       if (wavUrl) URL.revokeObjectURL(wavUrl);
-      if (mp3Url) URL.revokeObjectURL(mp3Url);
-      if (previewAudioRef.current) {
-        previewAudioRef.current.pause();
-        previewAudioRef.current = null;
-      }
+      stopPreview();
     };
-  }, [wavUrl, mp3Url]); // Clean up when URLs change to avoid leaks
+  }, [wavUrl]); // Clean up when URLs change to avoid leaks
 
   return (
     <div className="max-w-3xl mx-auto p-4 md:p-8">
@@ -226,20 +853,48 @@ export default function App() {
         </p>
       </header>
 
+      <ProviderSettings config={providerConfig} onChange={handleProviderChange} />
+
       {/* Step 1: Text Input */}
       <StepSection number={1} title="Enter Text">
         <div className="relative">
           <label className="block text-sm text-gray-400 mb-2 flex justify-between">
-            <span>{isAdvancedMode ? "Raw SSML Input" : "Text to Convert"}</span>
+            <span>{isAdvancedMode ? "Raw SSML Input" : isScriptMode ? "Dialogue Script" : "Text to Convert"}</span>
             <span className="text-xs text-gray-500 uppercase tracking-wider">{selectedDialect.nativeLabel}</span>
           </label>
-          <textarea
-            value={text}
-            onChange={(e) => setText(e.target.value)}
-            placeholder={isAdvancedMode ? "<speak>...</speak>" : "Type text here..."}
-            className={`w-full h-40 bg-gray-950 border ${isAdvancedMode ? 'border-indigo-900 font-mono text-sm text-indigo-200' : 'border-gray-700 font-arabic text-lg text-white'} rounded-lg p-4 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all resize-none`}
-            dir={isAdvancedMode ? "ltr" : "rtl"} // Arabic right-to-left for text
-          />
+          {isAdvancedMode ? (
+            <SSMLEditor
+              value={text}
+              onChange={setText}
+              onConvertFromSimple={() => setText(constructSSML())}
+              canConvert={!!text.trim() && !looksLikeSSML(text)}
+            />
+          ) : (
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={isScriptMode ? "سارة: صباح الخير!\nأحمد: صباح النور." : "Type text here..."}
+              className="w-full h-40 bg-gray-950 border border-gray-700 font-arabic text-lg text-white rounded-lg p-4 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all resize-none"
+              dir="rtl" // Arabic right-to-left for text
+            />
+          )}
+
+          <SubstitutionHighlights text={text} substitutions={lexiconSubstitutions} />
+
+          {!isAdvancedMode && (
+            <DialectAdaptation text={text} dialect={selectedDialect} onApply={setText} />
+          )}
+
+          {!isAdvancedMode && !isScriptMode && (
+            <SpokenPreview
+              enabled={normalizeEnabled}
+              onEnabledChange={setNormalizeEnabled}
+              value={spokenText}
+              edited={spokenEdited}
+              onChange={(value) => setSpokenEdit({ source: normalizedText, text: value })}
+              onReset={() => setSpokenEdit(null)}
+            />
+          )}
           
           <div className="mt-4 flex items-center justify-between bg-gray-800/30 p-3 rounded-lg border border-gray-700/50">
             <div className="flex items-center gap-3">
@@ -250,17 +905,63 @@ export default function App() {
               </div>
             </div>
             <button 
-              onClick={() => setIsAdvancedMode(!isAdvancedMode)}
+              onClick={() => {
+                setIsAdvancedMode(!isAdvancedMode);
+                if (!isAdvancedMode) setIsScriptMode(false);
+              }}
               className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-900 ${isAdvancedMode ? 'bg-indigo-600' : 'bg-gray-700'}`}
             >
               <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition transition-transform ${isAdvancedMode ? 'translate-x-6' : 'translate-x-1'}`} />
             </button>
           </div>
+
+          <div className="mt-2 flex items-center justify-between bg-gray-800/30 p-3 rounded-lg border border-gray-700/50">
+            <div className="flex items-center gap-3">
+              <MessagesSquare size={18} className={isScriptMode ? "text-purple-400" : "text-gray-500"} />
+              <div className="flex flex-col">
+                <span className="text-sm font-medium text-gray-200">Dialogue Script</span>
+                <span className="text-xs text-gray-500">Write lines as "Speaker: line" and cast each speaker</span>
+              </div>
+            </div>
+            <button 
+              onClick={() => {
+                setIsScriptMode(!isScriptMode);
+                if (!isScriptMode) setIsAdvancedMode(false);
+              }}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-900 ${isScriptMode ? 'bg-purple-600' : 'bg-gray-700'}`}
+            >
+              <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition transition-transform ${isScriptMode ? 'translate-x-6' : 'translate-x-1'}`} />
+            </button>
+          </div>
+
+          <details className="mt-2 bg-gray-800/30 rounded-lg border border-gray-700/50">
+            <summary className="cursor-pointer select-none p-3 text-sm font-medium text-gray-200 flex justify-between">
+              <span>Pronunciation Lexicon</span>
+              <span className="text-xs text-gray-500">{lexiconEntries.length} entr{lexiconEntries.length === 1 ? 'y' : 'ies'}</span>
+            </summary>
+            <div className="px-3 pb-3">
+              <LexiconManager entries={lexiconEntries} onEntriesChange={setLexiconEntries} />
+            </div>
+          </details>
         </div>
       </StepSection>
 
       {/* Step 2: Voice & Dialect */}
       <StepSection number={2} title="Voice & Dialect">
+        {isScriptMode && (
+          <div className="mb-6 pb-6 border-b border-gray-800">
+            <DialogueCaster
+              speakers={speakers}
+              assignments={speakerAssignments}
+              onAssign={handleAssignSpeaker}
+              gapMs={turnGapMs}
+              onGapChange={setTurnGapMs}
+              preferMultiSpeaker={preferMultiSpeaker}
+              onPreferMultiSpeakerChange={setPreferMultiSpeaker}
+              multiSpeakerAvailable={canUseMultiSpeaker(speakers, speakerAssignments)}
+            />
+          </div>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           
           {/* Dialect Selector */}
@@ -286,12 +987,20 @@ export default function App() {
 
           {/* Voice Character Selector */}
           <div>
-            <label className="block text-sm font-medium text-gray-400 mb-3">Voice Character</label>
+            <div className="flex items-center justify-between mb-3">
+              <label className="block text-sm font-medium text-gray-400">Voice Character</label>
+              <button
+                onClick={() => setLibraryTab('personas')}
+                className="flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200"
+              >
+                <Library size={12} /> Manage personas
+              </button>
+            </div>
             <div className="grid grid-cols-1 gap-2">
-              {AVAILABLE_VOICES.map(voice => (
+              {listVoices().map(voice => (
                 <div
                   key={voice.id}
-                  onClick={() => setSelectedVoice(voice)}
+                  onClick={() => handleSelectVoice(voice)}
                   className={`relative flex items-center justify-between px-4 py-3 rounded-lg border transition-all cursor-pointer group ${
                     selectedVoice.id === voice.id
                       ? 'bg-purple-900/40 border-purple-500 text-purple-100 shadow-md'
@@ -303,8 +1012,10 @@ export default function App() {
                       <User size={16} />
                     </div>
                     <div className="flex flex-col items-start">
-                      <span className="text-sm font-bold">{voice.name}</span>
-                      <span className="text-xs opacity-70">{voice.gender} • {voice.type}</span>
+                      <span className="text-sm font-bold" dir="auto">{voice.name}</span>
+                      <span className="text-xs opacity-70">
+                        {voice.gender} • {voice.type}{voice.type === 'Persona' ? ` • ${voice.providerVoices.gemini}` : ''}
+                      </span>
                     </div>
                   </div>
 
@@ -314,13 +1025,13 @@ export default function App() {
                     className={`p-2 rounded-full transition-colors z-10 hover:bg-white/10 ${
                       previewState?.id === voice.id ? 'text-indigo-400' : 'text-gray-500 hover:text-indigo-300'
                     }`}
-                    title="Preview Voice"
+                    title={previewState?.id === voice.id && previewState.cached ? "Playing cached preview" : "Preview Voice"}
                   >
                     {previewState?.id === voice.id ? (
                       previewState.status === 'loading' ? (
                         <Loader2 size={18} className="animate-spin" />
                       ) : (
-                        <StopCircle size={18} />
+                        <StopCircle size={18} className={previewState.cached ? 'text-teal-300' : undefined} />
                       )
                     ) : (
                       <Play size={18} />
@@ -338,9 +1049,32 @@ export default function App() {
       <StepSection number={3} title="Fine-Tune Audio">
         <p className="text-sm text-gray-500 mb-4">
           {isAdvancedMode 
-            ? "Settings are disabled in Advanced Mode. Use SSML tags in the text area to control pitch, rate, and breaks." 
+            ? "Voice settings are disabled in Advanced Mode. Use SSML tags in the text area to control pitch, rate, and breaks. Clarity still applies, as it is processed locally." 
             : "Adjust the parameters to shape the generated voice."}
         </p>
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+          <select
+            value=""
+            onChange={(e) => handleApplyPreset(e.target.value)}
+            disabled={isAdvancedMode || presets.length === 0}
+            className="bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-gray-300 disabled:opacity-40"
+          >
+            <option value="">{presets.length === 0 ? 'No saved presets' : 'Apply a preset…'}</option>
+            {presets.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleSavePreset}
+            disabled={isAdvancedMode}
+            className="px-3 py-1 rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+          >
+            Save as preset
+          </button>
+          <button onClick={() => setLibraryTab('presets')} className="px-2 py-1 text-indigo-300 hover:text-indigo-200">
+            Manage presets
+          </button>
+        </div>
         <SettingsControls 
           settings={settings} 
           onChange={setSettings} 
@@ -350,77 +1084,307 @@ export default function App() {
 
       {/* Step 4: Generate */}
       <div className="mb-12">
-        <button
-          onClick={handleGenerate}
-          disabled={isGenerating || !text.trim()}
-          className={`w-full py-5 rounded-xl font-bold text-lg flex items-center justify-center gap-3 shadow-xl transition-all transform hover:scale-[1.01] active:scale-[0.99]
-            ${isGenerating 
-              ? 'bg-gray-700 cursor-not-allowed text-gray-400' 
-              : 'bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white'
-            }`}
-        >
-          {isGenerating ? (
-            <>
-              <Loader2 className="animate-spin" /> Generating High-Quality Audio...
-            </>
-          ) : (
-            <>
-              <Mic /> Generate Speech
-            </>
+        <div className="flex gap-3">
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating || !text.trim() || ssmlErrorCount > 0}
+            className={`flex-1 py-5 rounded-xl font-bold text-lg flex items-center justify-center gap-3 shadow-xl transition-all transform hover:scale-[1.01] active:scale-[0.99]
+              ${isGenerating 
+                ? 'bg-gray-700 cursor-not-allowed text-gray-400' 
+                : 'bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white'
+              }`}
+          >
+            {isGenerating ? (
+              <>
+                <Loader2 className="animate-spin" /> Generating {chunks.filter(c => c.status === 'done').length}/{chunks.length} chunks...
+              </>
+            ) : (
+              <>
+                <Mic /> Generate Speech
+              </>
+            )}
+          </button>
+          {isGenerating && (
+            <button
+              onClick={handleCancelGeneration}
+              className="px-6 py-5 rounded-xl font-bold text-lg flex items-center gap-2 bg-gray-800 border border-gray-700 text-gray-200 hover:bg-gray-700 transition-colors"
+              title="Stop generating; finished chunks are kept"
+            >
+              <XCircle /> Cancel
+            </button>
           )}
-        </button>
+        </div>
+
+        <div className="mt-3 flex flex-wrap items-center justify-between gap-3 text-xs text-gray-400">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={forceRegenerate}
+              onChange={(e) => setForceRegenerate(e.target.checked)}
+              className="accent-indigo-500"
+            />
+            Force regenerate (ignore cached audio)
+          </label>
+          <label
+            className="flex items-center gap-2 cursor-pointer"
+            title={isStreamPlaybackSupported() ? "Start hearing the audio while it is still being generated (before Clarity and exact prosody are applied)" : "This browser does not support AudioWorklet"}
+          >
+            <input
+              type="checkbox"
+              checked={streamPlayback && isStreamPlaybackSupported()}
+              disabled={!isStreamPlaybackSupported()}
+              onChange={(e) => handleStreamPlaybackChange(e.target.checked)}
+              className="accent-indigo-500"
+            />
+            Play while generating
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer" title="Splits the text per sentence so SRT/VTT timings are exact. Uses more requests.">
+            <input
+              type="checkbox"
+              checked={sentenceTiming}
+              onChange={(e) => setSentenceTiming(e.target.checked)}
+              className="accent-indigo-500"
+            />
+            Sentence-level caption timing
+          </label>
+          {cacheStats && (
+            <span className="flex items-center gap-2">
+              <Zap size={12} className="text-teal-400" />
+              Cache: {cacheStats.entries} clip{cacheStats.entries === 1 ? '' : 's'}, {(cacheStats.bytes / (1024 * 1024)).toFixed(1)} MB
+              {cacheStats.entries > 0 && (
+                <button onClick={handleClearCache} className="text-gray-500 hover:text-red-300 underline underline-offset-2">
+                  Clear
+                </button>
+              )}
+            </span>
+          )}
+        </div>
+
+        {streamState && (
+          <div className="mt-3 flex items-center justify-between gap-3 px-4 py-2 bg-indigo-900/20 border border-indigo-800/60 rounded-lg text-xs text-indigo-200">
+            <span className="flex items-center gap-2">
+              {streamState === 'playing' ? <Radio size={14} className="text-indigo-400 animate-pulse" /> : <Loader2 size={14} className="animate-spin" />}
+              {streamState === 'playing' ? 'Playing live' : streamState === 'underrun' ? 'Waiting for more audio…' : 'Buffering…'}
+            </span>
+            <button onClick={stopLivePlayback} className="flex items-center gap-1 text-indigo-300 hover:text-white">
+              <StopCircle size={14} /> Stop
+            </button>
+          </div>
+        )}
+
+        <ChunkProgress chunks={chunks} onRetryFailed={handleRetryFailed} busy={isGenerating} />
+
+        {editResult && (
+          <details className="mt-4 bg-gray-900 border border-gray-800 rounded-lg">
+            <summary className="cursor-pointer select-none px-4 py-3 text-sm font-medium text-gray-300 flex items-center gap-2">
+              <AudioWaveform size={16} className="text-indigo-400" /> Edit Audio
+              {editHistory.edits.length > 0 && (
+                <span className="text-xs text-indigo-300 font-normal">({editHistory.edits.length} edit{editHistory.edits.length === 1 ? '' : 's'}, exports include them)</span>
+              )}
+            </summary>
+            <div className="px-4 pb-4">
+              <WaveformEditor buffer={editResult.buffer} history={editHistory} onHistoryChange={setEditHistory} />
+            </div>
+          </details>
+        )}
+
+        {editResult && (
+          <details className="mt-4 bg-gray-900 border border-gray-800 rounded-lg">
+            <summary className="cursor-pointer select-none px-4 py-3 text-sm font-medium text-gray-300 flex items-center gap-2">
+              <Music size={16} className="text-indigo-400" /> Background Music
+              {hasMusic(musicTracks) && (
+                <span className="text-xs text-indigo-300 font-normal">(mixed into playback and exports)</span>
+              )}
+            </summary>
+            <div className="px-4 pb-4">
+              <MusicPanel
+                tracks={musicTracks}
+                settings={mixSettings}
+                onTracksChange={setMusicTracks}
+                onSettingsChange={handleMixSettingsChange}
+              />
+            </div>
+          </details>
+        )}
 
         {error && (
           <div className="mt-4 p-4 bg-red-900/30 border border-red-800 text-red-300 rounded-lg text-center text-sm">
-            {error}
+            {typeof error === 'string' ? error : (
+              <>
+                <p>{error.localized.en}</p>
+                <p className="mt-1 font-arabic" dir="rtl">{error.localized.ar}</p>
+              </>
+            )}
+          </div>
+        )}
+
+        {collectWarnings(chunks).length > 0 && (
+          <div className="mt-4 p-4 bg-yellow-900/20 border border-yellow-800/60 text-yellow-200 rounded-lg text-sm">
+            <div className="flex items-center gap-2 font-medium mb-2">
+              <AlertTriangle size={16} /> Some SSML could not be honoured by the model
+            </div>
+            <ul className="list-disc pl-5 space-y-1 text-xs text-yellow-300/90">
+              {collectWarnings(chunks).map(warning => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
           </div>
         )}
       </div>
 
-      {/* Step 5: Output */}
+      {/* Library */}
+      <StepSection number={5} title="History & Projects">
+        <HistoryPanel
+          activeProjectId={activeProjectId}
+          onActiveProjectChange={handleActiveProjectChange}
+          refreshKey={historyRefreshKey}
+          onRestore={handleRestore}
+        />
+      </StepSection>
+
+      {/* Batch */}
+      <StepSection number={6} title="Batch Render">
+        <BatchPanel
+          defaults={{
+            voiceId: selectedVoice.id,
+            dialectCode: selectedDialect.code,
+            settings,
+            normalize: normalizeEnabled,
+            lexiconEntries
+          }}
+          bypassCache={forceRegenerate}
+          onRendered={refreshCacheStats}
+        />
+      </StepSection>
+
+      {/* Long documents */}
+      <StepSection number={7} title="Long Documents">
+        <ChapterPanel
+          defaults={{
+            voiceId: selectedVoice.id,
+            dialectCode: selectedDialect.code,
+            settings,
+            normalize: normalizeEnabled,
+            lexiconEntries
+          }}
+          bypassCache={forceRegenerate}
+          pastedText={isAdvancedMode || isScriptMode ? '' : text}
+          onRendered={refreshCacheStats}
+        />
+      </StepSection>
+
+      {/* Output */}
       {wavUrl && (
         <div className="fixed bottom-0 left-0 w-full bg-gray-900/95 backdrop-blur-lg border-t border-gray-800 p-4 md:p-6 shadow-2xl z-50 animate-slide-up">
           <div className="max-w-3xl mx-auto flex flex-col md:flex-row items-center gap-6">
             
             {/* Player Info */}
             <div className="hidden md:flex flex-col">
-              <span className="text-indigo-400 text-xs font-bold uppercase tracking-wider">Ready to play</span>
+              <span className="text-indigo-400 text-xs font-bold uppercase tracking-wider">
+                {isEnhancing ? 'Enhancing...' : 'Ready to play'}
+              </span>
               <span className="text-white font-medium text-sm truncate w-32">Generated Audio</span>
             </div>
 
+            {/* A/B: enhanced vs. raw model output */}
+            <div className="flex rounded-full bg-gray-800 border border-gray-700 p-0.5 text-xs font-semibold shrink-0">
+              {(['processed', 'raw'] as const).map(source => (
+                <button
+                  key={source}
+                  onClick={() => handleSwitchPlayback(source)}
+                  className={`px-3 py-1 rounded-full transition-colors ${
+                    playbackSource === source ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-200'
+                  }`}
+                  title={source === 'processed' ? 'Play with the Clarity chain applied' : 'Play the unprocessed model output'}
+                >
+                  {source === 'processed' ? 'A: Enhanced' : 'B: Raw'}
+                </button>
+              ))}
+            </div>
+
             {/* Audio Element */}
             <audio 
-              src={wavUrl} 
+              ref={outputAudioRef}
+              src={playbackSource === 'raw' && rawWavUrl ? rawWavUrl : wavUrl} 
               controls 
-              autoPlay 
+              autoPlay={!liveTake}
+              onLoadedMetadata={handleOutputLoaded}
               className="w-full h-10 outline-none accent-indigo-500"
               style={{ filter: 'invert(0.9)' }} // Quick hack to make default audio player look dark-mode friendly
             />
 
             {/* Actions */}
             <div className="flex gap-3 w-full md:w-auto">
-              <a 
-                href={wavUrl} 
-                download={`hamza-speech-${Date.now()}.wav`}
-                className="flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-2 bg-gray-100 hover:bg-white text-gray-900 rounded-full font-semibold text-sm transition-colors"
+              <button
+                onClick={() => handleQuickExport('wav')}
+                disabled={isExporting}
+                className="flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-2 bg-gray-100 hover:bg-white text-gray-900 rounded-full font-semibold text-sm transition-colors disabled:opacity-50"
               >
                 <Download size={16} /> WAV
-              </a>
+              </button>
               
-              {mp3Url && (
-                <a 
-                  href={mp3Url} 
-                  download={`hamza-speech-${Date.now()}.mp3`}
-                  className="flex-1 md:flex-none flex items-center justify-center gap-2 px-6 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-full font-semibold text-sm transition-colors"
+              <div className="flex-1 md:flex-none flex rounded-full bg-indigo-600 overflow-hidden text-white text-sm font-semibold">
+                <button
+                  onClick={() => handleQuickExport('mp3')}
+                  disabled={isExporting}
+                  className="flex items-center justify-center gap-2 pl-6 pr-4 py-2 hover:bg-indigo-500 transition-colors disabled:opacity-50"
+                >
+                  {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} MP3
+                </button>
+                <button
+                  onClick={async () => setExportMetadata(await buildExportMetadata())}
+                  className="px-3 py-2 border-l border-indigo-400/40 hover:bg-indigo-500 transition-colors"
+                  title="More formats and options (FLAC, Ogg Opus, sample rate, bit depth, tags)"
                 >
-                  <Download size={16} /> MP3
-                </a>
+                  <Settings2 size={16} />
+                </button>
+              </div>
+
+              {chunks.length > 0 && chunks.every(c => c.status === 'done') && (
+                <div className="flex rounded-full bg-gray-800 border border-gray-700 overflow-hidden text-sm font-semibold">
+                  <button
+                    onClick={() => handleDownloadCaptions('srt')}
+                    className="flex items-center gap-1.5 px-4 py-2 text-gray-200 hover:bg-gray-700 transition-colors"
+                    title="Download subtitles (SubRip)"
+                  >
+                    <Captions size={16} /> SRT
+                  </button>
+                  <button
+                    onClick={() => handleDownloadCaptions('vtt')}
+                    className="px-4 py-2 border-l border-gray-700 text-gray-200 hover:bg-gray-700 transition-colors"
+                    title="Download subtitles (WebVTT)"
+                  >
+                    VTT
+                  </button>
+                </div>
               )}
             </div>
           </div>
         </div>
       )}
       
+      {exportMetadata && mixResult && (
+        <ExportDialog
+          buffer={mixResult.buffer}
+          options={exportOptions}
+          metadata={exportMetadata}
+          onOptionsChange={handleExportOptionsChange}
+          onExport={handleExport}
+          onClose={() => setExportMetadata(null)}
+        />
+      )}
+
+      {libraryTab && (
+        <PersonaManager
+          personas={personas}
+          presets={presets}
+          initialTab={libraryTab}
+          current={{ dialectCode: selectedDialect.code, settings }}
+          onLibraryChange={refreshLibrary}
+          onClose={() => setLibraryTab(null)}
+        />
+      )}
+
       {/* Spacer for sticky footer */}
       <div className="h-24"></div>
     </div>
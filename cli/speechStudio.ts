@@ -0,0 +1,278 @@
+import { parseArgs } from "node:util";
+import { readFile, writeFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { DEFAULT_VOICE_SETTINGS, EmotionType, SUPPORTED_DIALECTS, VoiceSettings } from "../types";
+import { findVoice, listVoices } from "../services/voiceCatalog";
+import { getProviderConfig, PROVIDER_OPTIONS, ProviderId, setProviderConfig } from "../services/ttsProvider";
+import { configureGeminiClient, DEFAULT_GEMINI_MODEL } from "../services/geminiService";
+import { renderText } from "../services/textRenderer";
+import { DEFAULT_EXPORT_OPTIONS, encodeAudio, ExportFormat, ExportOptions, MP3_BITRATES, Mp3Bitrate } from "../services/audioExport";
+import { conformToProfile, DELIVERY_PROFILES, findDeliveryProfile, formatComplianceReport } from "../services/deliveryProfiles";
+import { CancelledError, toErrorPayload, TTSError } from "../services/ttsErrors";
+
+// speech-studio: the studio's synthesis from the command line. Audio goes to a file or
+// stdout; --json reports the result (or the error) as one JSON object for scripts.
+
+const USAGE = `Usage:
+  speech-studio synth [options]    Synthesize text to WAV, MP3 or FLAC
+  speech-studio voices [--json]    List voice ids and dialect codes
+
+Synth options:
+  --in <file|->          Text to read; "-" or no --in/--text reads stdin
+  --text <text>          Text given inline
+  --ssml                 The input is SSML rather than plain text
+  --voice <id|name>      Voice (default v_narrator)
+  --dialect <code>       Dialect code, e.g. ar-EG (default ar-XA)
+  --emotion <name>       ${Object.values(EmotionType).join(', ')}
+  --speed <0.5-2>        Speaking rate (default 1)
+  --pitch <-50-50>       Pitch offset in percent (default 0)
+  --style-intensity <n>  Strength of inline [style] spans, 10-200 (default 100)
+  --clarity <0-100>      Clarity enhancement; needs Web Audio, so skipped under Node (default 0)
+  --no-normalize         Send the text without dialect normalization
+  --out <file|->         Output file; "-" writes to stdout
+  --format <fmt>         wav, mp3 or flac (default: from --out, else wav)
+  --sample-rate <hz>     Resample the output
+  --bitrate <kbps>       MP3 bitrate (default ${DEFAULT_EXPORT_OPTIONS.mp3Bitrate})
+  --profile <id>         Delivery profile: ${DELIVERY_PROFILES.map(p => p.id).join(', ')}. Sets the format
+                         unless --format is given, normalizes and limits, and checks compliance
+  --report <file>        Write the compliance report of --profile to a text file
+  --provider <id>        ${PROVIDER_OPTIONS.map(p => p.id).join(' or ')} (default gemini)
+  --model <name>         Gemini TTS model (default ${DEFAULT_GEMINI_MODEL})
+  --api-key <key>        Gemini API key (default: API_KEY or GEMINI_API_KEY)
+  --proxy <url>          Call Gemini through a speech proxy instead of with a key
+  --json                 Print a JSON summary instead of messages
+`;
+
+const CLI_FORMATS: ExportFormat[] = ['wav', 'mp3', 'flac']; // Ogg Opus needs WebCodecs
+
+// Bad arguments; reported with exit code 2
+class UsageError extends Error {}
+
+const readStdin = async (): Promise<string> => {
+  const parts: Buffer[] = [];
+  for await (const part of process.stdin) parts.push(part as Buffer);
+  return Buffer.concat(parts).toString('utf8');
+};
+
+const writeStdout = (data: Uint8Array | string) =>
+  new Promise<void>((resolve, reject) => process.stdout.write(data, err => (err ? reject(err) : resolve())));
+
+const parseNumber = (flag: string, value: string | undefined, min: number, max: number): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min || n > max) throw new UsageError(`--${flag} must be a number from ${min} to ${max}.`);
+  return n;
+};
+
+const resolveVoice = (value: string) => {
+  const voice = findVoice(value) ?? listVoices().find(v => v.name.toLowerCase() === value.toLowerCase());
+  if (!voice) throw new UsageError(`Unknown voice "${value}". Run "speech-studio voices" for the list.`);
+  return voice;
+};
+
+const resolveDialect = (value: string) => {
+  const dialect = SUPPORTED_DIALECTS.find(d => d.code.toLowerCase() === value.toLowerCase());
+  if (!dialect) throw new UsageError(`Unknown dialect "${value}". Run "speech-studio voices" for the list.`);
+  return dialect;
+};
+
+const resolveEmotion = (value: string): EmotionType => {
+  const emotion = Object.values(EmotionType).find(e => e.toLowerCase() === value.toLowerCase());
+  if (!emotion) throw new UsageError(`Unknown emotion "${value}". Use one of: ${Object.values(EmotionType).join(', ')}.`);
+  return emotion;
+};
+
+const resolveFormat = (format: string | undefined, out: string | undefined): ExportFormat => {
+  const value = (format ?? (out && out !== '-' ? extname(out).slice(1) : 'wav')).toLowerCase();
+  const match = CLI_FORMATS.find(f => f === value);
+  if (!match) throw new UsageError(`Unsupported format "${value}". Use ${CLI_FORMATS.join(', ')}.`);
+  return match;
+};
+
+const synth = async (args: string[], json: boolean) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      in: { type: 'string' },
+      text: { type: 'string' },
+      ssml: { type: 'boolean' },
+      voice: { type: 'string', default: 'v_narrator' },
+      dialect: { type: 'string', default: 'ar-XA' },
+      emotion: { type: 'string' },
+      speed: { type: 'string' },
+      pitch: { type: 'string' },
+      'style-intensity': { type: 'string' },
+      clarity: { type: 'string' },
+      'no-normalize': { type: 'boolean' },
+      out: { type: 'string' },
+      format: { type: 'string' },
+      'sample-rate': { type: 'string' },
+      bitrate: { type: 'string' },
+      profile: { type: 'string' },
+      report: { type: 'string' },
+      provider: { type: 'string', default: 'gemini' },
+      model: { type: 'string', default: DEFAULT_GEMINI_MODEL },
+      'api-key': { type: 'string' },
+      proxy: { type: 'string' },
+      json: { type: 'boolean' }
+    }
+  });
+
+  const voice = resolveVoice(values.voice!);
+  const dialect = resolveDialect(values.dialect!);
+  const profile = values.profile !== undefined ? findDeliveryProfile(values.profile) : undefined;
+  if (values.profile !== undefined && !profile) {
+    throw new UsageError(`Unknown delivery profile "${values.profile}". Use ${DELIVERY_PROFILES.map(p => p.id).join(', ')}.`);
+  }
+  if (values.report !== undefined && !profile) throw new UsageError("--report needs --profile.");
+  const format = profile?.format.format && values.format === undefined ? profile.format.format : resolveFormat(values.format, values.out);
+  const toStdout = values.out === '-' || (values.out === undefined && !process.stdout.isTTY);
+  if (values.out === undefined && !toStdout) throw new UsageError("Give --out <file>, or --out - to write the audio to stdout.");
+
+  const provider = PROVIDER_OPTIONS.find(p => p.id === values.provider)?.id as ProviderId | undefined;
+  if (!provider) throw new UsageError(`Unknown provider "${values.provider}".`);
+  const bitrate = parseNumber('bitrate', values.bitrate, 0, 320);
+  if (bitrate !== undefined && !MP3_BITRATES.includes(bitrate as Mp3Bitrate)) {
+    throw new UsageError(`--bitrate must be one of ${MP3_BITRATES.join(', ')}.`);
+  }
+
+  // Persona voices bring their own defaults, the same as picking one in the app
+  const base = voice.settings ?? DEFAULT_VOICE_SETTINGS;
+  const settings: VoiceSettings = {
+    ...base,
+    emotion: values.emotion ? resolveEmotion(values.emotion) : base.emotion,
+    speed: parseNumber('speed', values.speed, 0.5, 2) ?? base.speed,
+    pitch: parseNumber('pitch', values.pitch, -50, 50) ?? base.pitch,
+    styleIntensity: parseNumber('style-intensity', values['style-intensity'], 10, 200) ?? base.styleIntensity,
+    clarity: parseNumber('clarity', values.clarity, 0, 100) ?? 0
+  };
+
+  let text: string;
+  if (values.text !== undefined) text = values.text;
+  else if (values.in !== undefined && values.in !== '-') text = await readFile(values.in, 'utf8');
+  else if (!process.stdin.isTTY) text = await readStdin();
+  else throw new UsageError("Give the text with --in <file>, --text or on stdin.");
+  if (!text.trim()) throw new UsageError("The input text is empty.");
+
+  const proxyConfig = values.proxy !== undefined ? { transport: 'proxy' as const, proxyUrl: values.proxy } : {};
+  setProviderConfig({ ...getProviderConfig(), ...proxyConfig, providerId: provider, geminiModel: values.model! });
+  if (values['api-key']) configureGeminiClient({ apiKey: values['api-key'] });
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort(new CancelledError()));
+
+  const rendered = await renderText({
+    text,
+    isSSML: values.ssml,
+    voiceId: voice.id,
+    dialectCode: dialect.code,
+    settings,
+    normalize: !values['no-normalize'],
+    signal: controller.signal
+  });
+
+  // Explicit flags win over the profile's settings; the report then shows what no longer matches
+  const profileOptions: ExportOptions = { ...DEFAULT_EXPORT_OPTIONS, ...profile?.format, format, deliveryProfileId: profile?.id ?? null };
+  const options: ExportOptions = {
+    ...profileOptions,
+    sampleRate: parseNumber('sample-rate', values['sample-rate'], 8000, 192000) ?? profileOptions.sampleRate,
+    mp3Bitrate: (bitrate as Mp3Bitrate | undefined) ?? profileOptions.mp3Bitrate
+  };
+  const delivery = profile ? conformToProfile(rendered.audio, profile, options) : null;
+  const blob = await encodeAudio(delivery?.buffer ?? rendered.audio, options);
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (toStdout) await writeStdout(bytes);
+  else await writeFile(values.out!, bytes);
+  if (delivery && values.report !== undefined) {
+    await writeFile(values.report, formatComplianceReport(delivery.report, toStdout ? '(stdout)' : values.out!));
+  }
+
+  const summary = {
+    ok: true,
+    output: toStdout ? '-' : values.out,
+    format,
+    bytes: bytes.length,
+    durationSec: Math.round(rendered.audio.duration * 1000) / 1000,
+    sampleRate: rendered.audio.sampleRate,
+    voice: voice.id,
+    dialect: dialect.code,
+    chunks: rendered.chunks,
+    cached: rendered.cached,
+    warnings: rendered.warnings,
+    compliance: delivery?.report
+  };
+
+  // Messages never share stdout with audio
+  if (json) {
+    const line = JSON.stringify(summary) + '\n';
+    if (toStdout) process.stderr.write(line);
+    else await writeStdout(line);
+    return;
+  }
+  rendered.warnings.forEach(w => process.stderr.write(`warning: ${w}\n`));
+  if (delivery) {
+    const { report } = delivery;
+    process.stderr.write(`${report.profileLabel}: ${report.passed ? 'pass' : 'FAIL'}\n`);
+    report.checks.filter(c => !c.passed).forEach(c => process.stderr.write(`  ${c.label}: ${c.measured}, required ${c.required}\n`));
+  }
+  if (!toStdout) {
+    process.stderr.write(`Wrote ${values.out} (${summary.durationSec.toFixed(1)} s, ${Math.round(bytes.length / 1024)} KB)\n`);
+  }
+};
+
+const voices = async (json: boolean) => {
+  const voiceList = listVoices().map(v => ({ id: v.id, name: v.name, gender: v.gender, type: v.type }));
+  const dialects = SUPPORTED_DIALECTS.map(d => ({ code: d.code, label: d.label }));
+  if (json) {
+    await writeStdout(JSON.stringify({ voices: voiceList, dialects }) + '\n');
+    return;
+  }
+  const lines = [
+    'Voices:',
+    ...voiceList.map(v => `  ${v.id.padEnd(16)} ${v.name} (${v.gender}, ${v.type})`),
+    '',
+    'Dialects:',
+    ...dialects.map(d => `  ${d.code.padEnd(16)} ${d.label}`)
+  ];
+  await writeStdout(lines.join('\n') + '\n');
+};
+
+const reportError = (err: unknown, json: boolean): number => {
+  const exitCode = err instanceof UsageError || String((err as any)?.code).startsWith('ERR_PARSE_ARGS') ? 2 : 1;
+  const error = err instanceof TTSError
+    ? toErrorPayload(err)
+    : { code: exitCode === 2 ? 'usage' : 'unknown', message: (err as any)?.message ?? String(err) };
+
+  if (json) process.stdout.write(JSON.stringify({ ok: false, error }) + '\n');
+  else process.stderr.write(`speech-studio: ${error.message}\n${exitCode === 2 ? `\n${USAGE}` : ''}`);
+  return exitCode;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const [command, ...rest] = argv;
+  const json = rest.includes('--json');
+  try {
+    switch (command) {
+      case 'synth':
+        await synth(rest, json);
+        return 0;
+      case 'voices':
+        await voices(json);
+        return 0;
+      case undefined:
+      case 'help':
+      case '--help':
+      case '-h':
+        process.stdout.write(USAGE);
+        return 0;
+      default:
+        throw new UsageError(`Unknown command "${command}".`);
+    }
+  } catch (err) {
+    return reportError(err, json);
+  }
+};
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
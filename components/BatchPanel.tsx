@@ -0,0 +1,261 @@
+import React, { useRef, useState } from 'react';
+import { SUPPORTED_DIALECTS } from '../types';
+import { ManifestIssue, parseManifest } from '../services/batchManifest';
+import { findVoice } from '../services/voiceCatalog';
+import {
+  BatchControl,
+  BatchDefaults,
+  BatchFormat,
+  BatchRow,
+  buildBatchZip,
+  createBatchControl,
+  createBatchRows,
+  renderBatch
+} from '../services/batchRenderer';
+import { Upload, Play, Pause, RotateCcw, Download, Loader2, Zap } from 'lucide-react';
+
+interface BatchPanelProps {
+  defaults: BatchDefaults;
+  bypassCache: boolean;
+  onRendered?: () => void;
+}
+
+const statusStyles: Record<BatchRow['status'], string> = {
+  pending: 'text-gray-500',
+  rendering: 'text-indigo-300 animate-pulse',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+const FORMAT_OPTIONS: { value: BatchFormat; label: string }[] = [
+  { value: 'wav', label: 'WAV' },
+  { value: 'mp3', label: 'MP3' },
+  { value: 'both', label: 'WAV + MP3' },
+];
+
+// Renders a CSV/JSON manifest row by row and packs the results into one ZIP
+export const BatchPanel: React.FC<BatchPanelProps> = ({ defaults, bypassCache, onRendered }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ManifestIssue[]>([]);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [format, setFormat] = useState<BatchFormat>('wav');
+  const [running, setRunning] = useState<boolean>(false);
+  const [paused, setPaused] = useState<boolean>(false);
+  const [isZipping, setIsZipping] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const controlRef = useRef<BatchControl>(createBatchControl());
+
+  const doneCount = rows.filter(r => r.status === 'done').length;
+  const failedCount = rows.filter(r => r.status === 'failed').length;
+  const percent = rows.length ? Math.round((doneCount / rows.length) * 100) : 0;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    try {
+      const parsed = parseManifest(await file.text(), file.name);
+      setFileName(file.name);
+      setIssues(parsed.issues);
+      setRows(createBatchRows(parsed.items));
+      if (parsed.items.length === 0) setMessage('The manifest has no usable rows.');
+    } catch (err: any) {
+      setMessage(`Could not read ${file.name}: ${err.message}`);
+    }
+  };
+
+  const run = async (initial: BatchRow[], ids?: string[]) => {
+    setRunning(true);
+    setMessage(null);
+    try {
+      await renderBatch(initial, {
+        defaults,
+        format,
+        control: controlRef.current,
+        ids,
+        bypassCache,
+        onProgress: setRows
+      });
+    } catch (err: any) {
+      setMessage(err.message || 'Batch rendering failed.');
+    } finally {
+      setRunning(false);
+      onRendered?.();
+    }
+  };
+
+  // Output format changes invalidate finished rows, so a fresh start renders everything
+  const handleStart = () => run(createBatchRows(rows.map(r => r.item)));
+
+  const handleTogglePause = () => {
+    if (controlRef.current.paused) controlRef.current.resume();
+    else controlRef.current.pause();
+    setPaused(controlRef.current.paused);
+  };
+
+  const handleDownload = async () => {
+    setIsZipping(true);
+    try {
+      const blob = await buildBatchZip(rows, issues);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${(fileName ?? 'batch').replace(/\.[^.]+$/, '')}-${Date.now()}.zip`;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err: any) {
+      setMessage(err.message || 'Could not build the ZIP.');
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const voiceLabel = (row: BatchRow) => findVoice(row.item.voiceId ?? defaults.voiceId)?.name;
+  const dialectLabel = (row: BatchRow) => SUPPORTED_DIALECTS.find(d => d.code === (row.item.dialectCode ?? defaults.dialectCode))?.label;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Import a CSV or JSON manifest with <code>id</code> and <code>text</code> columns, and optionally <code>voice</code>,{' '}
+        <code>dialect</code>, <code>pitch</code>, <code>speed</code>, <code>emotion</code>, <code>clarity</code>,{' '}
+        <code>exactProsody</code> and <code>styleIntensity</code>. Text may use <code>[style]</code> markup. Anything a row leaves out uses the voice, dialect and settings above.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={running}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+        >
+          <Upload size={12} /> Import manifest
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,.tsv,.json,text/csv,application/json" className="hidden" onChange={handleImport} />
+        {fileName && <span className="text-xs text-gray-400 truncate max-w-[12rem]">{fileName}</span>}
+
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as BatchFormat)}
+          disabled={running}
+          className="ml-auto bg-gray-950 border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        >
+          {FORMAT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="p-3 bg-yellow-900/20 border border-yellow-800/60 rounded-lg text-xs text-yellow-300/90">
+          <p className="font-medium mb-1">{issues.length} row{issues.length === 1 ? '' : 's'} skipped</p>
+          <ul className="list-disc pl-5 space-y-0.5 max-h-24 overflow-y-auto">
+            {issues.map(issue => (
+              <li key={issue.row}>Row {issue.row}: {issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {!running ? (
+              <button
+                onClick={handleStart}
+                className="flex items-center gap-2 px-4 py-2 text-xs font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-500"
+              >
+                <Play size={14} /> Render {rows.length} row{rows.length === 1 ? '' : 's'}
+              </button>
+            ) : (
+              <button
+                onClick={handleTogglePause}
+                className="flex items-center gap-2 px-4 py-2 text-xs font-semibold rounded-md bg-gray-800 border border-gray-700 text-gray-200 hover:bg-gray-700"
+                title={paused ? 'Continue with the remaining rows' : 'Rows already rendering will finish first'}
+              >
+                {paused ? <Play size={14} /> : <Pause size={14} />} {paused ? 'Resume' : 'Pause'}
+              </button>
+            )}
+            {failedCount > 0 && !running && (
+              <button
+                onClick={() => run(rows)}
+                className="flex items-center gap-2 px-4 py-2 text-xs font-semibold rounded-md bg-red-900/50 border border-red-700 text-red-200 hover:bg-red-900 transition-colors"
+              >
+                <RotateCcw size={14} /> Retry {failedCount} failed
+              </button>
+            )}
+            {(doneCount > 0 || failedCount > 0 || issues.length > 0) && !running && (
+              <button
+                onClick={handleDownload}
+                disabled={isZipping}
+                className="ml-auto flex items-center gap-2 px-4 py-2 text-xs font-semibold rounded-md bg-gray-100 text-gray-900 hover:bg-white disabled:opacity-40"
+              >
+                {isZipping ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} Download ZIP
+              </button>
+            )}
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1 text-xs">
+              <span className="text-gray-300 font-medium">
+                {doneCount}/{rows.length} rendered
+                {failedCount > 0 && <span className="text-red-400"> • {failedCount} failed</span>}
+                {running && paused && <span className="text-yellow-300"> • paused</span>}
+              </span>
+              <span className="text-indigo-300 font-mono">{percent}%</span>
+            </div>
+            <div className="w-full h-1.5 bg-gray-800 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto border border-gray-800 rounded-md">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-gray-900 text-gray-400">
+                <tr>
+                  <th className="text-left font-medium px-3 py-1.5">ID</th>
+                  <th className="text-left font-medium px-3 py-1.5">Text</th>
+                  <th className="text-left font-medium px-3 py-1.5">Voice</th>
+                  <th className="text-left font-medium px-3 py-1.5">Status</th>
+                  <th className="px-3 py-1.5"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {rows.map(row => (
+                  <tr key={row.item.id}>
+                    <td className="px-3 py-1.5 font-mono text-gray-300 truncate max-w-[8rem]">{row.item.id}</td>
+                    <td className="px-3 py-1.5 font-arabic text-gray-400 truncate max-w-[14rem]" dir="auto" title={row.item.text}>
+                      {row.item.text}
+                    </td>
+                    <td className="px-3 py-1.5 text-gray-400 whitespace-nowrap" title={dialectLabel(row)}>{voiceLabel(row)}</td>
+                    <td className={`px-3 py-1.5 whitespace-nowrap ${statusStyles[row.status]}`} title={row.error}>
+                      <span className="inline-flex items-center gap-1">
+                        {row.status === 'done' && row.cached && <Zap size={10} className="text-teal-300" />}
+                        {row.status}
+                        {row.attempts > 1 && <span className="text-gray-500">({row.attempts})</span>}
+                      </span>
+                      {row.error && <span className="block text-[10px] text-red-400/80 truncate max-w-[12rem]">{row.error}</span>}
+                    </td>
+                    <td className="px-3 py-1.5 text-right">
+                      {row.status === 'failed' && !running && (
+                        <button
+                          onClick={() => run(rows, [row.item.id])}
+                          className="p-1 text-gray-500 hover:text-indigo-300"
+                          title="Retry this row"
+                        >
+                          <RotateCcw size={12} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {message && <p className="text-xs text-red-400">{message}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,323 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DOCUMENT_EXTENSIONS, importDocument, splitText } from '../services/documentImport';
+import { BatchDefaults } from '../services/batchRenderer';
+import {
+  AudiobookFormat,
+  buildChapteredMp3,
+  buildChapterFiles,
+  ChapterState,
+  createChapterStates,
+  renderChapters
+} from '../services/audiobook';
+import { audioBufferToWav } from '../services/audioUtils';
+import { toFileName } from '../services/batchManifest';
+import { Upload, Scissors, Play, Square, RotateCcw, Download, Loader2, Zap, CheckCircle2, AlertCircle } from 'lucide-react';
+
+interface ChapterPanelProps {
+  defaults: BatchDefaults;
+  bypassCache: boolean;
+  pastedText: string; // Simple-mode text from Step 1; empty when the editor holds SSML or a script
+  onRendered?: () => void;
+}
+
+const FORMAT_OPTIONS: { value: AudiobookFormat; label: string }[] = [
+  { value: 'mp3-files', label: 'MP3 per chapter + playlist' },
+  { value: 'wav-files', label: 'WAV per chapter + playlist' },
+  { value: 'mp3-chaptered', label: 'Single MP3 with chapters' },
+];
+
+const statusStyles: Record<ChapterState['status'], string> = {
+  pending: 'text-gray-500',
+  rendering: 'text-indigo-300 animate-pulse',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// Imports a long document, splits it into chapters and renders them one at a time
+export const ChapterPanel: React.FC<ChapterPanelProps> = ({ defaults, bypassCache, pastedText, onRendered }) => {
+  const [bookTitle, setBookTitle] = useState<string>('');
+  const [author, setAuthor] = useState<string>('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [states, setStates] = useState<ChapterState[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [running, setRunning] = useState<boolean>(false);
+  const [format, setFormat] = useState<AudiobookFormat>('mp3-files');
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const selected = states.find(s => s.chapter.id === selectedId) ?? null;
+  const doneCount = states.filter(s => s.status === 'done').length;
+  const failedCount = states.filter(s => s.status === 'failed').length;
+  const totalDuration = states.reduce((sum, s) => sum + (s.audio?.duration ?? 0), 0);
+
+  // A WAV of the selected chapter for the preview player, released when it changes
+  const selectedAudio = selected?.audio;
+  useEffect(() => {
+    if (!selectedAudio) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(audioBufferToWav(selectedAudio));
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selectedAudio]);
+
+  // Leaving the page stops a render in progress
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const load = (title: string, bookAuthor: string, chapters: ChapterState['chapter'][]) => {
+    setBookTitle(title);
+    setAuthor(bookAuthor);
+    setStates(createChapterStates(chapters));
+    setSelectedId(chapters[0]?.id ?? null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    try {
+      const document = await importDocument(file);
+      setFileName(file.name);
+      load(document.title, document.author, document.chapters);
+    } catch (err: any) {
+      setMessage(`Could not read ${file.name}: ${err.message}`);
+    }
+  };
+
+  const handleSplitText = () => {
+    setMessage(null);
+    const chapters = splitText(pastedText);
+    if (chapters.length === 0) {
+      setMessage('The text above is empty.');
+      return;
+    }
+    setFileName(null);
+    load(bookTitle || 'Untitled', author, chapters);
+  };
+
+  const run = async (ids?: string[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setMessage(null);
+    try {
+      await renderChapters(states, { defaults, ids, bypassCache, signal: controller.signal, onProgress: setStates });
+    } catch (err: any) {
+      setMessage(err.message || 'Rendering failed.');
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+      onRendered?.();
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const book = { title: bookTitle.trim() || 'Untitled', author: author.trim(), language: defaults.dialectCode };
+      const blob = format === 'mp3-chaptered'
+        ? await buildChapteredMp3(states, book)
+        : await buildChapterFiles(states, book, format === 'wav-files' ? 'wav' : 'mp3');
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${toFileName(book.title)}.${format === 'mp3-chaptered' ? 'mp3' : 'zip'}`;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err: any) {
+      setMessage(err.message || 'Could not export the audiobook.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Import a <code>.txt</code>, <code>.md</code> or <code>.epub</code> file, or split the text from Step 1. Chapters are found from headings
+        such as "Chapter 3", "الفصل الثالث" or Markdown <code>#</code> titles, and render with the voice, dialect and settings above.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={running}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+        >
+          <Upload size={12} /> Import document
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={[...DOCUMENT_EXTENSIONS, 'text/plain', 'text/markdown', 'application/epub+zip'].join(',')}
+          className="hidden"
+          onChange={handleImport}
+        />
+        <button
+          onClick={handleSplitText}
+          disabled={running || !pastedText.trim()}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+          title={pastedText ? 'Split the text in Step 1 into chapters' : 'Available in simple mode'}
+        >
+          <Scissors size={12} /> Split the text above
+        </button>
+        {fileName && <span className="text-xs text-gray-400 truncate max-w-[12rem]">{fileName}</span>}
+      </div>
+
+      {states.length > 0 && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="block text-xs text-gray-400">
+              Book title
+              <input
+                value={bookTitle}
+                onChange={(e) => setBookTitle(e.target.value)}
+                dir="auto"
+                className="mt-1 w-full bg-gray-950 border border-gray-700 rounded-md px-2 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              />
+            </label>
+            <label className="block text-xs text-gray-400">
+              Author
+              <input
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                dir="auto"
+                className="mt-1 w-full bg-gray-950 border border-gray-700 rounded-md px-2 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {!running ? (
+              <button
+                onClick={() => run()}
+                disabled={doneCount === states.length}
+                className="flex items-center gap-2 px-4 py-2 text-xs font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40"
+              >
+                <Play size={14} /> {doneCount > 0 ? `Render remaining ${states.length - doneCount}` : `Render ${states.length} chapter${states.length === 1 ? '' : 's'}`}
+              </button>
+            ) : (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="flex items-center gap-2 px-4 py-2 text-xs font-semibold rounded-md bg-gray-800 border border-gray-700 text-gray-200 hover:bg-gray-700"
+                title="Stop after keeping the chapters already rendered"
+              >
+                <Square size={14} /> Cancel
+              </button>
+            )}
+            <span className="text-xs text-gray-400">
+              {doneCount}/{states.length} rendered
+              {failedCount > 0 && <span className="text-red-400"> • {failedCount} failed</span>}
+              {totalDuration > 0 && <span> • {formatDuration(totalDuration)}</span>}
+            </span>
+
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as AudiobookFormat)}
+              disabled={isExporting}
+              className="ml-auto bg-gray-950 border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            >
+              {FORMAT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleExport}
+              disabled={running || isExporting || doneCount === 0}
+              className="flex items-center gap-2 px-4 py-2 text-xs font-semibold rounded-md bg-gray-100 text-gray-900 hover:bg-white disabled:opacity-40"
+              title={doneCount < states.length ? 'Chapters that are not rendered are left out' : undefined}
+            >
+              {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} Export
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-3">
+            {/* Chapter list */}
+            <ol className="max-h-96 overflow-y-auto border border-gray-800 rounded-md divide-y divide-gray-800">
+              {states.map((state, index) => (
+                <li key={state.chapter.id}>
+                  <button
+                    onClick={() => setSelectedId(state.chapter.id)}
+                    className={`w-full flex items-center gap-2 px-3 py-2 text-left text-xs transition-colors ${
+                      state.chapter.id === selectedId ? 'bg-indigo-900/30 text-white' : 'text-gray-300 hover:bg-gray-800'
+                    }`}
+                  >
+                    <span className="font-mono text-gray-500 w-6 shrink-0">{index + 1}</span>
+                    <span className="flex-1 truncate font-arabic" dir="auto">{state.chapter.title}</span>
+                    <span className={`shrink-0 ${statusStyles[state.status]}`} title={state.error ?? state.status}>
+                      {state.status === 'done' ? (
+                        state.cached ? <Zap size={12} className="text-teal-300" /> : <CheckCircle2 size={12} />
+                      ) : state.status === 'failed' ? (
+                        <AlertCircle size={12} />
+                      ) : state.status === 'rendering' ? (
+                        `${Math.round((state.progress ?? 0) * 100)}%`
+                      ) : null}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            {/* Selected chapter */}
+            {selected && (
+              <div className="border border-gray-800 rounded-md p-3 space-y-3 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className="flex-1 text-sm font-medium text-white truncate font-arabic" dir="auto">{selected.chapter.title}</h3>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {selected.chapter.text.length.toLocaleString()} chars
+                    {selected.audio && ` • ${formatDuration(selected.audio.duration)}`}
+                  </span>
+                  <button
+                    onClick={() => run([selected.chapter.id])}
+                    disabled={running}
+                    className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+                    title={selected.status === 'done' ? 'Render a new take of this chapter' : 'Render this chapter'}
+                  >
+                    {selected.status === 'done' ? <RotateCcw size={12} /> : <Play size={12} />}
+                    {selected.status === 'done' ? 'Re-render' : 'Render'}
+                  </button>
+                </div>
+
+                {selected.status === 'rendering' && (
+                  <div className="w-full h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round((selected.progress ?? 0) * 100)}%` }} />
+                  </div>
+                )}
+                {selected.error && <p className="text-xs text-red-400">{selected.error}</p>}
+                {selected.warnings && selected.warnings.length > 0 && (
+                  <ul className="list-disc pl-5 text-xs text-yellow-300/90">
+                    {selected.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                  </ul>
+                )}
+
+                {previewUrl && (
+                  <audio src={previewUrl} controls className="w-full h-10 outline-none" style={{ filter: 'invert(0.9)' }} />
+                )}
+
+                <div className="max-h-64 overflow-y-auto whitespace-pre-wrap text-sm text-gray-400 font-arabic leading-relaxed" dir="auto">
+                  {selected.chapter.text}
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {message && <p className="text-xs text-red-400">{message}</p>}
+    </div>
+  );
+};
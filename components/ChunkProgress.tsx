@@ -0,0 +1,67 @@
+import React from 'react';
+import { ChunkState } from '../services/synthesisPipeline';
+import { RotateCcw, Zap } from 'lucide-react';
+
+interface ChunkProgressProps {
+  chunks: ChunkState[];
+  onRetryFailed: () => void;
+  busy: boolean;
+}
+
+const statusStyles: Record<ChunkState['status'], string> = {
+  pending: 'bg-gray-800 border-gray-700',
+  generating: 'bg-indigo-700 border-indigo-500 animate-pulse',
+  done: 'bg-green-700 border-green-500',
+  failed: 'bg-red-800 border-red-500',
+};
+
+const cachedStyle = 'bg-teal-800 border-teal-400';
+
+export const ChunkProgress: React.FC<ChunkProgressProps> = ({ chunks, onRetryFailed, busy }) => {
+  if (chunks.length === 0) return null;
+
+  const doneCount = chunks.filter(c => c.status === 'done').length;
+  const failedCount = chunks.filter(c => c.status === 'failed').length;
+  const cachedCount = chunks.filter(c => c.status === 'done' && c.cached).length;
+  const percent = Math.round((doneCount / chunks.length) * 100);
+
+  return (
+    <div className="mt-4 p-4 bg-gray-900 border border-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-2 text-xs">
+        <span className="text-gray-300 font-medium">
+          Chunks: {doneCount}/{chunks.length} complete
+          {cachedCount > 0 && (
+            <span className="text-teal-300 inline-flex items-center gap-0.5"> • <Zap size={10} /> {cachedCount} from cache</span>
+          )}
+          {failedCount > 0 && <span className="text-red-400"> • {failedCount} failed</span>}
+        </span>
+        <span className="text-indigo-300 font-mono">{percent}%</span>
+      </div>
+
+      <div className="w-full h-1.5 bg-gray-800 rounded-full overflow-hidden mb-3">
+        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {chunks.map(chunk => (
+          <div
+            key={chunk.index}
+            title={`#${chunk.index + 1} • ${chunk.status}${chunk.cached ? ' (cached)' : ''}${chunk.error ? ` • ${chunk.error}` : ''}\n${chunk.text.replace(/<[^>]+>/g, '').trim().slice(0, 120)}`}
+            className={`w-6 h-6 rounded border text-[10px] flex items-center justify-center text-white/80 ${chunk.status === 'done' && chunk.cached ? cachedStyle : statusStyles[chunk.status]}`}
+          >
+            {chunk.index + 1}
+          </div>
+        ))}
+      </div>
+
+      {failedCount > 0 && !busy && (
+        <button
+          onClick={onRetryFailed}
+          className="mt-3 flex items-center gap-2 px-4 py-2 text-xs font-semibold rounded-md bg-red-900/50 border border-red-700 text-red-200 hover:bg-red-900 transition-colors"
+        >
+          <RotateCcw size={14} /> Retry {failedCount} failed chunk{failedCount > 1 ? 's' : ''}
+        </button>
+      )}
+    </div>
+  );
+};
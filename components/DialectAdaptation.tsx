@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { DialectOption } from '../types';
+import { adaptToDialect } from '../services/dialectAdapter';
+import { applyDiff, diffWords, DiffPart } from '../services/wordDiff';
+import { Wand2, Loader2, Check, X } from 'lucide-react';
+
+interface DialectAdaptationProps {
+  text: string;
+  dialect: DialectOption;
+  onApply: (text: string) => void;
+}
+
+// Asks the text model for a dialect rewrite and lets the user accept it change by change
+export const DialectAdaptation: React.FC<DialectAdaptationProps> = ({ text, dialect, onApply }) => {
+  const [isAdapting, setIsAdapting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [review, setReview] = useState<{ source: string; parts: DiffPart[] } | null>(null);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+
+  // A pending review no longer applies once the text or dialect changes underneath it
+  useEffect(() => {
+    if (review && review.source !== text) setReview(null);
+  }, [text]);
+  useEffect(() => setReview(null), [dialect.code]);
+
+  const changes = review?.parts.filter((p): p is Extract<DiffPart, { kind: 'change' }> => p.kind === 'change') ?? [];
+
+  const handleAdapt = async () => {
+    setError(null);
+    setIsAdapting(true);
+    try {
+      const adapted = await adaptToDialect(text, dialect);
+      const parts = diffWords(text, adapted);
+      setReview({ source: text, parts });
+      setAccepted(new Set(parts.flatMap(p => (p.kind === 'change' ? [p.id] : []))));
+    } catch (err: any) {
+      setError(err.message || "Dialect adaptation failed.");
+    } finally {
+      setIsAdapting(false);
+    }
+  };
+
+  const toggle = (id: number) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!review) return;
+    onApply(applyDiff(review.parts, accepted));
+    setReview(null);
+  };
+
+  return (
+    <div className="mt-4 bg-gray-800/30 p-3 rounded-lg border border-gray-700/50">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex flex-col">
+          <span className="text-sm font-medium text-gray-200">Dialect adaptation</span>
+          <span className="text-xs text-gray-500">Rewrite the wording into {dialect.label}, then review each change</span>
+        </div>
+        <button
+          onClick={handleAdapt}
+          disabled={isAdapting || !text.trim()}
+          className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40"
+        >
+          {isAdapting ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
+          Adapt to {dialect.nativeLabel}
+        </button>
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+
+      {review && (
+        <div className="mt-3">
+          {changes.length === 0 ? (
+            <p className="text-xs text-gray-400">The text already reads naturally in {dialect.label}; nothing to change.</p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500 mb-2">
+                {accepted.size} of {changes.length} change{changes.length === 1 ? '' : 's'} accepted. Click a change to toggle it.
+              </p>
+              <div className="font-arabic text-base leading-loose text-gray-300 whitespace-pre-wrap bg-gray-950 border border-gray-800 rounded-lg p-3 max-h-64 overflow-y-auto" dir="rtl">
+                {review.parts.map((part, i) =>
+                  part.kind === 'equal' ? (
+                    <span key={i}>{part.text}</span>
+                  ) : (
+                    <button
+                      key={i}
+                      onClick={() => toggle(part.id)}
+                      className={`rounded px-0.5 ${accepted.has(part.id) ? 'bg-green-900/40' : 'bg-gray-800/60'}`}
+                      title={accepted.has(part.id) ? 'Accepted - click to keep the original' : 'Rejected - click to accept'}
+                    >
+                      {accepted.has(part.id) ? (
+                        <>
+                          {part.removed && <del className="text-red-400/80">{part.removed}</del>}
+                          {part.added && <ins className="text-green-300 no-underline">{part.added}</ins>}
+                        </>
+                      ) : (
+                        <>
+                          {part.removed && <span className="text-gray-200">{part.removed}</span>}
+                          {part.added && <del className="text-gray-500">{part.added}</del>}
+                        </>
+                      )}
+                    </button>
+                  )
+                )}
+              </div>
+            </>
+          )}
+          <div className="mt-2 flex gap-2 justify-end">
+            <button
+              onClick={() => setReview(null)}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700"
+            >
+              <X size={12} /> Discard
+            </button>
+            {changes.length > 0 && (
+              <button
+                onClick={handleApply}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-md bg-green-700 text-white hover:bg-green-600"
+              >
+                <Check size={12} /> Apply {accepted.size} change{accepted.size === 1 ? '' : 's'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
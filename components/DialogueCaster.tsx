@@ -0,0 +1,108 @@
+import React from 'react';
+import { SUPPORTED_DIALECTS, SpeakerAssignment } from '../types';
+import { findVoice, listVoices } from '../services/voiceCatalog';
+import { Users, Timer } from 'lucide-react';
+
+interface DialogueCasterProps {
+  speakers: string[];
+  assignments: Record<string, SpeakerAssignment>;
+  onAssign: (speaker: string, assignment: SpeakerAssignment) => void;
+  gapMs: number;
+  onGapChange: (gapMs: number) => void;
+  preferMultiSpeaker: boolean;
+  onPreferMultiSpeakerChange: (value: boolean) => void;
+  multiSpeakerAvailable: boolean;
+}
+
+export const DialogueCaster: React.FC<DialogueCasterProps> = ({
+  speakers,
+  assignments,
+  onAssign,
+  gapMs,
+  onGapChange,
+  preferMultiSpeaker,
+  onPreferMultiSpeakerChange,
+  multiSpeakerAvailable
+}) => {
+  const usingMultiSpeaker = preferMultiSpeaker && multiSpeakerAvailable;
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-400">
+        <Users size={16} className="text-purple-400" /> Cast ({speakers.length} speaker{speakers.length === 1 ? '' : 's'})
+      </label>
+
+      {speakers.length === 0 && (
+        <p className="text-xs text-gray-500">Write lines as <span className="font-mono">Speaker: line</span> to detect the cast.</p>
+      )}
+
+      <div className="space-y-2">
+        {speakers.map(speaker => {
+          const assignment = assignments[speaker];
+          return (
+            <div key={speaker} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center bg-gray-800/50 p-3 rounded-lg border border-gray-700">
+              <span className="text-sm font-bold text-gray-200 font-arabic truncate" dir="auto">{speaker}</span>
+              <select
+                value={assignment.voiceId}
+                // A persona brings its own dialect along
+                onChange={(e) => onAssign(speaker, { voiceId: e.target.value, dialectCode: findVoice(e.target.value)?.dialectCode ?? assignment.dialectCode })}
+                className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              >
+                {listVoices().map(voice => (
+                  <option key={voice.id} value={voice.id}>{voice.name}</option>
+                ))}
+              </select>
+              <select
+                value={assignment.dialectCode}
+                onChange={(e) => onAssign(speaker, { ...assignment, dialectCode: e.target.value })}
+                className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              >
+                {SUPPORTED_DIALECTS.map(dialect => (
+                  <option key={dialect.code} value={dialect.code}>{dialect.label}</option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className={`bg-gray-800/50 p-4 rounded-lg border border-gray-700 transition-opacity ${usingMultiSpeaker ? 'opacity-50' : ''}`}>
+          <div className="flex justify-between mb-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+              <Timer size={16} className="text-yellow-400" /> Gap Between Turns
+            </label>
+            <span className="text-xs text-indigo-300 font-mono">{gapMs} ms</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="2000"
+            step="50"
+            value={gapMs}
+            disabled={usingMultiSpeaker}
+            onChange={(e) => onGapChange(parseInt(e.target.value))}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+          />
+        </div>
+
+        <label className="flex items-start gap-3 bg-gray-800/50 p-4 rounded-lg border border-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={preferMultiSpeaker}
+            onChange={(e) => onPreferMultiSpeakerChange(e.target.checked)}
+            className="mt-1 accent-indigo-500"
+          />
+          <span className="flex flex-col">
+            <span className="text-sm font-medium text-gray-200">Single-pass multi-speaker</span>
+            <span className="text-xs text-gray-500">
+              {multiSpeakerAvailable
+                ? "Render both speakers in one Gemini call. Turn gaps are chosen by the model."
+                : "Needs exactly two speakers with different voices and the same dialect. Lines are rendered one by one."}
+            </span>
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+};
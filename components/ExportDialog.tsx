@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import {
+  EXPORT_FORMATS,
+  EXPORT_SAMPLE_RATES,
+  ExportMetadata,
+  ExportOptions,
+  MP3_BITRATES,
+  Mp3Bitrate,
+  OPUS_BITRATES
+} from '../services/audioExport';
+import { PcmBuffer, WavBitDepth, WavEncoding } from '../services/audioUtils';
+import {
+  ComplianceReport,
+  DELIVERY_PROFILES,
+  findDeliveryProfile,
+  formatLevel,
+  LoudnessMetric,
+  measureForExport,
+  METRICS
+} from '../services/deliveryProfiles';
+import { LoudnessStats } from '../services/loudness';
+import { CheckCircle2, Download, Loader2, X, XCircle } from 'lucide-react';
+
+interface ExportDialogProps {
+  buffer: PcmBuffer;
+  options: ExportOptions;
+  metadata: ExportMetadata;
+  onOptionsChange: (options: ExportOptions) => void;
+  // Resolves with the compliance report when a delivery profile is selected
+  onExport: (options: ExportOptions, metadata: ExportMetadata) => Promise<ComplianceReport | null>;
+  onClose: () => void;
+}
+
+const BIT_DEPTHS: { value: WavBitDepth; label: string }[] = [
+  { value: 16, label: '16-bit' },
+  { value: 24, label: '24-bit' },
+  { value: 32, label: '32-bit float' },
+];
+
+const METADATA_FIELDS: { key: keyof ExportMetadata; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'artist', label: 'Artist' },
+  { key: 'album', label: 'Album / project' },
+  { key: 'language', label: 'Language' },
+  { key: 'comment', label: 'Comment' },
+];
+
+const selectClass = 'w-full bg-gray-950 border border-gray-700 rounded-md px-2 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50';
+const labelClass = 'block text-xs font-medium text-gray-400 mb-1';
+
+const formatStats = (stats: LoudnessStats, metrics: LoudnessMetric[]) =>
+  metrics.map(m => `${formatLevel(stats[m])} ${METRICS[m].unit}`).join(' · ');
+
+// Format, encoding and tag choices for the current take
+export const ExportDialog: React.FC<ExportDialogProps> = ({ buffer, options, metadata: initialMetadata, onOptionsChange, onExport, onClose }) => {
+  const [metadata, setMetadata] = useState<ExportMetadata>(initialMetadata);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [levels, setLevels] = useState<LoudnessStats | null>(null); // The take as it stands, for the selected profile
+  const [report, setReport] = useState<ComplianceReport | null>(null); // Set after a profile export
+
+  const set = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => onOptionsChange({ ...options, [key]: value });
+
+  const sourceSampleRate = buffer.sampleRate;
+  const profile = findDeliveryProfile(options.deliveryProfileId);
+  const profileMetrics = profile ? [...new Set(profile.limits.map(l => l.metric))] : [];
+
+  // Measuring takes a moment on long takes, so it runs after the dialog has painted
+  useEffect(() => {
+    setLevels(null);
+    if (!profile) return;
+    const timer = setTimeout(() => setLevels(measureForExport(buffer, options)), 50);
+    return () => clearTimeout(timer);
+  }, [buffer, profile?.id, options.format, options.sampleRate, options.stereo]);
+
+  const handleProfileChange = (id: string) => {
+    const next = findDeliveryProfile(id);
+    onOptionsChange(next ? { ...options, ...next.format, deliveryProfileId: next.id } : { ...options, deliveryProfileId: null });
+  };
+
+  const isOpus = options.format === 'opus';
+  const isMulaw = options.format === 'wav' && options.wavEncoding === 'mulaw';
+  const bitDepths = options.format === 'flac' ? BIT_DEPTHS.slice(0, 2) : BIT_DEPTHS;
+  const tagKind = options.format === 'mp3' ? 'ID3v2' : options.format === 'wav' ? 'RIFF INFO' : 'Vorbis comment';
+
+  const handleExport = async () => {
+    setError(null);
+    setReport(null);
+    setIsExporting(true);
+    try {
+      const result = await onExport(options, metadata);
+      if (result) setReport(result);
+      else onClose();
+    } catch (err: any) {
+      setError(err.message || 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-gray-900 border border-gray-800 rounded-xl shadow-2xl p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Export audio</h3>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-200" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div>
+          <label className={labelClass}>Delivery profile</label>
+          <select value={options.deliveryProfileId ?? ''} onChange={(e) => handleProfileChange(e.target.value)} className={selectClass}>
+            <option value="">None: export the audio as it is</option>
+            {DELIVERY_PROFILES.map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+          {profile && (
+            <div className="mt-2 text-xs space-y-1">
+              <p className="text-gray-500">{profile.description}</p>
+              <p className="text-gray-400">
+                This take now: <span className="font-mono text-indigo-300">{levels ? formatStats(levels, profileMetrics) : 'measuring…'}</span>
+              </p>
+              <p className="text-gray-500">Export normalizes and limits to the profile and downloads a compliance report with the audio.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex rounded-lg bg-gray-800 border border-gray-700 p-0.5 text-sm font-semibold">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => set('format', format.id)}
+              className={`flex-1 px-3 py-1.5 rounded-md transition-colors ${options.format === format.id ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Sample rate</label>
+            <select
+              value={isOpus ? 48000 : options.sampleRate ?? ''}
+              disabled={isOpus}
+              onChange={(e) => set('sampleRate', e.target.value ? Number(e.target.value) : null)}
+              className={selectClass}
+            >
+              <option value="">Original ({(sourceSampleRate / 1000).toFixed(sourceSampleRate % 1000 ? 2 : 0)} kHz)</option>
+              {EXPORT_SAMPLE_RATES.filter(rate => rate !== sourceSampleRate).map(rate => (
+                <option key={rate} value={rate}>{(rate / 1000).toFixed(rate % 1000 ? 2 : 0)} kHz</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>Channels</label>
+            <select value={options.stereo ? 'stereo' : 'mono'} onChange={(e) => set('stereo', e.target.value === 'stereo')} className={selectClass}>
+              <option value="mono">Mono</option>
+              <option value="stereo">Stereo (duplicated)</option>
+            </select>
+          </div>
+
+          {options.format === 'wav' && (
+            <div>
+              <label className={labelClass}>Encoding</label>
+              <select value={options.wavEncoding} onChange={(e) => set('wavEncoding', e.target.value as WavEncoding)} className={selectClass}>
+                <option value="pcm">PCM</option>
+                <option value="mulaw">μ-law (G.711, 8-bit)</option>
+              </select>
+            </div>
+          )}
+
+          {(options.format === 'wav' || options.format === 'flac') && (
+            <div>
+              <label className={labelClass}>Bit depth</label>
+              <select
+                value={options.format === 'flac' && options.bitDepth === 32 ? 24 : options.bitDepth}
+                disabled={isMulaw}
+                onChange={(e) => set('bitDepth', Number(e.target.value) as WavBitDepth)}
+                className={selectClass}
+              >
+                {bitDepths.map(depth => (
+                  <option key={depth.value} value={depth.value}>{depth.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {options.format === 'mp3' && (
+            <>
+              <div>
+                <label className={labelClass}>Rate control</label>
+                <select value={options.mp3Mode} onChange={(e) => set('mp3Mode', e.target.value as ExportOptions['mp3Mode'])} className={selectClass}>
+                  <option value="cbr">Constant bitrate</option>
+                  <option value="vbr">Variable bitrate</option>
+                </select>
+              </div>
+              {options.mp3Mode === 'cbr' ? (
+                <div>
+                  <label className={labelClass}>Bitrate</label>
+                  <select value={options.mp3Bitrate} onChange={(e) => set('mp3Bitrate', Number(e.target.value) as Mp3Bitrate)} className={selectClass}>
+                    {MP3_BITRATES.map(rate => (
+                      <option key={rate} value={rate}>{rate} kbps</option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div>
+                  <label className={labelClass}>VBR quality (V{options.mp3VbrQuality})</label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={9}
+                    step={1}
+                    value={options.mp3VbrQuality}
+                    onChange={(e) => set('mp3VbrQuality', Number(e.target.value))}
+                    className="w-full accent-indigo-500"
+                    title="0 is the highest quality, 9 the smallest file"
+                  />
+                </div>
+              )}
+            </>
+          )}
+
+          {isOpus && (
+            <div>
+              <label className={labelClass}>Bitrate</label>
+              <select value={options.opusBitrate} onChange={(e) => set('opusBitrate', Number(e.target.value))} className={selectClass}>
+                {OPUS_BITRATES.map(rate => (
+                  <option key={rate} value={rate}>{rate / 1000} kbps</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-gray-400 mb-2">Metadata ({tagKind})</p>
+          <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-2 items-center">
+            {METADATA_FIELDS.map(field => (
+              <React.Fragment key={field.key}>
+                <label className="text-xs text-gray-500">{field.label}</label>
+                <input
+                  value={metadata[field.key]}
+                  onChange={(e) => setMetadata({ ...metadata, [field.key]: e.target.value })}
+                  dir="auto"
+                  className="bg-gray-950 border border-gray-700 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                />
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+
+        {report && (
+          <div className={`rounded-lg border p-3 text-xs ${report.passed ? 'border-green-800 bg-green-900/20' : 'border-red-800 bg-red-900/20'}`}>
+            <p className={`font-semibold mb-2 ${report.passed ? 'text-green-300' : 'text-red-300'}`}>
+              {report.passed ? 'Meets' : 'Does not meet'} {report.profileLabel}
+            </p>
+            <table className="w-full">
+              <tbody>
+                {report.checks.map(check => (
+                  <tr key={check.label} className="text-gray-300">
+                    <td className="py-0.5 pr-2">
+                      {check.passed ? <CheckCircle2 size={12} className="text-green-400" /> : <XCircle size={12} className="text-red-400" />}
+                    </td>
+                    <td className="py-0.5 pr-2">{check.label}</td>
+                    <td className="py-0.5 pr-2 text-gray-500">{check.required}</td>
+                    <td className="py-0.5 font-mono">{check.measured}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-gray-500">
+              Gain {report.gainDb >= 0 ? '+' : ''}{report.gainDb.toFixed(1)} dB, limiting up to {report.limiterReductionDb.toFixed(1)} dB. The report was downloaded next to the audio.
+            </p>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700">
+            {report ? 'Close' : 'Cancel'}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
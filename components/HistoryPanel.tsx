@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SUPPORTED_DIALECTS } from '../types';
+import {
+  GenerationRecord,
+  Project,
+  createProject,
+  deleteGeneration,
+  deleteProject,
+  ensureDefaultProject,
+  filterGenerations,
+  listGenerations,
+  renameProject
+} from '../services/historyStore';
+import { getStorageUsage, StorageUsage } from '../services/db';
+import { audioBufferToWav, getAudioContext, pcmToAudioBuffer } from '../services/audioUtils';
+import { DEFAULT_EXPORT_OPTIONS, encodeAudio } from '../services/audioExport';
+import { renderTake } from '../services/outputRenderer';
+import { findVoice } from '../services/voiceCatalog';
+import { Play, StopCircle, Download, Trash2, RotateCcw, Search, FolderPlus, Pencil, Loader2, HardDrive } from 'lucide-react';
+
+interface HistoryPanelProps {
+  activeProjectId: string | null;
+  onActiveProjectChange: (projectId: string) => void;
+  refreshKey: number; // Bumped by the parent after each save
+  onRestore: (record: GenerationRecord) => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const triggerDownload = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ activeProjectId, onActiveProjectChange, refreshKey, onRestore }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [records, setRecords] = useState<GenerationRecord[]>([]);
+  const [query, setQuery] = useState<string>('');
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  // Load projects once and pick one if the parent has none yet
+  useEffect(() => {
+    ensureDefaultProject()
+      .then(list => {
+        setProjects(list);
+        if (!activeProjectId || !list.some(p => p.id === activeProjectId)) onActiveProjectChange(list[0].id);
+      })
+      .catch(err => setError(err.message));
+  }, []);
+
+  useEffect(() => {
+    if (!activeProjectId) return;
+    listGenerations(activeProjectId)
+      .then(setRecords)
+      .catch(err => setError(err.message));
+    getStorageUsage().then(setUsage);
+  }, [activeProjectId, refreshKey]);
+
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const visible = useMemo(() => filterGenerations(records, query), [records, query]);
+  const activeProject = projects.find(p => p.id === activeProjectId);
+
+  const refresh = async () => {
+    if (activeProjectId) setRecords(await listGenerations(activeProjectId));
+    setUsage(await getStorageUsage());
+  };
+
+  const render = async (record: GenerationRecord) => {
+    const modelBuffer = pcmToAudioBuffer(record.pcm, getAudioContext(), record.sampleRate);
+    return renderTake(modelBuffer, record.settings, record.localProsody);
+  };
+
+  const handlePlay = async (record: GenerationRecord) => {
+    audioRef.current?.pause();
+    if (playingId === record.id) {
+      setPlayingId(null);
+      return;
+    }
+    setBusyId(record.id);
+    try {
+      const url = URL.createObjectURL(audioBufferToWav(await render(record)));
+      const audio = new Audio(url);
+      audioRef.current = audio;
+      audio.onended = () => {
+        setPlayingId(null);
+        URL.revokeObjectURL(url);
+      };
+      await audio.play();
+      setPlayingId(record.id);
+    } catch (err: any) {
+      setError(err.message || 'Playback failed.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDownload = async (record: GenerationRecord, format: 'wav' | 'mp3') => {
+    setBusyId(record.id);
+    try {
+      const buffer = await render(record);
+      const blob = await encodeAudio(buffer, { ...DEFAULT_EXPORT_OPTIONS, format });
+      triggerDownload(blob, `hamza-speech-${record.createdAt}.${format}`);
+    } catch (err: any) {
+      setError(err.message || 'Export failed.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (record: GenerationRecord) => {
+    if (!window.confirm('Delete this take permanently?')) return;
+    if (playingId === record.id) {
+      audioRef.current?.pause();
+      setPlayingId(null);
+    }
+    await deleteGeneration(record.id);
+    await refresh();
+  };
+
+  const handleNewProject = async () => {
+    const name = window.prompt('Project name');
+    if (!name) return;
+    const project = await createProject(name);
+    setProjects(prev => [...prev, project]);
+    onActiveProjectChange(project.id);
+  };
+
+  const handleRenameProject = async () => {
+    if (!activeProject) return;
+    const name = window.prompt('Rename project', activeProject.name);
+    if (!name) return;
+    const renamed = await renameProject(activeProject, name);
+    setProjects(prev => prev.map(p => (p.id === renamed.id ? renamed : p)));
+  };
+
+  const handleDeleteProject = async () => {
+    if (!activeProject) return;
+    if (!window.confirm(`Delete "${activeProject.name}" and all of its takes?`)) return;
+    await deleteProject(activeProject.id);
+    const remaining = await ensureDefaultProject();
+    setProjects(remaining);
+    onActiveProjectChange(remaining[0].id);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Projects */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={activeProjectId ?? ''}
+          onChange={(e) => onActiveProjectChange(e.target.value)}
+          className="flex-1 min-w-[10rem] bg-gray-950 border border-gray-700 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        >
+          {projects.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button onClick={handleNewProject} className="p-2 rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700" title="New project">
+          <FolderPlus size={16} />
+        </button>
+        <button onClick={handleRenameProject} className="p-2 rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700" title="Rename project">
+          <Pencil size={16} />
+        </button>
+        <button onClick={handleDeleteProject} className="p-2 rounded-md bg-gray-800 border border-gray-700 text-red-400 hover:bg-gray-700" title="Delete project">
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search text, voice or dialect..."
+          className="w-full bg-gray-950 border border-gray-700 rounded-md pl-9 pr-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        />
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {/* Takes */}
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {visible.length === 0 && (
+          <p className="text-xs text-gray-500">{records.length === 0 ? 'No takes in this project yet.' : 'No takes match your search.'}</p>
+        )}
+        {visible.map(record => {
+          const voice = findVoice(record.voiceId);
+          const dialect = SUPPORTED_DIALECTS.find(d => d.code === record.dialectCode);
+          const busy = busyId === record.id;
+          return (
+            <div key={record.id} className="bg-gray-800/50 p-3 rounded-lg border border-gray-700">
+              <div className="flex justify-between items-start gap-3">
+                <p className="text-sm text-gray-200 font-arabic line-clamp-2 flex-1" dir="auto">
+                  {record.text.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()}
+                </p>
+                <span className="text-[10px] text-gray-500 font-mono shrink-0">{record.durationSec.toFixed(1)}s</span>
+              </div>
+              <div className="mt-1 text-[11px] text-gray-500">
+                {new Date(record.createdAt).toLocaleString()} • {voice?.name ?? record.voiceId} • {dialect?.label ?? record.dialectCode} • {record.mode}
+              </div>
+              <div className="mt-2 flex flex-wrap gap-2">
+                <button onClick={() => handlePlay(record)} disabled={busy} className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-900 border border-gray-700 text-indigo-300 hover:bg-gray-700">
+                  {busy ? <Loader2 size={12} className="animate-spin" /> : playingId === record.id ? <StopCircle size={12} /> : <Play size={12} />}
+                  {playingId === record.id ? 'Stop' : 'Play'}
+                </button>
+                <button onClick={() => handleDownload(record, 'wav')} disabled={busy} className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-900 border border-gray-700 text-gray-300 hover:bg-gray-700">
+                  <Download size={12} /> WAV
+                </button>
+                <button onClick={() => handleDownload(record, 'mp3')} disabled={busy} className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-900 border border-gray-700 text-gray-300 hover:bg-gray-700">
+                  <Download size={12} /> MP3
+                </button>
+                <button onClick={() => onRestore(record)} className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-900 border border-gray-700 text-gray-300 hover:bg-gray-700">
+                  <RotateCcw size={12} /> Restore settings
+                </button>
+                <button onClick={() => handleDelete(record)} className="ml-auto flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-900 border border-gray-700 text-red-400 hover:bg-gray-700">
+                  <Trash2 size={12} /> Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Quota */}
+      {usage && (
+        <div className="flex items-center gap-2 text-[11px] text-gray-500">
+          <HardDrive size={12} />
+          <span>
+            {formatBytes(usage.usage)} used of {formatBytes(usage.quota)} available
+            {usage.quota > 0 && ` (${((usage.usage / usage.quota) * 100).toFixed(1)}%)`}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useRef, useState } from 'react';
+import { SUPPORTED_DIALECTS } from '../types';
+import {
+  GLOBAL_SCOPE,
+  LexiconEntry,
+  deleteLexiconEntry,
+  importLexiconEntries,
+  listLexiconEntries,
+  parsePLS,
+  saveLexiconEntry,
+  toPLS
+} from '../services/lexicon';
+import { BookA, Plus, Trash2, Upload, Download } from 'lucide-react';
+
+interface LexiconManagerProps {
+  entries: LexiconEntry[];
+  onEntriesChange: (entries: LexiconEntry[]) => void;
+}
+
+const scopeLabel = (scope: string) =>
+  scope === GLOBAL_SCOPE ? 'All dialects' : SUPPORTED_DIALECTS.find(d => d.code === scope)?.label ?? scope;
+
+export const LexiconManager: React.FC<LexiconManagerProps> = ({ entries, onEntriesChange }) => {
+  const [scope, setScope] = useState<string>(GLOBAL_SCOPE);
+  const [grapheme, setGrapheme] = useState<string>('');
+  const [alias, setAlias] = useState<string>('');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const scoped = entries.filter(e => e.scope === scope);
+
+  const reload = async () => onEntriesChange(await listLexiconEntries());
+
+  const run = async (work: () => Promise<void>) => {
+    setMessage(null);
+    try {
+      await work();
+      await reload();
+    } catch (err: any) {
+      setMessage(err.message || 'Lexicon update failed.');
+    }
+  };
+
+  const handleAdd = () => run(async () => {
+    if (!grapheme.trim() || !alias.trim()) return;
+    const existing = scoped.find(e => e.grapheme === grapheme.trim());
+    await saveLexiconEntry({ id: existing?.id, grapheme, alias, scope });
+    setGrapheme('');
+    setAlias('');
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      const parsed = parsePLS(await file.text());
+      // A file tagged with one of our dialects goes there; anything else lands in the selected scope
+      const target = SUPPORTED_DIALECTS.some(d => d.code === parsed.lang) ? parsed.lang! : scope;
+      const count = await importLexiconEntries(parsed.entries.map(entry => ({ ...entry, scope: target })));
+      setScope(target);
+      setMessage(`Imported ${count} entr${count === 1 ? 'y' : 'ies'} into ${scopeLabel(target)}` +
+        (parsed.skipped > 0 ? `; skipped ${parsed.skipped} without an <alias>.` : '.'));
+    });
+  };
+
+  const handleExport = () => {
+    const lang = scope === GLOBAL_SCOPE ? 'ar' : scope;
+    const blob = new Blob([toPLS(scoped, lang)], { type: 'application/pls+xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `lexicon-${lang}.pls`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <BookA size={16} className="text-indigo-400" />
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+          className="bg-gray-950 border border-gray-700 rounded-md px-2 py-1 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        >
+          {[GLOBAL_SCOPE, ...SUPPORTED_DIALECTS.map(d => d.code)].map(code => (
+            <option key={code} value={code}>
+              {scopeLabel(code)} ({entries.filter(e => e.scope === code).length})
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2 ml-auto">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-3 py-1 text-xs rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700"
+          >
+            <Upload size={12} /> Import PLS
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={scoped.length === 0}
+            className="flex items-center gap-1 px-3 py-1 text-xs rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+          >
+            <Download size={12} /> Export PLS
+          </button>
+          <input ref={fileInputRef} type="file" accept=".pls,.xml,application/pls+xml" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+        <input
+          value={grapheme}
+          onChange={(e) => setGrapheme(e.target.value)}
+          placeholder="Written as"
+          dir="auto"
+          className="bg-gray-950 border border-gray-700 rounded-md px-2 py-1.5 font-arabic text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        />
+        <input
+          value={alias}
+          onChange={(e) => setAlias(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Say it as (tashkeel or respelling)"
+          dir="auto"
+          className="bg-gray-950 border border-gray-700 rounded-md px-2 py-1.5 font-arabic text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!grapheme.trim() || !alias.trim()}
+          className="px-3 rounded-md bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40"
+          title="Add or update entry"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+
+      {scoped.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto divide-y divide-gray-800 border border-gray-800 rounded-md">
+          {scoped.map(entry => (
+            <li key={entry.id} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center px-3 py-1.5 text-sm">
+              <span className="font-arabic text-gray-300 truncate" dir="auto">{entry.grapheme}</span>
+              <span className="font-arabic text-indigo-200 truncate" dir="auto">{entry.alias}</span>
+              <button
+                onClick={() => run(() => deleteLexiconEntry(entry.id))}
+                className="p-1 text-gray-500 hover:text-red-400"
+                title="Delete entry"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && <p className="text-xs text-gray-400">{message}</p>}
+    </div>
+  );
+};
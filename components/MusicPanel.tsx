@@ -0,0 +1,138 @@
+import React, { useRef, useState } from 'react';
+import { getAudioContext } from '../services/audioUtils';
+import { MIX_RANGES, MixSettings, MusicSlot, MusicTracks } from '../services/musicMixer';
+import { Upload, X } from 'lucide-react';
+
+interface MusicPanelProps {
+  tracks: MusicTracks;
+  settings: MixSettings;
+  onTracksChange: (tracks: MusicTracks) => void;
+  onSettingsChange: (settings: MixSettings) => void;
+}
+
+const SLOTS: { slot: MusicSlot; label: string; hint: string }[] = [
+  { slot: 'bed', label: 'Background', hint: 'Plays under the speech' },
+  { slot: 'intro', label: 'Intro', hint: 'Plays before everything else' },
+  { slot: 'outro', label: 'Outro', hint: 'Plays after the music bed ends' },
+];
+
+const SLIDERS: { key: keyof typeof MIX_RANGES; label: string; format: (value: number) => string }[] = [
+  { key: 'musicLevelDb', label: 'Music level', format: v => `${v} dB` },
+  { key: 'duckDb', label: 'Ducking under speech', format: v => (v === 0 ? 'off' : `−${v} dB`) },
+  { key: 'attackMs', label: 'Attack', format: v => `${v} ms` },
+  { key: 'releaseMs', label: 'Release', format: v => `${v} ms` },
+  { key: 'leadInMs', label: 'Music before speech', format: v => `${(v / 1000).toFixed(2)} s` },
+  { key: 'tailMs', label: 'Music after speech', format: v => `${(v / 1000).toFixed(2)} s` },
+];
+
+// Music bed, intro and outro for the final mix. Files are decoded in the browser and
+// kept for the session only.
+export const MusicPanel: React.FC<MusicPanelProps> = ({ tracks, settings, onTracksChange, onSettingsChange }) => {
+  const [loading, setLoading] = useState<MusicSlot | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const inputRefs = useRef<Partial<Record<MusicSlot, HTMLInputElement | null>>>({});
+
+  const handleFile = async (slot: MusicSlot, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    setLoading(slot);
+    try {
+      const buffer = await getAudioContext().decodeAudioData(await file.arrayBuffer());
+      onTracksChange({ ...tracks, [slot]: { name: file.name, buffer } });
+    } catch {
+      setMessage(`Could not decode ${file.name}. Use WAV, MP3, Ogg or another format the browser can play.`);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleRemove = (slot: MusicSlot) => {
+    const next = { ...tracks };
+    delete next[slot];
+    onTracksChange(next);
+  };
+
+  const update = <K extends keyof MixSettings>(key: K, value: MixSettings[K]) => {
+    onSettingsChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        {SLOTS.map(({ slot, label, hint }) => {
+          const clip = tracks[slot];
+          return (
+            <div key={slot} className="bg-gray-800/50 border border-gray-700 rounded-lg p-3 text-xs">
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-gray-300">{label}</span>
+                {clip && (
+                  <button onClick={() => handleRemove(slot)} className="text-gray-500 hover:text-red-400" title={`Remove the ${label.toLowerCase()}`}>
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+              {clip ? (
+                <p className="text-gray-400 truncate" title={clip.name}>
+                  {clip.name} <span className="text-gray-500">({clip.buffer.duration.toFixed(1)} s)</span>
+                </p>
+              ) : (
+                <button
+                  onClick={() => inputRefs.current[slot]?.click()}
+                  disabled={loading !== null}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+                >
+                  <Upload size={12} /> {loading === slot ? 'Decoding…' : 'Choose file'}
+                </button>
+              )}
+              <p className="text-[10px] text-gray-500 mt-1">{hint}</p>
+              <input
+                ref={el => { inputRefs.current[slot] = el; }}
+                type="file"
+                accept="audio/*"
+                className="hidden"
+                onChange={(e) => handleFile(slot, e)}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      {tracks.bed && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+            {SLIDERS.map(({ key, label, format }) => (
+              <div key={key}>
+                <div className="flex justify-between mb-1">
+                  <span className="text-xs font-medium text-gray-400">{label}</span>
+                  <span className="text-xs text-indigo-300 font-mono">{format(settings[key])}</span>
+                </div>
+                <input
+                  type="range"
+                  min={MIX_RANGES[key].min}
+                  max={MIX_RANGES[key].max}
+                  step={MIX_RANGES[key].step}
+                  value={settings[key]}
+                  onChange={(e) => update(key, Number(e.target.value))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                />
+              </div>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={settings.loopMusic}
+              onChange={(e) => update('loopMusic', e.target.checked)}
+              className="accent-indigo-500"
+            />
+            Loop the background to the length of the speech (off: it plays once and fades where it ends)
+          </label>
+        </>
+      )}
+
+      {message && <p className="text-xs text-red-400">{message}</p>}
+    </div>
+  );
+};
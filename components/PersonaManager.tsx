@@ -0,0 +1,359 @@
+import React, { useRef, useState } from 'react';
+import { SUPPORTED_DIALECTS, VoiceSettings } from '../types';
+import { SettingsControls } from './SettingsControls';
+import { GEMINI_VOICES } from '../services/geminiService';
+import {
+  SettingsPreset,
+  VoicePersona,
+  copyName,
+  deletePersona,
+  deletePreset,
+  importLibrary,
+  parseLibraryJSON,
+  savePersona,
+  savePreset,
+  toLibraryJSON
+} from '../services/personas';
+import { Copy, Download, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+
+export type LibraryTab = 'personas' | 'presets';
+
+interface PersonaManagerProps {
+  personas: VoicePersona[];
+  presets: SettingsPreset[];
+  initialTab: LibraryTab;
+  // New personas and presets start from what is currently selected in the studio
+  current: { dialectCode: string; settings: VoiceSettings };
+  onLibraryChange: () => Promise<void>;
+  onClose: () => void;
+}
+
+type PersonaDraft = Omit<VoicePersona, 'id' | 'updatedAt'> & { id?: string };
+type PresetDraft = Omit<SettingsPreset, 'id' | 'updatedAt'> & { id?: string };
+
+const inputClass = 'w-full bg-gray-950 border border-gray-700 rounded-md px-2 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+const labelClass = 'block text-xs font-medium text-gray-400 mb-1';
+const iconButton = 'p-1.5 rounded-md text-gray-500 hover:text-gray-200 hover:bg-gray-800';
+
+const dialectLabel = (code: string) => SUPPORTED_DIALECTS.find(d => d.code === code)?.label ?? code;
+
+const describeSettings = (s: VoiceSettings) =>
+  `${s.emotion} • ${s.speed.toFixed(2)}x • ${s.pitch > 0 ? '+' : ''}${s.pitch}% pitch • Clarity ${s.clarity}`;
+
+// Create, edit, duplicate and delete personas and presets; import or export them as JSON
+export const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, presets, initialTab, current, onLibraryChange, onClose }) => {
+  const [tab, setTab] = useState<LibraryTab>(initialTab);
+  const [personaDraft, setPersonaDraft] = useState<PersonaDraft | null>(null);
+  const [presetDraft, setPresetDraft] = useState<PresetDraft | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const run = async (work: () => Promise<void>) => {
+    setMessage(null);
+    try {
+      await work();
+      await onLibraryChange();
+    } catch (err: any) {
+      setMessage(err.message || 'Saving the voice library failed.');
+    }
+  };
+
+  const newPersona = () => setPersonaDraft({
+    name: '',
+    gender: 'Female',
+    baseVoice: GEMINI_VOICES[0].name,
+    style: '',
+    dialectCode: current.dialectCode,
+    settings: current.settings
+  });
+
+  const handleSavePersona = () => run(async () => {
+    if (!personaDraft || !personaDraft.name.trim()) return;
+    await savePersona(personaDraft);
+    setPersonaDraft(null);
+  });
+
+  const handleSavePreset = () => run(async () => {
+    if (!presetDraft || !presetDraft.name.trim()) return;
+    await savePreset(presetDraft);
+    setPresetDraft(null);
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      const parsed = parseLibraryJSON(await file.text());
+      await importLibrary(parsed);
+      setMessage(
+        `Imported ${parsed.personas.length} persona${parsed.personas.length === 1 ? '' : 's'} and ${parsed.presets.length} preset${parsed.presets.length === 1 ? '' : 's'}.` +
+        (parsed.skipped.length > 0 ? ` Skipped: ${parsed.skipped.join('; ')}.` : '')
+      );
+    });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([toLibraryJSON({ personas, presets })], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'voice-library.json';
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-gray-900 border border-gray-800 rounded-xl shadow-2xl p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Voice library</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 px-3 py-1 text-xs rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700"
+            >
+              <Upload size={12} /> Import JSON
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={personas.length === 0 && presets.length === 0}
+              className="flex items-center gap-1 px-3 py-1 text-xs rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+            >
+              <Download size={12} /> Export JSON
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-200" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex rounded-lg bg-gray-800 border border-gray-700 p-0.5 text-sm font-semibold">
+          {(['personas', 'presets'] as const).map(id => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`flex-1 px-3 py-1.5 rounded-md transition-colors ${tab === id ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+            >
+              {id === 'personas' ? `Personas (${personas.length})` : `Presets (${presets.length})`}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'personas' && (
+          <div className="space-y-3">
+            {personas.length === 0 && !personaDraft && (
+              <p className="text-xs text-gray-500">A persona pairs one of Gemini's {GEMINI_VOICES.length} voices with a style prompt, a dialect and default settings.</p>
+            )}
+            {personas.length > 0 && (
+              <ul className="divide-y divide-gray-800 border border-gray-800 rounded-md">
+                {personas.map(persona => (
+                  <li key={persona.id} className="flex items-center gap-3 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-200 truncate" dir="auto">{persona.name}</p>
+                      <p className="text-xs text-gray-500 truncate" dir="auto">
+                        {persona.baseVoice} • {dialectLabel(persona.dialectCode)}{persona.style ? ` • ${persona.style}` : ''}
+                      </p>
+                    </div>
+                    <button onClick={() => setPersonaDraft(persona)} className={iconButton} title="Edit">
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => run(async () => {
+                        await savePersona({ ...persona, id: undefined, name: copyName(persona.name, personas.map(p => p.name)) });
+                      })}
+                      className={iconButton}
+                      title="Duplicate"
+                    >
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      onClick={() => run(async () => {
+                        if (!window.confirm(`Delete the persona "${persona.name}"?`)) return;
+                        await deletePersona(persona.id);
+                        if (personaDraft?.id === persona.id) setPersonaDraft(null);
+                      })}
+                      className={`${iconButton} hover:text-red-400`}
+                      title="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {personaDraft ? (
+              <div className="space-y-4 bg-gray-800/40 border border-gray-700 rounded-lg p-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className={labelClass}>Name</label>
+                    <input
+                      value={personaDraft.name}
+                      onChange={(e) => setPersonaDraft({ ...personaDraft, name: e.target.value })}
+                      dir="auto"
+                      className={inputClass}
+                      placeholder="e.g. Grandmother storyteller"
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Gender</label>
+                    <select
+                      value={personaDraft.gender}
+                      onChange={(e) => setPersonaDraft({ ...personaDraft, gender: e.target.value as PersonaDraft['gender'] })}
+                      className={inputClass}
+                    >
+                      <option value="Female">Female</option>
+                      <option value="Male">Male</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Base voice</label>
+                    <select
+                      value={personaDraft.baseVoice}
+                      onChange={(e) => setPersonaDraft({ ...personaDraft, baseVoice: e.target.value })}
+                      className={inputClass}
+                    >
+                      {GEMINI_VOICES.map(voice => (
+                        <option key={voice.name} value={voice.name}>{voice.name} ({voice.character})</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Default dialect</label>
+                    <select
+                      value={personaDraft.dialectCode}
+                      onChange={(e) => setPersonaDraft({ ...personaDraft, dialectCode: e.target.value })}
+                      className={inputClass}
+                    >
+                      {SUPPORTED_DIALECTS.map(dialect => (
+                        <option key={dialect.code} value={dialect.code}>{dialect.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClass}>Style prompt</label>
+                  <textarea
+                    value={personaDraft.style}
+                    onChange={(e) => setPersonaDraft({ ...personaDraft, style: e.target.value })}
+                    rows={2}
+                    dir="auto"
+                    className={inputClass}
+                    placeholder="e.g. A warm, elderly storyteller who speaks slowly and smiles through the words"
+                  />
+                </div>
+                <SettingsControls
+                  settings={personaDraft.settings}
+                  onChange={(settings) => setPersonaDraft({ ...personaDraft, settings })}
+                  disabled={false}
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setPersonaDraft(null)} className="px-4 py-1.5 text-sm rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700">
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSavePersona}
+                    disabled={!personaDraft.name.trim()}
+                    className="px-4 py-1.5 text-sm font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40"
+                  >
+                    {personaDraft.id ? 'Save changes' : 'Create persona'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button onClick={newPersona} className="flex items-center gap-1 text-sm text-indigo-300 hover:text-indigo-200">
+                <Plus size={14} /> New persona
+              </button>
+            )}
+          </div>
+        )}
+
+        {tab === 'presets' && (
+          <div className="space-y-3">
+            {presets.length === 0 && !presetDraft && (
+              <p className="text-xs text-gray-500">A preset is a named set of emotion, speed, pitch and Clarity values you can apply to any voice.</p>
+            )}
+            {presets.length > 0 && (
+              <ul className="divide-y divide-gray-800 border border-gray-800 rounded-md">
+                {presets.map(preset => (
+                  <li key={preset.id} className="flex items-center gap-3 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-200 truncate" dir="auto">{preset.name}</p>
+                      <p className="text-xs text-gray-500 truncate">{describeSettings(preset.settings)}</p>
+                    </div>
+                    <button onClick={() => setPresetDraft(preset)} className={iconButton} title="Edit">
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => run(async () => {
+                        await savePreset({ ...preset, id: undefined, name: copyName(preset.name, presets.map(p => p.name)) });
+                      })}
+                      className={iconButton}
+                      title="Duplicate"
+                    >
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      onClick={() => run(async () => {
+                        if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+                        await deletePreset(preset.id);
+                        if (presetDraft?.id === preset.id) setPresetDraft(null);
+                      })}
+                      className={`${iconButton} hover:text-red-400`}
+                      title="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {presetDraft ? (
+              <div className="space-y-4 bg-gray-800/40 border border-gray-700 rounded-lg p-4">
+                <div>
+                  <label className={labelClass}>Name</label>
+                  <input
+                    value={presetDraft.name}
+                    onChange={(e) => setPresetDraft({ ...presetDraft, name: e.target.value })}
+                    dir="auto"
+                    className={inputClass}
+                    placeholder="e.g. Bedtime story"
+                  />
+                </div>
+                <SettingsControls
+                  settings={presetDraft.settings}
+                  onChange={(settings) => setPresetDraft({ ...presetDraft, settings })}
+                  disabled={false}
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setPresetDraft(null)} className="px-4 py-1.5 text-sm rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700">
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSavePreset}
+                    disabled={!presetDraft.name.trim()}
+                    className="px-4 py-1.5 text-sm font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40"
+                  >
+                    {presetDraft.id ? 'Save changes' : 'Create preset'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setPresetDraft({ name: '', settings: current.settings })}
+                className="flex items-center gap-1 text-sm text-indigo-300 hover:text-indigo-200"
+              >
+                <Plus size={14} /> New preset from the current settings
+              </button>
+            )}
+          </div>
+        )}
+
+        {message && <p className="text-xs text-gray-400">{message}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { PROVIDER_OPTIONS, ProviderConfig, ProviderId, Transport, createProvider } from '../services/ttsProvider';
+import { GEMINI_TTS_MODELS } from '../services/geminiService';
+import { fetchProxyInfo } from '../services/proxyProvider';
+import { toTTSError } from '../services/ttsErrors';
+import { Cpu } from 'lucide-react';
+
+interface ProviderSettingsProps {
+  config: ProviderConfig;
+  onChange: (config: ProviderConfig) => void;
+}
+
+const TRANSPORT_OPTIONS: { id: Transport; label: string }[] = [
+  { id: 'direct', label: 'Direct' },
+  { id: 'proxy', label: 'Via proxy' },
+];
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ config, onChange }) => {
+  const { capabilities } = createProvider(config);
+  const proxied = config.providerId === 'gemini' && config.transport === 'proxy';
+  // Result of asking the proxy for /api/voices, so a wrong URL shows before generating
+  const [proxyStatus, setProxyStatus] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!proxied) return;
+    const controller = new AbortController();
+    setProxyStatus(null);
+    // Typing a URL would otherwise probe after every keystroke
+    const timer = setTimeout(() => {
+      fetchProxyInfo(config.proxyUrl, controller.signal)
+        .then(info => setProxyStatus({ ok: true, text: info.upstream === 'mock' ? 'Connected (stand-in)' : 'Connected' }))
+        .catch(err => {
+          if (!controller.signal.aborted) setProxyStatus({ ok: false, text: toTTSError(err).message });
+        });
+    }, 400);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [proxied, config.proxyUrl]);
+
+  const badges: { label: string; on: boolean }[] = [
+    { label: 'SSML', on: capabilities.ssml },
+    { label: 'Streaming', on: capabilities.streaming },
+    { label: 'Multi-speaker', on: capabilities.multiSpeaker },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-gray-900 border border-gray-800 rounded-lg px-4 py-3 mb-8 text-sm">
+      <Cpu size={16} className="text-indigo-400" />
+      <span className="text-gray-400">Engine</span>
+
+      <select
+        value={config.providerId}
+        onChange={(e) => onChange({ ...config, providerId: e.target.value as ProviderId })}
+        className="bg-gray-950 border border-gray-700 rounded-md px-2 py-1 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+      >
+        {PROVIDER_OPTIONS.map(option => (
+          <option key={option.id} value={option.id}>{option.label}</option>
+        ))}
+      </select>
+
+      {config.providerId === 'gemini' && (
+        <>
+          <input
+            list="gemini-tts-models"
+            value={config.geminiModel}
+            onChange={(e) => onChange({ ...config, geminiModel: e.target.value })}
+            className="flex-1 min-w-[12rem] bg-gray-950 border border-gray-700 rounded-md px-2 py-1 font-mono text-xs text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            placeholder="Model name"
+          />
+          <datalist id="gemini-tts-models">
+            {GEMINI_TTS_MODELS.map(model => <option key={model} value={model} />)}
+          </datalist>
+          <select
+            value={config.transport}
+            onChange={(e) => onChange({ ...config, transport: e.target.value as Transport })}
+            className="bg-gray-950 border border-gray-700 rounded-md px-2 py-1 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            title="Direct calls use the key built into the app; the proxy keeps the key on the server"
+          >
+            {TRANSPORT_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          {proxied && (
+            <>
+              <input
+                value={config.proxyUrl}
+                onChange={(e) => onChange({ ...config, proxyUrl: e.target.value.trim() })}
+                className="min-w-[10rem] bg-gray-950 border border-gray-700 rounded-md px-2 py-1 font-mono text-xs text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                placeholder="Proxy URL (this site)"
+              />
+              {proxyStatus && (
+                <span className={`text-xs truncate max-w-[14rem] ${proxyStatus.ok ? 'text-green-400' : 'text-red-400'}`} title={proxyStatus.text}>
+                  {proxyStatus.text}
+                </span>
+              )}
+            </>
+          )}
+        </>
+      )}
+
+      <div className="flex gap-1.5 ml-auto">
+        <span className="px-2 py-0.5 rounded-full text-[10px] font-mono bg-gray-800 text-gray-300">
+          {(capabilities.sampleRate / 1000).toFixed(0)} kHz
+        </span>
+        {badges.map(badge => (
+          <span
+            key={badge.label}
+            className={`px-2 py-0.5 rounded-full text-[10px] ${badge.on ? 'bg-indigo-900/60 text-indigo-200' : 'bg-gray-800 text-gray-600 line-through'}`}
+          >
+            {badge.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
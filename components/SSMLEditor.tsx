@@ -0,0 +1,192 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  validateSSML,
+  getCompletions,
+  completionInsertText,
+  wrapSelection,
+  insertBreak,
+  WRAPPABLE_TAGS,
+  CompletionResult
+} from '../services/ssmlValidator';
+import { AlertCircle, AlertTriangle, CheckCircle2, Wand2, Pause } from 'lucide-react';
+
+interface SSMLEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onConvertFromSimple: () => void;
+  canConvert: boolean;
+}
+
+export const SSMLEditor: React.FC<SSMLEditorProps> = ({ value, onChange, onConvertFromSimple, canConvert }) => {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const [completion, setCompletion] = useState<CompletionResult | null>(null);
+  const [activeIndex, setActiveIndex] = useState<number>(0);
+
+  const diagnostics = useMemo(() => validateSSML(value), [value]);
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  // Apply a text change and put the caret/selection back after React re-renders
+  const applyEdit = (text: string, selectionStart: number, selectionEnd: number = selectionStart) => {
+    onChange(text);
+    requestAnimationFrame(() => {
+      const el = textareaRef.current;
+      if (!el) return;
+      el.focus();
+      el.setSelectionRange(selectionStart, selectionEnd);
+    });
+  };
+
+  const refreshCompletion = (text: string, cursor: number) => {
+    setCompletion(getCompletions(text, cursor));
+    setActiveIndex(0);
+  };
+
+  const acceptCompletion = (item: string) => {
+    if (!completion) return;
+    const insert = completionInsertText(item, completion.kind);
+    const text = value.slice(0, completion.from) + insert + value.slice(completion.to);
+    // Leave the caret inside the quotes of a new attribute
+    const caret = completion.from + insert.length - (completion.kind === 'attribute' ? 1 : 0);
+    setCompletion(null);
+    applyEdit(text, caret);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!completion) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => (i + 1) % completion.items.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => (i - 1 + completion.items.length) % completion.items.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      acceptCompletion(completion.items[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setCompletion(null);
+    }
+  };
+
+  const handleWrap = (tag: string) => {
+    const el = textareaRef.current;
+    if (!el) return;
+    const result = wrapSelection(value, el.selectionStart, el.selectionEnd, tag);
+    applyEdit(result.text, result.selectionStart, result.selectionEnd);
+  };
+
+  const handleInsertBreak = () => {
+    const el = textareaRef.current;
+    if (!el) return;
+    const result = insertBreak(value, el.selectionEnd);
+    applyEdit(result.text, result.cursor);
+  };
+
+  const jumpTo = (offset: number, length: number) => {
+    const el = textareaRef.current;
+    if (!el) return;
+    el.focus();
+    el.setSelectionRange(offset, offset + length);
+  };
+
+  return (
+    <div>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-1.5 mb-2">
+        <span className="text-[10px] uppercase tracking-wider text-gray-500 mr-1">Wrap</span>
+        {WRAPPABLE_TAGS.map(tag => (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => handleWrap(tag)}
+            className="px-2 py-1 text-xs font-mono rounded bg-gray-800 border border-gray-700 text-indigo-300 hover:bg-gray-700 transition-colors"
+            title={`Wrap selection in <${tag}>`}
+          >
+            {tag}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={handleInsertBreak}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-mono rounded bg-gray-800 border border-gray-700 text-indigo-300 hover:bg-gray-700 transition-colors"
+          title="Insert <break/> at cursor"
+        >
+          <Pause size={12} /> break
+        </button>
+        <button
+          type="button"
+          onClick={onConvertFromSimple}
+          disabled={!canConvert}
+          className="ml-auto flex items-center gap-1 px-3 py-1 text-xs font-medium rounded bg-indigo-900/50 border border-indigo-700 text-indigo-200 hover:bg-indigo-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Turn the plain text and current settings into editable SSML"
+        >
+          <Wand2 size={12} /> Convert text + settings to SSML
+        </button>
+      </div>
+
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            refreshCompletion(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => refreshCompletion(value, e.currentTarget.selectionStart)}
+          onBlur={() => setCompletion(null)}
+          placeholder="<speak>...</speak>"
+          spellCheck={false}
+          className="w-full h-40 bg-gray-950 border border-indigo-900 font-mono text-sm text-indigo-200 rounded-lg p-4 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all resize-none"
+          dir="ltr"
+        />
+
+        {completion && (
+          <ul className="absolute left-4 bottom-2 z-20 min-w-[10rem] max-h-40 overflow-y-auto bg-gray-900 border border-gray-700 rounded-md shadow-xl text-xs font-mono">
+            {completion.items.map((item, i) => (
+              <li
+                key={item}
+                // mousedown so the textarea doesn't lose the caret before we insert
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  acceptCompletion(item);
+                }}
+                className={`px-3 py-1.5 cursor-pointer ${i === activeIndex ? 'bg-indigo-700 text-white' : 'text-gray-300 hover:bg-gray-800'}`}
+              >
+                {item}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Diagnostics */}
+      <div className="mt-2 text-xs">
+        {diagnostics.length === 0 ? (
+          <div className="flex items-center gap-2 text-green-400">
+            <CheckCircle2 size={14} /> Valid SSML
+          </div>
+        ) : (
+          <>
+            <div className="text-gray-400 mb-1">
+              {errorCount} error{errorCount === 1 ? '' : 's'}, {warningCount} warning{warningCount === 1 ? '' : 's'}
+            </div>
+            <ul className="space-y-1 max-h-32 overflow-y-auto">
+              {diagnostics.map((d, i) => (
+                <li
+                  key={`${d.offset}-${i}`}
+                  onClick={() => jumpTo(d.offset, d.length)}
+                  className={`flex items-start gap-2 cursor-pointer hover:underline ${d.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}
+                >
+                  {d.severity === 'error' ? <AlertCircle size={14} className="shrink-0 mt-px" /> : <AlertTriangle size={14} className="shrink-0 mt-px" />}
+                  <span className="font-mono text-gray-500 shrink-0">{d.line}:{d.column}</span>
+                  <span>{d.message}</span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
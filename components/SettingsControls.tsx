@@ -1,11 +1,12 @@
 import React from 'react';
-import { VoiceSettings, EmotionType } from '../types';
+import { VoiceSettings, EmotionType, SPEAKING_STYLES } from '../types';
+import { MAX_STYLE_INTENSITY, MIN_STYLE_INTENSITY } from '../services/speakingStyles';
 import { Sliders, Zap, Smile, Volume2 } from 'lucide-react';
 
 interface SettingsControlsProps {
   settings: VoiceSettings;
   onChange: (newSettings: VoiceSettings) => void;
-  disabled: boolean;
+  disabled: boolean; // Disables the prosody controls; Clarity is local processing and stays available
 }
 
 export const SettingsControls: React.FC<SettingsControlsProps> = ({ settings, onChange, disabled }) => {
@@ -14,6 +15,8 @@ export const SettingsControls: React.FC<SettingsControlsProps> = ({ settings, on
     onChange({ ...settings, [key]: value });
   };
 
+  const disabledClass = disabled ? 'opacity-50 pointer-events-none' : '';
+
   const getEmotionIcon = (emotion: EmotionType) => {
     switch(emotion) {
       case EmotionType.Happy: return <Smile size={16} />;
@@ -24,10 +27,10 @@ export const SettingsControls: React.FC<SettingsControlsProps> = ({ settings, on
   };
 
   return (
-    <div className={`grid grid-cols-1 md:grid-cols-2 gap-6 transition-opacity ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
       
       {/* Emotion */}
-      <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700">
+      <div className={`bg-gray-800/50 p-4 rounded-lg border border-gray-700 transition-opacity ${disabledClass}`}>
         <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-3">
           <Smile size={16} className="text-indigo-400" /> Emotion & Style
         </label>
@@ -46,10 +49,30 @@ export const SettingsControls: React.FC<SettingsControlsProps> = ({ settings, on
             </button>
           ))}
         </div>
+        <div className="mt-4">
+          <div className="flex justify-between mb-1">
+            <span className="text-xs font-medium text-gray-400">Inline style intensity</span>
+            <span className="text-xs text-indigo-300 font-mono">{settings.styleIntensity}%</span>
+          </div>
+          <input
+            type="range"
+            min={MIN_STYLE_INTENSITY}
+            max={MAX_STYLE_INTENSITY}
+            step="10"
+            value={settings.styleIntensity}
+            onChange={(e) => updateSetting('styleIntensity', parseInt(e.target.value))}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+          />
+          <p className="text-[10px] text-gray-500 mt-1 leading-relaxed">
+            Style parts of the text with <span className="font-mono">[whisper]…[/whisper]</span> or{' '}
+            <span className="font-mono font-arabic">[حزين]…[/حزين]</span>; <span className="font-mono">[angry:150]</span> sets one span's intensity.
+            Styles: {SPEAKING_STYLES.map(s => s.id).join(', ')}.
+          </p>
+        </div>
       </div>
 
       {/* Speed */}
-      <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700">
+      <div className={`bg-gray-800/50 p-4 rounded-lg border border-gray-700 transition-opacity ${disabledClass}`}>
         <div className="flex justify-between mb-2">
           <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
             <Zap size={16} className="text-yellow-400" /> Speed (Rate)
@@ -72,7 +95,7 @@ export const SettingsControls: React.FC<SettingsControlsProps> = ({ settings, on
       </div>
 
       {/* Pitch */}
-      <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700">
+      <div className={`bg-gray-800/50 p-4 rounded-lg border border-gray-700 transition-opacity ${disabledClass}`}>
         <div className="flex justify-between mb-2">
           <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
             <Sliders size={16} className="text-green-400" /> Pitch
@@ -96,6 +119,22 @@ export const SettingsControls: React.FC<SettingsControlsProps> = ({ settings, on
         </div>
       </div>
 
+      {/* Exact prosody */}
+      <label className={`md:col-span-2 flex items-start gap-3 bg-gray-800/50 p-4 rounded-lg border border-gray-700 cursor-pointer transition-opacity ${disabledClass}`}>
+        <input
+          type="checkbox"
+          checked={settings.exactProsody}
+          onChange={(e) => updateSetting('exactProsody', e.target.checked)}
+          className="mt-1 accent-indigo-500"
+        />
+        <span className="flex flex-col">
+          <span className="text-sm font-medium text-gray-200">Exact pitch & speed</span>
+          <span className="text-xs text-gray-500">
+            Apply Speed, Pitch and the emotion preset locally (time stretch and formant-preserving pitch shift) instead of relying on the model's prosody.
+          </span>
+        </span>
+      </label>
+
       {/* Clarity */}
       <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700">
         <div className="flex justify-between mb-2">
@@ -113,6 +152,10 @@ export const SettingsControls: React.FC<SettingsControlsProps> = ({ settings, on
           onChange={(e) => updateSetting('clarity', parseInt(e.target.value))}
           className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
         />
+        <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+          <span>Raw</span>
+          <span>Enhanced</span>
+        </div>
       </div>
 
     </div>
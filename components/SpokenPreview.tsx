@@ -0,0 +1,49 @@
+import React from 'react';
+import { Languages, RotateCcw } from 'lucide-react';
+
+interface SpokenPreviewProps {
+  enabled: boolean;
+  onEnabledChange: (value: boolean) => void;
+  value: string; // What will be sent, after normalization and any manual edits
+  edited: boolean;
+  onChange: (value: string) => void;
+  onReset: () => void;
+}
+
+// Shows the normalized text ("what will be spoken") and lets the user correct it by hand
+export const SpokenPreview: React.FC<SpokenPreviewProps> = ({ enabled, onEnabledChange, value, edited, onChange, onReset }) => (
+  <div className="mt-4 bg-gray-800/30 p-3 rounded-lg border border-gray-700/50">
+    <div className="flex items-center justify-between mb-2">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-200 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="accent-indigo-500"
+        />
+        <Languages size={16} className={enabled ? "text-indigo-400" : "text-gray-500"} />
+        Normalize numbers, dates & abbreviations
+      </label>
+      {edited && (
+        <button
+          onClick={onReset}
+          className="flex items-center gap-1 text-xs text-amber-300 hover:text-amber-200"
+          title="Discard manual edits"
+        >
+          <RotateCcw size={12} /> Edited • Reset
+        </button>
+      )}
+    </div>
+    {enabled && (
+      <>
+        <span className="block text-xs text-gray-500 mb-1">What will be spoken</span>
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={`w-full h-24 bg-gray-950 border font-arabic text-base text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-indigo-500 focus:outline-none resize-none ${edited ? 'border-amber-700' : 'border-gray-700'}`}
+          dir="rtl"
+        />
+      </>
+    )}
+  </div>
+);
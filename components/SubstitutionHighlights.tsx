@@ -0,0 +1,37 @@
+import React from 'react';
+import { Substitution } from '../services/lexicon';
+
+interface SubstitutionHighlightsProps {
+  text: string;
+  substitutions: Substitution[];
+}
+
+// The source text with every lexicon substitution marked; hovering shows the replacement
+export const SubstitutionHighlights: React.FC<SubstitutionHighlightsProps> = ({ text, substitutions }) => {
+  if (substitutions.length === 0) return null;
+
+  const sorted = [...substitutions].sort((a, b) => a.start - b.start);
+  const pieces: React.ReactNode[] = [];
+  let cursor = 0;
+  sorted.forEach((sub, i) => {
+    if (sub.start > cursor) pieces.push(text.slice(cursor, sub.start));
+    pieces.push(
+      <mark key={i} title={`→ ${sub.alias}`} className="bg-indigo-900/70 text-indigo-100 rounded px-0.5">
+        {text.slice(sub.start, sub.end)}
+      </mark>
+    );
+    cursor = sub.end;
+  });
+  pieces.push(text.slice(cursor));
+
+  return (
+    <div className="mt-3 p-3 bg-gray-950/60 border border-gray-800 rounded-lg">
+      <span className="block text-xs text-gray-500 mb-1">
+        Lexicon: {substitutions.length} substitution{substitutions.length === 1 ? '' : 's'}
+      </span>
+      <p className="font-arabic text-sm text-gray-400 whitespace-pre-wrap max-h-32 overflow-y-auto" dir="rtl">
+        {pieces}
+      </p>
+    </div>
+  );
+};
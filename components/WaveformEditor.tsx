@@ -0,0 +1,286 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioEdit, describeEdit, EditHistory, pushEdit, redoEdit, revertEdits, undoEdit } from '../services/audioEditor';
+import { getAudioContext } from '../services/audioUtils';
+import { Crop, Scissors, Space, TrendingUp, TrendingDown, Volume2, Timer, Undo2, Redo2, ZoomIn, ZoomOut, Play, Square, RotateCcw } from 'lucide-react';
+
+interface WaveformEditorProps {
+  buffer: AudioBuffer; // The audio with the current edits applied
+  history: EditHistory;
+  onHistoryChange: (history: EditHistory) => void;
+}
+
+interface Selection {
+  start: number; // seconds; start === end is a cursor
+  end: number;
+}
+
+const HEIGHT = 120;
+const MAX_ZOOM = 32;
+const MAX_CANVAS_WIDTH = 32000;
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds - m * 60;
+  return `${m}:${s.toFixed(2).padStart(5, '0')}`;
+};
+
+// Min/max per pixel column across all channels
+const computePeaks = (buffer: AudioBuffer, columns: number): Float32Array => {
+  const peaks = new Float32Array(columns * 2);
+  const perColumn = buffer.length / columns;
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let c = 0; c < columns; c++) {
+      let min = peaks[c * 2];
+      let max = peaks[c * 2 + 1];
+      const end = Math.min(data.length, Math.floor((c + 1) * perColumn));
+      for (let i = Math.floor(c * perColumn); i < end; i++) {
+        if (data[i] < min) min = data[i];
+        if (data[i] > max) max = data[i];
+      }
+      peaks[c * 2] = min;
+      peaks[c * 2 + 1] = max;
+    }
+  }
+  return peaks;
+};
+
+// Waveform view with zoom and selection over the rendered take
+export const WaveformEditor: React.FC<WaveformEditorProps> = ({ buffer, history, onHistoryChange }) => {
+  const [zoom, setZoom] = useState<number>(1);
+  const [viewWidth, setViewWidth] = useState<number>(0);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [silenceMs, setSilenceMs] = useState<number>(300);
+  const [gainDb, setGainDb] = useState<number>(-6);
+  const [maxPauseMs, setMaxPauseMs] = useState<number>(500);
+  const [playing, setPlaying] = useState<boolean>(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<number | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  const width = Math.min(MAX_CANVAS_WIDTH, Math.max(1, Math.round(viewWidth * zoom)));
+  const duration = buffer.duration;
+  const ordered = selection ? { start: Math.min(selection.start, selection.end), end: Math.max(selection.start, selection.end) } : null;
+  const hasRange = !!ordered && ordered.end - ordered.start > 0.01;
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewWidth(el.clientWidth));
+    observer.observe(el);
+    setViewWidth(el.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // A selection may point past the end once an edit shortens the audio
+  useEffect(() => {
+    setSelection(prev => (prev && Math.min(prev.start, prev.end) >= duration ? null : prev));
+  }, [duration]);
+
+  useEffect(() => () => sourceRef.current?.stop(), []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width <= 1) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = HEIGHT * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.clearRect(0, 0, width, HEIGHT);
+
+    if (ordered) {
+      const x0 = (ordered.start / duration) * width;
+      const x1 = (ordered.end / duration) * width;
+      ctx.fillStyle = 'rgba(99, 102, 241, 0.25)';
+      ctx.fillRect(x0, 0, Math.max(1, x1 - x0), HEIGHT);
+    }
+
+    const peaks = computePeaks(buffer, width);
+    const mid = HEIGHT / 2;
+    ctx.fillStyle = '#818cf8';
+    for (let x = 0; x < width; x++) {
+      const min = peaks[x * 2];
+      const max = peaks[x * 2 + 1];
+      ctx.fillRect(x, mid - max * mid, 1, Math.max(1, (max - min) * mid));
+    }
+
+    if (ordered && !hasRange) {
+      ctx.fillStyle = '#f9fafb';
+      ctx.fillRect((ordered.start / duration) * width, 0, 1, HEIGHT);
+    }
+  }, [buffer, width, selection]);
+
+  const timeAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((e.clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const t = timeAt(e);
+    dragRef.current = t;
+    setSelection({ start: t, end: t });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragRef.current === null) return;
+    setSelection({ start: dragRef.current, end: timeAt(e) });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const stopPlayback = () => {
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+    setPlaying(false);
+  };
+
+  // Plays the selection, or from the cursor to the end
+  const handlePlay = () => {
+    if (playing) return stopPlayback();
+    const ctx = getAudioContext();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    const start = ordered?.start ?? 0;
+    source.start(0, start, hasRange ? ordered!.end - start : undefined);
+    source.onended = () => {
+      if (sourceRef.current === source) {
+        sourceRef.current = null;
+        setPlaying(false);
+      }
+    };
+    sourceRef.current = source;
+    setPlaying(true);
+  };
+
+  const apply = (edit: AudioEdit, nextSelection: Selection | null = null) => {
+    stopPlayback();
+    onHistoryChange(pushEdit(history, edit));
+    setSelection(nextSelection);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const mod = e.ctrlKey || e.metaKey;
+    if (mod && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      onHistoryChange(e.shiftKey ? redoEdit(history) : undoEdit(history));
+    } else if (mod && e.key.toLowerCase() === 'y') {
+      e.preventDefault();
+      onHistoryChange(redoEdit(history));
+    } else if ((e.key === 'Delete' || e.key === 'Backspace') && hasRange) {
+      e.preventDefault();
+      apply({ kind: 'delete', ...ordered! }, { start: ordered!.start, end: ordered!.start });
+    } else if (e.key === ' ') {
+      e.preventDefault();
+      handlePlay();
+    }
+  };
+
+  const toolButton = 'flex items-center gap-1 px-2.5 py-1.5 text-xs rounded-md bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-gray-800';
+  const numberInput = 'w-14 bg-gray-950 border border-gray-700 rounded px-1 py-1 text-xs text-gray-200 text-right focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+  return (
+    <div className="space-y-3 outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <button onClick={handlePlay} className={toolButton} title={hasRange ? 'Play selection (Space)' : 'Play from cursor (Space)'}>
+          {playing ? <Square size={12} /> : <Play size={12} />}
+        </button>
+        <span className="font-mono">
+          {ordered ? (hasRange ? `${formatTime(ordered.start)} – ${formatTime(ordered.end)}` : formatTime(ordered.start)) : '—'}
+          <span className="text-gray-600"> / {formatTime(duration)}</span>
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={() => setZoom(z => Math.max(1, z / 2))} disabled={zoom <= 1} className={toolButton} title="Zoom out">
+            <ZoomOut size={12} />
+          </button>
+          <span className="w-8 text-center font-mono">{zoom}x</span>
+          <button onClick={() => setZoom(z => Math.min(MAX_ZOOM, z * 2))} disabled={zoom >= MAX_ZOOM} className={toolButton} title="Zoom in">
+            <ZoomIn size={12} />
+          </button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="overflow-x-auto bg-gray-950 border border-gray-800 rounded-lg">
+        <canvas
+          ref={canvasRef}
+          style={{ width, height: HEIGHT }}
+          className="block cursor-text touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => apply({ kind: 'trim', ...ordered! })} disabled={!hasRange} className={toolButton} title="Keep only the selection">
+          <Crop size={12} /> Trim
+        </button>
+        <button
+          onClick={() => apply({ kind: 'delete', ...ordered! }, { start: ordered!.start, end: ordered!.start })}
+          disabled={!hasRange}
+          className={toolButton}
+          title="Remove the selection (Delete)"
+        >
+          <Scissors size={12} /> Delete
+        </button>
+        <button onClick={() => apply({ kind: 'fade', ...ordered!, direction: 'in' }, ordered)} disabled={!hasRange} className={toolButton} title="Fade in over the selection">
+          <TrendingUp size={12} /> Fade in
+        </button>
+        <button onClick={() => apply({ kind: 'fade', ...ordered!, direction: 'out' }, ordered)} disabled={!hasRange} className={toolButton} title="Fade out over the selection">
+          <TrendingDown size={12} /> Fade out
+        </button>
+        <span className="flex items-center gap-1">
+          <button onClick={() => apply({ kind: 'gain', ...ordered!, db: gainDb }, ordered)} disabled={!hasRange || gainDb === 0} className={toolButton} title="Change the level of the selection">
+            <Volume2 size={12} /> Gain
+          </button>
+          <input type="number" value={gainDb} min={-24} max={12} step={1} onChange={(e) => setGainDb(Number(e.target.value))} className={numberInput} />
+          <span className="text-xs text-gray-500">dB</span>
+        </span>
+        <span className="flex items-center gap-1">
+          <button
+            onClick={() => apply({ kind: 'insertSilence', at: ordered!.start, durationMs: silenceMs }, { start: ordered!.start, end: ordered!.start + silenceMs / 1000 })}
+            disabled={!ordered || silenceMs <= 0}
+            className={toolButton}
+            title="Insert silence at the cursor"
+          >
+            <Space size={12} /> Silence
+          </button>
+          <input type="number" value={silenceMs} min={10} max={10000} step={50} onChange={(e) => setSilenceMs(Number(e.target.value))} className={numberInput} />
+          <span className="text-xs text-gray-500">ms</span>
+        </span>
+        <span className="flex items-center gap-1">
+          <button onClick={() => apply({ kind: 'shortenPauses', maxPauseMs })} disabled={maxPauseMs < 50} className={toolButton} title="Cut every pause longer than this down to this length">
+            <Timer size={12} /> Shorten pauses
+          </button>
+          <input type="number" value={maxPauseMs} min={50} max={5000} step={50} onChange={(e) => setMaxPauseMs(Number(e.target.value))} className={numberInput} />
+          <span className="text-xs text-gray-500">ms</span>
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <button onClick={() => onHistoryChange(undoEdit(history))} disabled={history.edits.length === 0} className={toolButton} title="Undo (Ctrl+Z)">
+          <Undo2 size={12} />
+        </button>
+        <button onClick={() => onHistoryChange(redoEdit(history))} disabled={history.undone.length === 0} className={toolButton} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 size={12} />
+        </button>
+        <span className="truncate">
+          {history.edits.length === 0
+            ? 'No edits. Drag on the waveform to select.'
+            : `${history.edits.length} edit${history.edits.length === 1 ? '' : 's'} • last: ${describeEdit(history.edits[history.edits.length - 1])}`}
+        </span>
+        {history.edits.length > 0 && (
+          <button onClick={() => onHistoryChange(revertEdits(history))} className="ml-auto flex items-center gap-1 text-gray-500 hover:text-red-300" title="Back to the unedited take">
+            <RotateCcw size={12} /> Revert all
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+// Per-client token buckets: each client may make `perMinute` requests a minute on
+// average, with bursts up to `burst`. Buckets that have refilled are forgotten.
+
+export interface RateDecision {
+  allowed: boolean;
+  retryAfterMs: number; // Until the next token, when not allowed
+}
+
+export interface RateLimiter {
+  take: (client: string) => RateDecision;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const SWEEP_INTERVAL_MS = 60000;
+
+export const createRateLimiter = (perMinute: number, burst: number = perMinute): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+  const perMs = perMinute / 60000;
+  let lastSweep = Date.now();
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * perMs);
+    bucket.updatedAt = now;
+  };
+
+  const sweep = (now: number) => {
+    for (const [client, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= burst) buckets.delete(client);
+    }
+    lastSweep = now;
+  };
+
+  return {
+    take: client => {
+      const now = Date.now();
+      if (now - lastSweep > SWEEP_INTERVAL_MS) sweep(now);
+
+      const bucket = buckets.get(client) ?? { tokens: burst, updatedAt: now };
+      buckets.set(client, bucket);
+      refill(bucket, now);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / perMs) };
+    }
+  };
+};
@@ -0,0 +1,325 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { ProviderSpeaker, TTSProvider } from "../services/ttsProvider";
+import { configureGeminiClient, createGeminiProvider, GEMINI_TTS_MODELS, GEMINI_VOICES } from "../services/geminiService";
+import { createMockProvider } from "../services/mockProvider";
+import { arrayBufferToBase64 } from "../services/audioUtils";
+import { adaptWithGemini, DIALECT_ADAPTATION_MODEL } from "../services/dialectAdapter";
+import { DialectOption, SUPPORTED_DIALECTS } from "../types";
+import {
+  PROXY_ADAPT_PATH,
+  PROXY_TTS_PATH,
+  PROXY_VOICES_PATH,
+  ProxyAdaptRequest,
+  ProxyAdaptResponse,
+  ProxyInfo,
+  ProxyStreamLine,
+  ProxyTTSRequest
+} from "../services/proxyProvider";
+import {
+  CancelledError,
+  LocalizedMessage,
+  RateLimitError,
+  RequestTooLargeError,
+  toErrorPayload,
+  toTTSError,
+  TTSError,
+  TTSErrorCode
+} from "../services/ttsErrors";
+import { createRateLimiter } from "./rateLimiter";
+
+// Speech proxy: holds the Gemini key and forwards one prompt per request, so the
+// browser bundle never sees the key. It also runs the dialect Adapt rewrite. Every
+// request is rate limited per client, size checked and logged as one JSON line on
+// stdout. Configured through the environment:
+//
+//   API_KEY / GEMINI_API_KEY   Gemini key (not needed with TTS_UPSTREAM=mock)
+//   TTS_PROXY_PORT             Port to listen on (8787)
+//   TTS_UPSTREAM               gemini, or mock for the offline stand-in
+//   GEMINI_BASE_URL            Send Gemini calls to another endpoint, e.g. a local fake
+//   TTS_RATE_LIMIT             Requests per minute per client (30)
+//   TTS_RATE_BURST             Requests a client may make at once (10)
+//   TTS_MAX_BODY_BYTES         Largest request body (16384)
+//   TTS_MAX_PROMPT_CHARS       Longest prompt, or text to adapt (4000)
+//   TTS_ALLOWED_ORIGINS        Comma-separated origins allowed to call from a browser
+//   TTS_TRUST_PROXY            true to identify clients by X-Forwarded-For
+
+const env = process.env;
+const numberSetting = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+const config = {
+  port: numberSetting(env.TTS_PROXY_PORT, 8787),
+  upstream: env.TTS_UPSTREAM === 'mock' ? 'mock' : 'gemini',
+  rateLimit: numberSetting(env.TTS_RATE_LIMIT, 30),
+  rateBurst: numberSetting(env.TTS_RATE_BURST, 10),
+  maxBodyBytes: numberSetting(env.TTS_MAX_BODY_BYTES, 16384),
+  maxPromptChars: numberSetting(env.TTS_MAX_PROMPT_CHARS, 4000),
+  allowedOrigins: (env.TTS_ALLOWED_ORIGINS ?? '').split(',').map(o => o.trim()).filter(Boolean),
+  trustProxy: env.TTS_TRUST_PROXY === 'true'
+};
+
+const SAMPLE_RATE = 24000;
+
+const STATUS: Record<TTSErrorCode, number> = {
+  'missing-key': 503,
+  'invalid-key': 503,
+  'rate-limit': 429,
+  'content-blocked': 422,
+  'no-audio': 502,
+  'timeout': 504,
+  'network': 502,
+  'server': 502,
+  'cancelled': 499,
+  'too-large': 413,
+  'bad-request': 400,
+  'not-found': 404,
+  'unknown': 500
+};
+
+// Thrown while reading a request; answered as 400
+class BadRequestError extends TTSError {
+  constructor(detail: LocalizedMessage) {
+    super('bad-request', { en: `Bad request: ${detail.en}`, ar: `طلب غير صالح: ${detail.ar}` }, false);
+  }
+}
+
+// A method and path the proxy does not serve; answered as 404
+class NotFoundError extends TTSError {
+  constructor(method: string, path: string) {
+    super('not-found', { en: `No route for ${method} ${path}.`, ar: `لا يوجد مسار لـ ${method} ${path}.` }, false);
+  }
+}
+
+const limiter = createRateLimiter(config.rateLimit, config.rateBurst);
+const providers = new Map<string, TTSProvider>();
+
+const upstreamFor = (model: string): TTSProvider => {
+  let provider = providers.get(model);
+  if (!provider) {
+    provider = config.upstream === 'mock' ? createMockProvider() : createGeminiProvider(model);
+    providers.set(model, provider);
+  }
+  return provider;
+};
+
+const clientOf = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (config.trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const parts: Buffer[] = [];
+    let size = 0;
+    req.on('data', (part: Buffer) => {
+      size += part.length;
+      if (size <= config.maxBodyBytes) parts.push(part);
+      // The rest is read and dropped so the 413 can still be sent; the connection closes after it
+      else if (size - part.length <= config.maxBodyBytes) reject(new RequestTooLargeError(`${config.maxBodyBytes} bytes`));
+    });
+    req.on('end', () => resolve(Buffer.concat(parts).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const NOT_JSON: LocalizedMessage = { en: 'the body is not JSON.', ar: 'محتوى الطلب ليس JSON صالحاً.' };
+const required = (field: string): LocalizedMessage => ({ en: `"${field}" is required.`, ar: `الحقل "${field}" مطلوب.` });
+
+const parseRequest = (body: string): ProxyTTSRequest => {
+  let value: any;
+  try {
+    value = JSON.parse(body);
+  } catch {
+    throw new BadRequestError(NOT_JSON);
+  }
+  if (typeof value?.prompt !== 'string' || !value.prompt.trim()) throw new BadRequestError(required('prompt'));
+  if (typeof value.voiceName !== 'string' || !value.voiceName) throw new BadRequestError(required('voiceName'));
+  if (!GEMINI_TTS_MODELS.includes(value.model)) {
+    throw new BadRequestError({ en: `model "${value.model}" is not allowed.`, ar: `النموذج "${value.model}" غير مسموح به.` });
+  }
+  if (value.prompt.length > config.maxPromptChars) throw new RequestTooLargeError(`${config.maxPromptChars} characters`);
+
+  let speakers: ProviderSpeaker[] | undefined;
+  if (value.speakers !== undefined) {
+    const valid = Array.isArray(value.speakers) && value.speakers.length <= 2 &&
+      value.speakers.every((s: any) => typeof s?.speaker === 'string' && typeof s?.voiceName === 'string');
+    if (!valid) {
+      throw new BadRequestError({
+        en: '"speakers" must list at most two { speaker, voiceName } pairs.',
+        ar: 'يجب أن يضم الحقل "speakers" زوجين على الأكثر من { speaker, voiceName }.'
+      });
+    }
+    speakers = value.speakers.map((s: ProviderSpeaker) => ({ speaker: s.speaker, voiceName: s.voiceName }));
+  }
+
+  return { prompt: value.prompt, voiceName: value.voiceName, speakers, model: value.model, stream: value.stream === true };
+};
+
+const parseAdaptRequest = (body: string): { text: string; dialect: DialectOption } => {
+  let value: Partial<ProxyAdaptRequest>;
+  try {
+    value = JSON.parse(body);
+  } catch {
+    throw new BadRequestError(NOT_JSON);
+  }
+  if (typeof value?.text !== 'string' || !value.text.trim()) throw new BadRequestError(required('text'));
+  const dialect = SUPPORTED_DIALECTS.find(d => d.code === value.dialectCode);
+  if (!dialect) {
+    throw new BadRequestError({ en: `unknown dialect "${value.dialectCode}".`, ar: `اللهجة "${value.dialectCode}" غير معروفة.` });
+  }
+  if (value.text.length > config.maxPromptChars) throw new RequestTooLargeError(`${config.maxPromptChars} characters`);
+  return { text: value.text, dialect };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: TTSError) => {
+  const status = STATUS[error.code];
+  const headers: Record<string, string> = {};
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+  }
+  if (error instanceof RequestTooLargeError) headers['Connection'] = 'close';
+  sendJson(res, status, { error: toErrorPayload(error) }, headers);
+};
+
+// What gets logged for a request, filled in as it is handled
+interface UsageEntry {
+  client: string;
+  method: string;
+  path: string;
+  status?: number;
+  model?: string;
+  voice?: string;
+  chars?: number;
+  audioBytes?: number;
+  error?: TTSErrorCode;
+}
+
+const logUsage = (entry: UsageEntry, startedAt: number) => {
+  console.log(JSON.stringify({ time: new Date().toISOString(), ...entry, ms: Date.now() - startedAt }));
+};
+
+const handleVoices = (res: ServerResponse) => {
+  const info: ProxyInfo = {
+    upstream: config.upstream,
+    models: GEMINI_TTS_MODELS,
+    sampleRate: SAMPLE_RATE,
+    voices: GEMINI_VOICES
+  };
+  sendJson(res, 200, info);
+};
+
+const handleTTS = async (req: IncomingMessage, res: ServerResponse, usage: UsageEntry) => {
+  const decision = limiter.take(usage.client);
+  if (!decision.allowed) throw new RateLimitError(false, decision.retryAfterMs);
+
+  const request = parseRequest(await readBody(req));
+  usage.model = request.model;
+  usage.voice = request.speakers ? request.speakers.map(s => s.voiceName).join('+') : request.voiceName;
+  usage.chars = request.prompt.length;
+
+  // A client that hangs up cancels the upstream call
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort(new CancelledError());
+  });
+
+  const provider = upstreamFor(request.model);
+  const options = { voiceName: request.voiceName, speakers: request.speakers, signal: controller.signal };
+
+  if (!request.stream || !provider.synthesizeStream) {
+    const pcm = await provider.synthesize(request.prompt, options);
+    usage.audioBytes = pcm.byteLength;
+    res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': String(pcm.byteLength) });
+    res.end(Buffer.from(pcm));
+    return;
+  }
+
+  // Headers go out with the first slice, so a failure before any audio still gets a
+  // proper status; a failure after it ends the stream with an error line
+  usage.audioBytes = 0;
+  const writeLine = (line: ProxyStreamLine) => res.write(JSON.stringify(line) + '\n');
+  try {
+    for await (const piece of provider.synthesizeStream(request.prompt, options)) {
+      if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+      usage.audioBytes += piece.byteLength;
+      writeLine({ audio: arrayBufferToBase64(piece) });
+    }
+  } catch (err) {
+    if (!res.headersSent) throw err;
+    const error = toTTSError(err, controller.signal);
+    usage.error = error.code;
+    writeLine({ error: toErrorPayload(error) });
+  }
+  res.end();
+};
+
+// The mock upstream has no text model, so it hands the text back unchanged
+const handleAdapt = async (req: IncomingMessage, res: ServerResponse, usage: UsageEntry) => {
+  const decision = limiter.take(usage.client);
+  if (!decision.allowed) throw new RateLimitError(false, decision.retryAfterMs);
+
+  const { text, dialect } = parseAdaptRequest(await readBody(req));
+  usage.model = DIALECT_ADAPTATION_MODEL;
+  usage.chars = text.length;
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort(new CancelledError());
+  });
+
+  const adapted = config.upstream === 'mock' ? text : await adaptWithGemini(text, dialect, controller.signal);
+  const answer: ProxyAdaptResponse = { text: adapted };
+  sendJson(res, 200, answer);
+};
+
+const server = createServer(async (req, res) => {
+  const startedAt = Date.now();
+  const path = (req.url ?? '/').split('?')[0];
+  const usage: UsageEntry = { client: clientOf(req), method: req.method ?? 'GET', path };
+
+  const origin = req.headers.origin;
+  if (origin && config.allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, POST', 'Access-Control-Allow-Headers': 'Content-Type' });
+      res.end();
+    } else if (req.method === 'GET' && path === PROXY_VOICES_PATH) {
+      handleVoices(res);
+    } else if (req.method === 'POST' && path === PROXY_TTS_PATH) {
+      await handleTTS(req, res, usage);
+    } else if (req.method === 'POST' && path === PROXY_ADAPT_PATH) {
+      await handleAdapt(req, res, usage);
+    } else {
+      throw new NotFoundError(usage.method, path);
+    }
+  } catch (err) {
+    const error = toTTSError(err);
+    usage.error = error.code;
+    if (!res.headersSent) sendError(res, error);
+    else res.end();
+  }
+
+  usage.status = res.statusCode;
+  logUsage(usage, startedAt);
+});
+
+if (config.upstream === 'gemini' && !env.API_KEY && !env.GEMINI_API_KEY) {
+  console.error("Set API_KEY or GEMINI_API_KEY, or TTS_UPSTREAM=mock to run against the offline stand-in.");
+  process.exit(1);
+}
+if (env.GEMINI_BASE_URL) configureGeminiClient({ baseUrl: env.GEMINI_BASE_URL });
+
+server.listen(config.port, () => {
+  console.log(JSON.stringify({ time: new Date().toISOString(), event: 'listening', port: config.port, upstream: config.upstream }));
+});
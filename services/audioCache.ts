@@ -0,0 +1,185 @@
+import { promisifyRequest, withStores, STORES } from "./db";
+
+// Content-addressed cache of synthesized PCM. Entries are keyed by a hash of exactly
+// what was sent to the provider (final payload, voice, provider and model). Dialect and
+// prosody settings are part of that payload, while local processing (exact prosody,
+// Clarity) runs after the cache, so changing it never forces a new API call.
+// Two tiers: a small in-memory LRU in front of a larger IndexedDB store. Where there is
+// no IndexedDB (the Node CLI) only the memory tier is used. The persistent tier keeps
+// each entry's size and last access in a separate small store, so eviction and stats
+// never load the audio itself.
+
+export interface CacheKeyInput {
+  providerId: string;
+  model: string;
+  text: string;
+  isSSML: boolean;
+  voiceName: string;
+  speakers?: { speaker: string; voiceName: string }[];
+  style?: string; // Persona direction sent along with the text
+}
+
+export interface CachedAudio {
+  key: string;
+  pcm: ArrayBuffer;
+  sampleRate: number;
+  warnings: string[];
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+// Row of the audioCacheIndex store; its lastAccess is the one eviction goes by
+interface CacheIndexEntry {
+  key: string;
+  size: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+const MEMORY_LIMIT_BYTES = 32 * 1024 * 1024;
+const PERSISTENT_LIMIT_BYTES = 200 * 1024 * 1024;
+
+const memory = new Map<string, CachedAudio>(); // Insertion order doubles as LRU order
+let memoryBytes = 0;
+
+const hasPersistentTier = () => typeof indexedDB !== 'undefined';
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// FNV-1a fallback for contexts without SubtleCrypto (plain http)
+const fallbackHash = (value: string): string => {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193;
+  for (let i = 0; i < value.length; i++) {
+    h1 = Math.imul(h1 ^ value.charCodeAt(i), 16777619);
+    h2 = Math.imul(h2 ^ value.charCodeAt(value.length - 1 - i), 2246822519);
+  }
+  return `${(h1 >>> 0).toString(16)}${(h2 >>> 0).toString(16)}-${value.length}`;
+};
+
+export const createCacheKey = async (input: CacheKeyInput): Promise<string> => {
+  const canonical = JSON.stringify([
+    input.providerId,
+    input.model,
+    input.voiceName,
+    input.isSSML,
+    input.speakers ?? null,
+    input.text,
+    // Appended only when present so keys for unstyled voices stay as they were
+    ...(input.style ? [input.style] : []),
+  ]);
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical)));
+  }
+  return fallbackHash(canonical);
+};
+
+const rememberInMemory = (entry: CachedAudio) => {
+  const existing = memory.get(entry.key);
+  if (existing) {
+    memory.delete(entry.key);
+    memoryBytes -= existing.size;
+  }
+  memory.set(entry.key, entry);
+  memoryBytes += entry.size;
+
+  // Evict least recently used entries first
+  for (const [key, value] of memory) {
+    if (memoryBytes <= MEMORY_LIMIT_BYTES) break;
+    memory.delete(key);
+    memoryBytes -= value.size;
+  }
+};
+
+const CACHE_STORES = [STORES.audioCache, STORES.audioCacheIndex];
+
+const readIndex = (index: IDBObjectStore) =>
+  promisifyRequest(index.index('lastAccess').getAll() as IDBRequest<CacheIndexEntry[]>);
+
+const evictPersistent = async () => {
+  await withStores(CACHE_STORES, 'readwrite', async ([store, index]) => {
+    const entries = await readIndex(index);
+    let total = entries.reduce((sum, e) => sum + e.size, 0);
+    // Index order is oldest access first
+    for (const entry of entries) {
+      if (total <= PERSISTENT_LIMIT_BYTES) break;
+      store.delete(entry.key);
+      index.delete(entry.key);
+      total -= entry.size;
+    }
+  });
+};
+
+export const getCachedAudio = async (key: string): Promise<CachedAudio | null> => {
+  const now = Date.now();
+  const inMemory = memory.get(key);
+  if (inMemory) {
+    const touched = { ...inMemory, lastAccess: now };
+    rememberInMemory(touched);
+    return touched;
+  }
+  if (!hasPersistentTier()) return null;
+
+  try {
+    const stored = await withStores(CACHE_STORES, 'readwrite', async ([store, index]) => {
+      const entry = await promisifyRequest(store.get(key) as IDBRequest<CachedAudio | undefined>);
+      // Only the small index row is rewritten; the audio record stays as it was stored
+      if (entry) index.put({ key, size: entry.size, lastAccess: now } satisfies CacheIndexEntry);
+      return entry;
+    });
+    if (!stored) return null;
+    const touched = { ...stored, lastAccess: now };
+    rememberInMemory(touched);
+    return touched;
+  } catch (err) {
+    console.warn("Audio cache read failed:", err);
+    return null;
+  }
+};
+
+export const putCachedAudio = async (
+  key: string,
+  pcm: ArrayBuffer,
+  sampleRate: number,
+  warnings: string[]
+): Promise<void> => {
+  const now = Date.now();
+  const entry: CachedAudio = { key, pcm, sampleRate, warnings, size: pcm.byteLength, createdAt: now, lastAccess: now };
+  rememberInMemory(entry);
+  if (!hasPersistentTier()) return;
+
+  try {
+    await withStores(CACHE_STORES, 'readwrite', ([store, index]) => {
+      index.put({ key, size: entry.size, lastAccess: now } satisfies CacheIndexEntry);
+      return promisifyRequest(store.put(entry));
+    });
+    await evictPersistent();
+  } catch (err) {
+    // The memory tier still works if IndexedDB is unavailable or full
+    console.warn("Audio cache write failed:", err);
+  }
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  try {
+    const entries = await withStores([STORES.audioCacheIndex], 'readonly', ([index]) => readIndex(index));
+    return { entries: entries.length, bytes: entries.reduce((sum, e) => sum + e.size, 0) };
+  } catch {
+    return { entries: memory.size, bytes: memoryBytes };
+  }
+};
+
+export const clearAudioCache = async (): Promise<void> => {
+  memory.clear();
+  memoryBytes = 0;
+  await withStores(CACHE_STORES, 'readwrite', ([store, index]) => {
+    index.clear();
+    return promisifyRequest(store.clear());
+  });
+};
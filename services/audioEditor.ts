@@ -0,0 +1,215 @@
+import { detectPauses } from "./captions";
+
+// Non-destructive touch-up of the rendered take. The source buffer is never modified:
+// an edit list is replayed over it on every change, so undo and redo are just moves
+// between lists. Each edit's times (seconds) refer to the audio as it sounds after
+// the edits before it, which is what the waveform shows when the edit is made.
+
+export type AudioEdit =
+  | { kind: 'trim'; start: number; end: number } // Keep only this range
+  | { kind: 'delete'; start: number; end: number }
+  | { kind: 'insertSilence'; at: number; durationMs: number }
+  | { kind: 'fade'; start: number; end: number; direction: 'in' | 'out' }
+  | { kind: 'gain'; start: number; end: number; db: number }
+  | { kind: 'shortenPauses'; maxPauseMs: number };
+
+export interface EditHistory {
+  edits: AudioEdit[];
+  undone: AudioEdit[]; // Most recently undone last
+}
+
+export interface EditResult {
+  buffer: AudioBuffer;
+  // Where a moment of the source ends up in the edited audio
+  mapTime: (seconds: number) => number;
+}
+
+export const EMPTY_HISTORY: EditHistory = { edits: [], undone: [] };
+
+export const pushEdit = (history: EditHistory, edit: AudioEdit): EditHistory => ({
+  edits: [...history.edits, edit],
+  undone: []
+});
+
+export const undoEdit = (history: EditHistory): EditHistory =>
+  history.edits.length === 0
+    ? history
+    : { edits: history.edits.slice(0, -1), undone: [...history.undone, history.edits[history.edits.length - 1]] };
+
+export const redoEdit = (history: EditHistory): EditHistory =>
+  history.undone.length === 0
+    ? history
+    : { edits: [...history.edits, history.undone[history.undone.length - 1]], undone: history.undone.slice(0, -1) };
+
+// Back to the unedited take; every edit stays available to redo
+export const revertEdits = (history: EditHistory): EditHistory => ({
+  edits: [],
+  undone: [...history.undone, ...[...history.edits].reverse()]
+});
+
+const formatSec = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+export const describeEdit = (edit: AudioEdit): string => {
+  switch (edit.kind) {
+    case 'trim':
+      return `Trim to ${formatSec(edit.start)}–${formatSec(edit.end)}`;
+    case 'delete':
+      return `Delete ${formatSec(edit.start)}–${formatSec(edit.end)}`;
+    case 'insertSilence':
+      return `Insert ${edit.durationMs} ms silence at ${formatSec(edit.at)}`;
+    case 'fade':
+      return `Fade ${edit.direction} ${formatSec(edit.start)}–${formatSec(edit.end)}`;
+    case 'gain':
+      return `${edit.db > 0 ? '+' : ''}${edit.db} dB on ${formatSec(edit.start)}–${formatSec(edit.end)}`;
+    case 'shortenPauses':
+      return `Shorten pauses to ${edit.maxPauseMs} ms`;
+  }
+};
+
+// ---------- Rendering ----------
+
+// Short ramps at every cut and gain boundary so edits don't click
+const DECLICK_MS = 5;
+
+interface Audio {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+type TimeMap = (seconds: number) => number;
+
+const toSamples = (audio: Audio, seconds: number) =>
+  Math.max(0, Math.min(audio.channels[0].length, Math.round(seconds * audio.sampleRate)));
+
+const declickLength = (audio: Audio) => Math.round((DECLICK_MS / 1000) * audio.sampleRate);
+
+// Multiply [from, to) by a gain curve; `gainAt` gets the position within the range (0..1)
+const shapeRange = (audio: Audio, from: number, to: number, gainAt: (position: number) => number) => {
+  const length = to - from;
+  if (length <= 0) return;
+  for (const data of audio.channels) {
+    for (let i = 0; i < length; i++) data[from + i] *= gainAt(i / length);
+  }
+};
+
+const removeRange = (audio: Audio, from: number, to: number): Audio => {
+  if (to <= from) return audio;
+  const ramp = declickLength(audio);
+  shapeRange(audio, Math.max(0, from - ramp), from, p => 1 - p);
+  shapeRange(audio, to, Math.min(audio.channels[0].length, to + ramp), p => p);
+  return {
+    sampleRate: audio.sampleRate,
+    channels: audio.channels.map(data => {
+      const out = new Float32Array(data.length - (to - from));
+      out.set(data.subarray(0, from));
+      out.set(data.subarray(to), from);
+      return out;
+    })
+  };
+};
+
+const deleteTimeMap = (start: number, end: number): TimeMap => t =>
+  t < start ? t : t >= end ? t - (end - start) : start;
+
+const toAudioBuffer = (audio: Audio): AudioBuffer => {
+  const buffer = new AudioBuffer({
+    numberOfChannels: audio.channels.length,
+    length: Math.max(1, audio.channels[0].length),
+    sampleRate: audio.sampleRate
+  });
+  audio.channels.forEach((data, ch) => buffer.copyToChannel(data, ch));
+  return buffer;
+};
+
+const applyEdit = (audio: Audio, edit: AudioEdit): { audio: Audio; map: TimeMap } => {
+  const identity: TimeMap = t => t;
+  switch (edit.kind) {
+    case 'trim': {
+      const from = toSamples(audio, edit.start);
+      const to = toSamples(audio, edit.end);
+      if (to <= from) return { audio, map: identity };
+      const ramp = declickLength(audio);
+      const trimmed = { sampleRate: audio.sampleRate, channels: audio.channels.map(data => data.slice(from, to)) };
+      const length = to - from;
+      if (from > 0) shapeRange(trimmed, 0, Math.min(ramp, length), p => p);
+      if (to < audio.channels[0].length) shapeRange(trimmed, Math.max(0, length - ramp), length, p => 1 - p);
+      const duration = length / audio.sampleRate;
+      const start = from / audio.sampleRate;
+      return { audio: trimmed, map: t => Math.max(0, Math.min(duration, t - start)) };
+    }
+    case 'delete': {
+      const from = toSamples(audio, edit.start);
+      const to = toSamples(audio, edit.end);
+      return { audio: removeRange(audio, from, to), map: deleteTimeMap(from / audio.sampleRate, to / audio.sampleRate) };
+    }
+    case 'insertSilence': {
+      const at = toSamples(audio, edit.at);
+      const gap = Math.max(0, Math.round((edit.durationMs / 1000) * audio.sampleRate));
+      const ramp = declickLength(audio);
+      shapeRange(audio, Math.max(0, at - ramp), at, p => 1 - p);
+      shapeRange(audio, at, Math.min(audio.channels[0].length, at + ramp), p => p);
+      const channels = audio.channels.map(data => {
+        const out = new Float32Array(data.length + gap);
+        out.set(data.subarray(0, at));
+        out.set(data.subarray(at), at + gap);
+        return out;
+      });
+      const position = at / audio.sampleRate;
+      return { audio: { sampleRate: audio.sampleRate, channels }, map: t => (t < position ? t : t + gap / audio.sampleRate) };
+    }
+    case 'fade': {
+      const from = toSamples(audio, edit.start);
+      const to = toSamples(audio, edit.end);
+      // Equal-power curve over the range only, as in most editors
+      shapeRange(audio, from, to, p => (edit.direction === 'in' ? Math.sin((p * Math.PI) / 2) : Math.cos((p * Math.PI) / 2)));
+      return { audio, map: identity };
+    }
+    case 'gain': {
+      const from = toSamples(audio, edit.start);
+      const to = toSamples(audio, edit.end);
+      const gain = Math.pow(10, edit.db / 20);
+      const ramp = Math.min(declickLength(audio), Math.floor((to - from) / 2));
+      shapeRange(audio, from, from + ramp, p => 1 + (gain - 1) * p);
+      shapeRange(audio, from + ramp, to - ramp, () => gain);
+      shapeRange(audio, to - ramp, to, p => gain + (1 - gain) * p);
+      return { audio, map: identity };
+    }
+    case 'shortenPauses': {
+      // Keep half of the allowed pause on each side of every longer silence
+      const keep = Math.round((edit.maxPauseMs / 2000) * audio.sampleRate);
+      const pauses = detectPauses(toAudioBuffer(audio), edit.maxPauseMs + DECLICK_MS * 2);
+      let result = audio;
+      const maps: TimeMap[] = [];
+      // Last to first, so earlier positions stay valid
+      for (const pause of [...pauses].reverse()) {
+        const from = toSamples(audio, pause.start) + keep;
+        const to = toSamples(audio, pause.end) - keep;
+        if (to - from <= 0) continue;
+        result = removeRange(result, from, to);
+        maps.push(deleteTimeMap(from / audio.sampleRate, to / audio.sampleRate));
+      }
+      // Cuts were made from the end, so applying the maps in the same order is exact
+      return { audio: result, map: t => maps.reduce((time, map) => map(time), t) };
+    }
+  }
+};
+
+export const applyEdits = (source: AudioBuffer, edits: AudioEdit[]): EditResult => {
+  if (edits.length === 0) return { buffer: source, mapTime: t => t };
+
+  let audio: Audio = {
+    sampleRate: source.sampleRate,
+    channels: Array.from({ length: source.numberOfChannels }, (_, ch) => source.getChannelData(ch).slice())
+  };
+  const maps: TimeMap[] = [];
+  for (const edit of edits) {
+    const result = applyEdit(audio, edit);
+    audio = result.audio;
+    maps.push(result.map);
+  }
+
+  return {
+    buffer: toAudioBuffer(audio),
+    mapTime: seconds => maps.reduce((time, map) => map(time), seconds)
+  };
+};
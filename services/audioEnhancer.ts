@@ -0,0 +1,154 @@
+import { PcmBuffer, toAudioBuffer } from "./audioUtils";
+
+// Offline speech enhancement driven by the Clarity setting (0 = untouched, 100 = full).
+// Chain: rumble high-pass -> presence EQ -> de-esser -> light compression -> peak limiter.
+// Filters and compression render through an OfflineAudioContext; the de-esser and
+// limiter are sample loops since Web Audio has no dynamic EQ or true lookahead limiter.
+
+const LIMITER_CEILING = Math.pow(10, -1 / 20); // -1 dBFS
+const LIMITER_LOOKAHEAD_MS = 5;
+const LIMITER_RELEASE_MS = 80;
+
+const DEESS_CROSSOVER_HZ = 5000;
+const DEESS_THRESHOLD = 0.06;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+const renderOffline = async (
+  buffer: AudioBuffer,
+  build: (ctx: OfflineAudioContext, source: AudioBufferSourceNode) => AudioNode
+): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  build(ctx, source).connect(ctx.destination);
+  source.start();
+  return ctx.startRendering();
+};
+
+// RBJ cookbook high-pass; returns a filtered copy
+const highPass = (input: Float32Array, sampleRate: number, frequency: number): Float32Array => {
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const b0 = (1 + cos) / 2 / a0;
+  const b1 = -(1 + cos) / a0;
+  const b2 = b0;
+  const a1 = (-2 * cos) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return output;
+};
+
+// Split-band de-esser: only the band above the crossover is turned down while sibilance is loud
+const deEss = (buffer: AudioBuffer, amount: number) => {
+  if (buffer.sampleRate / 2 <= DEESS_CROSSOVER_HZ) return;
+
+  const attack = Math.exp(-1 / (0.001 * buffer.sampleRate));
+  const release = Math.exp(-1 / (0.05 * buffer.sampleRate));
+
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    const high = highPass(data, buffer.sampleRate, DEESS_CROSSOVER_HZ);
+    let envelope = 0;
+
+    for (let i = 0; i < data.length; i++) {
+      const level = Math.abs(high[i]);
+      envelope = level > envelope ? attack * envelope + (1 - attack) * level : release * envelope + (1 - release) * level;
+
+      if (envelope > DEESS_THRESHOLD) {
+        const reduction = Math.max(0.3, 1 - amount * (1 - DEESS_THRESHOLD / envelope));
+        data[i] = data[i] - high[i] + high[i] * reduction;
+      }
+    }
+  }
+};
+
+// Lookahead peak limiter: gain drops ahead of any peak over the ceiling and recovers smoothly
+const limitPeaks = (buffer: AudioBuffer, makeupGain: number) => {
+  const lookahead = Math.max(1, Math.round((LIMITER_LOOKAHEAD_MS / 1000) * buffer.sampleRate));
+  const release = Math.exp(-1 / ((LIMITER_RELEASE_MS / 1000) * buffer.sampleRate));
+  const length = buffer.length;
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+
+  // Gain each sample needs on its own (linked across channels)
+  const required = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    let peak = 0;
+    for (const data of channels) peak = Math.max(peak, Math.abs(data[i] * makeupGain));
+    required[i] = peak > LIMITER_CEILING ? LIMITER_CEILING / peak : 1;
+  }
+
+  // Sliding minimum over the lookahead window (monotonic deque)
+  const windowMin = new Float32Array(length);
+  const deque: number[] = [];
+  let head = 0;
+  for (let i = length - 1; i >= 0; i--) {
+    while (deque.length > head && required[deque[deque.length - 1]] >= required[i]) deque.pop();
+    deque.push(i);
+    while (deque[head] > i + lookahead) head++;
+    windowMin[i] = required[deque[head]];
+  }
+
+  let gain = 1;
+  for (let i = 0; i < length; i++) {
+    const target = windowMin[i];
+    gain = target < gain ? target : release * gain + (1 - release) * target;
+    for (const data of channels) {
+      data[i] = Math.max(-LIMITER_CEILING, Math.min(LIMITER_CEILING, data[i] * makeupGain * gain));
+    }
+  }
+};
+
+export const enhanceSpeech = async (input: PcmBuffer, clarity: number): Promise<AudioBuffer> => {
+  const buffer = toAudioBuffer(input);
+  const amount = Math.max(0, Math.min(100, clarity)) / 100;
+  if (amount === 0) return buffer;
+
+  // 1. Rumble high-pass and presence EQ
+  const equalized = await renderOffline(buffer, (ctx, source) => {
+    const rumble = ctx.createBiquadFilter();
+    rumble.type = 'highpass';
+    rumble.frequency.value = 60 + 40 * amount;
+    rumble.Q.value = Math.SQRT1_2;
+
+    const presence = ctx.createBiquadFilter();
+    presence.type = 'peaking';
+    presence.frequency.value = 3000;
+    presence.Q.value = 1;
+    presence.gain.value = 5 * amount;
+
+    source.connect(rumble).connect(presence);
+    return presence;
+  });
+
+  // 2. De-ess after the presence boost, which tends to exaggerate sibilants
+  deEss(equalized, amount);
+
+  // 3. Light compression to even out level between phrases
+  const compressed = await renderOffline(equalized, (ctx, source) => {
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.threshold.value = -14 - 8 * amount;
+    compressor.ratio.value = 1.5 + 2 * amount;
+    compressor.knee.value = 6;
+    compressor.attack.value = 0.005;
+    compressor.release.value = 0.12;
+    source.connect(compressor);
+    return compressor;
+  });
+
+  // 4. Make up the level lost to compression and catch any peaks
+  limitPeaks(compressed, dbToGain(1 + 4 * amount));
+
+  return compressed;
+};
@@ -0,0 +1,196 @@
+import { createMp3Encoder } from "wasm-media-encoders";
+import { audioBufferToWav, createPcmBuffer, PcmBuffer, resample, RiffInfo, WavBitDepth, WavEncoding } from "./audioUtils";
+import { encodeFlac } from "./flacEncoder";
+import { buildId3Tag, chapterFrame, commentFrame, Id3Frame, tableOfContentsFrames, textFrame } from "./id3";
+import { encodeOggOpus, OPUS_SAMPLE_RATE } from "./oggOpus";
+import { VENDOR } from "./vorbisComment";
+
+// Final encoding of a take: sample rate conversion, channel layout, codec and tags.
+
+export type ExportFormat = 'wav' | 'mp3' | 'flac' | 'opus';
+
+export type Mp3Bitrate = 64 | 96 | 128 | 160 | 192 | 256 | 320;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  sampleRate: number | null; // null keeps the model's rate
+  bitDepth: WavBitDepth; // WAV uses all three; FLAC caps at 24
+  wavEncoding: WavEncoding; // μ-law is for telephony and always 8-bit
+  stereo: boolean; // Mono duplicated to both channels
+  mp3Mode: 'cbr' | 'vbr';
+  mp3Bitrate: Mp3Bitrate;
+  mp3VbrQuality: number; // LAME -V: 0 (best) to 9 (smallest)
+  opusBitrate: number; // bits per second
+  deliveryProfileId: string | null; // See deliveryProfiles.ts; null exports the audio as it is
+}
+
+export interface ExportMetadata {
+  title: string;
+  artist: string;
+  album: string;
+  language: string; // BCP 47, e.g. ar-EG
+  comment: string;
+  track?: string; // "3" or "3/12"
+  chapters?: ExportChapter[]; // Written as ID3 CHAP/CTOC frames; MP3 only
+}
+
+export interface ExportChapter {
+  title: string;
+  start: number; // Seconds
+  end: number;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'wav',
+  sampleRate: null,
+  bitDepth: 16,
+  wavEncoding: 'pcm',
+  stereo: false,
+  mp3Mode: 'cbr',
+  mp3Bitrate: 128,
+  mp3VbrQuality: 4,
+  opusBitrate: 48000,
+  deliveryProfileId: null
+};
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string }[] = [
+  { id: 'wav', label: 'WAV', extension: 'wav' },
+  { id: 'mp3', label: 'MP3', extension: 'mp3' },
+  { id: 'flac', label: 'FLAC', extension: 'flac' },
+  { id: 'opus', label: 'Ogg Opus', extension: 'opus' },
+];
+
+export const EXPORT_SAMPLE_RATES = [22050, 44100, 48000];
+export const MP3_BITRATES: Mp3Bitrate[] = [64, 96, 128, 160, 192, 256, 320];
+export const OPUS_BITRATES = [24000, 32000, 48000, 64000, 96000, 128000];
+
+export const exportFileName = (base: string, format: ExportFormat): string =>
+  `${base}.${EXPORT_FORMATS.find(f => f.id === format)!.extension}`;
+
+// ISO 639-2 codes for ID3 (TLAN, COMM); other tags keep the BCP 47 code
+const ISO_639_2: Record<string, string> = { ar: 'ara', en: 'eng', fr: 'fra' };
+const toIso6392 = (language: string) => ISO_639_2[language.split('-')[0].toLowerCase()] ?? 'und';
+
+const MP3_FEED_FRAMES = 1152 * 32;
+
+// MP3 encoded as the audio arrives, so a long recording never has to be held as one
+// buffer. `write` takes channels already laid out for the stream (see prepareChannels).
+export interface Mp3Stream {
+  readonly frames: number; // Written so far, per channel
+  write: (channels: Float32Array[]) => void;
+  finish: (metadata?: ExportMetadata) => Blob;
+}
+
+export const createMp3Stream = async (sampleRate: number, channelCount: 1 | 2, options: ExportOptions): Promise<Mp3Stream> => {
+  const encoder = await createMp3Encoder();
+  const layout = { sampleRate, channels: channelCount };
+  if (options.mp3Mode === 'vbr') {
+    encoder.configure({ ...layout, vbrQuality: Math.max(0, Math.min(9, options.mp3VbrQuality)) });
+  } else {
+    encoder.configure({ ...layout, bitrate: options.mp3Bitrate });
+  }
+
+  // The encoder owns its output buffer, so every block is copied out
+  const parts: Uint8Array[] = [];
+  let frames = 0;
+  return {
+    get frames() {
+      return frames;
+    },
+    write: channels => {
+      for (let start = 0; start < channels[0].length; start += MP3_FEED_FRAMES) {
+        parts.push(encoder.encode(channels.map(data => data.subarray(start, start + MP3_FEED_FRAMES))).slice());
+      }
+      frames += channels[0].length;
+    },
+    finish: metadata => {
+      parts.push(encoder.finalize().slice());
+      const tag = metadata ? [buildId3Tag(id3Frames(metadata))] : [];
+      return new Blob([...tag, ...parts] as BlobPart[], { type: 'audio/mpeg' });
+    }
+  };
+};
+
+const id3Frames = (metadata: ExportMetadata): Id3Frame[] => {
+  const language = toIso6392(metadata.language);
+  const frames: Id3Frame[] = [];
+  if (metadata.title.trim()) frames.push(textFrame('TIT2', metadata.title.trim()));
+  if (metadata.artist.trim()) frames.push(textFrame('TPE1', metadata.artist.trim()));
+  if (metadata.album.trim()) frames.push(textFrame('TALB', metadata.album.trim()));
+  if (metadata.language.trim()) frames.push(textFrame('TLAN', language));
+  if (metadata.comment.trim()) frames.push(commentFrame(language, metadata.comment.trim()));
+  if (metadata.track?.trim()) frames.push(textFrame('TRCK', metadata.track.trim()));
+  frames.push(textFrame('TSSE', VENDOR));
+  if (metadata.chapters?.length) {
+    const ids = metadata.chapters.map((_, i) => `ch${i + 1}`);
+    frames.push(...tableOfContentsFrames('toc', ids, metadata.album.trim() || metadata.title.trim() || undefined));
+    metadata.chapters.forEach((chapter, i) => frames.push(chapterFrame(ids[i], chapter.start * 1000, chapter.end * 1000, chapter.title)));
+  }
+  return frames;
+};
+
+const riffInfo = (metadata: ExportMetadata): RiffInfo => ({
+  INAM: metadata.title,
+  IART: metadata.artist,
+  IPRD: metadata.album,
+  ILNG: metadata.language,
+  ICMT: metadata.comment,
+  ITRK: metadata.track,
+  ICRD: new Date().toISOString().slice(0, 10),
+  ISFT: VENDOR
+});
+
+const vorbisTags = (metadata: ExportMetadata) => ({
+  TITLE: metadata.title,
+  ARTIST: metadata.artist,
+  ALBUM: metadata.album,
+  LANGUAGE: metadata.language,
+  COMMENT: metadata.comment,
+  TRACKNUMBER: metadata.track,
+  DATE: new Date().toISOString().slice(0, 10)
+});
+
+// Opus always runs at 48 kHz; everything else keeps the source rate unless told otherwise
+export const exportSampleRate = (buffer: PcmBuffer, options: ExportOptions): number =>
+  options.format === 'opus' ? OPUS_SAMPLE_RATE : options.sampleRate ?? buffer.sampleRate;
+
+// Resampled and laid out as requested: mono sources are duplicated for stereo, and
+// multi-channel sources are averaged down for mono
+export const prepareChannels = (buffer: PcmBuffer, targetRate: number, stereo: boolean): Float32Array[] => {
+  const sources = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+  let mono: Float32Array | null = null;
+  if (!stereo || sources.length === 1) {
+    mono = sources[0];
+    if (sources.length > 1) {
+      mono = new Float32Array(buffer.length);
+      for (const data of sources) for (let i = 0; i < data.length; i++) mono[i] += data[i] / sources.length;
+    }
+    const converted = resample(mono, buffer.sampleRate, targetRate);
+    return stereo ? [converted, converted] : [converted];
+  }
+  return sources.slice(0, 2).map(data => resample(data, buffer.sampleRate, targetRate));
+};
+
+export const encodeAudio = async (
+  buffer: PcmBuffer,
+  options: ExportOptions,
+  metadata?: ExportMetadata
+): Promise<Blob> => {
+  const targetRate = exportSampleRate(buffer, options);
+  const channels = prepareChannels(buffer, targetRate, options.stereo);
+
+  switch (options.format) {
+    case 'wav': {
+      return audioBufferToWav(createPcmBuffer(channels, targetRate), { bitDepth: options.bitDepth, encoding: options.wavEncoding, info: metadata ? riffInfo(metadata) : undefined });
+    }
+    case 'mp3': {
+      const stream = await createMp3Stream(targetRate, channels.length as 1 | 2, options);
+      stream.write(channels);
+      return stream.finish(metadata);
+    }
+    case 'flac':
+      return encodeFlac(channels, targetRate, options.bitDepth === 16 ? 16 : 24, metadata ? vorbisTags(metadata) : {});
+    case 'opus':
+      return encodeOggOpus(channels, options.opusBitrate, buffer.sampleRate, metadata ? vorbisTags(metadata) : {});
+  }
+};
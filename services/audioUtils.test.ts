@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { resample } from './audioUtils';
+
+const sine = (frequency: number, rate: number, seconds: number) =>
+  Float32Array.from({ length: Math.round(rate * seconds) }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / rate));
+
+// Largest difference from `expected`, away from the edges where the filter runs out of input
+const maxError = (actual: Float32Array, expected: Float32Array, margin: number) => {
+  let error = 0;
+  for (let i = margin; i < Math.min(actual.length, expected.length) - margin; i++) error = Math.max(error, Math.abs(actual[i] - expected[i]));
+  return error;
+};
+
+const rms = (data: Float32Array, margin: number) => {
+  let sum = 0;
+  for (let i = margin; i < data.length - margin; i++) sum += data[i] * data[i];
+  return Math.sqrt(sum / (data.length - 2 * margin));
+};
+
+describe('resample', () => {
+  it('returns a copy when the rate does not change', () => {
+    const input = Float32Array.of(0.1, 0.2, 0.3);
+    const output = resample(input, 24000, 24000);
+    expect(output).toEqual(input);
+    expect(output).not.toBe(input);
+  });
+
+  it('scales the length by the rate ratio', () => {
+    expect(resample(new Float32Array(24000), 24000, 44100).length).toBe(44100);
+    expect(resample(new Float32Array(1000), 48000, 8000).length).toBe(167);
+  });
+
+  it('keeps a tone below both Nyquist frequencies', () => {
+    expect(maxError(resample(sine(440, 24000, 0.2), 24000, 48000), sine(440, 48000, 0.2), 200)).toBeLessThan(0.01);
+    expect(maxError(resample(sine(1000, 44100, 0.2), 44100, 22050), sine(1000, 22050, 0.2), 200)).toBeLessThan(0.01);
+  });
+
+  it('filters out what the lower rate cannot hold instead of aliasing it', () => {
+    const output = resample(sine(6000, 48000, 0.2), 48000, 8000);
+    expect(rms(output, 100)).toBeLessThan(0.01);
+  });
+});
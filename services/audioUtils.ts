@@ -1,6 +1,6 @@
 // Utility to convert Base64 to ArrayBuffer
 export const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
-  const binaryString = window.atob(base64);
+  const binaryString = atob(base64);
   const len = binaryString.length;
   const bytes = new Uint8Array(len);
   for (let i = 0; i < len; i++) {
@@ -9,23 +9,114 @@ export const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
   return bytes.buffer;
 };
 
+// Utility to convert an ArrayBuffer back to Base64
+export const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Build the string in slices to stay clear of argument-count limits
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Silent Int16 PCM of the given duration
+export const createSilencePcm = (durationMs: number, sampleRate: number = 24000): ArrayBuffer =>
+  new ArrayBuffer(Math.round((durationMs / 1000) * sampleRate) * 2);
+
+// Concatenate raw PCM byte buffers end to end
+export const concatPcm = (buffers: ArrayBuffer[]): ArrayBuffer => {
+  const total = buffers.reduce((sum, b) => sum + b.byteLength, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const b of buffers) {
+    out.set(new Uint8Array(b), offset);
+    offset += b.byteLength;
+  }
+  return out.buffer;
+};
+
+// A single context is reused for decoding; browsers cap how many can be open at once
+let sharedAudioContext: AudioContext | null = null;
+
+export const getAudioContext = (): AudioContext => {
+  if (!sharedAudioContext) {
+    sharedAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  }
+  return sharedAudioContext;
+};
+
+// The parts of an AudioBuffer that the DSP, stitching and encoders read. A Web Audio
+// AudioBuffer is one; createPcmBuffer makes one from plain arrays where Web Audio is
+// missing, e.g. under Node.
+export interface PcmBuffer {
+  readonly sampleRate: number;
+  readonly length: number; // Frames per channel
+  readonly duration: number; // Seconds
+  readonly numberOfChannels: number;
+  getChannelData(channel: number): Float32Array;
+}
+
+export const createPcmBuffer = (channels: Float32Array[], sampleRate: number): PcmBuffer => {
+  if (channels.length === 0) throw new Error("A PCM buffer needs at least one channel.");
+  const length = channels[0].length;
+  return {
+    sampleRate,
+    length,
+    duration: length / sampleRate,
+    numberOfChannels: channels.length,
+    getChannelData: channel => {
+      if (!channels[channel]) throw new RangeError(`Channel ${channel} does not exist.`);
+      return channels[channel];
+    }
+  };
+};
+
+// Web Audio nodes only accept a real AudioBuffer; anything else is copied into one
+export const toAudioBuffer = (buffer: PcmBuffer): AudioBuffer => {
+  if (buffer instanceof AudioBuffer) return buffer;
+  const output = new AudioBuffer({
+    numberOfChannels: buffer.numberOfChannels,
+    length: Math.max(1, buffer.length),
+    sampleRate: buffer.sampleRate
+  });
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) output.copyToChannel(buffer.getChannelData(ch) as Float32Array<ArrayBuffer>, ch);
+  return output;
+};
+
+// Convert raw PCM (Int16) data to floating point samples in [-1, 1]
+export const pcm16ToFloat32 = (buffer: ArrayBuffer): Float32Array => {
+  const pcm16 = new Int16Array(buffer);
+  const float32 = new Float32Array(pcm16.length);
+  for (let i = 0; i < pcm16.length; i++) {
+    float32[i] = pcm16[i] / 32768.0;
+  }
+  return float32;
+};
+
+// Mono Int16 PCM as a PcmBuffer, without an AudioContext
+export const pcm16ToBuffer = (buffer: ArrayBuffer, sampleRate: number = 24000): PcmBuffer =>
+  createPcmBuffer([pcm16ToFloat32(buffer)], sampleRate);
+
+// Convert the first channel of an AudioBuffer back to raw PCM (Int16)
+export const audioBufferToPcm16 = (buffer: PcmBuffer): ArrayBuffer => {
+  const data = buffer.getChannelData(0);
+  const pcm16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    pcm16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+  return pcm16.buffer;
+};
+
 // Convert raw PCM (Int16) data to an AudioBuffer
 export const pcmToAudioBuffer = (
   buffer: ArrayBuffer, 
   ctx: AudioContext, 
   sampleRate: number = 24000
 ): AudioBuffer => {
-  // Create Int16 view of the raw buffer
-  const pcm16 = new Int16Array(buffer);
-  
-  // Create Float32 buffer for AudioContext
-  const float32 = new Float32Array(pcm16.length);
-  
-  // Convert Int16 [-32768, 32767] to Float32 [-1.0, 1.0]
-  for (let i = 0; i < pcm16.length; i++) {
-    float32[i] = pcm16[i] / 32768.0;
-  }
-  
+  const float32 = pcm16ToFloat32(buffer);
+
   // Create the AudioBuffer
   // Mono channel (1) is standard for current TTS models
   const audioBuffer = ctx.createBuffer(1, float32.length, sampleRate);
@@ -34,106 +125,450 @@ export const pcmToAudioBuffer = (
   return audioBuffer;
 };
 
-// Simple WAV encoder
-export const audioBufferToWav = (buffer: AudioBuffer): Blob => {
+export type WavBitDepth = 16 | 24 | 32; // 32 is IEEE float
+
+// RIFF INFO tags written into a LIST chunk, e.g. { INAM: title, IART: artist }
+export type RiffInfo = Partial<Record<'INAM' | 'IART' | 'IPRD' | 'ICMT' | 'ILNG' | 'ICRD' | 'ISFT' | 'ITRK', string>>;
+
+export type WavEncoding = 'pcm' | 'mulaw'; // mulaw is 8-bit G.711 and ignores the bit depth
+
+export interface WavOptions {
+  bitDepth?: WavBitDepth;
+  encoding?: WavEncoding;
+  info?: RiffInfo;
+}
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+// LIST/INFO chunk; each value is UTF-8, NUL terminated and padded to an even length
+const buildInfoChunk = (info: RiffInfo): Uint8Array | null => {
+  const encoder = new TextEncoder();
+  const entries = Object.entries(info)
+    .filter(([, value]) => value && value.trim())
+    .map(([id, value]) => ({ id, data: encoder.encode(value!.trim()) }));
+  if (entries.length === 0) return null;
+
+  const padded = (n: number) => n + (n % 2);
+  const size = 4 + entries.reduce((sum, e) => sum + 8 + padded(e.data.length + 1), 0);
+  const chunk = new Uint8Array(8 + size);
+  const view = new DataView(chunk.buffer);
+  writeAscii(view, 0, 'LIST');
+  view.setUint32(4, size, true);
+  writeAscii(view, 8, 'INFO');
+  let offset = 12;
+  for (const { id, data } of entries) {
+    writeAscii(view, offset, id);
+    view.setUint32(offset + 4, data.length + 1, true);
+    chunk.set(data, offset + 8);
+    offset += 8 + padded(data.length + 1);
+  }
+  return chunk;
+};
+
+// G.711 μ-law: one byte per sample, companded from 14-bit magnitude
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+const toMulaw = (sample: number): number => {
+  let value = Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7FFF);
+  const sign = value < 0 ? 0x80 : 0;
+  if (sign) value = -value;
+  value = Math.min(value, MULAW_CLIP) + MULAW_BIAS;
+  let exponent = 7;
+  for (let mask = 0x4000; (value & mask) === 0 && exponent > 0; mask >>= 1) exponent--;
+  const mantissa = (value >> (exponent + 3)) & 0x0F;
+  return ~(sign | (exponent << 4) | mantissa) & 0xFF;
+};
+
+// WAV encoder: 16/24-bit PCM, 32-bit float or 8-bit μ-law, interleaved, with optional RIFF INFO tags
+export const audioBufferToWav = (buffer: PcmBuffer, options: WavOptions = {}): Blob => {
+  const isMulaw = options.encoding === 'mulaw';
+  const bitDepth = isMulaw ? 8 : options.bitDepth ?? 16;
   const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2 + 44;
-  const bufferArray = new ArrayBuffer(length);
-  const view = new DataView(bufferArray);
-  const channels = [];
-  let i;
-  let sample;
-  let offset = 0;
-  let pos = 0;
+  const bytesPerSample = bitDepth / 8;
+  const isFloat = bitDepth === 32;
+  const dataSize = buffer.length * numOfChan * bytesPerSample;
+  const info = options.info ? buildInfoChunk(options.info) : null;
+  // Non-PCM formats carry a fact chunk with the frame count
+  const isPcm = !isFloat && !isMulaw;
+  const fmtSize = isPcm ? 16 : 18;
+  const factSize = isPcm ? 0 : 12;
+  const headerSize = 12 + 8 + fmtSize + factSize + 8;
+  const pad = dataSize % 2; // Chunks are word aligned; 8-bit and 24-bit mono with an odd frame count need it
+
+  const bytes = new ArrayBuffer(headerSize + dataSize);
+  const view = new DataView(bytes);
 
-  // write WAVE header
-  setUint32(0x46464952); // "RIFF"
-  setUint32(length - 8); // file length - 8
-  setUint32(0x45564157); // "WAVE"
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, headerSize + dataSize + pad + (info?.length ?? 0) - 8, true);
+  writeAscii(view, 8, 'WAVE');
 
-  setUint32(0x20746d66); // "fmt " chunk
-  setUint32(16); // length = 16
-  setUint16(1); // PCM (uncompressed)
-  setUint16(numOfChan);
-  setUint32(buffer.sampleRate);
-  setUint32(buffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
-  setUint16(numOfChan * 2); // block-align
-  setUint16(16); // 16-bit (hardcoded in this encoder)
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, fmtSize, true);
+  view.setUint16(20, isMulaw ? 7 : isFloat ? 3 : 1, true); // μ-law, IEEE float or PCM
+  view.setUint16(22, numOfChan, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * numOfChan * bytesPerSample, true); // avg. bytes/sec
+  view.setUint16(32, numOfChan * bytesPerSample, true); // block-align
+  view.setUint16(34, bitDepth, true);
+  let pos = 36;
+  if (!isPcm) {
+    view.setUint16(pos, 0, true); // cbSize
+    writeAscii(view, pos + 2, 'fact');
+    view.setUint32(pos + 6, 4, true);
+    view.setUint32(pos + 10, buffer.length, true);
+    pos += 14;
+  }
 
-  setUint32(0x61746164); // "data" - chunk
-  setUint32(length - pos - 4); // chunk length
+  writeAscii(view, pos, 'data');
+  view.setUint32(pos + 4, dataSize, true);
+  pos += 8;
 
   // write interleaved data
-  for (i = 0; i < buffer.numberOfChannels; i++)
-    channels.push(buffer.getChannelData(i));
-
-  while (pos < buffer.length) {
-    for (i = 0; i < numOfChan; i++) {
-      // interleave channels
-      sample = Math.max(-1, Math.min(1, channels[i][pos])); // clamp
-      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0; // scale to 16-bit signed int
-      view.setInt16(44 + offset, sample, true);
-      offset += 2;
+  const channels = Array.from({ length: numOfChan }, (_, ch) => buffer.getChannelData(ch));
+  for (let i = 0; i < buffer.length; i++) {
+    for (let ch = 0; ch < numOfChan; ch++) {
+      const sample = Math.max(-1, Math.min(1, channels[ch][i])); // clamp
+      if (isMulaw) {
+        view.setUint8(pos, toMulaw(sample));
+      } else if (isFloat) {
+        view.setFloat32(pos, sample, true);
+      } else if (bitDepth === 24) {
+        const value = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7FFFFF);
+        view.setUint8(pos, value & 0xFF);
+        view.setUint8(pos + 1, (value >> 8) & 0xFF);
+        view.setUint8(pos + 2, (value >> 16) & 0xFF);
+      } else {
+        view.setInt16(pos, Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7FFF), true);
+      }
+      pos += bytesPerSample;
     }
-    pos++;
   }
 
-  return new Blob([bufferArray], { type: "audio/wav" });
+  return new Blob([bytes, new Uint8Array(pad), ...(info ? [info] : [])] as BlobPart[], { type: "audio/wav" });
+};
+
+// ---------------------------------------------------------------------------
+// Resampling: windowed-sinc interpolation with a Kaiser window. The cutoff sits
+// just below the lower of the two Nyquist frequencies, so downsampling doesn't alias.
+// ---------------------------------------------------------------------------
+
+const RESAMPLE_ZERO_CROSSINGS = 16;
+const RESAMPLE_PHASES = 256; // Kernel table resolution per input sample
+const KAISER_BETA = 8.6;
+
+// Zeroth-order modified Bessel function, for the Kaiser window
+const besselI0 = (x: number): number => {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 50; k++) {
+    term *= (x / (2 * k)) * (x / (2 * k));
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+};
+
+export const resample = (input: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate || input.length === 0) return input.slice();
 
-  function setUint16(data: number) {
-    view.setUint16(pos, data, true);
-    pos += 2;
+  const ratio = toRate / fromRate;
+  const cutoff = Math.min(1, ratio) * 0.95; // Fraction of the input Nyquist
+  const halfWidth = Math.ceil(RESAMPLE_ZERO_CROSSINGS / cutoff); // In input samples
+
+  const tableLength = halfWidth * RESAMPLE_PHASES + 2;
+  const kernel = new Float32Array(tableLength);
+  const norm = besselI0(KAISER_BETA);
+  for (let i = 0; i < tableLength; i++) {
+    const x = i / RESAMPLE_PHASES;
+    const t = x / halfWidth;
+    const window = t < 1 ? besselI0(KAISER_BETA * Math.sqrt(1 - t * t)) / norm : 0;
+    const arg = Math.PI * cutoff * x;
+    kernel[i] = cutoff * (x === 0 ? 1 : Math.sin(arg) / arg) * window;
   }
 
-  function setUint32(data: number) {
-    view.setUint32(pos, data, true);
-    pos += 4;
+  const output = new Float32Array(Math.round(input.length * ratio));
+  for (let n = 0; n < output.length; n++) {
+    const position = n / ratio;
+    const center = Math.floor(position);
+    const frac = position - center;
+    const first = Math.max(0, center - halfWidth + 1);
+    const last = Math.min(input.length - 1, center + halfWidth);
+    let sum = 0;
+    for (let i = first; i <= last; i++) {
+      const t = Math.abs(i - center - frac) * RESAMPLE_PHASES;
+      const k = t | 0;
+      sum += input[i] * (kernel[k] + (kernel[k + 1] - kernel[k]) * (t - k));
+    }
+    output[n] = sum;
   }
+  return output;
 };
 
-// Declare global lamejs
-declare const lamejs: any;
+// Join consecutive buffers into one, overlapping each seam with a short linear crossfade
+// so chunk boundaries don't click. All buffers are expected to share a sample rate.
+// Overlap in samples at each seam, never longer than half of either neighbour
+export const crossfadeLengths = (buffers: PcmBuffer[], crossfadeMs: number = 30): number[] => {
+  if (buffers.length === 0) return [];
+  const requestedFade = Math.round((crossfadeMs / 1000) * buffers[0].sampleRate);
+  return buffers.slice(1).map((b, i) =>
+    Math.min(requestedFade, Math.floor(buffers[i].length / 2), Math.floor(b.length / 2))
+  );
+};
 
-// MP3 Encoder using lamejs
-export const audioBufferToMp3 = (buffer: AudioBuffer): Blob => {
-  if (typeof lamejs === 'undefined') {
-    throw new Error("MP3 encoder library (lamejs) not loaded.");
+export const concatAudioBuffers = (buffers: PcmBuffer[], crossfadeMs: number = 30): PcmBuffer => {
+  if (buffers.length === 0) {
+    throw new Error("No audio buffers to join.");
   }
 
-  const channels = 1; // Assuming mono for TTS
-  const sampleRate = buffer.sampleRate;
-  const kbps = 128;
-  
-  const mp3encoder = new lamejs.Mp3Encoder(channels, sampleRate, kbps);
-  const mp3Data = [];
-  
-  // Get raw float samples
-  const rawData = buffer.getChannelData(0);
-  
-  // Convert float samples to Int16
-  const samples = new Int16Array(rawData.length);
-  for (let i = 0; i < rawData.length; i++) {
-    // Clamp values between -1 and 1
-    const s = Math.max(-1, Math.min(1, rawData[i]));
-    // Scale to 16-bit integer range
-    samples[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  const sampleRate = buffers[0].sampleRate;
+  const numberOfChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const fades = crossfadeLengths(buffers, crossfadeMs);
+  const totalLength = buffers.reduce((sum, b) => sum + b.length, 0) - fades.reduce((sum, f) => sum + f, 0);
+
+  const output = createPcmBuffer(Array.from({ length: numberOfChannels }, () => new Float32Array(totalLength)), sampleRate);
+
+  for (let ch = 0; ch < numberOfChannels; ch++) {
+    const out = output.getChannelData(ch);
+    let offset = 0;
+
+    buffers.forEach((buffer, i) => {
+      // Mono sources are copied into every output channel
+      const data = buffer.getChannelData(Math.min(ch, buffer.numberOfChannels - 1));
+      const fadeIn = i > 0 ? fades[i - 1] : 0;
+
+      for (let s = 0; s < data.length; s++) {
+        if (s < fadeIn) {
+          const gain = s / fadeIn;
+          out[offset + s] = out[offset + s] * (1 - gain) + data[s] * gain;
+        } else {
+          out[offset + s] = data[s];
+        }
+      }
+
+      offset += data.length - (i < fades.length ? fades[i] : 0);
+    });
   }
-  
-  // Encode in blocks
-  const blockSize = 1152;
-  for (let i = 0; i < samples.length; i += blockSize) {
-    const chunk = samples.subarray(i, i + blockSize);
-    const mp3buf = mp3encoder.encodeBuffer(chunk);
-    if (mp3buf.length > 0) {
-      mp3Data.push(mp3buf);
+
+  return output;
+};
+
+// Join buffers back to back with a fixed stretch of silence between each one
+export const joinWithSilence = (buffers: PcmBuffer[], gapMs: number): PcmBuffer => {
+  if (buffers.length === 0) {
+    throw new Error("No audio buffers to join.");
+  }
+
+  const sampleRate = buffers[0].sampleRate;
+  const numberOfChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const gapSamples = Math.max(0, Math.round((gapMs / 1000) * sampleRate));
+  const totalLength = buffers.reduce((sum, b) => sum + b.length, 0) + gapSamples * (buffers.length - 1);
+
+  const output = createPcmBuffer(Array.from({ length: numberOfChannels }, () => new Float32Array(totalLength)), sampleRate);
+
+  for (let ch = 0; ch < numberOfChannels; ch++) {
+    const out = output.getChannelData(ch);
+    let offset = 0;
+    for (const buffer of buffers) {
+      out.set(buffer.getChannelData(Math.min(ch, buffer.numberOfChannels - 1)), offset);
+      offset += buffer.length + gapSamples;
     }
   }
-  
-  // Flush the encoder
-  const mp3buf = mp3encoder.flush();
-  if (mp3buf.length > 0) {
-    mp3Data.push(mp3buf);
+
+  return output;
+};
+
+// ---------------------------------------------------------------------------
+// Prosody DSP: pitch and speed applied locally so the slider values are exact.
+// ---------------------------------------------------------------------------
+
+const hannWindow = (size: number): Float32Array => {
+  const w = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
   }
-  
-  return new Blob(mp3Data, { type: 'audio/mp3' });
+  return w;
+};
+
+// Divide overlap-added output by the summed window so the level stays constant
+const normalizeOverlapAdd = (out: Float32Array, norm: Float32Array) => {
+  for (let i = 0; i < out.length; i++) {
+    if (norm[i] > 1e-3) out[i] /= norm[i];
+  }
+};
+
+// WSOLA time stretch: changes duration by 1/rate without changing pitch.
+// Each analysis frame is nudged within a small tolerance to the position that best
+// continues the waveform of the previous frame, which avoids phasiness on speech.
+export const timeStretch = (input: Float32Array, rate: number, sampleRate: number): Float32Array => {
+  if (Math.abs(rate - 1) < 0.01 || input.length === 0) return input.slice();
+
+  const frame = Math.round(0.025 * sampleRate);
+  const synthesisHop = Math.floor(frame / 2);
+  const analysisHop = synthesisHop * rate;
+  const tolerance = Math.floor(frame / 4);
+  const window = hannWindow(frame);
+
+  // Zero padding lets every search window read safely past either end
+  const padded = new Float32Array(input.length + 2 * (frame + tolerance));
+  padded.set(input, frame + tolerance);
+  const base = frame + tolerance;
+
+  const outLength = Math.round(input.length / rate);
+  const out = new Float32Array(outLength + frame);
+  const norm = new Float32Array(outLength + frame);
+
+  let previousStart = base;
+  for (let k = 0; k * synthesisHop < outLength; k++) {
+    const nominal = base + Math.round(k * analysisHop);
+    if (nominal + frame + tolerance >= padded.length) break;
+
+    let start = nominal;
+    if (k > 0) {
+      // Natural continuation of the previous frame, compared on a decimated grid for speed
+      const target = previousStart + synthesisHop;
+      let bestScore = -Infinity;
+      for (let delta = -tolerance; delta <= tolerance; delta++) {
+        let score = 0;
+        for (let i = 0; i < frame; i += 4) {
+          score += padded[target + i] * padded[nominal + delta + i];
+        }
+        if (score > bestScore) {
+          bestScore = score;
+          start = nominal + delta;
+        }
+      }
+    }
+
+    const outPos = k * synthesisHop;
+    for (let i = 0; i < frame && outPos + i < out.length; i++) {
+      out[outPos + i] += padded[start + i] * window[i];
+      norm[outPos + i] += window[i];
+    }
+    previousStart = start;
+  }
+
+  normalizeOverlapAdd(out, norm);
+  return out.subarray(0, outLength).slice();
+};
+
+// Pitch period (in samples) for every hop, 0 where the signal is unvoiced.
+// Autocorrelation on a 3x decimated copy keeps this cheap on long takes.
+const trackPitchPeriods = (input: Float32Array, sampleRate: number, hop: number): Int32Array => {
+  const factor = 3;
+  const rate = sampleRate / factor;
+  const decimated = new Float32Array(Math.floor(input.length / factor));
+  for (let i = 0; i < decimated.length; i++) {
+    decimated[i] = (input[i * factor] + input[i * factor + 1] + input[i * factor + 2]) / 3;
+  }
+
+  const minLag = Math.floor(rate / 400);
+  const maxLag = Math.ceil(rate / 70);
+  const frame = maxLag * 2;
+  const periods = new Int32Array(Math.ceil(input.length / hop));
+
+  for (let h = 0; h < periods.length; h++) {
+    const start = Math.floor((h * hop) / factor);
+    if (start + frame + maxLag >= decimated.length) break;
+
+    let energy = 0;
+    for (let i = 0; i < frame; i++) energy += decimated[start + i] * decimated[start + i];
+    if (energy / frame < 1e-5) continue;
+
+    let bestLag = 0;
+    let bestCorr = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      let corr = 0;
+      let lagEnergy = 0;
+      for (let i = 0; i < frame; i++) {
+        corr += decimated[start + i] * decimated[start + i + lag];
+        lagEnergy += decimated[start + i + lag] * decimated[start + i + lag];
+      }
+      const normalized = corr / Math.sqrt(energy * lagEnergy + 1e-12);
+      if (normalized > bestCorr) {
+        bestCorr = normalized;
+        bestLag = lag;
+      }
+    }
+
+    if (bestCorr > 0.5) periods[h] = bestLag * factor;
+  }
+
+  return periods;
+};
+
+// TD-PSOLA pitch shift: changes pitch by `ratio` while keeping duration and formants.
+// Two-period grains are cut around pitch marks and re-spaced at the new period; since
+// each grain keeps its shape, the vocal tract resonances are not shifted with the pitch.
+export const pitchShift = (input: Float32Array, ratio: number, sampleRate: number): Float32Array => {
+  if (Math.abs(ratio - 1) < 0.005 || input.length === 0) return input.slice();
+
+  const hop = Math.round(0.01 * sampleRate);
+  const unvoicedPeriod = hop;
+  const periods = trackPitchPeriods(input, sampleRate, hop);
+  const periodAt = (pos: number) => periods[Math.min(periods.length - 1, Math.floor(pos / hop))] || 0;
+
+  // Analysis marks: one per period in voiced regions (snapped to the local peak), every hop elsewhere
+  const marks: number[] = [];
+  let pos = 0;
+  while (pos < input.length) {
+    const period = periodAt(pos);
+    if (period > 0) {
+      const half = Math.floor(period / 2);
+      let peak = pos;
+      for (let i = Math.max(0, pos - half); i < Math.min(input.length, pos + half); i++) {
+        if (Math.abs(input[i]) > Math.abs(input[peak])) peak = i;
+      }
+      if (marks.length === 0 || peak > marks[marks.length - 1]) marks.push(peak);
+      pos = Math.max(peak, pos) + period;
+    } else {
+      marks.push(pos);
+      pos += unvoicedPeriod;
+    }
+  }
+
+  const out = new Float32Array(input.length);
+  const norm = new Float32Array(input.length);
+  let markIndex = 0;
+  let t = marks[0] ?? 0;
+
+  while (t < input.length) {
+    // Nearest analysis mark to this synthesis instant
+    while (markIndex + 1 < marks.length && Math.abs(marks[markIndex + 1] - t) <= Math.abs(marks[markIndex] - t)) {
+      markIndex++;
+    }
+    const mark = marks[markIndex];
+    const period = periodAt(mark);
+    const grainHalf = period > 0 ? period : unvoicedPeriod;
+    const window = hannWindow(grainHalf * 2 + 1);
+
+    const synthPos = Math.round(t);
+    for (let i = -grainHalf; i <= grainHalf; i++) {
+      const src = mark + i;
+      const dst = synthPos + i;
+      if (src < 0 || src >= input.length || dst < 0 || dst >= out.length) continue;
+      const w = window[i + grainHalf];
+      out[dst] += input[src] * w;
+      norm[dst] += w;
+    }
+
+    t += period > 0 ? period / ratio : unvoicedPeriod;
+  }
+
+  normalizeOverlapAdd(out, norm);
+  return out;
+};
+
+// Apply an exact speed multiplier and pitch offset (in percent) to a buffer
+export const applyProsody = (buffer: PcmBuffer, speed: number, pitchPercent: number): PcmBuffer => {
+  const pitchRatio = 1 + pitchPercent / 100;
+  if (Math.abs(speed - 1) < 0.01 && Math.abs(pitchRatio - 1) < 0.005) return buffer;
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) =>
+    timeStretch(pitchShift(buffer.getChannelData(ch), pitchRatio, buffer.sampleRate), speed, buffer.sampleRate)
+  );
+
+  return createPcmBuffer(channels, buffer.sampleRate);
 };
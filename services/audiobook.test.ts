@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createPcmBuffer } from './audioUtils';
+import { buildChapteredMp3, buildPlaylist, chapterFileName, ChapterState } from './audiobook';
+
+const book = { title: 'كتاب', author: 'Author', language: 'ar' };
+
+const chapter = (n: number, seconds: number, sampleRate = 24000, status: ChapterState['status'] = 'done'): ChapterState => ({
+  chapter: { id: `chapter-${n}`, title: `Chapter ${n}`, text: '' },
+  status,
+  audio: status === 'done'
+    ? createPcmBuffer([Float32Array.from({ length: seconds * sampleRate }, (_, i) => 0.2 * Math.sin(i / 10))], sampleRate)
+    : undefined
+});
+
+// Element id, start and end (ms) of every CHAP frame in the ID3 tag
+const readChapters = (bytes: Uint8Array) => {
+  const tagSize = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chapters: { id: string; start: number; end: number }[] = [];
+  for (let offset = 10; offset + 10 <= 10 + tagSize;) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4);
+    if (!size) break;
+    if (id === 'CHAP') {
+      const body = bytes.subarray(offset + 10, offset + 10 + size);
+      const idEnd = body.indexOf(0);
+      chapters.push({
+        id: String.fromCharCode(...body.subarray(0, idEnd)),
+        start: view.getUint32(offset + 10 + idEnd + 1),
+        end: view.getUint32(offset + 10 + idEnd + 5)
+      });
+    }
+    offset += 10 + size;
+  }
+  return chapters;
+};
+
+describe('buildChapteredMp3', () => {
+  it('encodes the finished chapters in order, with a two-second pause that ends each chapter', async () => {
+    const states = [chapter(1, 1), chapter(2, 1, 24000, 'pending'), chapter(3, 2, 48000), chapter(4, 1)];
+    const bytes = new Uint8Array(await (await buildChapteredMp3(states, book)).arrayBuffer());
+    expect(String.fromCharCode(...bytes.subarray(0, 3))).toBe('ID3');
+    expect(readChapters(bytes)).toEqual([
+      { id: 'ch1', start: 0, end: 3000 },
+      { id: 'ch2', start: 3000, end: 7000 },
+      { id: 'ch3', start: 7000, end: 8000 }
+    ]);
+  });
+
+  it('fails when no chapter is rendered', async () => {
+    await expect(buildChapteredMp3([chapter(1, 1, 24000, 'pending')], book)).rejects.toThrow("No chapters have been rendered yet.");
+  });
+});
+
+describe('chapter files', () => {
+  it('numbers file names so they sort in reading order', () => {
+    expect(chapterFileName(3, 12, 'Chapter: Three', 'mp3')).toBe('03 - Chapter_ Three.mp3');
+    expect(chapterFileName(7, 120, '', 'wav')).toBe('007.wav');
+  });
+
+  it('writes an extended M3U playlist', () => {
+    expect(buildPlaylist(book, [{ file: '01 - One.mp3', title: 'One', duration: 61.6 }]))
+      .toBe('#EXTM3U\n#PLAYLIST:كتاب\n#EXTINF:62,Author - One\n01 - One.mp3\n');
+  });
+});
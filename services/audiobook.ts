@@ -0,0 +1,175 @@
+import { PcmBuffer } from "./audioUtils";
+import {
+  createMp3Stream,
+  DEFAULT_EXPORT_OPTIONS,
+  encodeAudio,
+  ExportChapter,
+  ExportMetadata,
+  ExportOptions,
+  prepareChannels
+} from "./audioExport";
+import { BatchDefaults } from "./batchRenderer";
+import { toFileName } from "./batchManifest";
+import { DocumentChapter } from "./documentImport";
+import { renderText } from "./textRenderer";
+import { CancelledError, toTTSError } from "./ttsErrors";
+import { createZip, ZipEntry } from "./zipWriter";
+
+// Chapters of an imported document rendered one by one and delivered as an audiobook:
+// a ZIP of numbered chapter files with an M3U playlist, or one MP3 with ID3 chapters.
+
+export type ChapterStatus = 'pending' | 'rendering' | 'done' | 'failed';
+
+export type AudiobookFormat = 'mp3-files' | 'wav-files' | 'mp3-chaptered';
+
+export interface ChapterState {
+  chapter: DocumentChapter;
+  status: ChapterStatus;
+  audio?: PcmBuffer;
+  error?: string;
+  progress?: number; // 0–1 while rendering, by finished chunks
+  cached?: boolean; // Every chunk came from the audio cache
+  warnings?: string[];
+}
+
+export interface ChapterRenderOptions {
+  defaults: BatchDefaults;
+  ids?: string[]; // Render these chapters, re-rendering them when already done
+  bypassCache?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (states: ChapterState[]) => void;
+}
+
+export interface AudiobookInfo {
+  title: string;
+  author: string;
+  language: string; // BCP 47
+}
+
+const CHAPTER_GAP_MS = 2000;
+
+export const createChapterStates = (chapters: DocumentChapter[]): ChapterState[] =>
+  chapters.map(chapter => ({ chapter, status: 'pending' }));
+
+// Chapters render one after another; each one already sends its chunks in parallel.
+// Cancelling puts the chapter in progress back the way it was and leaves the rest.
+export const renderChapters = async (initial: ChapterState[], options: ChapterRenderOptions): Promise<ChapterState[]> => {
+  const selected = options.ids ? new Set(options.ids) : null;
+  const states = [...initial];
+
+  const update = (index: number, patch: Partial<ChapterState>) => {
+    states[index] = { ...states[index], ...patch };
+    options.onProgress?.([...states]);
+  };
+
+  for (let index = 0; index < states.length; index++) {
+    const previous = states[index];
+    const queued = selected ? selected.has(previous.chapter.id) : previous.status !== 'done';
+    if (!queued) continue;
+    if (options.signal?.aborted) break;
+
+    update(index, { status: 'rendering', error: undefined, progress: 0 });
+    try {
+      const { defaults } = options;
+      const rendered = await renderText({
+        text: previous.chapter.text,
+        voiceId: defaults.voiceId,
+        dialectCode: defaults.dialectCode,
+        settings: defaults.settings,
+        lexiconEntries: defaults.lexiconEntries,
+        normalize: defaults.normalize,
+        // A re-render of a finished chapter asks for a new take rather than the cached one
+        bypassCache: options.bypassCache || previous.status === 'done',
+        signal: options.signal,
+        onProgress: chunks => update(index, { progress: chunks.filter(c => c.status === 'done').length / chunks.length })
+      });
+      update(index, { status: 'done', audio: rendered.audio, cached: rendered.cached, warnings: rendered.warnings, progress: undefined });
+    } catch (err) {
+      const failure = toTTSError(err, options.signal);
+      if (failure instanceof CancelledError) {
+        states[index] = previous;
+        options.onProgress?.([...states]);
+        break;
+      }
+      update(index, { status: 'failed', error: failure.message, progress: undefined });
+    }
+  }
+
+  return states;
+};
+
+// "03 - Chapter Three.mp3": numbered so file lists sort in reading order
+export const chapterFileName = (position: number, total: number, title: string, extension: string): string => {
+  const number = String(position).padStart(Math.max(2, String(total).length), '0');
+  const clean = title.replace(/\s+/g, ' ').trim();
+  const name = clean ? toFileName(clean).slice(0, 80).trim() : '';
+  return `${number}${name ? ` - ${name}` : ''}.${extension}`;
+};
+
+const m3uField = (text: string) => text.replace(/[\r\n]+/g, ' ').trim();
+
+// Extended M3U in UTF-8, so Arabic titles survive
+export const buildPlaylist = (book: AudiobookInfo, entries: { file: string; title: string; duration: number }[]): string =>
+  [
+    '#EXTM3U',
+    `#PLAYLIST:${m3uField(book.title)}`,
+    ...entries.flatMap(entry => [
+      `#EXTINF:${Math.round(entry.duration)},${m3uField(book.author ? `${book.author} - ${entry.title}` : entry.title)}`,
+      entry.file
+    ])
+  ].join('\n') + '\n';
+
+const bookMetadata = (book: AudiobookInfo, title: string): ExportMetadata => ({
+  title,
+  artist: book.author,
+  album: book.title,
+  language: book.language,
+  comment: ''
+});
+
+// A ZIP of the finished chapters as separate files, tagged with their track number, and a
+// playlist in reading order. Chapters that aren't rendered are left out.
+export const buildChapterFiles = async (states: ChapterState[], book: AudiobookInfo, format: 'mp3' | 'wav'): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const playlist: { file: string; title: string; duration: number }[] = [];
+  for (const [index, state] of states.entries()) {
+    if (state.status !== 'done' || !state.audio) continue;
+    const { title } = state.chapter;
+    const file = chapterFileName(index + 1, states.length, title, format);
+    const blob = await encodeAudio(state.audio, { ...DEFAULT_EXPORT_OPTIONS, format }, {
+      ...bookMetadata(book, title),
+      track: `${index + 1}/${states.length}`
+    });
+    entries.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()) });
+    playlist.push({ file, title, duration: state.audio.duration });
+  }
+  if (!entries.length) throw new Error("No chapters have been rendered yet.");
+  entries.push({ name: `${toFileName(book.title) || 'playlist'}.m3u8`, data: new TextEncoder().encode(buildPlaylist(book, playlist)) });
+  return createZip(entries);
+};
+
+// Finished chapters encoded one after another into one MP3, with a pause between them,
+// so the whole book is never held as one buffer. Chapters run back to back, so a
+// chapter ends where the next begins.
+export const buildChapteredMp3 = async (states: ChapterState[], book: AudiobookInfo): Promise<Blob> => {
+  const done = states.filter(s => s.status === 'done' && s.audio);
+  if (!done.length) throw new Error("No chapters have been rendered yet.");
+
+  const sampleRate = done[0].audio!.sampleRate;
+  const options: ExportOptions = { ...DEFAULT_EXPORT_OPTIONS, format: 'mp3' };
+  const stream = await createMp3Stream(sampleRate, 1, options);
+  const gap = new Float32Array(Math.max(0, Math.round((CHAPTER_GAP_MS / 1000) * sampleRate)));
+
+  const starts: number[] = [];
+  done.forEach(({ audio }, i) => {
+    if (i > 0) stream.write([gap]);
+    starts.push(stream.frames);
+    stream.write(prepareChannels(audio!, sampleRate, false));
+  });
+  const chapters: ExportChapter[] = done.map((state, i) => ({
+    title: state.chapter.title,
+    start: starts[i] / sampleRate,
+    end: (i + 1 < starts.length ? starts[i + 1] : stream.frames) / sampleRate
+  }));
+  return stream.finish({ ...bookMetadata(book, book.title), chapters });
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseManifest, toFileName } from './batchManifest';
+
+describe('parseManifest', () => {
+  it('reads CSV and JSON manifests', () => {
+    const csv = parseManifest('id,text,dialect,speed\nwelcome,أهلاً,ar-EG,1.1\n');
+    expect(csv.issues).toEqual([]);
+    expect(csv.items).toEqual([{ row: 1, id: 'welcome', text: 'أهلاً', voiceId: undefined, dialectCode: 'ar-EG', settings: { speed: 1.1 } }]);
+
+    const json = parseManifest('[{"id":"a","text":"نص"}]', 'items.json');
+    expect(json.items.map(i => i.id)).toEqual(['a']);
+  });
+
+  it('reports repeated ids', () => {
+    const { items, issues } = parseManifest('id,text\na,one\na,two\n');
+    expect(items.map(i => i.row)).toEqual([1]);
+    expect(issues).toEqual([{ row: 2, message: 'Duplicate id "a" (row 1).' }]);
+  });
+
+  it('reports ids that would give the same file name', () => {
+    const { items, issues } = parseManifest('id,text\nIntro,one\nintro,two\nch:1,three\nch/1,four\n');
+    expect(items.map(i => i.id)).toEqual(['Intro', 'ch:1']);
+    expect(issues).toEqual([
+      { row: 2, message: 'Id "intro" gives the same file name as "Intro" (row 1).' },
+      { row: 4, message: 'Id "ch/1" gives the same file name as "ch:1" (row 3).' }
+    ]);
+  });
+
+  it('rejects rows with missing fields or unknown values', () => {
+    const { items, issues } = parseManifest('id,text,dialect\n,one,\nb,,\nc,three,xx-YY\n');
+    expect(items).toEqual([]);
+    expect(issues.map(i => i.message)).toEqual(['Missing id.', 'Missing text.', 'Unknown dialect "xx-YY".']);
+  });
+});
+
+describe('toFileName', () => {
+  it('replaces characters a file system rejects', () => {
+    expect(toFileName('a/b:c')).toBe('a_b_c');
+    expect(toFileName('..hidden')).toBe('_hidden');
+  });
+});
@@ -0,0 +1,158 @@
+import { EmotionType, SUPPORTED_DIALECTS, VoiceSettings } from "../types";
+import { MAX_STYLE_INTENSITY, MIN_STYLE_INTENSITY } from "./speakingStyles";
+import { findVoice } from "./voiceCatalog";
+
+// Batch manifests: a CSV with a header row, or a JSON array of objects. Required fields
+// are `id` and `text`; `voice` (VoiceOption.id), `dialect` (DialectOption.code) and any
+// VoiceSettings field (pitch, speed, emotion, clarity, exactProsody, styleIntensity)
+// override the defaults.
+
+export interface BatchItem {
+  row: number; // 1-based data row in the manifest
+  id: string;
+  text: string;
+  voiceId?: string;
+  dialectCode?: string;
+  settings: Partial<VoiceSettings>;
+}
+
+export interface ManifestIssue {
+  row: number; // 1-based data row
+  message: string;
+}
+
+export interface ParsedManifest {
+  items: BatchItem[];
+  issues: ManifestIssue[]; // Rows listed here were left out
+}
+
+type RawRow = Record<string, unknown>;
+
+// RFC 4180 style: quoted fields may contain the delimiter, newlines and "" escapes
+const parseCSV = (input: string): RawRow[] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter(r => r.some(cell => cell.trim() !== ''));
+  if (!header) return [];
+  const keys = header.map(h => h.trim());
+  return rows.map(row => Object.fromEntries(keys.map((key, i) => [key, row[i] ?? ''])));
+};
+
+const parseJSON = (input: string): RawRow[] => {
+  const data = JSON.parse(input);
+  const rows = Array.isArray(data) ? data : Array.isArray(data?.items) ? data.items : null;
+  if (!rows) throw new Error("JSON manifest must be an array of rows (or an object with an \"items\" array).");
+  return rows;
+};
+
+const asString = (value: unknown): string => (value === undefined || value === null ? '' : String(value).trim());
+
+const parseNumber = (value: unknown, name: string, min: number, max: number): number => {
+  const n = typeof value === 'number' ? value : parseFloat(asString(value));
+  if (!Number.isFinite(n) || n < min || n > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max}.`);
+  }
+  return n;
+};
+
+const parseSettings = (row: RawRow): Partial<VoiceSettings> => {
+  const settings: Partial<VoiceSettings> = {};
+  if (asString(row.pitch)) settings.pitch = parseNumber(row.pitch, 'pitch', -50, 50);
+  if (asString(row.speed)) settings.speed = parseNumber(row.speed, 'speed', 0.5, 2);
+  if (asString(row.clarity)) settings.clarity = parseNumber(row.clarity, 'clarity', 0, 100);
+  if (asString(row.styleIntensity)) {
+    settings.styleIntensity = parseNumber(row.styleIntensity, 'styleIntensity', MIN_STYLE_INTENSITY, MAX_STYLE_INTENSITY);
+  }
+  if (asString(row.emotion)) {
+    const emotion = Object.values(EmotionType).find(e => e.toLowerCase() === asString(row.emotion).toLowerCase());
+    if (!emotion) throw new Error(`Unknown emotion "${asString(row.emotion)}".`);
+    settings.emotion = emotion;
+  }
+  if (asString(row.exactProsody)) {
+    const value = asString(row.exactProsody).toLowerCase();
+    if (!['true', 'false', '1', '0', 'yes', 'no'].includes(value)) throw new Error("exactProsody must be true or false.");
+    settings.exactProsody = ['true', '1', 'yes'].includes(value);
+  }
+  return settings;
+};
+
+export const parseManifest = (input: string, fileName: string = ''): ParsedManifest => {
+  const looksLikeJSON = /\.json$/i.test(fileName) || /^\s*[[{]/.test(input);
+  const rows = looksLikeJSON ? parseJSON(input) : parseCSV(input);
+
+  const items: BatchItem[] = [];
+  const issues: ManifestIssue[] = [];
+  // Keyed by file name, since ids that differ only in case or in characters a file
+  // system rejects would overwrite each other in the ZIP
+  const seen = new Map<string, BatchItem>();
+
+  rows.forEach((row, i) => {
+    const rowNumber = i + 1;
+    try {
+      const id = asString(row.id);
+      const text = asString(row.text);
+      if (!id) throw new Error("Missing id.");
+      if (!text) throw new Error("Missing text.");
+      const fileKey = toFileName(id).toLowerCase();
+      const earlier = seen.get(fileKey);
+      if (earlier?.id === id) throw new Error(`Duplicate id "${id}" (row ${earlier.row}).`);
+      if (earlier) throw new Error(`Id "${id}" gives the same file name as "${earlier.id}" (row ${earlier.row}).`);
+
+      const voiceId = asString(row.voice) || undefined;
+      if (voiceId && !findVoice(voiceId)) throw new Error(`Unknown voice "${voiceId}".`);
+      const dialectCode = asString(row.dialect) || undefined;
+      if (dialectCode && !SUPPORTED_DIALECTS.some(d => d.code === dialectCode)) throw new Error(`Unknown dialect "${dialectCode}".`);
+
+      const item: BatchItem = { row: rowNumber, id, text, voiceId, dialectCode, settings: parseSettings(row) };
+      items.push(item);
+      seen.set(fileKey, item);
+    } catch (err: any) {
+      issues.push({ row: rowNumber, message: err.message });
+    }
+  });
+
+  return { items, issues };
+};
+
+// Ids become file names, so anything a file system would reject is replaced
+export const toFileName = (id: string): string =>
+  id.replace(/[\\/:*?"<>|\x00-\x1F]/g, '_').replace(/^\.+/, '_').slice(0, 120) || '_';
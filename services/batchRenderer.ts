@@ -0,0 +1,172 @@
+import { VoiceSettings } from "../types";
+import { BatchItem, ManifestIssue, toFileName } from "./batchManifest";
+import { LexiconEntry } from "./lexicon";
+import { textToSSML } from "./spokenText";
+import { splitIntoChunks } from "./textChunker";
+import { createChunkStates, stitchChunks, synthesizeChunks } from "./synthesisPipeline";
+import { renderTake } from "./outputRenderer";
+import { DEFAULT_EXPORT_OPTIONS, encodeAudio } from "./audioExport";
+import { createZip, ZipEntry } from "./zipWriter";
+
+export type BatchRowStatus = 'pending' | 'rendering' | 'done' | 'failed';
+
+export type BatchFormat = 'wav' | 'mp3' | 'both';
+
+export interface BatchRow {
+  item: BatchItem;
+  status: BatchRowStatus;
+  attempts: number;
+  error?: string;
+  wav?: Blob;
+  mp3?: Blob;
+  cached?: boolean; // Every chunk of the row came from the audio cache
+}
+
+// Values used for anything a manifest row leaves out
+export interface BatchDefaults {
+  voiceId: string;
+  dialectCode: string;
+  settings: VoiceSettings;
+  normalize: boolean;
+  lexiconEntries: LexiconEntry[];
+}
+
+export interface BatchOptions {
+  defaults: BatchDefaults;
+  format: BatchFormat;
+  control: BatchControl;
+  concurrency?: number;
+  ids?: string[]; // Render only these rows (when not already done)
+  bypassCache?: boolean;
+  onProgress?: (rows: BatchRow[]) => void;
+}
+
+// Pausing lets the rows in flight finish and holds back the rest until resumed
+export interface BatchControl {
+  readonly paused: boolean;
+  pause: () => void;
+  resume: () => void;
+  waitWhilePaused: () => Promise<void>;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+
+export const createBatchControl = (): BatchControl => {
+  let paused = false;
+  let waiters: (() => void)[] = [];
+  return {
+    get paused() {
+      return paused;
+    },
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      waiters.forEach(resolve => resolve());
+      waiters = [];
+    },
+    waitWhilePaused: () => (paused ? new Promise<void>(resolve => waiters.push(resolve)) : Promise.resolve())
+  };
+};
+
+export const createBatchRows = (items: BatchItem[]): BatchRow[] =>
+  items.map(item => ({ item, status: 'pending', attempts: 0 }));
+
+const renderRow = async (
+  item: BatchItem,
+  { defaults, format, bypassCache }: BatchOptions
+): Promise<Pick<BatchRow, 'wav' | 'mp3' | 'cached'>> => {
+  const settings: VoiceSettings = { ...defaults.settings, ...item.settings };
+  const dialectCode = item.dialectCode ?? defaults.dialectCode;
+
+  // Same preparation as a single take in simple mode
+  const ssml = textToSSML(item.text, settings, {
+    dialectCode,
+    lexiconEntries: defaults.lexiconEntries,
+    normalize: defaults.normalize
+  });
+
+  // One row at a time per worker; the rows themselves are the parallel unit
+  const chunks = await synthesizeChunks(createChunkStates(splitIntoChunks(ssml)), {
+    voiceId: item.voiceId ?? defaults.voiceId,
+    concurrency: 1,
+    bypassCache
+  });
+  const failed = chunks.find(c => c.status === 'failed');
+  if (failed) throw new Error(failed.error || 'Synthesis failed.');
+
+  const output = await renderTake(stitchChunks(chunks), settings, true);
+  return {
+    wav: format !== 'mp3' ? await encodeAudio(output, DEFAULT_EXPORT_OPTIONS) : undefined,
+    mp3: format !== 'wav' ? await encodeAudio(output, { ...DEFAULT_EXPORT_OPTIONS, format: 'mp3' }) : undefined,
+    cached: chunks.every(c => c.cached)
+  };
+};
+
+// Render every row that isn't done yet with a bounded number in flight. Like
+// synthesizeChunks, calling this again on the returned rows only retries failures.
+export const renderBatch = async (initial: BatchRow[], options: BatchOptions): Promise<BatchRow[]> => {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const selected = options.ids ? new Set(options.ids) : null;
+
+  const isQueued = (r: BatchRow) => r.status !== 'done' && (!selected || selected.has(r.item.id));
+
+  const rows = initial.map(r => (isQueued(r) ? { ...r, status: 'pending' as BatchRowStatus, error: undefined } : r));
+  const queue = initial.flatMap((r, i) => (isQueued(r) ? [i] : []));
+
+  const update = (index: number, patch: Partial<BatchRow>) => {
+    rows[index] = { ...rows[index], ...patch };
+    options.onProgress?.([...rows]);
+  };
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      await options.control.waitWhilePaused();
+      const index = queue.shift();
+      if (index === undefined) return;
+      update(index, { status: 'rendering', attempts: rows[index].attempts + 1 });
+      try {
+        const output = await renderRow(rows[index].item, options);
+        update(index, { status: 'done', error: undefined, ...output });
+      } catch (err: any) {
+        update(index, { status: 'failed', error: err?.message || 'Unknown error' });
+      }
+    }
+  };
+
+  options.onProgress?.([...rows]);
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+  return rows;
+};
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Rows the manifest rejected and rows that failed to render
+export const buildFailureReport = (rows: BatchRow[], issues: ManifestIssue[]): string => {
+  const lines = [
+    ...issues.map(issue => ({ row: issue.row, id: '', stage: 'manifest', error: issue.message })),
+    ...rows
+      .filter(r => r.status === 'failed')
+      .map(r => ({ row: r.item.row, id: r.item.id, stage: 'render', error: r.error ?? '' }))
+  ]
+    .sort((a, b) => a.row - b.row)
+    .map(f => [String(f.row), f.id, f.stage, f.error].map(csvField).join(','));
+  return ['row,id,stage,error', ...lines].join('\r\n') + '\r\n';
+};
+
+// Finished audio as <id>.wav / <id>.mp3, plus failures.csv when anything went wrong
+export const buildBatchZip = async (rows: BatchRow[], issues: ManifestIssue[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  for (const row of rows) {
+    if (row.status !== 'done') continue;
+    const name = toFileName(row.item.id);
+    if (row.wav) entries.push({ name: `${name}.wav`, data: new Uint8Array(await row.wav.arrayBuffer()) });
+    if (row.mp3) entries.push({ name: `${name}.mp3`, data: new Uint8Array(await row.mp3.arrayBuffer()) });
+  }
+  if (issues.length > 0 || rows.some(r => r.status === 'failed')) {
+    entries.push({ name: 'failures.csv', data: new TextEncoder().encode(buildFailureReport(rows, issues)) });
+  }
+  return createZip(entries);
+};
@@ -0,0 +1,296 @@
+import { ChunkState } from "./synthesisPipeline";
+import { crossfadeLengths, PcmBuffer } from "./audioUtils";
+import { splitIntoPhrases } from "./textChunker";
+
+// Subtitles for the generated audio. Every synthesized chunk is a timed segment; when a
+// chunk holds several sentences or clauses, their boundaries are placed on the pauses
+// found by silence detection, falling back to a position proportional to the text.
+
+export interface CaptionCue {
+  start: number; // seconds
+  end: number;
+  text: string; // Already line-broken
+}
+
+export interface CaptionOptions {
+  maxCharsPerLine: number;
+  maxLines: number;
+}
+
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = { maxCharsPerLine: 42, maxLines: 2 };
+
+// Chunk size when generating with sentence-level caption timing: one request per phrase
+export const CAPTION_SEGMENT_CHARS = 150;
+
+interface Span {
+  start: number; // seconds
+  end: number;
+}
+
+const FRAME_MS = 10;
+const SILENCE_THRESHOLD_DB = -35; // Relative to the loudest frame
+const MIN_PAUSE_MS = 150;
+const MIN_CUE_SEC = 1.0;
+const RLM = '\u200F';
+
+// ---------- Silence detection ----------
+
+const frameLevels = (buffer: PcmBuffer): { levels: Float32Array; frameSec: number } => {
+  const data = buffer.getChannelData(0);
+  const frame = Math.max(1, Math.round((FRAME_MS / 1000) * buffer.sampleRate));
+  const levels = new Float32Array(Math.ceil(data.length / frame));
+  for (let f = 0; f < levels.length; f++) {
+    let sum = 0;
+    const end = Math.min(data.length, (f + 1) * frame);
+    for (let i = f * frame; i < end; i++) sum += data[i] * data[i];
+    levels[f] = Math.sqrt(sum / Math.max(1, end - f * frame));
+  }
+  return { levels, frameSec: frame / buffer.sampleRate };
+};
+
+const silenceThreshold = (levels: Float32Array): number => {
+  let peak = 0;
+  for (const level of levels) peak = Math.max(peak, level);
+  return peak * Math.pow(10, SILENCE_THRESHOLD_DB / 20);
+};
+
+// Runs of near-silence at least minPauseMs long
+export const detectPauses = (buffer: PcmBuffer, minPauseMs: number = MIN_PAUSE_MS): Span[] => {
+  const { levels, frameSec } = frameLevels(buffer);
+  const threshold = silenceThreshold(levels);
+  const minFrames = Math.ceil(minPauseMs / FRAME_MS);
+  const pauses: Span[] = [];
+
+  let runStart = -1;
+  for (let f = 0; f <= levels.length; f++) {
+    const silent = f < levels.length && levels[f] <= threshold;
+    if (silent && runStart < 0) runStart = f;
+    if (!silent && runStart >= 0) {
+      if (f - runStart >= minFrames) pauses.push({ start: runStart * frameSec, end: f * frameSec });
+      runStart = -1;
+    }
+  }
+  return pauses;
+};
+
+// First and last moment above the silence threshold
+const speechBounds = (buffer: PcmBuffer): Span => {
+  const { levels, frameSec } = frameLevels(buffer);
+  const threshold = silenceThreshold(levels);
+  let first = 0;
+  while (first < levels.length - 1 && levels[first] <= threshold) first++;
+  let last = levels.length - 1;
+  while (last > first && levels[last] <= threshold) last--;
+  return { start: first * frameSec, end: Math.min(buffer.duration, (last + 1) * frameSec) };
+};
+
+// ---------- Timing ----------
+
+// Start of each chunk in the stitched audio, mirroring stitchChunks / stitchDialogue
+const chunkOffsets = (chunks: ChunkState[], gapMs: number): number[] => {
+  const offsets: number[] = [];
+  let position = 0; // samples
+  let i = 0;
+  while (i < chunks.length) {
+    // Dialogue turns (same group) are crossfaded; a plain take is one run
+    let j = i;
+    while (j < chunks.length && chunks[j].group === chunks[i].group) j++;
+    const buffers = chunks.slice(i, j).map(c => c.audioBuffer!);
+    const fades = crossfadeLengths(buffers);
+    buffers.forEach((buffer, k) => {
+      offsets.push(position / buffer.sampleRate);
+      position += buffer.length - (fades[k] ?? 0);
+    });
+    if (j < chunks.length) position += Math.round((gapMs / 1000) * buffers[0].sampleRate);
+    i = j;
+  }
+  return offsets;
+};
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// What is heard in a chunk: SSML markup removed, or the transcript without its instruction line
+const spokenText = (chunk: ChunkState): string =>
+  chunk.speakers
+    ? chunk.text.split('\n').slice(1).join('\n')
+    : decodeEntities(chunk.text.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+// Place phrase boundaries on the pause nearest to where the text says they should be
+const alignPhrases = (phrases: string[], buffer: PcmBuffer): Span[] => {
+  const bounds = speechBounds(buffer);
+  if (phrases.length === 1) return [bounds];
+
+  const duration = bounds.end - bounds.start;
+  const pauses = detectPauses(buffer).filter(p => p.start > bounds.start && p.end < bounds.end);
+  const totalChars = phrases.reduce((sum, p) => sum + p.length, 0);
+  const tolerance = Math.max(0.6, (duration / phrases.length) * 0.5);
+
+  const spans: Span[] = [];
+  let start = bounds.start;
+  let chars = 0;
+  let nextPause = 0;
+  phrases.slice(0, -1).forEach(phrase => {
+    chars += phrase.length;
+    const expected = bounds.start + (chars / totalChars) * duration;
+
+    let best = -1;
+    for (let p = nextPause; p < pauses.length; p++) {
+      const distance = Math.abs((pauses[p].start + pauses[p].end) / 2 - expected);
+      if (distance <= tolerance && (best < 0 || distance < Math.abs((pauses[best].start + pauses[best].end) / 2 - expected))) {
+        best = p;
+      }
+    }
+
+    if (best >= 0) {
+      spans.push({ start, end: pauses[best].start });
+      start = pauses[best].end;
+      nextPause = best + 1;
+    } else {
+      spans.push({ start, end: expected });
+      start = expected;
+    }
+  });
+  spans.push({ start, end: bounds.end });
+  return spans;
+};
+
+// ---------- Line breaking ----------
+
+const isRTL = (text: string) => /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/.test(text);
+
+// Greedy fill up to maxChars per line
+export const wrapCaptionLines = (text: string, maxChars: number): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+  for (const word of words) {
+    if (current && current.length + 1 + word.length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Even out a two-line cue so neither line is much longer than the other
+const balanceTwoLines = (text: string, maxChars: number): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  let best: string[] = [text];
+  let bestLongest = Infinity;
+  for (let k = 1; k < words.length; k++) {
+    const first = words.slice(0, k).join(' ');
+    const second = words.slice(k).join(' ');
+    const longest = Math.max(first.length, second.length);
+    if (longest <= maxChars && longest < bestLongest) {
+      best = [first, second];
+      bestLongest = longest;
+    }
+  }
+  return best;
+};
+
+// Bidi marks keep punctuation on the right side of RTL lines in players that
+// lay out each line as LTR by default
+const markDirection = (line: string) => (isRTL(line) ? `${RLM}${line}${RLM}` : line);
+
+// Cues longer than maxLines are split, sharing their time in proportion to the text
+const layoutCue = (cue: CaptionCue, options: CaptionOptions): CaptionCue[] => {
+  const flat = cue.text.replace(/\s+/g, ' ').trim();
+  const lines = wrapCaptionLines(flat, options.maxCharsPerLine);
+
+  const groups: string[][] = [];
+  for (let i = 0; i < lines.length; i += options.maxLines) groups.push(lines.slice(i, i + options.maxLines));
+
+  const totalChars = flat.length || 1;
+  let start = cue.start;
+  return groups.map(group => {
+    const text = group.join(' ');
+    const end = start + (cue.end - cue.start) * (text.length / totalChars);
+    const laidOut = group.length === 2 ? balanceTwoLines(text, options.maxCharsPerLine) : group;
+    const result = { start, end, text: laidOut.map(markDirection).join('\n') };
+    start = end;
+    return result;
+  });
+};
+
+// Very short phrases read badly on screen; join them to the next one when it still fits
+const mergeShortCues = (cues: CaptionCue[], options: CaptionOptions): CaptionCue[] => {
+  const maxChars = options.maxCharsPerLine * options.maxLines;
+  const merged: CaptionCue[] = [];
+  for (const cue of cues) {
+    const last = merged[merged.length - 1];
+    if (last && last.end - last.start < MIN_CUE_SEC && last.text.length + 1 + cue.text.length <= maxChars) {
+      merged[merged.length - 1] = { start: last.start, end: cue.end, text: `${last.text} ${cue.text}` };
+    } else {
+      merged.push(cue);
+    }
+  }
+  return merged;
+};
+
+export const buildCaptionCues = (
+  chunks: ChunkState[],
+  {
+    gapMs = 0,
+    outputDuration,
+    options = DEFAULT_CAPTION_OPTIONS
+  }: { gapMs?: number; outputDuration?: number; options?: CaptionOptions } = {}
+): CaptionCue[] => {
+  if (chunks.length === 0 || chunks.some(c => !c.audioBuffer)) return [];
+
+  const offsets = chunkOffsets(chunks, gapMs);
+  const cues: CaptionCue[] = [];
+
+  chunks.forEach((chunk, i) => {
+    const buffer = chunk.audioBuffer!;
+    const lines = chunk.speakers ? spokenText(chunk).split('\n') : [spokenText(chunk)];
+    const phrases = lines.flatMap(line => splitIntoPhrases(line, options.maxCharsPerLine * options.maxLines));
+    if (phrases.length === 0) return;
+    alignPhrases(phrases, buffer).forEach((span, k) => {
+      cues.push({ start: offsets[i] + span.start, end: offsets[i] + span.end, text: phrases[k] });
+    });
+  });
+
+  // Local time-stretching (exact prosody) scales the whole take uniformly
+  const stitchedEnd = offsets[offsets.length - 1] + chunks[chunks.length - 1].audioBuffer!.duration;
+  const scale = outputDuration ? outputDuration / stitchedEnd : 1;
+  const limit = outputDuration ?? stitchedEnd;
+
+  return mergeShortCues(cues, options)
+    .map(cue => ({ start: cue.start * scale, end: Math.min(limit, cue.end * scale), text: cue.text }))
+    .filter(cue => cue.end > cue.start)
+    .flatMap(cue => layoutCue(cue, options));
+};
+
+// ---------- Formats ----------
+
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, width: number = 2) => String(value).padStart(width, '0');
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const toSRT = (cues: CaptionCue[]): string =>
+  cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+
+const escapeVTT = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toWebVTT = (cues: CaptionCue[]): string =>
+  'WEBVTT\n\n' +
+  cues
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${escapeVTT(cue.text)}\n`)
+    .join('\n');
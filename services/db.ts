@@ -0,0 +1,126 @@
+// Shared IndexedDB connection for everything the studio persists locally.
+// Bump DB_VERSION and extend `upgrade` when adding a store.
+
+const DB_NAME = 'hamza-speech-studio';
+const DB_VERSION = 5;
+
+export const STORES = {
+  projects: 'projects',
+  generations: 'generations',
+  audioCache: 'audioCache',
+  audioCacheIndex: 'audioCacheIndex', // Size and last access per cache entry, without the audio
+  lexicon: 'lexicon',
+  personas: 'personas',
+  presets: 'presets',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.projects, { keyPath: 'id' });
+    const generations = db.createObjectStore(STORES.generations, { keyPath: 'id' });
+    generations.createIndex('projectId', 'projectId');
+    generations.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 2) {
+    const cache = db.createObjectStore(STORES.audioCache, { keyPath: 'key' });
+    cache.createIndex('lastAccess', 'lastAccess');
+  }
+  if (oldVersion < 3) {
+    const lexicon = db.createObjectStore(STORES.lexicon, { keyPath: 'id' });
+    lexicon.createIndex('scope', 'scope');
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.personas, { keyPath: 'id' });
+    db.createObjectStore(STORES.presets, { keyPath: 'id' });
+  }
+  if (oldVersion < 5) {
+    const index = db.createObjectStore(STORES.audioCacheIndex, { keyPath: 'key' });
+    index.createIndex('lastAccess', 'lastAccess');
+    // Existing entries are indexed one record at a time
+    if (oldVersion >= 2) {
+      const cursorRequest = tx.objectStore(STORES.audioCache).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const { key, size, lastAccess } = cursor.value;
+        index.put({ key, size, lastAccess });
+        cursor.continue();
+      };
+    }
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Promise wrapper around a single IDBRequest
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run `work` inside a transaction over several stores and resolve once it has committed
+export const withStores = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (stores: IDBObjectStore[]) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  let result: T;
+  try {
+    result = await work(storeNames.map(name => tx.objectStore(name)));
+  } catch (err) {
+    // Roll back whatever `work` wrote before failing; the abort rejects `done`, which nobody awaits now
+    done.catch(() => {});
+    try {
+      tx.abort();
+    } catch {
+      // The transaction had already finished
+    }
+    throw err;
+  }
+  await done;
+  return result;
+};
+
+// Run `work` inside a transaction and resolve once it has committed
+export const withStore = <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => withStores([storeName], mode, ([store]) => work(store));
+
+export interface StorageUsage {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
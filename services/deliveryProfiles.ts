@@ -0,0 +1,265 @@
+import { createPcmBuffer, PcmBuffer } from "./audioUtils";
+import { EXPORT_FORMATS, exportSampleRate, ExportOptions, prepareChannels } from "./audioExport";
+import { integratedLoudness, limitTruePeak, LoudnessStats, measureLoudness, rmsLevel } from "./loudness";
+
+// Delivery profiles: a client's loudness target, peak and noise limits and file format.
+// Conforming a take resamples it to the profile's layout, brings it to the target
+// loudness, limits true peaks under the ceiling, and measures the result against every
+// limit for a pass/fail compliance report.
+
+export type LoudnessMetric = Exclude<keyof LoudnessStats, 'duration'>;
+
+export interface LoudnessLimit {
+  metric: LoudnessMetric;
+  min?: number;
+  max?: number;
+}
+
+export interface DeliveryProfile {
+  id: string;
+  label: string;
+  description: string;
+  normalize: { metric: 'integratedLufs' | 'rmsDbfs'; target: number };
+  ceilingDbtp: number; // Limiter ceiling; a little under the peak limit, since codecs add overshoot
+  limits: LoudnessLimit[];
+  format: Partial<ExportOptions>; // Export settings the client requires
+}
+
+export const DELIVERY_PROFILES: DeliveryProfile[] = [
+  {
+    id: 'podcast',
+    label: 'Podcast (−16 LUFS)',
+    description: 'Apple Podcasts and Spotify style: −16 LUFS integrated, true peak at most −1 dBTP, 128 kbps MP3.',
+    normalize: { metric: 'integratedLufs', target: -16 },
+    ceilingDbtp: -1.5,
+    limits: [
+      { metric: 'integratedLufs', min: -17, max: -15 },
+      { metric: 'truePeakDbtp', max: -1 }
+    ],
+    format: { format: 'mp3', sampleRate: 44100, stereo: false, mp3Mode: 'cbr', mp3Bitrate: 128 }
+  },
+  {
+    id: 'ebu-r128',
+    label: 'Broadcast (EBU R128, −23 LUFS)',
+    description: 'EBU R128 for file delivery: −23 LUFS ±0.5 LU, true peak at most −1 dBTP, 48 kHz 24-bit stereo WAV.',
+    normalize: { metric: 'integratedLufs', target: -23 },
+    ceilingDbtp: -1.2,
+    limits: [
+      { metric: 'integratedLufs', min: -23.5, max: -22.5 },
+      { metric: 'truePeakDbtp', max: -1 }
+    ],
+    format: { format: 'wav', sampleRate: 48000, stereo: true, bitDepth: 24, wavEncoding: 'pcm' }
+  },
+  {
+    id: 'audiobook',
+    label: 'Audiobook (ACX)',
+    description: 'ACX / Audible: RMS between −23 and −18 dB, peaks at most −3 dB, noise floor at most −60 dB, 192 kbps MP3.',
+    normalize: { metric: 'rmsDbfs', target: -20 },
+    ceilingDbtp: -3.5,
+    limits: [
+      { metric: 'rmsDbfs', min: -23, max: -18 },
+      { metric: 'samplePeakDbfs', max: -3 },
+      { metric: 'noiseFloorDbfs', max: -60 }
+    ],
+    format: { format: 'mp3', sampleRate: 44100, stereo: false, mp3Mode: 'cbr', mp3Bitrate: 192 }
+  },
+  {
+    id: 'ivr',
+    label: 'IVR / telephony (8 kHz μ-law)',
+    description: 'Phone systems: 8 kHz mono G.711 μ-law WAV at −20 LUFS, with 3 dB of headroom for the companding.',
+    normalize: { metric: 'integratedLufs', target: -20 },
+    ceilingDbtp: -3.5,
+    limits: [
+      { metric: 'integratedLufs', min: -22, max: -18 },
+      { metric: 'truePeakDbtp', max: -3 }
+    ],
+    format: { format: 'wav', sampleRate: 8000, stereo: false, wavEncoding: 'mulaw' }
+  }
+];
+
+export const findDeliveryProfile = (id: string | null | undefined): DeliveryProfile | undefined =>
+  DELIVERY_PROFILES.find(p => p.id === id);
+
+export const METRICS: Record<LoudnessMetric, { label: string; unit: string }> = {
+  integratedLufs: { label: 'Integrated loudness', unit: 'LUFS' },
+  truePeakDbtp: { label: 'True peak', unit: 'dBTP' },
+  samplePeakDbfs: { label: 'Sample peak', unit: 'dBFS' },
+  rmsDbfs: { label: 'RMS level', unit: 'dBFS' },
+  noiseFloorDbfs: { label: 'Noise floor', unit: 'dBFS' }
+};
+
+export const formatLevel = (value: number): string =>
+  Number.isFinite(value) ? value.toFixed(1) : value < 0 ? '−∞' : '∞';
+
+const SETTING_LABELS: Partial<Record<keyof ExportOptions, string>> = {
+  format: 'Format',
+  sampleRate: 'Sample rate',
+  stereo: 'Channels',
+  bitDepth: 'Bit depth',
+  wavEncoding: 'WAV encoding',
+  mp3Mode: 'MP3 rate control',
+  mp3Bitrate: 'MP3 bitrate'
+};
+
+const describeSetting = (key: keyof ExportOptions, value: unknown): string => {
+  switch (key) {
+    case 'format': return EXPORT_FORMATS.find(f => f.id === value)?.label ?? String(value);
+    case 'sampleRate': return value ? `${value} Hz` : 'source rate';
+    case 'stereo': return value ? 'stereo' : 'mono';
+    case 'bitDepth': return value === 32 ? '32-bit float' : `${value}-bit`;
+    case 'wavEncoding': return value === 'mulaw' ? 'μ-law' : 'PCM';
+    case 'mp3Mode': return value === 'vbr' ? 'variable' : 'constant';
+    case 'mp3Bitrate': return `${value} kbps`;
+    default: return String(value);
+  }
+};
+
+export interface ComplianceCheck {
+  label: string;
+  required: string;
+  measured: string;
+  passed: boolean;
+}
+
+export interface ComplianceReport {
+  profileId: string;
+  profileLabel: string;
+  createdAt: string;
+  before: LoudnessStats;
+  after: LoudnessStats;
+  gainDb: number; // Normalization gain, before limiting
+  limiterReductionDb: number; // Deepest limiting
+  checks: ComplianceCheck[];
+  passed: boolean;
+}
+
+export interface DeliveryResult {
+  buffer: PcmBuffer; // Already at the export rate and channel layout
+  report: ComplianceReport;
+}
+
+const NORMALIZE_PASSES = 8;
+const NORMALIZE_TOLERANCE_DB = 0.1;
+// Past this much limiting speech audibly squashes; such a take is left short of the target and fails
+const MAX_LIMITING_DB = 12;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const limitCheck = (limit: LoudnessLimit, stats: LoudnessStats): ComplianceCheck => {
+  const { label, unit } = METRICS[limit.metric];
+  const value = stats[limit.metric];
+  // Compared at the precision shown, so −15.04 doesn't fail a −15 limit while reading −15.0
+  const shown = Number.isFinite(value) ? round1(value) : value;
+  const passed = (limit.min === undefined || shown >= limit.min) && (limit.max === undefined || shown <= limit.max);
+  const required = limit.min !== undefined && limit.max !== undefined
+    ? `${limit.min} to ${limit.max} ${unit}`
+    : limit.max !== undefined ? `≤ ${limit.max} ${unit}` : `≥ ${limit.min} ${unit}`;
+  return { label, required, measured: `${formatLevel(value)} ${unit}`, passed };
+};
+
+const settingChecks = (profile: DeliveryProfile, options: ExportOptions): ComplianceCheck[] =>
+  (Object.keys(profile.format) as (keyof ExportOptions)[]).map(key => ({
+    label: SETTING_LABELS[key] ?? key,
+    required: describeSetting(key, profile.format[key]),
+    measured: describeSetting(key, options[key]),
+    passed: options[key] === profile.format[key]
+  }));
+
+const scale = (channels: Float32Array[], gainDb: number): Float32Array[] => {
+  const gain = Math.pow(10, gainDb / 20);
+  return channels.map(data => data.map(v => v * gain));
+};
+
+// Levels of the take as it would be exported with `options`, before any processing
+export const measureForExport = (buffer: PcmBuffer, options: ExportOptions): LoudnessStats => {
+  const rate = exportSampleRate(buffer, options);
+  return measureLoudness(prepareChannels(buffer, rate, options.stereo), rate);
+};
+
+export const conformToProfile = (buffer: PcmBuffer, profile: DeliveryProfile, options: ExportOptions): DeliveryResult => {
+  const rate = exportSampleRate(buffer, options);
+  const source = prepareChannels(buffer, rate, options.stereo);
+  const before = measureLoudness(source, rate);
+  const { metric, target } = profile.normalize;
+  const level = (channels: Float32Array[]) =>
+    metric === 'integratedLufs' ? integratedLoudness(channels, rate) : rmsLevel(channels);
+
+  // Limiting takes some loudness back, and more the harder it works, so the gain is
+  // searched for: each pass steps along the line through the last two (gain, level) points
+  let channels = source;
+  let gainDb = 0;
+  let limiterReductionDb = 0;
+  if (Number.isFinite(before[metric])) {
+    const maxGainDb = profile.ceilingDbtp - before.truePeakDbtp + MAX_LIMITING_DB;
+    let previous = { gainDb: 0, level: before[metric] };
+    gainDb = Math.min(maxGainDb, target - before[metric]);
+    for (let pass = 0; pass < NORMALIZE_PASSES; pass++) {
+      const limited = limitTruePeak(scale(source, gainDb), rate, profile.ceilingDbtp);
+      channels = limited.channels;
+      limiterReductionDb = limited.maxReductionDb;
+      const reached = level(channels);
+      const error = target - reached;
+      if (Math.abs(error) < NORMALIZE_TOLERANCE_DB || limiterReductionDb === 0) break;
+      if (error > 0 && gainDb >= maxGainDb) break;
+      const slope = (reached - previous.level) / (gainDb - previous.gainDb);
+      previous = { gainDb, level: reached };
+      gainDb = Math.min(maxGainDb, gainDb + (slope > 0.05 ? error / slope : error));
+    }
+  }
+
+  // The limiter works per sample; anything left between samples is trimmed off here
+  let after = measureLoudness(channels, rate);
+  if (after.truePeakDbtp > profile.ceilingDbtp) {
+    channels = scale(channels, profile.ceilingDbtp - after.truePeakDbtp);
+    after = measureLoudness(channels, rate);
+  }
+
+  const checks = [...profile.limits.map(limit => limitCheck(limit, after)), ...settingChecks(profile, options)];
+  return {
+    buffer: createPcmBuffer(channels, rate),
+    report: {
+      profileId: profile.id,
+      profileLabel: profile.label,
+      createdAt: new Date().toISOString(),
+      before,
+      after,
+      gainDb,
+      limiterReductionDb,
+      checks,
+      passed: checks.every(c => c.passed)
+    }
+  };
+};
+
+// Plain-text report to ship next to the audio file
+export const formatComplianceReport = (report: ComplianceReport, fileName: string): string => {
+  const summary = (stats: LoudnessStats) =>
+    (Object.keys(METRICS) as LoudnessMetric[]).map(m => `${formatLevel(stats[m])} ${METRICS[m].unit}`).join(', ');
+  const width = Math.max(...report.checks.map(c => c.label.length), 5) + 2;
+  const required = Math.max(...report.checks.map(c => c.required.length), 8) + 2;
+  const measured = Math.max(...report.checks.map(c => c.measured.length), 8) + 2;
+  const row = (a: string, b: string, c: string, d: string) => `${a.padEnd(width)}${b.padEnd(required)}${c.padEnd(measured)}${d}`;
+
+  return [
+    'Delivery compliance report',
+    '',
+    `File:     ${fileName}`,
+    `Profile:  ${report.profileLabel}`,
+    `Created:  ${report.createdAt}`,
+    `Duration: ${report.after.duration.toFixed(2)} s`,
+    `Result:   ${report.passed ? 'PASS' : 'FAIL'}`,
+    '',
+    row('Check', 'Required', 'Measured', 'Result'),
+    ...report.checks.map(c => row(c.label, c.required, c.measured, c.passed ? 'pass' : 'FAIL')),
+    '',
+    `Gain applied: ${report.gainDb >= 0 ? '+' : ''}${report.gainDb.toFixed(1)} dB; limiter reduced peaks by up to ${report.limiterReductionDb.toFixed(1)} dB.`,
+    ...(report.limiterReductionDb >= MAX_LIMITING_DB - 0.05
+      ? [`Limiting stopped at ${MAX_LIMITING_DB} dB; the take is too peaky to reach the target without squashing it.`]
+      : []),
+    `Levels before (${Object.values(METRICS).map(m => m.label.toLowerCase()).join(', ')}): ${summary(report.before)}`,
+    `Levels after: ${summary(report.after)}`,
+    '',
+    'Levels are measured after ITU-R BS.1770-4 on the processed audio before encoding; lossy codecs can move peaks slightly.',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,44 @@
+import { DialectOption } from "../types";
+import { getGeminiClient } from "./geminiService";
+import { fetchAdaptation } from "./proxyProvider";
+import { getProviderConfig } from "./ttsProvider";
+
+// Rewrites text into a dialect's own vocabulary and grammar with a Gemini text model.
+// The TTS model only changes accent for xml:lang; it will not turn MSA wording into Sa'idi.
+// Builds that use the speech proxy send the text through it, as they carry no key.
+
+export const DIALECT_ADAPTATION_MODEL = "gemini-2.5-flash";
+
+const buildInstruction = (dialect: DialectOption) => `You adapt Arabic text for a voice-over recorded in ${dialect.label} (${dialect.nativeLabel}).
+Rewrite the user's text so a native speaker of that dialect would say it naturally. ${dialect.adaptationGuide}
+Rules:
+- Keep the meaning, tone, names, numbers and punctuation.
+- Keep line breaks, and keep any "Speaker:" label at the start of a line exactly as written.
+- Change only what the dialect requires; leave words that are already natural unchanged.
+- Reply with the rewritten text only, without quotes, notes or transliteration.`;
+
+// The Gemini call itself; the speech proxy answers /api/adapt with this
+export const adaptWithGemini = async (text: string, dialect: DialectOption, signal?: AbortSignal): Promise<string> => {
+  const ai = getGeminiClient();
+  const response = await ai.models.generateContent({
+    model: DIALECT_ADAPTATION_MODEL,
+    contents: [{ parts: [{ text }] }],
+    config: {
+      systemInstruction: buildInstruction(dialect),
+      temperature: 0.3,
+      abortSignal: signal,
+    },
+  });
+
+  const adapted = response.text?.trim();
+  if (!adapted) {
+    throw new Error("The model returned no adapted text.");
+  }
+  return adapted;
+};
+
+export const adaptToDialect = async (text: string, dialect: DialectOption, signal?: AbortSignal): Promise<string> => {
+  const { transport, proxyUrl } = getProviderConfig();
+  if (transport === 'proxy') return fetchAdaptation(proxyUrl, { text, dialectCode: dialect.code }, signal);
+  return adaptWithGemini(text, dialect, signal);
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { AVAILABLE_VOICES, DEFAULT_VOICE_SETTINGS, EmotionType } from '../types';
+import { buildDialogueChunks, DialogueLine } from './dialogueScript';
+import { DEFAULT_MAX_CHUNK_CHARS } from './textChunker';
+
+const assignments = {
+  Ali: { voiceId: AVAILABLE_VOICES[0].id, dialectCode: 'ar-EG' },
+  Mona: { voiceId: AVAILABLE_VOICES[1].id, dialectCode: 'ar-EG' }
+};
+
+const transcript = (text: string) => text.split('\n').slice(1);
+
+describe('buildDialogueChunks (multi-speaker)', () => {
+  it('packs short turns into one request under a single header', () => {
+    const lines: DialogueLine[] = [{ speaker: 'Ali', text: 'Hello.' }, { speaker: 'Mona', text: 'Hi there.' }];
+    const chunks = buildDialogueChunks(lines, assignments, DEFAULT_VOICE_SETTINGS, true);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].speakers?.map(s => s.speaker)).toEqual(['Ali', 'Mona']);
+    expect(transcript(chunks[0].text)).toEqual(['Ali: Hello.', 'Mona: Hi there.']);
+  });
+
+  it('splits a turn longer than one request at sentences and repeats the speaker label', () => {
+    const sentence = 'This sentence is part of a very long monologue that keeps going on. ';
+    const lines: DialogueLine[] = [{ speaker: 'Ali', text: sentence.repeat(30).trim() }, { speaker: 'Mona', text: 'Done?' }];
+    const chunks = buildDialogueChunks(lines, assignments, DEFAULT_VOICE_SETTINGS, true);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      const body = transcript(chunk.text);
+      expect(body.join('\n').length).toBeLessThanOrEqual(DEFAULT_MAX_CHUNK_CHARS);
+      for (const turn of body) {
+        expect(turn).toMatch(/^(Ali|Mona): \S/);
+        expect(turn).toMatch(/[.?]$/);
+      }
+    }
+    expect(transcript(chunks[chunks.length - 1].text).pop()).toBe('Mona: Done?');
+  });
+
+  it('describes speed, pitch and emotion in the header unless prosody is applied locally', () => {
+    const lines: DialogueLine[] = [{ speaker: 'Ali', text: 'Hello.' }, { speaker: 'Mona', text: 'Hi.' }];
+    const settings = { ...DEFAULT_VOICE_SETTINGS, speed: 0.8, pitch: -10, emotion: EmotionType.Sad, exactProsody: false };
+    const [chunk] = buildDialogueChunks(lines, assignments, settings, true);
+    expect(chunk.text).toContain('very slowly (about 0.68x normal speed)');
+    expect(chunk.text).toContain('with a much lower pitch');
+
+    const [exact] = buildDialogueChunks(lines, assignments, { ...settings, exactProsody: true }, true);
+    expect(exact.text).not.toContain('normal speed');
+    expect(exact.text).not.toContain('pitch');
+  });
+});
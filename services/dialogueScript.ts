@@ -0,0 +1,183 @@
+import {
+  AVAILABLE_VOICES,
+  SUPPORTED_DIALECTS,
+  SpeakerAssignment,
+  VoiceSettings
+} from "../types";
+import { buildSSML, resolveProsody } from "./ssmlBuilder";
+import { describeDelivery } from "./ssmlCompiler";
+import { DEFAULT_MAX_CHUNK_CHARS, splitIntoChunks, splitIntoPhrases } from "./textChunker";
+import { ChunkState } from "./synthesisPipeline";
+import { concatAudioBuffers, joinWithSilence, PcmBuffer } from "./audioUtils";
+import { getActiveProvider, resolveVoiceName } from "./ttsProvider";
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+// "Speaker: line" with an Arabic or Latin name (ASCII or full-width colon)
+const SPEAKER_LINE = /^\s*(\p{L}[\p{L}\p{M}\p{N} _.'-]{0,29}?)\s*[:：]\s*(.*)$/u;
+const FALLBACK_SPEAKER = 'الراوي';
+
+export const parseDialogue = (script: string): DialogueLine[] => {
+  const lines: DialogueLine[] = [];
+
+  for (const rawLine of script.split('\n')) {
+    if (!rawLine.trim()) continue;
+
+    const match = rawLine.match(SPEAKER_LINE);
+    if (match) {
+      lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+    } else if (lines.length > 0) {
+      // Lines without a speaker label continue the previous turn
+      const previous = lines[lines.length - 1];
+      previous.text = `${previous.text} ${rawLine.trim()}`.trim();
+    } else {
+      lines.push({ speaker: FALLBACK_SPEAKER, text: rawLine.trim() });
+    }
+  }
+
+  return lines.filter(l => l.text);
+};
+
+// Speakers in order of first appearance
+export const listSpeakers = (lines: DialogueLine[]): string[] =>
+  Array.from(new Set(lines.map(l => l.speaker)));
+
+export const defaultAssignment = (speakerIndex: number, dialectCode: string): SpeakerAssignment => ({
+  voiceId: AVAILABLE_VOICES[speakerIndex % AVAILABLE_VOICES.length].id,
+  dialectCode
+});
+
+// Gemini's multi-speaker config takes exactly two speakers with distinct voices,
+// and a single request can only carry one dialect instruction.
+// Distinct means distinct for the active provider, which may map two of our voices to one.
+export const canUseMultiSpeaker = (
+  speakers: string[],
+  assignments: Record<string, SpeakerAssignment>
+): boolean => {
+  if (speakers.length !== 2) return false;
+  const [a, b] = speakers.map(s => assignments[s]);
+  if (!a || !b) return false;
+  const provider = getActiveProvider();
+  return provider.capabilities.multiSpeaker
+    && resolveVoiceName(a.voiceId, provider.id) !== resolveVoiceName(b.voiceId, provider.id)
+    && a.dialectCode === b.dialectCode;
+};
+
+// One turn as transcript lines. A turn too long for one request is cut at sentence
+// boundaries, and every piece repeats the speaker label.
+const splitTurn = (line: DialogueLine, maxChars: number): string[] => {
+  const label = `${line.speaker}: `;
+  if (label.length + line.text.length <= maxChars) return [`${label}${line.text}`];
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const phrase of splitIntoPhrases(line.text, maxChars - label.length)) {
+    if (current && label.length + current.length + 1 + phrase.length > maxChars) {
+      pieces.push(`${label}${current}`);
+      current = '';
+    }
+    current = current ? `${current} ${phrase}` : phrase;
+  }
+  if (current) pieces.push(`${label}${current}`);
+  return pieces;
+};
+
+const buildMultiSpeakerChunks = (
+  lines: DialogueLine[],
+  speakers: string[],
+  assignments: Record<string, SpeakerAssignment>,
+  settings: VoiceSettings
+): ChunkState[] => {
+  const dialect = SUPPORTED_DIALECTS.find(d => d.code === assignments[speakers[0]].dialectCode) ?? SUPPORTED_DIALECTS[0];
+  // Speed, pitch and emotion go into the instruction the way buildSSML's prosody would;
+  // with exact prosody they are applied locally afterwards instead
+  const { rate, pitch } = settings.exactProsody ? { rate: 1, pitch: 0 } : resolveProsody(settings);
+  const delivery = describeDelivery({ rate, pitch, volume: 'normal', emphasis: false, lang: dialect.code });
+  const header = `Read the following conversation between ${speakers.join(' and ')}. ${delivery}:`;
+  const speakerVoices = speakers.map(speaker => ({
+    speaker,
+    voiceId: assignments[speaker].voiceId
+  }));
+
+  // Pack whole turns into each request so no line loses its speaker label
+  const transcripts: string[] = [];
+  let current = '';
+  for (const turn of lines.flatMap(line => splitTurn(line, DEFAULT_MAX_CHUNK_CHARS))) {
+    if (current && current.length + turn.length > DEFAULT_MAX_CHUNK_CHARS) {
+      transcripts.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${turn}` : turn;
+  }
+  if (current) transcripts.push(current);
+
+  return transcripts.map((transcript, index) => ({
+    index,
+    text: `${header}\n${transcript}`,
+    status: 'pending',
+    attempts: 0,
+    voiceId: speakerVoices[0].voiceId,
+    speakers: speakerVoices,
+    group: 0
+  }));
+};
+
+const buildPerLineChunks = (
+  lines: DialogueLine[],
+  assignments: Record<string, SpeakerAssignment>,
+  settings: VoiceSettings
+): ChunkState[] => {
+  const chunks: ChunkState[] = [];
+
+  lines.forEach((line, lineIndex) => {
+    const assignment = assignments[line.speaker];
+    const ssml = buildSSML(line.text, settings, assignment.dialectCode);
+    for (const text of splitIntoChunks(ssml)) {
+      chunks.push({
+        index: chunks.length,
+        text,
+        status: 'pending',
+        attempts: 0,
+        voiceId: assignment.voiceId,
+        group: lineIndex
+      });
+    }
+  });
+
+  return chunks;
+};
+
+export const buildDialogueChunks = (
+  lines: DialogueLine[],
+  assignments: Record<string, SpeakerAssignment>,
+  settings: VoiceSettings,
+  preferMultiSpeaker: boolean
+): ChunkState[] => {
+  const speakers = listSpeakers(lines);
+  if (preferMultiSpeaker && canUseMultiSpeaker(speakers, assignments)) {
+    return buildMultiSpeakerChunks(lines, speakers, assignments, settings);
+  }
+  return buildPerLineChunks(lines, assignments, settings);
+};
+
+// Crossfade pieces of the same turn, then put the turn gap between turns
+export const stitchDialogue = (chunks: ChunkState[], gapMs: number): PcmBuffer => {
+  const groups = new Map<number, PcmBuffer[]>();
+
+  for (const chunk of chunks) {
+    if (chunk.status !== 'done' || !chunk.audioBuffer) {
+      throw new Error(`Chunk ${chunk.index + 1} has no audio.`);
+    }
+    const key = chunk.group ?? 0;
+    groups.set(key, [...(groups.get(key) ?? []), chunk.audioBuffer]);
+  }
+
+  const turns = Array.from(groups.keys())
+    .sort((a, b) => a - b)
+    .map(key => concatAudioBuffers(groups.get(key)!));
+
+  return joinWithSilence(turns, gapMs);
+};
@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseEpub, splitMarkdown, splitPlainText } from './documentImport';
+import { createZip } from './zipWriter';
+
+const titles = (text: string) => splitPlainText(text).map(c => c.title);
+
+describe('splitPlainText', () => {
+  it('starts a chapter at each heading after a blank line', () => {
+    const text = 'Preamble.\n\nChapter 1\nIt began.\n\nChapter Two: The Road\nIt went on.\n\nالفصل الثالث\nنص.\n\nEpilogue\nThe end.';
+    expect(titles(text)).toEqual(['Opening', 'Chapter 1', 'Chapter Two: The Road', 'الفصل الثالث', 'Epilogue']);
+    expect(splitPlainText(text)[1].text).toBe('Chapter 1\nIt began.');
+  });
+
+  it('accepts roman numerals, number words and ordinals', () => {
+    const text = ['Part IV', 'Book Twenty-One', 'Section Seventeen', 'Chapter the First', 'Part Third', 'الباب ١٢', 'الجزء الحادي عشر']
+      .map(heading => `${heading}\nText.`).join('\n\n');
+    // "Chapter the First" is not covered, so it stays in the chapter before it
+    expect(titles(text)).toEqual(['Part IV', 'Book Twenty-One', 'Section Seventeen', 'Part Third', 'الباب ١٢', 'الجزء الحادي عشر']);
+  });
+
+  it('leaves sentences that start with a heading word as prose', () => {
+    const text = 'Intro.\n\nPart of the reason we went there was\nthe weather.\n\nBook of the dead is what they called it\n\nChapter civil\n\nالجزء الأكبر من الطريق\n\nChapter 3 was the best one we read.';
+    expect(titles(text)).toEqual(['Opening']);
+  });
+});
+
+describe('splitMarkdown', () => {
+  it('uses the repeated heading level and takes a single top heading as the title', () => {
+    const parsed = splitMarkdown('---\nauthor: A. Writer\n---\n# The Book\n\nIntro text.\n\n## One\n\nFirst **bold**.\n\n## Two\n\n```\ncode\n```\nSecond.');
+    expect(parsed.title).toBe('The Book');
+    expect(parsed.author).toBe('A. Writer');
+    expect(parsed.chapters.map(c => [c.title, c.text])).toEqual([
+      ['Opening', 'Intro text.'],
+      ['One', 'One\n\nFirst bold.'],
+      ['Two', 'Two\n\nSecond.']
+    ]);
+  });
+});
+
+const epub = async (files: Record<string, string>) =>
+  new Uint8Array(await createZip(Object.entries(files).map(([name, text]) => ({ name, data: new TextEncoder().encode(text) }))).arrayBuffer());
+
+const CONTAINER = '<?xml version="1.0"?><container xmlns="urn:oasis:names:tc:opendocument:xmlns:container" version="1.0"><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>';
+
+const page = (body: string) => `<?xml version="1.0" encoding="utf-8"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>x</title></head><body>${body}</body></html>`;
+
+describe('parseEpub', () => {
+  it('reads the spine in order, titled from the navigation document', async () => {
+    const data = await epub({
+      'mimetype': 'application/epub+zip',
+      'META-INF/container.xml': CONTAINER,
+      'OEBPS/content.opf': `<?xml version="1.0"?><package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+        <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>كتاب</dc:title><dc:creator>Author</dc:creator><dc:language>ar</dc:language></metadata>
+        <manifest>
+          <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+          <item id="cover" href="text/cover.xhtml" media-type="application/xhtml+xml"/>
+          <item id="c1" href="text/one.xhtml" media-type="application/xhtml+xml"/>
+          <item id="c2" href="text/two.xhtml" media-type="application/xhtml+xml"/>
+        </manifest>
+        <spine><itemref idref="cover" linear="no"/><itemref idref="c1"/><itemref idref="c2"/></spine></package>`,
+      'OEBPS/nav.xhtml': page('<nav epub:type="toc" xmlns:epub="http://www.idpf.org/2007/ops"><ol><li><a href="text/one.xhtml#start">الفصل الأول</a></li></ol></nav>'),
+      'OEBPS/text/cover.xhtml': page('<p>Cover</p>'),
+      'OEBPS/text/one.xhtml': page('<h1>One</h1><p>First   paragraph.</p><p>Second<br/>line.</p><script>ignored()</script>'),
+      'OEBPS/text/two.xhtml': page('<h2>Two</h2><p>Last.</p>')
+    });
+
+    const book = await parseEpub(data);
+    expect(book).toMatchObject({ title: 'كتاب', author: 'Author', language: 'ar' });
+    expect(book.chapters.map(c => [c.title, c.text])).toEqual([
+      ['الفصل الأول', 'One\n\nFirst paragraph.\n\nSecond\n\nline.'],
+      ['Two', 'Two\n\nLast.']
+    ]);
+  });
+
+  it('rejects an archive without a container', async () => {
+    await expect(parseEpub(await epub({ 'a.txt': 'x' }))).rejects.toThrow("Not an EPUB");
+  });
+});
@@ -0,0 +1,358 @@
+import { openZip, ZipArchive } from "./zipReader";
+
+// Long documents split into chapters: plain text (headings such as "Chapter 3" or
+// "الفصل الثالث"), Markdown (the heading level that repeats) and EPUB (the spine, titled
+// from the table of contents). Chapter text keeps its heading, so it is read aloud too.
+
+export interface DocumentChapter {
+  id: string;
+  title: string;
+  text: string;
+}
+
+export interface ImportedDocument {
+  title: string;
+  author: string;
+  language?: string; // From the EPUB package, when given
+  chapters: DocumentChapter[];
+}
+
+export const DOCUMENT_EXTENSIONS = ['.txt', '.md', '.markdown', '.epub'];
+
+const OPENING_TITLE = 'Opening';
+const MAX_HEADING_CHARS = 80;
+
+const toChapters = (sections: { title: string; text: string }[]): DocumentChapter[] =>
+  sections
+    .filter(s => s.text.trim())
+    .map((s, i) => ({ id: `chapter-${i + 1}`, title: s.title, text: s.text.trim() }));
+
+// Blank-line separated paragraphs with whitespace tidied inside each
+const tidyParagraphs = (text: string): string =>
+  text
+    .split(/\n\s*\n/)
+    .map(p => p.split('\n').map(line => line.replace(/[ \t ]+/g, ' ').trim()).filter(Boolean).join('\n'))
+    .filter(Boolean)
+    .join('\n\n');
+
+// ---------------------------------------------------------------------------
+// Plain text
+// ---------------------------------------------------------------------------
+
+// A heading ends at a separator or the end of the line; \b does not work for Arabic.
+// A bare English section word ("Preface") must stand alone or be followed by a title
+// after a separator, so a sentence that happens to start with one isn't a heading.
+const END = '(?=$|[\\s:.\\-–—])';
+const SEPARATED = '(?=$|\\s*[:.\\-–—])';
+// "Chapter" and the like must be followed by a number: digits, a well-formed roman
+// numeral, or a number word up to ninety-nine ("Part Three", "Book the First" is not
+// covered). Any other word ("Part of the reason…") leaves the line as prose.
+const UNITS = 'one|two|three|four|five|six|seven|eight|nine';
+const ORDINAL_UNITS = 'first|second|third|fourth|fifth|sixth|seventh|eighth|ninth';
+const TEENS = 'ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen';
+const ORDINAL_TEENS = 'tenth|eleventh|twelfth|thirteenth|fourteenth|fifteenth|sixteenth|seventeenth|eighteenth|nineteenth';
+const TENS = 'twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety';
+const ORDINAL_TENS = 'twentieth|thirtieth|fortieth|fiftieth|sixtieth|seventieth|eightieth|ninetieth';
+const NUMBER_WORD = `(${TENS})([- ](${UNITS}|${ORDINAL_UNITS}))?|${ORDINAL_TENS}|${TEENS}|${ORDINAL_TEENS}|${UNITS}|${ORDINAL_UNITS}`;
+const ROMAN_NUMERAL = '(?=[mdclxvi])m{0,3}(cm|cd|d?c{0,3})(xc|xl|l?x{0,3})(ix|iv|v?i{0,3})';
+// The same for "الفصل" and the like: digits or an ordinal. "الحادي عشر" and "الثاني والعشرون"
+// start with a unit ordinal; "الجزء الأكبر من…" stays prose.
+const ARABIC_ORDINAL = [
+  'الأول', 'الاول', 'الثاني', 'الثالث', 'الرابع', 'الخامس', 'السادس', 'السابع', 'الثامن', 'التاسع', 'العاشر', 'الحادي',
+  'العشرون', 'الثلاثون', 'الأربعون', 'الخمسون', 'الأخير', 'الاخير'
+].join('|');
+const HEADING_PATTERNS = [
+  new RegExp(`^(chapter|part|book|section)\\s+([0-9]+|${ROMAN_NUMERAL}|${NUMBER_WORD})${END}`, 'i'),
+  new RegExp(`^(prologue|epilogue|introduction|preface|foreword|afterword|conclusion|appendix)${SEPARATED}`, 'i'),
+  new RegExp(`^(الفصل|الباب|الجزء|القسم|المبحث)\\s+([0-9٠-٩]+|${ARABIC_ORDINAL})${END}`),
+  new RegExp(`^(المقدمة|مقدمة|تمهيد|التمهيد|الخاتمة|خاتمة|الملحق|ملحق|تقديم|توطئة)${END}`)
+];
+
+// Headings are short; a longer line ending like a sentence is prose that mentions a chapter
+const readsAsSentence = (line: string) =>
+  /[,;،؛]$/.test(line) || (/[.!?؟…]$/.test(line) && line.split(/\s+/).length > 3);
+
+const isPlainHeading = (line: string, previousBlank: boolean): boolean => {
+  const value = line.trim();
+  return (
+    previousBlank &&
+    value.length > 0 &&
+    value.length <= MAX_HEADING_CHARS &&
+    !readsAsSentence(value) &&
+    HEADING_PATTERNS.some(p => p.test(value))
+  );
+};
+
+export const splitPlainText = (text: string): DocumentChapter[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const sections: { title: string; lines: string[] }[] = [{ title: OPENING_TITLE, lines: [] }];
+  lines.forEach((line, i) => {
+    if (isPlainHeading(line, i === 0 || !lines[i - 1].trim())) sections.push({ title: line.trim(), lines: [] });
+    sections[sections.length - 1].lines.push(line);
+  });
+  return toChapters(sections.map(s => ({ title: s.title, text: tidyParagraphs(s.lines.join('\n')) })));
+};
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+interface MarkdownHeading {
+  line: number;
+  level: number;
+  title: string;
+  underline: boolean; // Setext heading: the next line is the === or --- rule
+}
+
+// Markup removed for reading; code blocks are dropped rather than read out
+export const markdownToText = (markdown: string): string =>
+  tidyParagraphs(
+    markdown
+      .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+      .replace(/^[ \t]*\[[^\]]+\]:[ \t]+\S+.*$/gm, '')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, '$1$2')
+      .replace(/\*([^*\n]+)\*/g, '$1')
+      .replace(/(^|[^\w])_([^_\n]+)_(?=[^\w]|$)/g, '$1$2')
+      .replace(/~~([^~]+)~~/g, '$1')
+      .replace(/^#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/gm, '$1')
+      .replace(/^[ \t]{0,3}>[ \t]?/gm, '')
+      .replace(/^[ \t]*([-*+]|\d+[.)])[ \t]+/gm, '')
+      .replace(/^[ \t]*([-*_])([ \t]*\1){2,}[ \t]*$/gm, '')
+      .replace(/^[ \t]*(=+|-+)[ \t]*$/gm, '')
+      .replace(/^[ \t]*\|?[ \t:|-]+\|[ \t:|-]*$/gm, '')
+      .replace(/[ \t]*\|[ \t]*/g, ' • ')
+      .replace(/<[^>]+>/g, '')
+  );
+
+const findHeadings = (lines: string[]): MarkdownHeading[] => {
+  const headings: MarkdownHeading[] = [];
+  let inFence = false;
+  lines.forEach((line, i) => {
+    if (/^(```|~~~)/.test(line)) inFence = !inFence;
+    if (inFence) return;
+    const atx = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (atx && atx[2]) {
+      headings.push({ line: i, level: atx[1].length, title: markdownToText(atx[2]), underline: false });
+      return;
+    }
+    const next = lines[i + 1];
+    if (line.trim() && next !== undefined && /^\s*(=+|-+)\s*$/.test(next) && (i === 0 || !lines[i - 1].trim())) {
+      headings.push({ line: i, level: next.trim()[0] === '=' ? 1 : 2, title: markdownToText(line), underline: true });
+    }
+  });
+  return headings;
+};
+
+export const splitMarkdown = (markdown: string): { title?: string; author?: string; chapters: DocumentChapter[] } => {
+  let source = markdown.replace(/\r\n?/g, '\n');
+  let title: string | undefined;
+  let author: string | undefined;
+
+  // YAML front matter: only the title and author are used
+  const front = /^---\n([\s\S]*?)\n---\n/.exec(source);
+  if (front) {
+    source = source.slice(front[0].length);
+    title = /^title:\s*["']?(.+?)["']?\s*$/m.exec(front[1])?.[1];
+    author = /^(author|creator):\s*["']?(.+?)["']?\s*$/m.exec(front[1])?.[2];
+  }
+
+  const lines = source.split('\n');
+  const headings = findHeadings(lines);
+  if (!headings.length) return { title, author, chapters: toChapters([{ title: OPENING_TITLE, text: markdownToText(source) }]) };
+
+  // Chapters are the shallowest level that repeats; a single heading above them is the book title
+  const counts = new Map<number, number>();
+  headings.forEach(h => counts.set(h.level, (counts.get(h.level) ?? 0) + 1));
+  const levels = [...counts.keys()].sort((a, b) => a - b);
+  const chapterLevel = levels.find(l => counts.get(l)! > 1) ?? levels[0];
+  const bookHeading = headings.find(h => h.level < chapterLevel);
+  if (bookHeading && !title) title = bookHeading.title;
+
+  const sections: { title: string; text: string }[] = [];
+  const starts = headings.filter(h => h.level === chapterLevel);
+  const openingEnd = starts[0].line;
+  const opening = lines.slice(0, openingEnd).filter((_, i) => i !== bookHeading?.line && !(bookHeading?.underline && i === bookHeading.line + 1));
+  sections.push({ title: OPENING_TITLE, text: markdownToText(opening.join('\n')) });
+  starts.forEach((heading, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].line : lines.length;
+    sections.push({ title: heading.title, text: markdownToText(lines.slice(heading.line, end).join('\n')) });
+  });
+  return { title, author, chapters: toChapters(sections) };
+};
+
+// Pasted text: Markdown when it has # headings, plain text otherwise
+export const splitText = (text: string): DocumentChapter[] =>
+  /^#{1,6}\s+\S/m.test(text) ? splitMarkdown(text).chapters : splitPlainText(text);
+
+// ---------------------------------------------------------------------------
+// EPUB
+// ---------------------------------------------------------------------------
+
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'ol', 'p', 'pre', 'section', 'table', 'td', 'th', 'tr', 'ul'
+]);
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'title', 'rt', 'rp']);
+
+const parseXml = (source: string, type: DOMParserSupportedType = 'application/xml'): Document => {
+  let doc = new DOMParser().parseFromString(source, type);
+  // Some books ship XHTML that isn't well-formed; the HTML parser still reads it
+  if (doc.getElementsByTagName('parsererror').length > 0 && type !== 'text/html') {
+    doc = new DOMParser().parseFromString(source, 'text/html');
+  }
+  return doc;
+};
+
+// Every block element becomes its own paragraph
+const elementText = (root: Element): string => {
+  const parts: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      parts.push((node.nodeValue ?? '').replace(/\s+/g, ' '));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const name = (node as Element).localName.toLowerCase();
+    if (SKIPPED_ELEMENTS.has(name)) return;
+    const block = BLOCK_ELEMENTS.has(name);
+    if (block) parts.push('\n\n');
+    node.childNodes.forEach(walk);
+    if (block) parts.push('\n\n');
+  };
+  walk(root);
+  return tidyParagraphs(parts.join(''));
+};
+
+const directoryOf = (path: string) => path.slice(0, path.lastIndexOf('/') + 1);
+
+// Archive path of `href` as written in the file at `base`
+const resolvePath = (base: string, href: string): string => {
+  const parts = (directoryOf(base) + decodeURIComponent(href.split('#')[0])).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part !== '.' && part !== '') resolved.push(part);
+  }
+  return resolved.join('/');
+};
+
+const readText = async (zip: ZipArchive, path: string): Promise<string | null> => {
+  const data = await zip.read(path);
+  return data ? new TextDecoder().decode(data) : null;
+};
+
+// File path → title, from the EPUB 3 navigation document or the EPUB 2 NCX. A file the
+// contents list several times is titled by its first entry.
+const readTableOfContents = async (zip: ZipArchive, navPath?: string, ncxPath?: string): Promise<Map<string, string>> => {
+  const titles = new Map<string, string>();
+  const add = (base: string, href: string | null, title: string) => {
+    const path = href ? resolvePath(base, href) : '';
+    if (path && title.trim() && !titles.has(path)) titles.set(path, title.replace(/\s+/g, ' ').trim());
+  };
+
+  const nav = navPath ? await readText(zip, navPath) : null;
+  if (nav && navPath) {
+    const doc = parseXml(nav, 'application/xhtml+xml');
+    const navs = Array.from(doc.getElementsByTagName('nav'));
+    const toc = navs.find(n => (n.getAttribute('epub:type') ?? '').split(/\s+/).includes('toc')) ?? navs[0];
+    if (toc) Array.from(toc.getElementsByTagName('a')).forEach(a => add(navPath, a.getAttribute('href'), a.textContent ?? ''));
+  }
+  const ncx = !titles.size && ncxPath ? await readText(zip, ncxPath) : null;
+  if (ncx && ncxPath) {
+    const doc = parseXml(ncx);
+    Array.from(doc.getElementsByTagName('navPoint')).forEach(point => {
+      const label = point.getElementsByTagName('text')[0]?.textContent ?? '';
+      add(ncxPath, point.getElementsByTagName('content')[0]?.getAttribute('src') ?? null, label);
+    });
+  }
+  return titles;
+};
+
+export const parseEpub = async (data: Uint8Array): Promise<Omit<ImportedDocument, 'title'> & { title?: string }> => {
+  const zip = openZip(data);
+  const container = await readText(zip, 'META-INF/container.xml');
+  if (!container) throw new Error("Not an EPUB: META-INF/container.xml is missing.");
+  const opfPath = parseXml(container).getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const opfSource = opfPath ? await readText(zip, opfPath) : null;
+  if (!opfPath || !opfSource) throw new Error("Not an EPUB: the package document is missing.");
+
+  const opf = parseXml(opfSource);
+  const dc = (name: string) => opf.getElementsByTagNameNS(DC_NS, name)[0]?.textContent?.trim() || undefined;
+
+  const manifest = new Map<string, { path: string; type: string; properties: string }>();
+  Array.from(opf.getElementsByTagName('item')).forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) {
+      manifest.set(id, {
+        path: resolvePath(opfPath, href),
+        type: item.getAttribute('media-type') ?? '',
+        properties: item.getAttribute('properties') ?? ''
+      });
+    }
+  });
+
+  const spine = opf.getElementsByTagName('spine')[0];
+  const navPath = [...manifest.values()].find(i => i.properties.split(/\s+/).includes('nav'))?.path;
+  const ncxId = spine?.getAttribute('toc');
+  const ncxPath = (ncxId ? manifest.get(ncxId) : [...manifest.values()].find(i => i.type === 'application/x-dtbncx+xml'))?.path;
+  const titles = await readTableOfContents(zip, navPath, ncxPath);
+
+  // Spine order is reading order; items marked linear="no" (notes, cover pages) are left out
+  const sections: { title: string; text: string }[] = [];
+  for (const ref of Array.from(spine?.getElementsByTagName('itemref') ?? [])) {
+    if (ref.getAttribute('linear') === 'no') continue;
+    const item = manifest.get(ref.getAttribute('idref') ?? '');
+    if (!item || !/html/.test(item.type)) continue;
+    const source = await readText(zip, item.path);
+    if (!source) continue;
+    const doc = parseXml(source, 'application/xhtml+xml');
+    const body = doc.getElementsByTagName('body')[0] ?? doc.documentElement;
+    const text = elementText(body);
+    const heading = ['h1', 'h2', 'h3'].map(tag => doc.getElementsByTagName(tag)[0]?.textContent?.trim()).find(Boolean);
+    sections.push({ title: titles.get(item.path) ?? heading ?? `Section ${sections.length + 1}`, text });
+  }
+
+  return { title: dc('title'), author: dc('creator') ?? '', language: dc('language'), chapters: toChapters(sections) };
+};
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+// UTF-8 or UTF-16 with a byte order mark; anything else that isn't valid UTF-8 is read
+// as Windows-1256, the usual legacy encoding for Arabic text files
+const decodeText = (data: Uint8Array): string => {
+  if (data[0] === 0xFF && data[1] === 0xFE) return new TextDecoder('utf-16le').decode(data);
+  if (data[0] === 0xFE && data[1] === 0xFF) return new TextDecoder('utf-16be').decode(data);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder('windows-1256').decode(data);
+  }
+};
+
+export const importDocument = async (file: File): Promise<ImportedDocument> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const name = file.name.toLowerCase();
+  const fallbackTitle = file.name.replace(/\.[^.]+$/, '');
+
+  let document: Omit<ImportedDocument, 'title'> & { title?: string };
+  if (name.endsWith('.epub')) {
+    document = await parseEpub(data);
+  } else if (name.endsWith('.md') || name.endsWith('.markdown')) {
+    const parsed = splitMarkdown(decodeText(data));
+    document = { title: parsed.title, author: parsed.author ?? '', chapters: parsed.chapters };
+  } else {
+    document = { author: '', chapters: splitPlainText(decodeText(data)) };
+  }
+
+  if (!document.chapters.length) throw new Error("No text was found in the file.");
+  return { ...document, title: document.title || fallbackTitle };
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { encodeFlac } from './flacEncoder';
+
+// A FLAC decoder for the subset the encoder writes (constant, verbatim and fixed
+// subframes, Rice residuals, mono or left/side stereo), following the format spec, so
+// the tests check what a player would read back.
+class BitReader {
+  position = 0; // In bits
+  constructor(private bytes: Uint8Array) {}
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++, this.position++) {
+      value = value * 2 + ((this.bytes[this.position >> 3] >> (7 - (this.position & 7))) & 1);
+    }
+    return value;
+  }
+  readSigned(bits: number): number {
+    const value = this.read(bits);
+    return value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+  }
+  readUnary(): number {
+    let zeros = 0;
+    while (this.read(1) === 0) zeros++;
+    return zeros;
+  }
+  align() {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+}
+
+const readSubframe = (reader: BitReader, blockSize: number, bits: number): number[] => {
+  reader.read(1);
+  const type = reader.read(6);
+  reader.read(1); // No wasted bits
+  if (type === 0) return new Array(blockSize).fill(reader.readSigned(bits));
+  if (type === 1) return Array.from({ length: blockSize }, () => reader.readSigned(bits));
+  expect(type >> 3).toBe(1); // Fixed
+  const order = type & 7;
+  const samples = Array.from({ length: order }, () => reader.readSigned(bits));
+  expect(reader.read(2)).toBe(0);
+  const partitionOrder = reader.read(4);
+  for (let p = 0; p < 1 << partitionOrder; p++) {
+    const k = reader.read(4);
+    const count = (blockSize >> partitionOrder) - (p === 0 ? order : 0);
+    for (let i = 0; i < count; i++) {
+      const u = reader.readUnary() * 2 ** k + reader.read(k);
+      const residual = u % 2 === 0 ? u / 2 : -(u + 1) / 2;
+      const x = samples;
+      const n = x.length;
+      const prediction = [0, x[n - 1], 2 * x[n - 1] - x[n - 2], 3 * x[n - 1] - 3 * x[n - 2] + x[n - 3], 4 * x[n - 1] - 6 * x[n - 2] + 4 * x[n - 3] - x[n - 4]][order];
+      samples.push(prediction + residual);
+    }
+  }
+  return samples;
+};
+
+const decodeFlac = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  expect(new TextDecoder().decode(bytes.subarray(0, 4))).toBe('fLaC');
+  const reader = new BitReader(bytes);
+  reader.position = 32;
+  let info = { sampleRate: 0, channelCount: 0, bitDepth: 0, totalSamples: 0 };
+  let comment = '';
+  for (let last = 0; !last;) {
+    last = reader.read(1);
+    const type = reader.read(7);
+    const length = reader.read(24);
+    const start = reader.position / 8;
+    if (type === 0) {
+      reader.read(80);
+      info = { sampleRate: reader.read(20), channelCount: reader.read(3) + 1, bitDepth: reader.read(5) + 1, totalSamples: reader.read(36) };
+    }
+    if (type === 4) comment = new TextDecoder().decode(bytes.subarray(start, start + length));
+    reader.position = (start + length) * 8;
+  }
+
+  const channels: number[][] = Array.from({ length: info.channelCount }, () => []);
+  while (reader.position / 8 < bytes.length) {
+    expect(reader.read(15)).toBe(0b111111111111100);
+    reader.read(1);
+    const sizeCode = reader.read(4);
+    const rateCode = reader.read(4);
+    const assignment = reader.read(4);
+    reader.read(4);
+    const lead = reader.read(8); // Frame number, UTF-8 style
+    for (let extra = Math.max(0, Math.clz32(~(lead << 24)) - 1); extra > 0; extra--) reader.read(8);
+    const blockSize = sizeCode === 0b1100 ? 4096 : reader.read(16) + 1;
+    if (rateCode === 0b1100) reader.read(8);
+    if (rateCode === 0b1101 || rateCode === 0b1110) reader.read(16);
+    reader.read(8); // CRC-8
+    if (assignment === 0b1000) {
+      const left = readSubframe(reader, blockSize, info.bitDepth);
+      const side = readSubframe(reader, blockSize, info.bitDepth + 1);
+      channels[0].push(...left);
+      channels[1].push(...left.map((l, i) => l - side[i]));
+    } else {
+      channels[0].push(...readSubframe(reader, blockSize, info.bitDepth));
+    }
+    reader.align();
+    reader.read(16); // CRC-16
+  }
+  return { ...info, comment, channels, size: bytes.length };
+};
+
+const quantize = (data: Float32Array, bitDepth: number) => Array.from(data, s => Math.round(s * (2 ** (bitDepth - 1) - 1)));
+
+describe('encodeFlac', () => {
+  it('round-trips mono 16-bit audio over several blocks', async () => {
+    const input = Float32Array.from({ length: 10000 }, (_, i) => 0.5 * Math.sin(i / 7) + 0.05 * Math.sin(i * 1.3));
+    const decoded = await decodeFlac(encodeFlac([input], 22050, 16, { TITLE: 'عنوان' }));
+    expect(decoded).toMatchObject({ sampleRate: 22050, channelCount: 1, bitDepth: 16, totalSamples: 10000 });
+    expect(decoded.channels[0]).toEqual(quantize(input, 16));
+    expect(decoded.comment).toContain('TITLE=عنوان');
+  });
+
+  it('round-trips stereo 24-bit audio coded as left/side', async () => {
+    const left = Float32Array.from({ length: 5000 }, (_, i) => 0.3 * Math.sin(i / 5));
+    const right = Float32Array.from({ length: 5000 }, (_, i) => 0.3 * Math.cos(i / 9));
+    const decoded = await decodeFlac(encodeFlac([left, right], 44100, 24));
+    expect(decoded).toMatchObject({ sampleRate: 44100, channelCount: 2, bitDepth: 24 });
+    expect(decoded.channels).toEqual([quantize(left, 24), quantize(right, 24)]);
+  });
+
+  it('clips out-of-range samples and codes silence in a few bytes per block', async () => {
+    const decoded = await decodeFlac(encodeFlac([Float32Array.of(2, -2, 0.5)], 24000, 16));
+    expect(decoded.channels[0]).toEqual([32767, -32767, 16384]);
+    const silent = await decodeFlac(encodeFlac([new Float32Array(48000)], 48000, 16));
+    expect(silent.channels[0].every(s => s === 0)).toBe(true);
+    expect(silent.size).toBeLessThan(400);
+  });
+
+  it('rejects more than two channels', () => {
+    expect(() => encodeFlac([new Float32Array(1), new Float32Array(1), new Float32Array(1)], 48000, 16)).toThrow("mono or stereo");
+  });
+});
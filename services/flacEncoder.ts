@@ -0,0 +1,289 @@
+import { buildVorbisComment } from "./vorbisComment";
+
+// FLAC encoder: fixed 4096-sample blocks, each channel coded as a constant, the best of
+// the fixed polynomial predictors (order 0-4) with partitioned Rice residuals, or verbatim.
+// Stereo is coded left/side, so duplicated mono costs almost nothing extra.
+
+export type FlacBitDepth = 16 | 24;
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 6;
+const MAX_RICE_PARAM = 14; // 15 is the escape code
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private current = 0;
+  private bitCount = 0;
+
+  private pushByte(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  // Up to 32 bits, most significant first; negative values are written in two's complement
+  write(value: number, bits: number) {
+    while (bits > 0) {
+      const take = Math.min(bits, 8 - this.bitCount);
+      const chunk = Math.floor(value / 2 ** (bits - take)) & ((1 << take) - 1);
+      this.current = (this.current << take) | chunk;
+      this.bitCount += take;
+      bits -= take;
+      if (this.bitCount === 8) {
+        this.pushByte(this.current);
+        this.current = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeUnary(zeros: number) {
+    while (zeros >= 24) {
+      this.write(0, 24);
+      zeros -= 24;
+    }
+    this.write(1, zeros + 1);
+  }
+
+  alignToByte() {
+    if (this.bitCount > 0) this.write(0, 8 - this.bitCount);
+  }
+
+  toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+const crc8 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xFF : (crc << 1) & 0xFF;
+  }
+  return crc;
+};
+
+const crc16 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xFFFF : (crc << 1) & 0xFFFF;
+  }
+  return crc;
+};
+
+// Frame numbers use the UTF-8 style variable-length coding
+const writeCodedNumber = (writer: BitWriter, value: number) => {
+  if (value < 0x80) return writer.write(value, 8);
+  let bytes = 2;
+  while (value >= 2 ** (5 * bytes + 1)) bytes++;
+  const lead = (0xFF << (8 - bytes)) & 0xFF;
+  writer.write(lead | Math.floor(value / 2 ** (6 * (bytes - 1))), 8);
+  for (let i = bytes - 2; i >= 0; i--) writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3F), 8);
+};
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001, 176400: 0b0010, 192000: 0b0011, 8000: 0b0100, 16000: 0b0101, 22050: 0b0110,
+  24000: 0b0111, 32000: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011
+};
+
+// Frame headers carry the sample rate too, since streaming decoders never see STREAMINFO
+const sampleRateCode = (sampleRate: number): { code: number; extra?: { value: number; bits: number } } => {
+  if (SAMPLE_RATE_CODES[sampleRate]) return { code: SAMPLE_RATE_CODES[sampleRate] };
+  if (sampleRate % 1000 === 0 && sampleRate / 1000 < 256) return { code: 0b1100, extra: { value: sampleRate / 1000, bits: 8 } };
+  if (sampleRate < 65536) return { code: 0b1101, extra: { value: sampleRate, bits: 16 } };
+  if (sampleRate % 10 === 0 && sampleRate / 10 < 65536) return { code: 0b1110, extra: { value: sampleRate / 10, bits: 16 } };
+  return { code: 0 }; // From STREAMINFO
+};
+
+const fixedResiduals = (samples: Int32Array, order: number): Int32Array => {
+  const residual = new Int32Array(samples.length - order);
+  for (let n = order; n < samples.length; n++) {
+    const x = samples;
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = x[n - 1]; break;
+      case 2: prediction = 2 * x[n - 1] - x[n - 2]; break;
+      case 3: prediction = 3 * x[n - 1] - 3 * x[n - 2] + x[n - 3]; break;
+      case 4: prediction = 4 * x[n - 1] - 6 * x[n - 2] + 4 * x[n - 3] - x[n - 4]; break;
+    }
+    residual[n - order] = x[n] - prediction;
+  }
+  return residual;
+};
+
+const zigzag = (value: number) => (value >= 0 ? 2 * value : -2 * value - 1);
+
+interface RicePlan {
+  partitionOrder: number;
+  params: number[];
+  bits: number;
+}
+
+const riceParamFor = (sum: number, count: number): number => {
+  if (count === 0 || sum === 0) return 0;
+  const mean = sum / count;
+  return Math.min(MAX_RICE_PARAM, Math.max(0, Math.floor(Math.log2(mean))));
+};
+
+// Pick the partition order and per-partition Rice parameters with the smallest estimated size
+const planRice = (residual: Int32Array, blockSize: number, predictorOrder: number): RicePlan => {
+  let best: RicePlan | null = null;
+  for (let order = 0; order <= MAX_PARTITION_ORDER; order++) {
+    const partitions = 1 << order;
+    if (blockSize % partitions !== 0 || blockSize / partitions <= predictorOrder) break;
+    const partitionSize = blockSize / partitions;
+    const params: number[] = [];
+    let bits = 2 + 4; // Coding method and partition order
+    let start = 0;
+    for (let p = 0; p < partitions; p++) {
+      const count = p === 0 ? partitionSize - predictorOrder : partitionSize;
+      let sum = 0;
+      for (let i = start; i < start + count; i++) sum += zigzag(residual[i]);
+      const k = riceParamFor(sum, count);
+      params.push(k);
+      bits += 4 + count * (k + 1) + Math.floor(sum / 2 ** k);
+      start += count;
+    }
+    if (!best || bits < best.bits) best = { partitionOrder: order, params, bits };
+  }
+  return best!;
+};
+
+const writeResidual = (writer: BitWriter, residual: Int32Array, plan: RicePlan, blockSize: number, predictorOrder: number) => {
+  writer.write(0, 2); // Rice, 4-bit parameters
+  writer.write(plan.partitionOrder, 4);
+  const partitionSize = blockSize >> plan.partitionOrder;
+  let start = 0;
+  plan.params.forEach((k, p) => {
+    const count = p === 0 ? partitionSize - predictorOrder : partitionSize;
+    writer.write(k, 4);
+    for (let i = start; i < start + count; i++) {
+      const u = zigzag(residual[i]);
+      writer.writeUnary(Math.floor(u / 2 ** k));
+      if (k > 0) writer.write(u % 2 ** k, k);
+    }
+    start += count;
+  });
+};
+
+const writeSubframe = (writer: BitWriter, samples: Int32Array, bitsPerSample: number) => {
+  const blockSize = samples.length;
+
+  if (samples.every(s => s === samples[0])) {
+    writer.write(0, 8); // Constant
+    writer.writeSigned(samples[0], bitsPerSample);
+    return;
+  }
+
+  let best: { order: number; residual: Int32Array; plan: RicePlan } | null = null;
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, blockSize - 1); order++) {
+    const residual = fixedResiduals(samples, order);
+    const plan = planRice(residual, blockSize, order);
+    const bits = plan.bits + order * bitsPerSample;
+    if (!best || bits < best.plan.bits + best.order * bitsPerSample) best = { order, residual, plan };
+  }
+
+  if (!best || best.plan.bits + best.order * bitsPerSample >= blockSize * bitsPerSample) {
+    writer.write(0b00000010, 8); // Verbatim
+    for (const s of samples) writer.writeSigned(s, bitsPerSample);
+    return;
+  }
+
+  writer.write(0b00010000 | (best.order << 1), 8); // Fixed, with the predictor order
+  for (let i = 0; i < best.order; i++) writer.writeSigned(samples[i], bitsPerSample);
+  writeResidual(writer, best.residual, best.plan, blockSize, best.order);
+};
+
+const encodeFrame = (channels: Int32Array[], frameNumber: number, sampleRate: number, bitDepth: FlacBitDepth): Uint8Array => {
+  const blockSize = channels[0].length;
+  const rate = sampleRateCode(sampleRate);
+  const writer = new BitWriter();
+
+  writer.write(0b11111111111110, 14); // Sync code
+  writer.write(0, 1); // Reserved
+  writer.write(0, 1); // Fixed block size
+  writer.write(blockSize === BLOCK_SIZE ? 0b1100 : 0b0111, 4); // 4096, or 16-bit size at the end of the header
+  writer.write(rate.code, 4);
+  writer.write(channels.length === 2 ? 0b1000 : 0, 4); // Left/side stereo or mono
+  writer.write(bitDepth === 24 ? 0b110 : 0b100, 3);
+  writer.write(0, 1); // Reserved
+  writeCodedNumber(writer, frameNumber);
+  if (blockSize !== BLOCK_SIZE) writer.write(blockSize - 1, 16);
+  if (rate.extra) writer.write(rate.extra.value, rate.extra.bits);
+  writer.write(crc8(writer.toBytes()), 8);
+
+  if (channels.length === 2) {
+    const side = new Int32Array(blockSize);
+    for (let i = 0; i < blockSize; i++) side[i] = channels[0][i] - channels[1][i];
+    writeSubframe(writer, channels[0], bitDepth);
+    writeSubframe(writer, side, bitDepth + 1);
+  } else {
+    writeSubframe(writer, channels[0], bitDepth);
+  }
+
+  writer.alignToByte();
+  writer.write(crc16(writer.toBytes()), 16);
+  return writer.toBytes();
+};
+
+const metadataBlockHeader = (type: number, length: number, last: boolean): Uint8Array =>
+  Uint8Array.of((last ? 0x80 : 0) | type, (length >> 16) & 0xFF, (length >> 8) & 0xFF, length & 0xFF);
+
+const streamInfo = (sampleRate: number, channels: number, bitDepth: number, totalSamples: number): Uint8Array => {
+  const writer = new BitWriter();
+  const blockSize = Math.max(16, Math.min(BLOCK_SIZE, totalSamples));
+  writer.write(blockSize, 16); // Min block size
+  writer.write(blockSize, 16); // Max block size
+  writer.write(0, 24); // Min frame size (unknown)
+  writer.write(0, 24); // Max frame size (unknown)
+  writer.write(sampleRate, 20);
+  writer.write(channels - 1, 3);
+  writer.write(bitDepth - 1, 5);
+  writer.write(Math.floor(totalSamples / 2 ** 32), 4);
+  writer.write(totalSamples >>> 0, 32);
+  for (let i = 0; i < 4; i++) writer.write(0, 32); // MD5 not computed
+  return writer.toBytes();
+};
+
+export const encodeFlac = (
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: FlacBitDepth,
+  tags: Record<string, string | undefined> = {}
+): Blob => {
+  if (channels.length < 1 || channels.length > 2) throw new Error("FLAC export supports mono or stereo only.");
+  const totalSamples = channels[0].length;
+  const scale = 2 ** (bitDepth - 1) - 1;
+
+  const info = streamInfo(sampleRate, channels.length, bitDepth, totalSamples);
+  const comment = buildVorbisComment(tags);
+  const parts: Uint8Array[] = [
+    new TextEncoder().encode('fLaC'),
+    metadataBlockHeader(0, info.length, false),
+    info,
+    metadataBlockHeader(4, comment.length, true),
+    comment
+  ];
+
+  for (let start = 0, frame = 0; start < totalSamples; start += BLOCK_SIZE, frame++) {
+    const end = Math.min(totalSamples, start + BLOCK_SIZE);
+    const block = channels.map(data => {
+      const ints = new Int32Array(end - start);
+      for (let i = start; i < end; i++) ints[i - start] = Math.round(Math.max(-1, Math.min(1, data[i])) * scale);
+      return ints;
+    });
+    parts.push(encodeFrame(block, frame, sampleRate, bitDepth));
+  }
+
+  return new Blob(parts as BlobPart[], { type: 'audio/flac' });
+};
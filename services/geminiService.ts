@@ -1,62 +1,166 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { base64ToArrayBuffer, pcmToAudioBuffer } from "./audioUtils";
+import { GenerateContentResponse, GoogleGenAI, Modality } from "@google/genai";
+import { base64ToArrayBuffer } from "./audioUtils";
+import { SynthesisOptions, TTSProvider } from "./ttsProvider";
+import { ContentBlockedError, MissingKeyError, NoAudioError, toTTSError } from "./ttsErrors";
 
-const API_KEY = process.env.API_KEY || '';
+// Inlined by Vite for the app; read from the environment when running under Node
+let apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY || '';
+let baseUrl: string | undefined;
 
-export interface TTSRequest {
-  text: string;
-  voiceName: string;
-  isSSML: boolean;
-}
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash-preview-tts";
 
-export const generateSpeech = async (request: TTSRequest): Promise<{ audioBuffer: AudioBuffer, base64: string }> => {
-  if (!API_KEY) {
-    throw new Error("API Key is missing. Please ensure process.env.API_KEY is available.");
+export const GEMINI_TTS_MODELS = [
+  "gemini-2.5-flash-preview-tts",
+  "gemini-2.5-pro-preview-tts",
+];
+
+// Gemini's prebuilt voices with the character Google describes for each
+export const GEMINI_VOICES: { name: string; character: string }[] = [
+  { name: 'Zephyr', character: 'Bright' },
+  { name: 'Puck', character: 'Upbeat' },
+  { name: 'Charon', character: 'Informative' },
+  { name: 'Kore', character: 'Firm' },
+  { name: 'Fenrir', character: 'Excitable' },
+  { name: 'Leda', character: 'Youthful' },
+  { name: 'Orus', character: 'Firm' },
+  { name: 'Aoede', character: 'Breezy' },
+  { name: 'Callirrhoe', character: 'Easy-going' },
+  { name: 'Autonoe', character: 'Bright' },
+  { name: 'Enceladus', character: 'Breathy' },
+  { name: 'Iapetus', character: 'Clear' },
+  { name: 'Umbriel', character: 'Easy-going' },
+  { name: 'Algieba', character: 'Smooth' },
+  { name: 'Despina', character: 'Smooth' },
+  { name: 'Erinome', character: 'Clear' },
+  { name: 'Algenib', character: 'Gravelly' },
+  { name: 'Rasalgethi', character: 'Informative' },
+  { name: 'Laomedeia', character: 'Upbeat' },
+  { name: 'Achernar', character: 'Soft' },
+  { name: 'Alnilam', character: 'Firm' },
+  { name: 'Schedar', character: 'Even' },
+  { name: 'Gacrux', character: 'Mature' },
+  { name: 'Pulcherrima', character: 'Forward' },
+  { name: 'Achird', character: 'Friendly' },
+  { name: 'Zubenelgenubi', character: 'Casual' },
+  { name: 'Vindemiatrix', character: 'Gentle' },
+  { name: 'Sadachbia', character: 'Lively' },
+  { name: 'Sadaltager', character: 'Knowledgeable' },
+  { name: 'Sulafat', character: 'Warm' },
+];
+
+let client: GoogleGenAI | null = null;
+
+// Shared client for TTS and the text models used elsewhere (e.g. dialect adaptation)
+export const getGeminiClient = (): GoogleGenAI => {
+  if (!apiKey) {
+    throw new MissingKeyError();
   }
+  if (!client) client = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+  return client;
+};
+
+// Run-time settings for Node: a key from a CLI flag or the proxy's environment, and a
+// different API endpoint, e.g. a local stand-in for testing
+export const configureGeminiClient = (options: { apiKey?: string; baseUrl?: string }) => {
+  if (options.apiKey !== undefined) apiKey = options.apiKey;
+  if (options.baseUrl !== undefined) baseUrl = options.baseUrl || undefined;
+  client = null;
+};
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  
-  // Clean SSML if needed, or pass text directly
-  const contentText = request.text;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: contentText }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
+// Request body shared by the one-shot and streaming calls
+const buildRequest = (model: string, prompt: string, options: SynthesisOptions) => ({
+  model,
+  contents: [{ parts: [{ text: prompt }] }],
+  config: {
+    abortSignal: options.signal,
+    responseModalities: [Modality.AUDIO],
+    speechConfig: options.speakers
+      ? {
+          multiSpeakerVoiceConfig: {
+            speakerVoiceConfigs: options.speakers.map(s => ({
+              speaker: s.speaker,
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: s.voiceName } },
+            })),
+          },
+        }
+      : {
           voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: request.voiceName },
+            prebuiltVoiceConfig: { voiceName: options.voiceName },
           },
         },
-      },
-    });
+  },
+});
+
+const audioData = (response: GenerateContentResponse): string | undefined =>
+  response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// A refused prompt comes back as a normal response with a block or finish reason
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new ContentBlockedError(String(blockReason));
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) throw new ContentBlockedError(finishReason);
+};
 
-    const candidate = response.candidates?.[0];
-    const audioPart = candidate?.content?.parts?.find(p => p.inlineData);
+export const createGeminiProvider = (model: string = DEFAULT_GEMINI_MODEL): TTSProvider => {
+  // One model call; returns the raw PCM bytes
+  const synthesize = async (prompt: string, options: SynthesisOptions): Promise<ArrayBuffer> => {
+    const ai = getGeminiClient();
 
-    if (!audioPart || !audioPart.inlineData || !audioPart.inlineData.data) {
-      throw new Error("No audio data returned from Gemini.");
+    try {
+      const response = await ai.models.generateContent(buildRequest(model, prompt, options));
+      throwIfBlocked(response);
+      const data = audioData(response);
+
+      if (!data) {
+        throw new NoAudioError();
+      }
+
+      // Gemini returns raw PCM data, not a WAV file
+      return base64ToArrayBuffer(data);
+
+    } catch (error) {
+      throw toTTSError(error, options.signal);
+    }
+  };
+
+  // Streaming variant: each response carries the next slice of PCM as base64
+  async function* synthesizeStream(prompt: string, options: SynthesisOptions): AsyncGenerator<ArrayBuffer> {
+    const ai = getGeminiClient();
+    let received = false;
+
+    try {
+      const stream = await ai.models.generateContentStream(buildRequest(model, prompt, options));
+      for await (const response of stream) {
+        throwIfBlocked(response);
+        const data = audioData(response);
+        if (!data) continue;
+        received = true;
+        yield base64ToArrayBuffer(data);
+      }
+    } catch (error) {
+      throw toTTSError(error, options.signal);
     }
 
-    const base64Audio = audioPart.inlineData.data;
-    
-    // Decode logic
-    const arrayBuffer = base64ToArrayBuffer(base64Audio);
-    
-    // Gemini returns raw PCM data, not a WAV file.
-    // Standard web decodeAudioData expects a file header (WAV/MP3).
-    // We must manually convert the raw PCM samples into an AudioBuffer.
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    
-    // Gemini 2.5 Flash TTS uses 24kHz sample rate for audio output
-    const audioBuffer = pcmToAudioBuffer(arrayBuffer, audioContext, 24000);
-
-    return { audioBuffer, base64: base64Audio };
-
-  } catch (error) {
-    console.error("Gemini TTS Error:", error);
-    throw error;
+    if (!received) {
+      throw new NoAudioError();
+    }
   }
-};
\ No newline at end of file
+
+  return {
+    id: 'gemini',
+    label: `Google Gemini (${model})`,
+    model,
+    capabilities: {
+      ssml: false,
+      // Gemini 2.5 Flash TTS uses 24kHz sample rate for audio output
+      sampleRate: 24000,
+      streaming: true,
+      multiSpeaker: true,
+    },
+    synthesize,
+    synthesizeStream,
+  };
+};
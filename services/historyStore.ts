@@ -0,0 +1,106 @@
+import { SpeakerAssignment, VoiceSettings } from "../types";
+import { openDatabase, promisifyRequest, withStore, STORES } from "./db";
+import { findVoice } from "./voiceCatalog";
+
+export type GenerationMode = 'text' | 'ssml' | 'script';
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface GenerationRecord {
+  id: string;
+  projectId: string;
+  createdAt: number;
+  mode: GenerationMode;
+  text: string; // Plain text, raw SSML or dialogue script as typed
+  voiceId: string;
+  dialectCode: string;
+  settings: VoiceSettings;
+  localProsody: boolean; // Pitch/speed still have to be applied to the stored PCM
+  speakerAssignments?: Record<string, SpeakerAssignment>;
+  turnGapMs?: number;
+  spokenText?: string; // Hand-edited "what will be spoken" text, when it differs from the normalizer's
+  sampleRate: number;
+  durationSec: number;
+  pcm: ArrayBuffer; // Raw Int16 model output, before local processing
+}
+
+const DEFAULT_PROJECT_NAME = 'My Project';
+
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await withStore(STORES.projects, 'readonly', store =>
+    promisifyRequest(store.getAll() as IDBRequest<Project[]>)
+  );
+  return projects.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createProject = async (name: string): Promise<Project> => {
+  const project: Project = { id: createId(), name: name.trim() || DEFAULT_PROJECT_NAME, createdAt: Date.now() };
+  await withStore(STORES.projects, 'readwrite', store => promisifyRequest(store.put(project)));
+  return project;
+};
+
+export const renameProject = async (project: Project, name: string): Promise<Project> => {
+  const renamed = { ...project, name: name.trim() || project.name };
+  await withStore(STORES.projects, 'readwrite', store => promisifyRequest(store.put(renamed)));
+  return renamed;
+};
+
+// The first visit gets a project to save into
+export const ensureDefaultProject = async (): Promise<Project[]> => {
+  const projects = await listProjects();
+  if (projects.length > 0) return projects;
+  return [await createProject(DEFAULT_PROJECT_NAME)];
+};
+
+// Removes the project together with every generation saved in it
+export const deleteProject = async (projectId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.projects, STORES.generations], 'readwrite');
+  tx.objectStore(STORES.projects).delete(projectId);
+  const index = tx.objectStore(STORES.generations).index('projectId');
+  const keys = await promisifyRequest(index.getAllKeys(IDBKeyRange.only(projectId)));
+  keys.forEach(key => tx.objectStore(STORES.generations).delete(key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const saveGeneration = async (
+  entry: Omit<GenerationRecord, 'id' | 'createdAt'>
+): Promise<GenerationRecord> => {
+  const record: GenerationRecord = { ...entry, id: createId(), createdAt: Date.now() };
+  await withStore(STORES.generations, 'readwrite', store => promisifyRequest(store.put(record)));
+  return record;
+};
+
+// Newest first
+export const listGenerations = async (projectId: string): Promise<GenerationRecord[]> => {
+  const records = await withStore(STORES.generations, 'readonly', store =>
+    promisifyRequest(store.index('projectId').getAll(IDBKeyRange.only(projectId)) as IDBRequest<GenerationRecord[]>)
+  );
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteGeneration = async (id: string): Promise<void> => {
+  await withStore(STORES.generations, 'readwrite', store => promisifyRequest(store.delete(id)));
+};
+
+// Case-insensitive match on the text, voice name or dialect
+export const filterGenerations = (records: GenerationRecord[], query: string): GenerationRecord[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return records;
+  return records.filter(r => {
+    const voiceName = findVoice(r.voiceId)?.name ?? '';
+    return [r.text, voiceName, r.dialectCode, r.settings.emotion].some(field => field.toLowerCase().includes(q));
+  });
+};
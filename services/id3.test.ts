@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { tableOfContentsFrame, tableOfContentsFrames } from './id3';
+
+const latin1 = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+// Element id, flags and entry ids of a CTOC body
+const readToc = (body: Uint8Array) => {
+  const text = latin1(body);
+  const idEnd = text.indexOf('\0');
+  const count = body[idEnd + 2];
+  const entries = text.slice(idEnd + 3).split('\0').slice(0, count);
+  return { id: text.slice(0, idEnd), flags: body[idEnd + 1], entries };
+};
+
+describe('tableOfContentsFrames', () => {
+  it('writes one top-level table for up to 255 chapters', () => {
+    const ids = Array.from({ length: 255 }, (_, i) => `ch${i + 1}`);
+    const frames = tableOfContentsFrames('toc', ids, 'Book');
+    expect(frames).toHaveLength(1);
+    expect(readToc(frames[0].body)).toEqual({ id: 'toc', flags: 0x03, entries: ids });
+  });
+
+  it('nests child tables of 255 chapters each beyond that', () => {
+    const ids = Array.from({ length: 600 }, (_, i) => `ch${i + 1}`);
+    const [top, ...children] = tableOfContentsFrames('toc', ids, 'Book').map(f => readToc(f.body));
+    expect(top).toEqual({ id: 'toc', flags: 0x03, entries: ['toc1', 'toc2', 'toc3'] });
+    expect(children.map(c => [c.id, c.flags, c.entries.length])).toEqual([['toc1', 0x01, 255], ['toc2', 0x01, 255], ['toc3', 0x01, 90]]);
+    expect(children[2].entries[0]).toBe('ch511');
+  });
+
+  it('refuses a single table over 255 entries', () => {
+    expect(() => tableOfContentsFrame('toc', Array.from({ length: 256 }, (_, i) => `ch${i}`))).toThrow("at most 255");
+  });
+});
@@ -0,0 +1,118 @@
+// ID3v2.3 tag writer for MP3 exports. Text is UTF-16 with a BOM, which every common
+// player reads and which keeps Arabic titles intact.
+
+export interface Id3Frame {
+  id: string; // Four-character frame id, e.g. TIT2
+  body: Uint8Array;
+}
+
+const UTF16 = 1;
+
+const encodeUtf16 = (text: string, terminate: boolean): Uint8Array => {
+  const units = 2 + text.length * 2 + (terminate ? 2 : 0);
+  const bytes = new Uint8Array(units);
+  bytes[0] = 0xFF; // BOM, little-endian
+  bytes[1] = 0xFE;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[2 + i * 2] = code & 0xFF;
+    bytes[3 + i * 2] = code >> 8;
+  }
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) & 0xFF);
+
+export const textFrame = (id: string, text: string): Id3Frame => ({
+  id,
+  body: concat([Uint8Array.of(UTF16), encodeUtf16(text, false)])
+});
+
+// COMM: three-letter ISO 639-2 language, empty description, then the text
+export const commentFrame = (language: string, text: string): Id3Frame => ({
+  id: 'COMM',
+  body: concat([Uint8Array.of(UTF16), latin1(language.padEnd(3, ' ').slice(0, 3)), encodeUtf16('', true), encodeUtf16(text, false)])
+});
+
+// Serialised frame: header (id, 32-bit size, flags) followed by the body
+export const encodeFrame = (frame: Id3Frame): Uint8Array => {
+  const header = new Uint8Array(10);
+  const view = new DataView(header.buffer);
+  header.set(latin1(frame.id), 0);
+  view.setUint32(4, frame.body.length, false);
+  return concat([header, frame.body]);
+};
+
+export const buildId3Tag = (frames: Id3Frame[]): Uint8Array => {
+  const body = concat(frames.map(encodeFrame));
+  const header = new Uint8Array(10);
+  header.set(latin1('ID3'), 0);
+  header[3] = 3; // v2.3.0
+  header[4] = 0;
+  header[5] = 0; // Flags
+  // Tag size is a 28-bit "syncsafe" integer: 7 bits per byte
+  const size = body.length;
+  header[6] = (size >> 21) & 0x7F;
+  header[7] = (size >> 14) & 0x7F;
+  header[8] = (size >> 7) & 0x7F;
+  header[9] = size & 0x7F;
+  return concat([header, body]);
+};
+
+const latin1Terminated = (text: string) => concat([latin1(text), Uint8Array.of(0)]);
+
+// CHAP: element id, start and end in milliseconds, byte offsets left unset (0xFFFFFFFF
+// means "use the times"), then a TIT2 sub-frame with the chapter title
+export const chapterFrame = (elementId: string, startMs: number, endMs: number, title: string): Id3Frame => {
+  const times = new Uint8Array(16);
+  const view = new DataView(times.buffer);
+  view.setUint32(0, Math.round(startMs), false);
+  view.setUint32(4, Math.round(endMs), false);
+  view.setUint32(8, 0xFFFFFFFF, false);
+  view.setUint32(12, 0xFFFFFFFF, false);
+  return { id: 'CHAP', body: concat([latin1Terminated(elementId), times, encodeFrame(textFrame('TIT2', title))]) };
+};
+
+const MAX_TOC_ENTRIES = 255;
+
+// CTOC: an ordered table of contents listing CHAP (or child CTOC) element ids. The entry
+// count is one byte, so a table holds at most 255 entries.
+export const tableOfContentsFrame = (elementId: string, childIds: string[], title?: string, topLevel: boolean = true): Id3Frame => {
+  if (childIds.length > MAX_TOC_ENTRIES) throw new Error("An ID3 table of contents holds at most 255 entries.");
+  const flags = topLevel ? 0x03 : 0x01; // Top-level and ordered, or ordered only
+  return {
+    id: 'CTOC',
+    body: concat([
+      latin1Terminated(elementId),
+      Uint8Array.of(flags, childIds.length),
+      ...childIds.map(latin1Terminated),
+      ...(title ? [encodeFrame(textFrame('TIT2', title))] : [])
+    ])
+  };
+};
+
+// The table for any number of chapters: one CTOC up to 255, otherwise a top-level table
+// of child tables holding 255 chapters each, titled by their range ("Chapters 256–510")
+export const tableOfContentsFrames = (elementId: string, chapterIds: string[], title?: string): Id3Frame[] => {
+  if (chapterIds.length <= MAX_TOC_ENTRIES) return [tableOfContentsFrame(elementId, chapterIds, title)];
+  const groups: string[][] = [];
+  for (let i = 0; i < chapterIds.length; i += MAX_TOC_ENTRIES) groups.push(chapterIds.slice(i, i + MAX_TOC_ENTRIES));
+  const groupIds = groups.map((_, i) => `${elementId}${i + 1}`);
+  return [
+    tableOfContentsFrame(elementId, groupIds, title),
+    ...groups.map((ids, i) => {
+      const first = i * MAX_TOC_ENTRIES + 1;
+      return tableOfContentsFrame(groupIds[i], ids, `Chapters ${first}–${first + ids.length - 1}`, false);
+    })
+  ];
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { applyLexicon, GLOBAL_SCOPE, LexiconEntry } from './lexicon';
+
+const entry = (grapheme: string, alias: string, scope: string = GLOBAL_SCOPE): LexiconEntry => ({ id: grapheme, grapheme, alias, scope });
+
+describe('applyLexicon', () => {
+  it('replaces whole words and keeps attached proclitics', () => {
+    const result = applyLexicon('بحثت في جوجل ثم وبجوجل', [entry('جوجل', 'غوغل')], 'ar-XA');
+    expect(result.text).toBe('بحثت في غوغل ثم وبغوغل');
+    expect(result.substitutions.map(s => s.start)).toEqual([8, 18]);
+  });
+
+  it('does not match a short entry inside a longer word', () => {
+    expect(applyLexicon('فكر في الكر والفر', [entry('كر', 'كَرّ')], 'ar-XA').text).toBe('فكر في الكر والفر');
+    expect(applyLexicon('كر وفر', [entry('كر', 'كَرّ')], 'ar-XA').text).toBe('كَرّ وفر');
+  });
+
+  it('prefers a whole-word entry over a proclitic split', () => {
+    const entries = [entry('كر', 'X'), entry('فكر', 'فِكْر')];
+    expect(applyLexicon('فكر', entries, 'ar-XA').text).toBe('فِكْر');
+  });
+
+  it('lets a dialect entry override a global one', () => {
+    const entries = [entry('SQL', 'سيكوال'), entry('SQL', 'إس كيو إل', 'ar-EG')];
+    expect(applyLexicon('SQL', entries, 'ar-EG').text).toBe('إس كيو إل');
+    expect(applyLexicon('SQL', entries, 'ar-XA').text).toBe('سيكوال');
+  });
+
+  it('leaves markup alone and escapes aliases in SSML', () => {
+    const result = applyLexicon('<speak><sub alias="AT">AT</sub> AT</speak>', [entry('AT', 'A & T <x>')], 'ar-XA', true);
+    expect(result.text).toBe('<speak><sub alias="AT">A &amp; T &lt;x&gt;</sub> A &amp; T &lt;x&gt;</speak>');
+  });
+});
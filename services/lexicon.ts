@@ -0,0 +1,169 @@
+import { promisifyRequest, withStore, STORES } from "./db";
+import { createId } from "./historyStore";
+
+// Pronunciation lexicon: a word as written (grapheme) is replaced by a spelling the model
+// reads correctly (alias), e.g. full tashkeel or a phonetic respelling. Entries apply
+// everywhere (global) or to one DialectOption.code; a dialect entry wins over a global one.
+
+export const GLOBAL_SCOPE = 'global';
+
+export interface LexiconEntry {
+  id: string;
+  grapheme: string;
+  alias: string;
+  scope: string; // GLOBAL_SCOPE or a DialectOption.code
+}
+
+export interface Substitution {
+  start: number; // Offsets in the source text
+  end: number;
+  grapheme: string;
+  alias: string;
+}
+
+export interface LexiconResult {
+  text: string;
+  substitutions: Substitution[];
+}
+
+const PLS_NAMESPACE = 'http://www.w3.org/2005/01/pronunciation-lexicon';
+
+// ---------- Storage ----------
+
+export const listLexiconEntries = async (): Promise<LexiconEntry[]> => {
+  const entries = await withStore(STORES.lexicon, 'readonly', store =>
+    promisifyRequest(store.getAll() as IDBRequest<LexiconEntry[]>)
+  );
+  return entries.sort((a, b) => a.grapheme.localeCompare(b.grapheme, 'ar'));
+};
+
+export const saveLexiconEntry = async (entry: Omit<LexiconEntry, 'id'> & { id?: string }): Promise<LexiconEntry> => {
+  const saved: LexiconEntry = { ...entry, id: entry.id ?? createId(), grapheme: entry.grapheme.trim(), alias: entry.alias.trim() };
+  await withStore(STORES.lexicon, 'readwrite', store => promisifyRequest(store.put(saved)));
+  return saved;
+};
+
+export const deleteLexiconEntry = async (id: string): Promise<void> => {
+  await withStore(STORES.lexicon, 'readwrite', store => promisifyRequest(store.delete(id)));
+};
+
+// Imported entries replace existing ones with the same grapheme in the same scope
+export const importLexiconEntries = async (entries: Omit<LexiconEntry, 'id'>[]): Promise<number> => {
+  const existing = await listLexiconEntries();
+  await withStore(STORES.lexicon, 'readwrite', store => {
+    for (const entry of entries) {
+      const match = existing.find(e => e.scope === entry.scope && e.grapheme === entry.grapheme);
+      store.put({ ...entry, id: match?.id ?? createId() });
+    }
+  });
+  return entries.length;
+};
+
+// ---------- Applying ----------
+
+// Entries in effect for a dialect, keyed by grapheme
+const effectiveEntries = (entries: LexiconEntry[], dialectCode: string): Map<string, LexiconEntry> => {
+  const result = new Map<string, LexiconEntry>();
+  entries.filter(e => e.scope === GLOBAL_SCOPE && e.grapheme).forEach(e => result.set(e.grapheme, e));
+  entries.filter(e => e.scope === dialectCode && e.grapheme).forEach(e => result.set(e.grapheme, e));
+  return result;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// A proclitic is only split off a stem this long: "كر" must not match inside "فكر" or "وكر"
+const MIN_STEM_WITH_PROCLITIC = 3;
+
+// Whole-word replacement in plain text. With `isSSML`, markup is left untouched and only
+// text between tags is rewritten.
+export const applyLexicon = (
+  text: string,
+  entries: LexiconEntry[],
+  dialectCode: string,
+  isSSML: boolean = false
+): LexiconResult => {
+  const effective = effectiveEntries(entries, dialectCode);
+  if (effective.size === 0) return { text, substitutions: [] };
+
+  // Longest grapheme first so multi-word entries beat their parts
+  const alternatives = Array.from(effective.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  // Up to two attached proclitics (و ف ب ل ك, as in "وبجوجل") are kept in front of the alias.
+  // The group is lazy, so a whole word that is itself an entry is matched without one.
+  const pattern = new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])([وفبلك]{0,2}?)(${alternatives})(?![\\p{L}\\p{M}\\p{N}])`, 'gu');
+
+  const substitutions: Substitution[] = [];
+  const rewrite = (segment: string, offset: number) =>
+    segment.replace(pattern, (match, proclitics: string, word: string, index: number) => {
+      if (proclitics && Array.from(word).length < MIN_STEM_WITH_PROCLITIC) return match;
+      const entry = effective.get(word)!;
+      const start = offset + index + proclitics.length;
+      substitutions.push({ start, end: start + word.length, grapheme: word, alias: entry.alias });
+      // Aliases are plain text; in SSML they must not open tags or entities
+      return proclitics + (isSSML ? escapeXml(entry.alias) : entry.alias);
+    });
+
+  if (!isSSML) return { text: rewrite(text, 0), substitutions };
+
+  let offset = 0;
+  const rewritten = text.split(/(<[^>]*>)/).map(part => {
+    const start = offset;
+    offset += part.length;
+    return part.startsWith('<') ? part : rewrite(part, start);
+  }).join('');
+  return { text: rewritten, substitutions };
+};
+
+// ---------- W3C Pronunciation Lexicon Specification ----------
+
+export const toPLS = (entries: LexiconEntry[], lang: string): string => {
+  const lexemes = entries.map(e => `  <lexeme>
+    <grapheme>${escapeXml(e.grapheme)}</grapheme>
+    <alias>${escapeXml(e.alias)}</alias>
+  </lexeme>`);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<lexicon version="1.0" xmlns="${PLS_NAMESPACE}" alphabet="x-respelling" xml:lang="${lang}">
+${lexemes.join('\n')}
+</lexicon>
+`;
+};
+
+export interface PLSImport {
+  entries: Omit<LexiconEntry, 'id' | 'scope'>[];
+  lang: string | null;
+  skipped: number; // Lexemes without an <alias> we could use
+}
+
+// Reads <lexeme> elements; every <grapheme> in a lexeme maps to its first <alias>.
+// Lexemes that only carry <phoneme> (IPA etc.) cannot be applied as text and are skipped.
+export const parsePLS = (xml: string): PLSImport => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("The file is not valid XML.");
+  }
+  const root = doc.documentElement;
+  if (root.localName !== 'lexicon') {
+    throw new Error("Not a PLS file: the root element must be <lexicon>.");
+  }
+
+  const entries: PLSImport['entries'] = [];
+  let skipped = 0;
+  for (const lexeme of Array.from(root.getElementsByTagNameNS('*', 'lexeme'))) {
+    const alias = lexeme.getElementsByTagNameNS('*', 'alias')[0]?.textContent?.trim();
+    const graphemes = Array.from(lexeme.getElementsByTagNameNS('*', 'grapheme'))
+      .map(g => g.textContent?.trim() ?? '')
+      .filter(Boolean);
+    if (!alias || graphemes.length === 0) {
+      skipped++;
+      continue;
+    }
+    graphemes.forEach(grapheme => entries.push({ grapheme, alias }));
+  }
+
+  return { entries, lang: root.getAttribute('xml:lang'), skipped };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { integratedLoudness, limitTruePeak, measureLoudness, rmsLevel, truePeak } from './loudness';
+
+const RATE = 48000;
+
+const sine = (frequency: number, amplitude: number, seconds: number, phase = 0, rate = RATE) =>
+  Float32Array.from({ length: Math.round(rate * seconds) }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / rate + phase));
+
+const dbfs = (db: number) => Math.pow(10, db / 20);
+
+describe('integratedLoudness', () => {
+  // EBU Tech 3341, test 1: a stereo 1 kHz tone at -23 dBFS reads -23 LUFS
+  it('reads the EBU reference tone at any sample rate', () => {
+    const tone = sine(1000, dbfs(-23), 5);
+    expect(integratedLoudness([tone, tone], RATE)).toBeCloseTo(-23, 1);
+    const tone441 = sine(1000, dbfs(-23), 5, 0, 44100);
+    expect(integratedLoudness([tone441, tone441], 44100)).toBeCloseTo(-23, 1);
+  });
+
+  it('weighs a mono channel like one side of stereo', () => {
+    expect(integratedLoudness([sine(1000, 1, 3)], RATE)).toBeCloseTo(-3.01, 1);
+  });
+
+  it('gates out silence', () => {
+    const tone = sine(1000, dbfs(-23), 4);
+    const withPause = new Float32Array(tone.length * 2);
+    withPause.set(tone);
+    // Only the few blocks straddling the end of the tone pull it down a little
+    expect(integratedLoudness([withPause, withPause], RATE)).toBeCloseTo(-23, 0);
+    expect(integratedLoudness([new Float32Array(RATE)], RATE)).toBe(-Infinity);
+  });
+});
+
+describe('peaks and levels', () => {
+  it('finds the true peak between samples', () => {
+    // A quarter-rate tone sampled 45° off its crests: samples reach only -3 dB
+    const tone = sine(RATE / 4, 0.5, 0.1, Math.PI / 4);
+    const stats = measureLoudness([tone], RATE);
+    expect(stats.samplePeakDbfs).toBeCloseTo(-9.03, 1);
+    expect(truePeak([tone])).toBeGreaterThan(-6.5);
+  });
+
+  it('measures RMS and the noise floor', () => {
+    expect(rmsLevel([sine(1000, 1, 1)])).toBeCloseTo(-3.01, 2);
+    const speechAndRoom = new Float32Array(2 * RATE);
+    speechAndRoom.set(sine(300, 0.5, 1));
+    speechAndRoom.set(sine(50, dbfs(-57), 1), RATE); // -60 dB RMS
+    expect(measureLoudness([speechAndRoom], RATE).noiseFloorDbfs).toBeCloseTo(-60, 0);
+  });
+});
+
+describe('limitTruePeak', () => {
+  it('brings the true peak under the ceiling and reports the reduction', () => {
+    const tone = sine(997, 1, 1);
+    const { channels, maxReductionDb } = limitTruePeak([tone], RATE, -3);
+    expect(truePeak(channels)).toBeLessThanOrEqual(-3 + 0.05);
+    expect(maxReductionDb).toBeGreaterThan(2.9);
+    expect(maxReductionDb).toBeLessThan(3.5);
+  });
+
+  it('leaves audio under the ceiling untouched', () => {
+    const tone = sine(440, 0.25, 0.5);
+    const { channels, maxReductionDb } = limitTruePeak([tone], RATE, -1);
+    expect(maxReductionDb).toBe(0);
+    expect(channels[0]).toEqual(tone);
+  });
+});
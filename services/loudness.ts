@@ -0,0 +1,262 @@
+// Loudness and peak measurement after ITU-R BS.1770-4 / EBU R128, and a true-peak
+// limiter. Everything works on plain channel arrays, so it runs the same in the
+// browser and under Node.
+
+export interface LoudnessStats {
+  integratedLufs: number; // Gated programme loudness; -Infinity for silence
+  truePeakDbtp: number; // Peak of the 4x oversampled signal
+  samplePeakDbfs: number;
+  rmsDbfs: number; // Over the whole file, all channels
+  noiseFloorDbfs: number; // RMS of the quietest half second
+  duration: number; // Seconds
+}
+
+const BLOCK_MS = 400;
+const BLOCK_STEP_MS = 100; // 75% overlap
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const NOISE_WINDOW_MS = 500;
+const NOISE_STEP_MS = 50;
+
+const toDb = (linear: number) => (linear > 0 ? 20 * Math.log10(linear) : -Infinity);
+const powerToLufs = (power: number) => (power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity);
+
+// ---------------------------------------------------------------------------
+// K-weighting: the BS.1770 high shelf and high pass, with coefficients derived for
+// any sample rate rather than the 48 kHz table in the standard.
+// ---------------------------------------------------------------------------
+
+interface Biquad { b0: number; b1: number; b2: number; a1: number; a2: number }
+
+const shelfFilter = (rate: number): Biquad => {
+  const K = Math.tan((Math.PI * 1681.974450955533) / rate);
+  const Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  const a0 = 1 + K / Q + K * K;
+  return {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  };
+};
+
+const highPassFilter = (rate: number): Biquad => {
+  const K = Math.tan((Math.PI * 38.13547087602444) / rate);
+  const Q = 0.5003270373238773;
+  const a0 = 1 + K / Q + K * K;
+  return { b0: 1, b1: -2, b2: 1, a1: (2 * (K * K - 1)) / a0, a2: (1 - K / Q + K * K) / a0 };
+};
+
+const runBiquad = (input: Float32Array, f: Biquad): Float32Array => {
+  const out = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    out[i] = y;
+  }
+  return out;
+};
+
+export const integratedLoudness = (channels: Float32Array[], rate: number): number => {
+  const length = channels[0]?.length ?? 0;
+  if (!length) return -Infinity;
+  const shelf = shelfFilter(rate);
+  const highPass = highPassFilter(rate);
+  const weighted = channels.map(data => runBiquad(runBiquad(data, shelf), highPass));
+
+  // Mean square per block, summed over channels (all weighted 1 for mono and stereo)
+  const block = Math.min(length, Math.round((BLOCK_MS / 1000) * rate));
+  const step = Math.max(1, Math.round((BLOCK_STEP_MS / 1000) * rate));
+  const powers: number[] = [];
+  for (let start = 0; start + block <= length; start += step) {
+    let power = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + block; i++) sum += data[i] * data[i];
+      power += sum / block;
+    }
+    powers.push(power);
+  }
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const loud = powers.filter(p => powerToLufs(p) > ABSOLUTE_GATE_LUFS);
+  if (!loud.length) return -Infinity;
+  const relativeGate = powerToLufs(mean(loud)) + RELATIVE_GATE_LU;
+  const gated = loud.filter(p => powerToLufs(p) > relativeGate);
+  return powerToLufs(mean(gated));
+};
+
+// ---------------------------------------------------------------------------
+// True peak: 4x oversampling with a 48-tap windowed-sinc interpolator, as in
+// BS.1770-4 Annex 2. `peakEnvelope` gives, per input sample, the highest magnitude
+// from that sample up to the next one.
+// ---------------------------------------------------------------------------
+
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+
+const interpolationPhases: Float32Array[] = (() => {
+  const half = TAPS_PER_PHASE / 2;
+  const phases: Float32Array[] = [];
+  for (let p = 1; p < OVERSAMPLE; p++) {
+    const frac = p / OVERSAMPLE;
+    const taps = new Float32Array(TAPS_PER_PHASE);
+    let sum = 0;
+    for (let k = 0; k < TAPS_PER_PHASE; k++) {
+      const x = k - half + 1 - frac; // Distance from the tap to the interpolated point
+      const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / half);
+      taps[k] = sinc * window;
+      sum += taps[k];
+    }
+    for (let k = 0; k < TAPS_PER_PHASE; k++) taps[k] /= sum;
+    phases.push(taps);
+  }
+  return phases;
+})();
+
+const peakEnvelope = (data: Float32Array): Float32Array => {
+  const envelope = new Float32Array(data.length);
+  const offset = TAPS_PER_PHASE / 2 - 1;
+  for (let i = 0; i < data.length; i++) {
+    let peak = Math.abs(data[i]);
+    for (const taps of interpolationPhases) {
+      let value = 0;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) {
+        const j = i - offset + k;
+        if (j >= 0 && j < data.length) value += data[j] * taps[k];
+      }
+      peak = Math.max(peak, Math.abs(value));
+    }
+    envelope[i] = peak;
+  }
+  return envelope;
+};
+
+export const truePeak = (channels: Float32Array[]): number => {
+  let peak = 0;
+  for (const data of channels) {
+    const envelope = peakEnvelope(data);
+    for (let i = 0; i < envelope.length; i++) peak = Math.max(peak, envelope[i]);
+  }
+  return toDb(peak);
+};
+
+// Quietest stretch of the file, which for speech is the pauses and room tone
+const noiseFloor = (channels: Float32Array[], rate: number): number => {
+  const length = channels[0].length;
+  const window = Math.min(length, Math.round((NOISE_WINDOW_MS / 1000) * rate));
+  const step = Math.max(1, Math.round((NOISE_STEP_MS / 1000) * rate));
+  const squares = new Float64Array(length + 1); // Prefix sums of the per-frame mean square
+  for (let i = 0; i < length; i++) {
+    let s = 0;
+    for (const data of channels) s += data[i] * data[i];
+    squares[i + 1] = squares[i] + s / channels.length;
+  }
+  let quietest = Infinity;
+  for (let start = 0; start + window <= length; start += step) {
+    quietest = Math.min(quietest, (squares[start + window] - squares[start]) / window);
+  }
+  return toDb(Math.sqrt(Math.max(0, quietest)));
+};
+
+export const rmsLevel = (channels: Float32Array[]): number => {
+  let sum = 0;
+  let count = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+    count += data.length;
+  }
+  return count ? toDb(Math.sqrt(sum / count)) : -Infinity;
+};
+
+export const measureLoudness = (channels: Float32Array[], rate: number): LoudnessStats => {
+  const length = channels[0]?.length ?? 0;
+  let peak = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+  }
+  return {
+    integratedLufs: integratedLoudness(channels, rate),
+    truePeakDbtp: truePeak(channels),
+    samplePeakDbfs: toDb(peak),
+    rmsDbfs: rmsLevel(channels),
+    noiseFloorDbfs: length ? noiseFloor(channels, rate) : -Infinity,
+    duration: length / rate
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Limiter: linked across channels, with lookahead so gain is already down when a
+// peak arrives. The required gain is held over the lookahead window, released with
+// a one-pole curve, then averaged over the same window; every sample of that average
+// comes from a window covering the peak, so the peak never gets more than it may.
+// ---------------------------------------------------------------------------
+
+const LIMITER_LOOKAHEAD_MS = 5;
+const LIMITER_RELEASE_MS = 80;
+
+export interface LimiterResult {
+  channels: Float32Array[];
+  maxReductionDb: number; // Deepest gain reduction applied, as a positive number
+}
+
+export const limitTruePeak = (channels: Float32Array[], rate: number, ceilingDb: number): LimiterResult => {
+  const length = channels[0]?.length ?? 0;
+  const ceiling = Math.pow(10, ceilingDb / 20);
+  const required = new Float32Array(length).fill(1);
+  for (const data of channels) {
+    const envelope = peakEnvelope(data);
+    for (let i = 0; i < length; i++) {
+      if (envelope[i] > ceiling) required[i] = Math.min(required[i], ceiling / envelope[i]);
+    }
+  }
+  if (required.every(g => g === 1)) return { channels: channels.map(d => d.slice()), maxReductionDb: 0 };
+
+  const lookahead = Math.max(1, Math.round((LIMITER_LOOKAHEAD_MS / 1000) * rate));
+  const release = 1 - Math.exp(-1 / Math.max(1, (LIMITER_RELEASE_MS / 1000) * rate));
+
+  // Minimum over [i, i + lookahead], with a monotonic deque
+  const held = new Float32Array(length);
+  const deque = new Int32Array(length);
+  let head = 0, tail = 0;
+  for (let i = length - 1; i >= 0; i--) {
+    while (tail > head && required[deque[tail - 1]] >= required[i]) tail--;
+    deque[tail++] = i;
+    while (deque[head] > i + lookahead) head++;
+    held[i] = required[deque[head]];
+  }
+
+  // Instant attack, smooth release; never above `held`, so still safe
+  let gain = 1;
+  for (let i = 0; i < length; i++) {
+    gain = Math.min(held[i], gain + (1 - gain) * release);
+    held[i] = gain;
+  }
+
+  // Moving average over [i - lookahead, i]
+  const smoothed = new Float32Array(length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += held[i];
+    if (i > lookahead) sum -= held[i - lookahead - 1];
+    // Before the start, the gain is taken to be the first sample's, which already covers any early peak
+    const missing = Math.max(0, lookahead - i);
+    smoothed[i] = (sum + missing * held[0]) / (lookahead + 1);
+  }
+
+  let deepest = 1;
+  const out = channels.map(data => {
+    const limited = new Float32Array(length);
+    for (let i = 0; i < length; i++) limited[i] = data[i] * smoothed[i];
+    return limited;
+  });
+  for (let i = 0; i < length; i++) deepest = Math.min(deepest, smoothed[i]);
+  return { channels: out, maxReductionDb: -toDb(deepest) };
+};
@@ -0,0 +1,129 @@
+import { sleep } from "./retry";
+import { SynthesisOptions, TTSProvider } from "./ttsProvider";
+
+// Offline stand-in for a real TTS backend. It returns deterministic, speech-shaped PCM
+// (a pulse train through two vowel formants per character, pauses at spaces and
+// punctuation) so the UI and audio pipeline can be worked on and tested without a key.
+
+const SAMPLE_RATE = 24000;
+const CHAR_MS = 70;
+const SPACE_MS = 60;
+const PUNCTUATION_MS = 280;
+const LATENCY_MS = 150;
+const STREAM_SLICE_MS = 400;
+
+// Fundamental frequency per mock voice
+const VOICE_PITCH: Record<string, number> = {
+  'child-m': 260,
+  'child-f': 290,
+  'teen-m': 150,
+  'teen-f': 220,
+  'male': 120,
+  'female': 210,
+  'narrator': 105,
+  'deep': 85,
+};
+
+// A few vowel-like formant pairs to cycle through
+const FORMANTS: [number, number][] = [
+  [730, 1090], [270, 2290], [300, 870], [530, 1840], [570, 840],
+];
+
+// Small deterministic hash so the same character always maps to the same sound
+const hash = (value: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+const renderPrompt = (prompt: string, voiceName: string): Int16Array => {
+  const f0 = VOICE_PITCH[voiceName] ?? 100 + (hash(voiceName) % 150);
+  const samples: number[] = [];
+  const msToSamples = (ms: number) => Math.round((ms / 1000) * SAMPLE_RATE);
+
+  for (const char of Array.from(prompt)) {
+    if (/\s/.test(char)) {
+      for (let i = 0; i < msToSamples(SPACE_MS); i++) samples.push(0);
+      continue;
+    }
+    if (/[.,!?،؛؟:;]/.test(char)) {
+      for (let i = 0; i < msToSamples(PUNCTUATION_MS); i++) samples.push(0);
+      continue;
+    }
+
+    const [f1, f2] = FORMANTS[hash(char) % FORMANTS.length];
+    const length = msToSamples(CHAR_MS);
+    for (let i = 0; i < length; i++) {
+      const t = i / SAMPLE_RATE;
+      // Short raised-cosine envelope per character avoids clicks at the joins
+      const envelope = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+      const phase = (t * f0) % 1;
+      const pulse = Math.exp(-phase * 12);
+      const value = pulse * (0.6 * Math.sin(2 * Math.PI * f1 * t) + 0.4 * Math.sin(2 * Math.PI * f2 * t));
+      samples.push(value * envelope * 0.4);
+    }
+  }
+
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    pcm[i] = Math.round(Math.max(-1, Math.min(1, samples[i])) * 0x7FFF);
+  }
+  return pcm;
+};
+
+// Single or multi-speaker prompt to PCM
+const render = (prompt: string, options: SynthesisOptions): ArrayBuffer => {
+  if (!options.speakers) {
+    return renderPrompt(prompt, options.voiceName).buffer as ArrayBuffer;
+  }
+
+  // Multi-speaker: "Speaker: line" rows are rendered with that speaker's voice
+  const parts = prompt.split('\n').map(line => {
+    const speaker = options.speakers!.find(s => line.startsWith(`${s.speaker}:`));
+    const text = speaker ? line.slice(speaker.speaker.length + 1) : line;
+    return renderPrompt(`${text} `, speaker?.voiceName ?? options.voiceName);
+  });
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const joined = new Int16Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  return joined.buffer;
+};
+
+export const createMockProvider = (latencyMs: number = LATENCY_MS): TTSProvider => {
+  const synthesize = async (prompt: string, options: SynthesisOptions): Promise<ArrayBuffer> => {
+    if (latencyMs > 0) await sleep(latencyMs, options.signal);
+    return render(prompt, options);
+  };
+
+  // Streams the same audio in slices, each arriving a little faster than real time
+  async function* synthesizeStream(prompt: string, options: SynthesisOptions): AsyncGenerator<ArrayBuffer> {
+    if (latencyMs > 0) await sleep(latencyMs, options.signal);
+    const pcm = new Uint8Array(render(prompt, options));
+    const sliceBytes = Math.round((STREAM_SLICE_MS / 1000) * SAMPLE_RATE) * 2;
+    for (let start = 0; start < pcm.length; start += sliceBytes) {
+      if (start > 0 && latencyMs > 0) await sleep(STREAM_SLICE_MS * 0.6, options.signal);
+      yield pcm.slice(start, start + sliceBytes).buffer;
+    }
+  }
+
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+    model: 'mock-v1',
+    capabilities: {
+      ssml: false,
+      sampleRate: SAMPLE_RATE,
+      streaming: true,
+      multiSpeaker: true,
+    },
+    synthesize,
+    synthesizeStream,
+  };
+};
@@ -0,0 +1,249 @@
+import { createPcmBuffer, PcmBuffer, resample, toAudioBuffer } from "./audioUtils";
+
+// Final mixing stage: an optional intro clip, then the speech over a music bed, then an
+// optional outro clip. The bed is looped or trimmed to the speech, faded in and out,
+// and ducked under speech by a sidechain envelope with attack and release. The mix
+// renders in an OfflineAudioContext, off the main thread, at the highest sample rate
+// involved.
+
+export interface MusicClip {
+  name: string;
+  buffer: PcmBuffer;
+}
+
+export interface MusicTracks {
+  bed?: MusicClip;
+  intro?: MusicClip;
+  outro?: MusicClip;
+}
+
+export type MusicSlot = keyof MusicTracks;
+
+export interface MixSettings {
+  musicLevelDb: number; // Bed level while nobody is speaking
+  loopMusic: boolean; // Repeat a short bed to cover the speech; otherwise it stops where it ends
+  duckDb: number; // How far the bed drops under speech
+  attackMs: number; // Time to duck; the detector looks this far ahead so words land on a lowered bed
+  releaseMs: number; // Time to come back up after speech stops
+  leadInMs: number; // Bed alone before the first word
+  tailMs: number; // Bed after the last word, fading out
+}
+
+export interface MixResult {
+  buffer: PcmBuffer;
+  speechOffset: number; // Seconds from the start of the mix to the start of the speech
+}
+
+export const DEFAULT_MIX_SETTINGS: MixSettings = {
+  musicLevelDb: -16,
+  loopMusic: true,
+  duckDb: 12,
+  attackMs: 120,
+  releaseMs: 600,
+  leadInMs: 1500,
+  tailMs: 2000
+};
+
+export const MIX_RANGES: Record<Exclude<keyof MixSettings, 'loopMusic'>, { min: number; max: number; step: number }> = {
+  musicLevelDb: { min: -40, max: 0, step: 1 },
+  duckDb: { min: 0, max: 30, step: 1 },
+  attackMs: { min: 10, max: 1000, step: 10 },
+  releaseMs: { min: 50, max: 3000, step: 50 },
+  leadInMs: { min: 0, max: 10000, step: 250 },
+  tailMs: { min: 0, max: 10000, step: 250 }
+};
+
+const DETECTOR_FRAME_MS = 10;
+const SPEECH_THRESHOLD = Math.pow(10, -45 / 20); // Frames above -45 dBFS RMS count as speech
+const BED_FADE_MS = 300;
+const LOOP_CROSSFADE_MS = 50;
+const PEAK_CEILING = Math.pow(10, -1 / 20); // -1 dBFS
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+export const hasMusic = (tracks: MusicTracks): boolean => Boolean(tracks.bed || tracks.intro || tracks.outro);
+
+// Each clip resampled to a mix rate once and kept while the clip is alive, so moving
+// a mix setting renders from the cached copy instead of resampling again
+const resampledClips = new WeakMap<PcmBuffer, Map<number, AudioBuffer>>();
+
+const atRate = (buffer: PcmBuffer, rate: number): AudioBuffer => {
+  let byRate = resampledClips.get(buffer);
+  if (!byRate) resampledClips.set(buffer, byRate = new Map());
+  let resampled = byRate.get(rate);
+  if (!resampled) {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) =>
+      resample(buffer.getChannelData(ch), buffer.sampleRate, rate)
+    );
+    resampled = toAudioBuffer(createPcmBuffer(channels, rate));
+    byRate.set(rate, resampled);
+  }
+  return resampled;
+};
+
+// One flag per detector frame: 1 where the speech, averaged across channels, is above
+// the threshold. Kept per resampled speech buffer like the clips.
+const speechActivityCache = new WeakMap<AudioBuffer, Uint8Array>();
+
+const speechActivity = (speech: AudioBuffer, frame: number): Uint8Array => {
+  const cached = speechActivityCache.get(speech);
+  if (cached) return cached;
+  const channels = Array.from({ length: speech.numberOfChannels }, (_, ch) => speech.getChannelData(ch));
+  const frames = Math.ceil(speech.length / frame);
+  const active = new Uint8Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    const end = Math.min(speech.length, (f + 1) * frame);
+    for (let i = f * frame; i < end; i++) {
+      let s = 0;
+      for (const data of channels) s += data[i];
+      s /= channels.length;
+      sum += s * s;
+    }
+    active[f] = Math.sqrt(sum / Math.max(1, end - f * frame)) > SPEECH_THRESHOLD ? 1 : 0;
+  }
+  speechActivityCache.set(speech, active);
+  return active;
+};
+
+// Bed gain: 1 with no speech, `duckGain` under it. Each change between speech and
+// silence starts a setTargetAtTime approach, which is the one-pole attack and release
+// with the time constant in ms. Detection runs `attack` ahead of the bed.
+const scheduleDucking = (
+  gain: AudioParam,
+  active: Uint8Array,
+  frameSeconds: number,
+  bedStart: number,
+  speechStart: number,
+  settings: MixSettings
+) => {
+  const duckGain = dbToGain(-settings.duckDb);
+  const lookahead = settings.attackMs / 1000;
+  gain.setValueAtTime(1, bedStart);
+  let current = 1;
+  for (let f = 0; f <= active.length; f++) {
+    const target = f < active.length && active[f] ? duckGain : 1;
+    if (target === current) continue;
+    const time = Math.max(bedStart, speechStart + f * frameSeconds - lookahead);
+    gain.setTargetAtTime(target, time, (target < current ? settings.attackMs : settings.releaseMs) / 1000);
+    current = target;
+  }
+};
+
+// The bed from `start` for `length` samples. Looping starts a new pass before the
+// previous one ends and crossfades the overlap so the seam doesn't click.
+const scheduleBed = (
+  ctx: OfflineAudioContext,
+  bed: AudioBuffer,
+  destination: AudioNode,
+  start: number,
+  length: number,
+  loop: boolean,
+  rate: number
+) => {
+  const time = (samples: number) => (start + samples) / rate;
+  const play = (offset: number, gain: GainNode) => {
+    const source = ctx.createBufferSource();
+    source.buffer = bed;
+    source.connect(gain).connect(destination);
+    source.start(time(offset));
+    source.stop(time(Math.min(length, offset + bed.length)));
+  };
+
+  if (!loop || bed.length >= length) {
+    const gain = ctx.createGain();
+    // A trimmed bed that ends early fades rather than cutting off
+    if (bed.length < length) {
+      const fade = Math.min(Math.round((BED_FADE_MS / 1000) * rate), bed.length);
+      gain.gain.setValueAtTime(1, time(bed.length - fade));
+      gain.gain.linearRampToValueAtTime(0, time(bed.length));
+    }
+    play(0, gain);
+    return;
+  }
+
+  const overlap = Math.min(Math.round((LOOP_CROSSFADE_MS / 1000) * rate), Math.floor(bed.length / 4));
+  const period = bed.length - overlap;
+  for (let offset = 0; offset < length; offset += period) {
+    const gain = ctx.createGain();
+    if (offset > 0) {
+      gain.gain.setValueAtTime(0, time(offset));
+      gain.gain.linearRampToValueAtTime(1, time(offset + overlap));
+    }
+    if (offset + period < length) {
+      gain.gain.setValueAtTime(1, time(offset + period));
+      gain.gain.linearRampToValueAtTime(0, time(offset + bed.length));
+    }
+    play(offset, gain);
+  }
+};
+
+export const mixWithMusic = async (speech: PcmBuffer, tracks: MusicTracks, settings: MixSettings): Promise<MixResult> => {
+  if (!hasMusic(tracks)) return { buffer: speech, speechOffset: 0 };
+
+  const clips = [tracks.bed, tracks.intro, tracks.outro].filter((c): c is MusicClip => Boolean(c));
+  const rate = Math.max(speech.sampleRate, ...clips.map(c => c.buffer.sampleRate));
+  const channelCount = Math.min(2, Math.max(speech.numberOfChannels, ...clips.map(c => c.buffer.numberOfChannels)));
+  const toSamples = (ms: number) => Math.round((ms / 1000) * rate);
+
+  const voice = atRate(speech, rate);
+  const intro = tracks.intro ? atRate(tracks.intro.buffer, rate) : null;
+  const outro = tracks.outro ? atRate(tracks.outro.buffer, rate) : null;
+  const bed = tracks.bed ? atRate(tracks.bed.buffer, rate) : null;
+
+  // Timeline: [intro][lead-in][speech][tail][outro]; lead-in and tail only exist with a bed
+  const introLength = intro ? intro.length : 0;
+  const bedStart = introLength;
+  const speechStart = bedStart + (bed ? toSamples(settings.leadInMs) : 0);
+  const speechEnd = speechStart + voice.length;
+  const bedLength = bed ? speechEnd + toSamples(settings.tailMs) - bedStart : 0;
+  const outroStart = bedStart + (bed ? bedLength : voice.length);
+  const total = outroStart + (outro ? outro.length : 0);
+
+  // Mono clips are copied to both sides of a stereo mix by the destination's up-mixing
+  const ctx = new OfflineAudioContext(channelCount, Math.max(1, total), rate);
+  const play = (buffer: AudioBuffer, at: number) => {
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.start(at / rate);
+  };
+  if (intro) play(intro, 0);
+  play(voice, speechStart);
+  if (outro) play(outro, outroStart);
+
+  if (bed) {
+    // bed -> ducking -> level and fade in -> fade out. The tail is one long fade; without
+    // a tail the bed still fades briefly at the end.
+    const duck = ctx.createGain();
+    const fadeIn = ctx.createGain();
+    const fadeOut = ctx.createGain();
+    duck.connect(fadeIn).connect(fadeOut).connect(ctx.destination);
+
+    const frame = Math.max(1, toSamples(DETECTOR_FRAME_MS));
+    scheduleDucking(duck.gain, speechActivity(voice, frame), frame / rate, bedStart / rate, speechStart / rate, settings);
+
+    const bedEnd = bedStart + bedLength;
+    const fadeInLength = Math.min(toSamples(BED_FADE_MS), bedLength);
+    const fadeOutLength = Math.min(Math.max(toSamples(settings.tailMs), toSamples(BED_FADE_MS)), bedLength);
+    fadeIn.gain.setValueAtTime(0, bedStart / rate);
+    fadeIn.gain.linearRampToValueAtTime(dbToGain(settings.musicLevelDb), (bedStart + fadeInLength) / rate);
+    fadeOut.gain.setValueAtTime(1, (bedEnd - fadeOutLength) / rate);
+    fadeOut.gain.linearRampToValueAtTime(0, bedEnd / rate);
+
+    scheduleBed(ctx, bed, duck, bedStart, bedLength, settings.loopMusic, rate);
+  }
+
+  const rendered = await ctx.startRendering();
+
+  // Keep the sum from clipping by bringing the whole mix down, never by distorting it
+  const output = Array.from({ length: rendered.numberOfChannels }, (_, ch) => rendered.getChannelData(ch));
+  let peak = 0;
+  for (const data of output) for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+  if (peak > PEAK_CEILING) {
+    const scale = PEAK_CEILING / peak;
+    for (const data of output) for (let i = 0; i < data.length; i++) data[i] *= scale;
+  }
+
+  return { buffer: rendered, speechOffset: speechStart / rate };
+};
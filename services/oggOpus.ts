@@ -0,0 +1,198 @@
+import { buildVorbisComment } from "./vorbisComment";
+
+// Ogg Opus export. Opus itself is encoded by the browser through WebCodecs; this module
+// feeds it 48 kHz PCM and muxes the packets into an Ogg stream (RFC 7845).
+
+export const OPUS_SAMPLE_RATE = 48000;
+const DEFAULT_PRE_SKIP = 312; // libopus lookahead at 48 kHz
+const FEED_FRAMES = 4800; // 100 ms per AudioData
+const MAX_PAGE_SEGMENTS = 255;
+
+export const isOpusExportSupported = async (channels: number, bitrate: number): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: 'opus',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfChannels: channels,
+      bitrate
+    });
+    return !!supported;
+  } catch {
+    return false;
+  }
+};
+
+let crcTable: Uint32Array | null = null;
+
+// Ogg uses the non-reflected CRC-32 with polynomial 0x04C11DB7
+const oggCrc = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let r = i << 24;
+      for (let k = 0; k < 8; k++) r = r & 0x80000000 ? (r << 1) ^ 0x04C11DB7 : r << 1;
+      crcTable[i] = r >>> 0;
+    }
+  }
+  let crc = 0;
+  for (const byte of data) crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ byte) & 0xFF]) >>> 0;
+  return crc;
+};
+
+interface OggPacket {
+  data: Uint8Array;
+  granule: number; // Granule position once this packet is decoded
+}
+
+class OggWriter {
+  private pages: Uint8Array[] = [];
+  private sequence = 0;
+  private pending: OggPacket[] = [];
+  private pendingSegments = 0;
+
+  constructor(private serial: number) {}
+
+  private writePage(packets: OggPacket[], flags: number) {
+    const segments: number[] = [];
+    for (const { data } of packets) {
+      for (let left = data.length; ; left -= 255) {
+        segments.push(Math.min(255, left));
+        if (left < 255) break;
+      }
+    }
+    const bodySize = packets.reduce((sum, p) => sum + p.data.length, 0);
+    const page = new Uint8Array(27 + segments.length + bodySize);
+    const view = new DataView(page.buffer);
+    page.set([0x4F, 0x67, 0x67, 0x53]); // "OggS"
+    page[4] = 0; // Version
+    page[5] = flags;
+    const granule = packets[packets.length - 1].granule;
+    view.setUint32(6, granule % 2 ** 32, true);
+    view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+    view.setUint32(14, this.serial, true);
+    view.setUint32(18, this.sequence++, true);
+    page[26] = segments.length;
+    page.set(segments, 27);
+    let offset = 27 + segments.length;
+    for (const { data } of packets) {
+      page.set(data, offset);
+      offset += data.length;
+    }
+    view.setUint32(22, oggCrc(page), true);
+    this.pages.push(page);
+  }
+
+  // Header packets each get a page of their own
+  writeHeader(data: Uint8Array, first: boolean) {
+    this.writePage([{ data, granule: 0 }], first ? 0x02 : 0);
+  }
+
+  addPacket(packet: OggPacket) {
+    const segments = Math.floor(packet.data.length / 255) + 1;
+    if (this.pendingSegments + segments > MAX_PAGE_SEGMENTS) this.flush(false);
+    this.pending.push(packet);
+    this.pendingSegments += segments;
+  }
+
+  flush(last: boolean) {
+    if (this.pending.length === 0) return;
+    this.writePage(this.pending, last ? 0x04 : 0);
+    this.pending = [];
+    this.pendingSegments = 0;
+  }
+
+  toBlob(): Blob {
+    return new Blob(this.pages as BlobPart[], { type: 'audio/ogg; codecs=opus' });
+  }
+}
+
+const opusHead = (channels: number, preSkip: number, inputSampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1; // Version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  head[18] = 0; // Channel mapping family: mono or stereo
+  return head;
+};
+
+// Pre-skip from the encoder's own OpusHead when it provides one
+const readPreSkip = (description: AllowSharedBufferSource | undefined): number | null => {
+  if (!description) return null;
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 12 || new TextDecoder().decode(bytes.subarray(0, 8)) !== 'OpusHead') return null;
+  return bytes[10] | (bytes[11] << 8);
+};
+
+// `channels` must already be at 48 kHz
+export const encodeOggOpus = async (
+  channels: Float32Array[],
+  bitrate: number,
+  inputSampleRate: number,
+  tags: Record<string, string | undefined> = {}
+): Promise<Blob> => {
+  if (!(await isOpusExportSupported(channels.length, bitrate))) {
+    throw new Error("This browser cannot encode Opus. Ogg Opus export needs WebCodecs Opus support (e.g. Chrome or Edge).");
+  }
+
+  const packets: { data: Uint8Array; samples: number }[] = [];
+  let preSkip: number | null = null;
+  let failure: DOMException | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      const samples = chunk.duration ? Math.round((chunk.duration * OPUS_SAMPLE_RATE) / 1e6) : 960;
+      packets.push({ data, samples });
+      if (preSkip === null) preSkip = readPreSkip(metadata?.decoderConfig?.description);
+    },
+    error: err => {
+      failure = err;
+    }
+  });
+  encoder.configure({ codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: channels.length, bitrate });
+
+  const total = channels[0].length;
+  for (let start = 0; start < total; start += FEED_FRAMES) {
+    const frames = Math.min(FEED_FRAMES, total - start);
+    const planar = new Float32Array(frames * channels.length);
+    channels.forEach((data, ch) => planar.set(data.subarray(start, start + frames), ch * frames));
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: frames,
+      numberOfChannels: channels.length,
+      timestamp: Math.round((start / OPUS_SAMPLE_RATE) * 1e6),
+      data: planar
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  const skip = preSkip ?? DEFAULT_PRE_SKIP;
+  const writer = new OggWriter((Math.random() * 2 ** 32) >>> 0);
+  writer.writeHeader(opusHead(channels.length, skip, inputSampleRate), true);
+  writer.writeHeader(buildVorbisComment(tags, 'OpusTags'), false);
+
+  // Granules count decoded samples including the pre-skip; capping them at the input
+  // length makes the last page trim the encoder's padding
+  const finalGranule = skip + total;
+  let granule = 0;
+  for (const packet of packets) {
+    granule = Math.min(finalGranule, granule + packet.samples);
+    writer.addPacket({ data: packet.data, granule });
+  }
+  writer.flush(true);
+
+  return writer.toBlob();
+};
@@ -0,0 +1,23 @@
+import { VoiceSettings } from "../types";
+import { applyProsody, PcmBuffer } from "./audioUtils";
+import { enhanceSpeech } from "./audioEnhancer";
+import { resolveProsody } from "./ssmlBuilder";
+
+// Clarity renders through an OfflineAudioContext, which Node does not have
+export const canEnhance = (): boolean => typeof OfflineAudioContext !== 'undefined';
+
+// Render stored model audio into what the user heard: exact prosody (when the take
+// was generated for it) followed by the Clarity chain. Without Web Audio the take
+// stops after prosody.
+export const renderTake = async (
+  modelBuffer: PcmBuffer,
+  settings: VoiceSettings,
+  localProsody: boolean
+): Promise<PcmBuffer> => {
+  let buffer = modelBuffer;
+  if (localProsody && settings.exactProsody) {
+    const { pitch, rate } = resolveProsody(settings);
+    buffer = applyProsody(buffer, rate, pitch);
+  }
+  return canEnhance() ? enhanceSpeech(buffer, settings.clarity) : buffer;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { copyName, parseLibraryJSON } from './personas';
+
+const persona = (name: string, style = '') => ({ name, baseVoice: 'Kore', gender: 'Female', style, dialectCode: 'ar-EG' });
+
+describe('parseLibraryJSON', () => {
+  it('reads personas and presets and fills in missing settings', () => {
+    const library = parseLibraryJSON(JSON.stringify({ personas: [persona('Narrator')], presets: [{ name: 'Slow', settings: { speed: 0.8 } }] }));
+    expect(library.skipped).toEqual([]);
+    expect(library.personas[0]).toMatchObject({ name: 'Narrator', baseVoice: 'Kore', dialectCode: 'ar-EG' });
+    expect(library.presets[0].settings.speed).toBe(0.8);
+  });
+
+  it('keeps the last of several entries with the same name', () => {
+    const library = parseLibraryJSON(JSON.stringify({
+      personas: [persona('Narrator', 'first'), persona('Host'), persona('Narrator', 'second')]
+    }));
+    expect(library.personas.map(p => [p.name, p.style])).toEqual([['Narrator', 'second'], ['Host', '']]);
+    expect(library.skipped).toEqual(['Persona 1: replaced by persona 3 with the same name']);
+  });
+
+  it('skips invalid entries and rejects files that are not libraries', () => {
+    const library = parseLibraryJSON(JSON.stringify({ personas: [{ name: 'X', baseVoice: 'Nobody' }], presets: [{ settings: {} }] }));
+    expect(library.skipped).toEqual(['Persona 1: unknown base voice "Nobody"', 'Preset 1: missing name']);
+    expect(() => parseLibraryJSON('{"format":"other"}')).toThrow("Not a voice library file.");
+  });
+});
+
+describe('copyName', () => {
+  it('numbers copies past names already taken', () => {
+    expect(copyName('Narrator', [])).toBe('Narrator (copy)');
+    expect(copyName('Narrator (copy)', ['Narrator (copy)'])).toBe('Narrator (copy 2)');
+  });
+});
@@ -0,0 +1,202 @@
+import { DEFAULT_VOICE_SETTINGS, EmotionType, SUPPORTED_DIALECTS, VoiceOption, VoiceSettings } from "../types";
+import { promisifyRequest, withStore, STORES } from "./db";
+import { GEMINI_VOICES } from "./geminiService";
+import { createId } from "./historyStore";
+import { MAX_STYLE_INTENSITY, MIN_STYLE_INTENSITY } from "./speakingStyles";
+
+// Personas are user-made voices: a prebuilt base voice with a style prompt, plus the
+// dialect and settings to switch to when the persona is picked. Presets are named
+// VoiceSettings that can be applied to any voice. Both live in IndexedDB and travel
+// together as one JSON file.
+
+export interface VoicePersona {
+  id: string;
+  name: string;
+  gender: VoiceOption['gender'];
+  baseVoice: string; // Gemini prebuilt voice name
+  style: string; // Delivery direction, e.g. "A warm storyteller, unhurried, smiling"
+  dialectCode: string;
+  settings: VoiceSettings;
+  updatedAt: number;
+}
+
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  settings: VoiceSettings;
+  updatedAt: number;
+}
+
+export interface VoiceLibrary {
+  personas: VoicePersona[];
+  presets: SettingsPreset[];
+}
+
+export interface LibraryImport extends VoiceLibrary {
+  skipped: string[]; // Why each rejected entry was left out
+}
+
+const LIBRARY_FORMAT = 'hamza-voice-library';
+const LIBRARY_VERSION = 1;
+
+// Persona ids never collide with the built-in `v_` voice ids
+const PERSONA_PREFIX = 'persona_';
+
+export const personaToVoice = (persona: VoicePersona): VoiceOption => ({
+  id: persona.id,
+  name: persona.name,
+  gender: persona.gender,
+  type: 'Persona',
+  // The mock backend derives a stable pitch from any name it does not know
+  providerVoices: { gemini: persona.baseVoice, mock: persona.baseVoice },
+  style: persona.style.trim() || undefined,
+  dialectCode: persona.dialectCode,
+  settings: persona.settings
+});
+
+// "Name (copy)", "Name (copy 2)", ... avoiding names already taken
+export const copyName = (name: string, taken: string[]): string => {
+  const base = name.replace(/ \(copy(?: \d+)?\)$/, '');
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? `${base} (copy)` : `${base} (copy ${n})`;
+    if (!taken.includes(candidate)) return candidate;
+  }
+};
+
+// ---------- Storage ----------
+
+// Entries saved before a setting existed pick up its default
+const byName = <T extends { name: string; settings: VoiceSettings }>(items: T[]) =>
+  items
+    .map(item => ({ ...item, settings: { ...DEFAULT_VOICE_SETTINGS, ...item.settings } }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+export const listPersonas = async (): Promise<VoicePersona[]> =>
+  byName(await withStore(STORES.personas, 'readonly', store => promisifyRequest(store.getAll() as IDBRequest<VoicePersona[]>)));
+
+export const savePersona = async (persona: Omit<VoicePersona, 'id' | 'updatedAt'> & { id?: string }): Promise<VoicePersona> => {
+  const saved: VoicePersona = {
+    ...persona,
+    id: persona.id ?? `${PERSONA_PREFIX}${createId()}`,
+    name: persona.name.trim(),
+    style: persona.style.trim(),
+    updatedAt: Date.now()
+  };
+  await withStore(STORES.personas, 'readwrite', store => promisifyRequest(store.put(saved)));
+  return saved;
+};
+
+export const deletePersona = async (id: string): Promise<void> => {
+  await withStore(STORES.personas, 'readwrite', store => promisifyRequest(store.delete(id)));
+};
+
+export const listPresets = async (): Promise<SettingsPreset[]> =>
+  byName(await withStore(STORES.presets, 'readonly', store => promisifyRequest(store.getAll() as IDBRequest<SettingsPreset[]>)));
+
+export const savePreset = async (preset: Omit<SettingsPreset, 'id' | 'updatedAt'> & { id?: string }): Promise<SettingsPreset> => {
+  const saved: SettingsPreset = { ...preset, id: preset.id ?? createId(), name: preset.name.trim(), updatedAt: Date.now() };
+  await withStore(STORES.presets, 'readwrite', store => promisifyRequest(store.put(saved)));
+  return saved;
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  await withStore(STORES.presets, 'readwrite', store => promisifyRequest(store.delete(id)));
+};
+
+// Imported personas and presets replace existing ones with the same name, and a later
+// entry in the file replaces an earlier one of the same name
+export const importLibrary = async (library: VoiceLibrary): Promise<void> => {
+  const [personas, presets] = await Promise.all([listPersonas(), listPresets()]);
+  const personaIds = new Map(personas.map(p => [p.name, p.id]));
+  const presetIds = new Map(presets.map(p => [p.name, p.id]));
+  for (const persona of library.personas) {
+    const saved = await savePersona({ ...persona, id: personaIds.get(persona.name.trim()) });
+    personaIds.set(saved.name, saved.id);
+  }
+  for (const preset of library.presets) {
+    const saved = await savePreset({ ...preset, id: presetIds.get(preset.name.trim()) });
+    presetIds.set(saved.name, saved.id);
+  }
+};
+
+// ---------- JSON ----------
+
+export const toLibraryJSON = (library: VoiceLibrary): string =>
+  JSON.stringify({ format: LIBRARY_FORMAT, version: LIBRARY_VERSION, ...library }, null, 2);
+
+// Missing settings fall back to the defaults; values out of range are rejected
+const readSettings = (value: any): VoiceSettings => {
+  const settings = { ...DEFAULT_VOICE_SETTINGS, ...(value && typeof value === 'object' ? value : {}) };
+  const inRange = (n: unknown, min: number, max: number) => typeof n === 'number' && n >= min && n <= max;
+  if (!inRange(settings.pitch, -50, 50)) throw new Error("pitch must be between -50 and 50");
+  if (!inRange(settings.speed, 0.5, 2)) throw new Error("speed must be between 0.5 and 2");
+  if (!inRange(settings.clarity, 0, 100)) throw new Error("clarity must be between 0 and 100");
+  if (!inRange(settings.styleIntensity, MIN_STYLE_INTENSITY, MAX_STYLE_INTENSITY)) {
+    throw new Error(`styleIntensity must be between ${MIN_STYLE_INTENSITY} and ${MAX_STYLE_INTENSITY}`);
+  }
+  if (!Object.values(EmotionType).includes(settings.emotion)) throw new Error(`unknown emotion "${settings.emotion}"`);
+  return {
+    pitch: settings.pitch,
+    speed: settings.speed,
+    emotion: settings.emotion,
+    clarity: settings.clarity,
+    exactProsody: !!settings.exactProsody,
+    styleIntensity: settings.styleIntensity
+  };
+};
+
+const readPersona = (value: any): VoicePersona => {
+  const name = typeof value?.name === 'string' ? value.name.trim() : '';
+  if (!name) throw new Error("missing name");
+  const baseVoice = GEMINI_VOICES.find(v => v.name.toLowerCase() === String(value.baseVoice ?? '').toLowerCase())?.name;
+  if (!baseVoice) throw new Error(`unknown base voice "${value.baseVoice}"`);
+  const dialectCode = SUPPORTED_DIALECTS.some(d => d.code === value.dialectCode) ? value.dialectCode : SUPPORTED_DIALECTS[0].code;
+  return {
+    id: '',
+    name,
+    gender: value.gender === 'Female' ? 'Female' : 'Male',
+    baseVoice,
+    style: typeof value.style === 'string' ? value.style.trim() : '',
+    dialectCode,
+    settings: readSettings(value.settings),
+    updatedAt: 0
+  };
+};
+
+const readPreset = (value: any): SettingsPreset => {
+  const name = typeof value?.name === 'string' ? value.name.trim() : '';
+  if (!name) throw new Error("missing name");
+  return { id: '', name, settings: readSettings(value.settings), updatedAt: 0 };
+};
+
+export const parseLibraryJSON = (input: string): LibraryImport => {
+  let data: any;
+  try {
+    data = JSON.parse(input);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!data || typeof data !== 'object' || (data.format !== undefined && data.format !== LIBRARY_FORMAT)) {
+    throw new Error("Not a voice library file.");
+  }
+
+  const result: LibraryImport = { personas: [], presets: [], skipped: [] };
+  // The last entry with a name wins; earlier ones are reported as skipped
+  const readAll = <T extends { name: string }>(values: unknown, read: (value: any) => T, label: string): T[] => {
+    const byName = new Map<string, { entry: T; position: number }>();
+    (Array.isArray(values) ? values : []).forEach((value: any, i: number) => {
+      try {
+        const entry = read(value);
+        const earlier = byName.get(entry.name);
+        if (earlier) result.skipped.push(`${label} ${earlier.position}: replaced by ${label.toLowerCase()} ${i + 1} with the same name`);
+        byName.set(entry.name, { entry, position: i + 1 });
+      } catch (err: any) {
+        result.skipped.push(`${label} ${i + 1}: ${err.message}`);
+      }
+    });
+    return [...byName.values()].map(({ entry }) => entry);
+  };
+  result.personas = readAll(data.personas, readPersona, 'Persona');
+  result.presets = readAll(data.presets, readPreset, 'Preset');
+  return result;
+};
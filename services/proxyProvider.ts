@@ -0,0 +1,165 @@
+import { base64ToArrayBuffer } from "./audioUtils";
+import { ProviderSpeaker, SynthesisOptions, TTSProvider } from "./ttsProvider";
+import { fromErrorPayload, NoAudioError, toTTSError, TTSError, TTSErrorPayload } from "./ttsErrors";
+
+// Gemini through the speech proxy (server/ttsServer.ts), which holds the API key. The
+// proxy forwards one prompt per request, so SSML compilation, chunking and the cache
+// stay in the browser exactly as in direct mode.
+
+export const PROXY_TTS_PATH = '/api/tts';
+export const PROXY_VOICES_PATH = '/api/voices';
+export const PROXY_ADAPT_PATH = '/api/adapt';
+
+// Body of POST /api/tts
+export interface ProxyTTSRequest {
+  prompt: string;
+  voiceName: string;
+  speakers?: ProviderSpeaker[];
+  model: string;
+  // Answer with NDJSON lines as audio arrives, instead of one octet-stream body
+  stream?: boolean;
+}
+
+// Body of POST /api/adapt, answered with ProxyAdaptResponse
+export interface ProxyAdaptRequest {
+  text: string;
+  dialectCode: string; // DialectOption.code
+}
+
+export interface ProxyAdaptResponse {
+  text: string;
+}
+
+// One line of a streamed answer: a base64 slice of PCM, or the error that ended it
+export type ProxyStreamLine = { audio: string } | { error: TTSErrorPayload };
+
+// Answer to GET /api/voices
+export interface ProxyInfo {
+  upstream: string; // 'gemini', or 'mock' when the proxy runs against the stand-in
+  models: string[]; // Models the proxy will forward to
+  sampleRate: number;
+  voices: { name: string; character: string }[];
+}
+
+const PROXY_SAMPLE_RATE = 24000;
+
+const endpoint = (baseUrl: string, path: string) => `${baseUrl.replace(/\/+$/, '')}${path}`;
+
+// Failed answers carry `{ error }`; anything else (e.g. a gateway page) is classified by status
+const responseError = async (response: Response): Promise<TTSError> => {
+  try {
+    const body = await response.json();
+    if (body?.error?.code) return fromErrorPayload(body.error);
+  } catch {
+    // Not JSON
+  }
+  return toTTSError({ status: response.status, message: `Speech proxy answered HTTP ${response.status}` });
+};
+
+export const fetchProxyInfo = async (baseUrl: string, signal?: AbortSignal): Promise<ProxyInfo> => {
+  const response = await fetch(endpoint(baseUrl, PROXY_VOICES_PATH), { signal }).catch(err => {
+    throw toTTSError(err, signal);
+  });
+  if (!response.ok) throw await responseError(response);
+  return response.json();
+};
+
+export const fetchAdaptation = async (baseUrl: string, request: ProxyAdaptRequest, signal?: AbortSignal): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch(endpoint(baseUrl, PROXY_ADAPT_PATH), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal
+    });
+  } catch (err) {
+    throw toTTSError(err, signal);
+  }
+  if (!response.ok) throw await responseError(response);
+  const body: ProxyAdaptResponse = await response.json();
+  return body.text;
+};
+
+export const createProxyProvider = (baseUrl: string, model: string): TTSProvider => {
+  const post = async (prompt: string, options: SynthesisOptions, stream: boolean): Promise<Response> => {
+    const body: ProxyTTSRequest = { prompt, voiceName: options.voiceName, speakers: options.speakers, model, stream };
+    let response: Response;
+    try {
+      response = await fetch(endpoint(baseUrl, PROXY_TTS_PATH), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: options.signal
+      });
+    } catch (err) {
+      throw toTTSError(err, options.signal);
+    }
+    if (!response.ok) throw await responseError(response);
+    return response;
+  };
+
+  const synthesize = async (prompt: string, options: SynthesisOptions): Promise<ArrayBuffer> => {
+    const response = await post(prompt, options, false);
+    try {
+      return await response.arrayBuffer();
+    } catch (err) {
+      throw toTTSError(err, options.signal);
+    }
+  };
+
+  // NDJSON: one line per slice of audio, so an error after the first slice still
+  // arrives typed instead of as a cut connection
+  async function* synthesizeStream(prompt: string, options: SynthesisOptions): AsyncGenerator<ArrayBuffer> {
+    const response = await post(prompt, options, true);
+    if (!response.body) throw new NoAudioError();
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let pending = '';
+    let received = false;
+
+    const parse = (line: string): ArrayBuffer | null => {
+      if (!line.trim()) return null;
+      const message = JSON.parse(line) as ProxyStreamLine;
+      if ('error' in message) throw fromErrorPayload(message.error);
+      received = true;
+      return base64ToArrayBuffer(message.audio);
+    };
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += value;
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+        for (const line of lines) {
+          const pcm = parse(line);
+          if (pcm) yield pcm;
+        }
+      }
+      const last = parse(pending);
+      if (last) yield last;
+    } catch (err) {
+      throw toTTSError(err, options.signal);
+    } finally {
+      // Also ends the request when the caller stops reading early
+      reader.cancel().catch(() => undefined);
+    }
+
+    if (!received) throw new NoAudioError();
+  }
+
+  return {
+    id: 'gemini',
+    label: `Google Gemini via proxy (${model})`,
+    model,
+    capabilities: {
+      ssml: false,
+      sampleRate: PROXY_SAMPLE_RATE,
+      streaming: true,
+      multiSpeaker: true,
+    },
+    synthesize,
+    synthesizeStream,
+  };
+};
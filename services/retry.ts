@@ -0,0 +1,74 @@
+import { CancelledError, RateLimitError, TimeoutError, TTSError } from "./ttsErrors";
+
+// Backoff for transient failures, waits that end early when the user cancels, and
+// per-call deadlines that abort a request which has gone quiet.
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number; // Doubled after every failed attempt
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 800,
+  maxDelayMs: 20000
+};
+
+// Exponential with ±25% jitter, so parallel chunks that failed together do not retry
+// in lockstep. A rate limit that names its own wait is honoured instead.
+export const retryDelay = (attempt: number, error: TTSError, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number => {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(policy.maxDelayMs, error.retryAfterMs);
+  }
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential * (0.75 + Math.random() * 0.5));
+};
+
+// Resolves after `ms`, or rejects with the abort reason as soon as `signal` aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason instanceof TTSError ? signal.reason : new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason instanceof TTSError ? signal!.reason : new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface Deadline {
+  signal: AbortSignal; // Aborts with a TimeoutError, or with the parent's reason
+  refresh: () => void; // Progress was made: start the wait again
+  clear: () => void; // The call is over
+}
+
+// A child of `parent` that also aborts when `ms` pass without a refresh
+export const createDeadline = (ms: number, parent?: AbortSignal): Deadline => {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent!.reason instanceof TTSError ? parent!.reason : new CancelledError());
+  if (parent?.aborted) onParentAbort();
+  else parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const refresh = () => {
+    clearTimeout(timer);
+    if (!controller.signal.aborted) timer = setTimeout(() => controller.abort(new TimeoutError(ms)), ms);
+  };
+  refresh();
+
+  return {
+    signal: controller.signal,
+    refresh,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    }
+  };
+};
@@ -0,0 +1,72 @@
+import { SPEAKING_STYLES, SpeakingStyle } from "../types";
+
+// Inline style markup for simple mode: [sad]...[/sad], [حزين]...[/حزين] or, with an
+// intensity in percent, [whisper:60]...[/whisper]. The SSML builder lowers spans to
+// <mstts:express-as> elements, which the compiler turns into a delivery instruction
+// and prosody of their own. Brackets that do not name a known style are ordinary text.
+
+export const MIN_STYLE_INTENSITY = 10;
+export const MAX_STYLE_INTENSITY = 200;
+
+// Element and attributes follow Azure's SSML extension so the same markup works there
+export const STYLE_ELEMENT = 'mstts:express-as';
+
+const STYLE_TAG = /\[(\/?)([^\[\]\/:\n]+?)(?::(\d{1,3}))?\]/g;
+
+export const findStyle = (name: string): SpeakingStyle | undefined => {
+  const key = name.trim().toLowerCase();
+  return SPEAKING_STYLES.find(s => s.id === key || s.label.toLowerCase() === key || s.aliases.includes(key));
+};
+
+export type StyleToken =
+  | { kind: 'text'; value: string }
+  | { kind: 'open'; style: SpeakingStyle; intensity?: number }
+  | { kind: 'close'; style: SpeakingStyle };
+
+export const tokenizeStyleMarkup = (text: string): StyleToken[] => {
+  const tokens: StyleToken[] = [];
+  let last = 0;
+  for (const match of text.matchAll(STYLE_TAG)) {
+    const style = findStyle(match[2]);
+    // A closing tag never carries an intensity
+    if (!style || (match[1] && match[3] !== undefined)) continue;
+    if (match.index! > last) tokens.push({ kind: 'text', value: text.slice(last, match.index) });
+    tokens.push(match[1]
+      ? { kind: 'close', style }
+      : { kind: 'open', style, intensity: match[3] !== undefined ? parseInt(match[3], 10) : undefined });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) tokens.push({ kind: 'text', value: text.slice(last) });
+  return tokens;
+};
+
+export const hasStyleMarkup = (text: string): boolean => tokenizeStyleMarkup(text).some(t => t.kind !== 'text');
+
+// Runs `transform` on the text between style tags only, so e.g. number normalization
+// never rewrites the "60" in [whisper:60]
+export const mapOutsideStyleTags = (text: string, transform: (value: string) => string): string => {
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(STYLE_TAG)) {
+    if (!findStyle(match[2])) continue;
+    result += transform(text.slice(last, match.index)) + match[0];
+    last = match.index! + match[0].length;
+  }
+  return result + transform(text.slice(last));
+};
+
+export const clampIntensity = (percent: number): number =>
+  Math.min(MAX_STYLE_INTENSITY, Math.max(MIN_STYLE_INTENSITY, percent));
+
+// "Speak in a sad, heavy-hearted tone" with the degree folded into the wording
+export const describeStyle = (style: SpeakingStyle, degree: number): string => {
+  if (degree <= 0.6) return `${style.instruction}, only subtly`;
+  if (degree >= 1.4) return `${style.instruction}, strongly and unmistakably`;
+  return style.instruction;
+};
+
+// The style's pitch and rate offsets scaled by the degree (1 = as listed)
+export const styleProsody = (style: SpeakingStyle, degree: number): { pitch: number; rate: number } => ({
+  pitch: style.pitch * degree,
+  rate: 1 + (style.rate - 1) * degree
+});
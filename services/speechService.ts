@@ -0,0 +1,170 @@
+import {
+  arrayBufferToBase64,
+  concatPcm,
+  createSilencePcm,
+  pcm16ToBuffer,
+  PcmBuffer
+} from "./audioUtils";
+import { createCacheKey, getCachedAudio, putCachedAudio } from "./audioCache";
+import { compileSSML, toPrompt } from "./ssmlCompiler";
+import { getActiveProvider, resolveVoiceName, SynthesisOptions, TTSProvider } from "./ttsProvider";
+import { findVoice } from "./voiceCatalog";
+import { createDeadline, DEFAULT_RETRY_POLICY, retryDelay, sleep } from "./retry";
+import { toTTSError } from "./ttsErrors";
+
+export interface SpeakerVoice {
+  speaker: string; // Must match the speaker label used in the text
+  voiceId: string; // VoiceOption.id
+}
+
+export interface TTSRequest {
+  text: string;
+  voiceId: string; // VoiceOption.id, mapped to the active provider's voice
+  isSSML: boolean;
+  // When set, the text is a "Speaker: line" transcript rendered in one multi-speaker pass
+  speakers?: SpeakerVoice[];
+  bypassCache?: boolean; // Always call the provider, then refresh the cached copy
+  // Receives the Int16 PCM in order while it is produced: streamed piece by piece when
+  // the provider supports it, otherwise in one go. The result still holds the full audio.
+  onAudio?: (pcm: ArrayBuffer, sampleRate: number) => void;
+  signal?: AbortSignal; // Cancels the request; it then rejects with a CancelledError
+  maxAttempts?: number; // Per provider call, for transient failures
+}
+
+export interface TTSResult {
+  audioBuffer: PcmBuffer; // Plain arrays, so synthesis also runs where Web Audio does not
+  base64: string; // Raw Int16 PCM at the provider's sample rate
+  warnings: string[]; // SSML features that could not be honoured
+  cached: boolean; // Served from the audio cache without calling the provider
+}
+
+// Persona style prompts join the delivery instruction the compiler produced
+const withStyle = (style: string | undefined, instruction: string): string =>
+  [style?.replace(/[.:]\s*$/, ''), instruction].filter(Boolean).join('. ');
+
+// A transcript gets one line of direction naming each styled speaker
+const speakerDirection = (speakers: SpeakerVoice[]): string | undefined => {
+  const notes = speakers
+    .map(s => ({ speaker: s.speaker, style: findVoice(s.voiceId)?.style }))
+    .filter(n => n.style)
+    .map(n => `${n.speaker}: ${n.style!.replace(/[.:]\s*$/, '')}`);
+  return notes.length > 0 ? `Voice direction for each speaker (${notes.join('; ')}).` : undefined;
+};
+
+// How long a call may take, or when streaming, how long between two pieces
+const REQUEST_TIMEOUT_MS = 60000;
+
+// One provider call, streamed to `onAudio` when both sides can. Transient failures are
+// retried with backoff, unless some of the call's audio has already been passed on.
+const synthesizePrompt = async (
+  provider: TTSProvider,
+  prompt: string,
+  options: SynthesisOptions,
+  onAudio?: (pcm: ArrayBuffer) => void,
+  maxAttempts: number = DEFAULT_RETRY_POLICY.maxAttempts
+): Promise<ArrayBuffer> => {
+  for (let attempt = 1; ; attempt++) {
+    const deadline = createDeadline(REQUEST_TIMEOUT_MS, options.signal);
+    const callOptions = { ...options, signal: deadline.signal };
+    let emitted = false;
+    try {
+      if (!onAudio || !provider.capabilities.streaming || !provider.synthesizeStream) {
+        const pcm = await provider.synthesize(prompt, callOptions);
+        onAudio?.(pcm);
+        return pcm;
+      }
+      const pieces: ArrayBuffer[] = [];
+      for await (const piece of provider.synthesizeStream(prompt, callOptions)) {
+        deadline.refresh();
+        pieces.push(piece);
+        emitted = true;
+        onAudio(piece);
+      }
+      return concatPcm(pieces);
+    } catch (err) {
+      const error = toTTSError(err, deadline.signal);
+      if (!error.retryable || emitted || attempt >= maxAttempts) throw error;
+      await sleep(retryDelay(attempt, error), options.signal);
+    } finally {
+      deadline.clear();
+    }
+  }
+};
+
+export const generateSpeech = async (
+  request: TTSRequest,
+  provider: TTSProvider = getActiveProvider()
+): Promise<TTSResult> => {
+  const { sampleRate } = provider.capabilities;
+  const onAudio = request.onAudio && ((pcm: ArrayBuffer) => request.onAudio!(pcm, sampleRate));
+  const options: SynthesisOptions = {
+    voiceName: resolveVoiceName(request.voiceId, provider.id),
+    speakers: request.speakers?.map(s => ({ speaker: s.speaker, voiceName: resolveVoiceName(s.voiceId, provider.id) })),
+    signal: request.signal
+  };
+
+  if (options.speakers && !provider.capabilities.multiSpeaker) {
+    throw new Error(`${provider.label} cannot render multi-speaker transcripts.`);
+  }
+
+  const style = request.speakers ? speakerDirection(request.speakers) : findVoice(request.voiceId)?.style;
+
+  const cacheKey = await createCacheKey({
+    providerId: provider.id,
+    model: provider.model,
+    text: request.text,
+    isSSML: request.isSSML,
+    voiceName: options.voiceName,
+    speakers: options.speakers,
+    style
+  });
+
+  if (!request.bypassCache) {
+    const hit = await getCachedAudio(cacheKey);
+    if (hit) {
+      request.onAudio?.(hit.pcm, hit.sampleRate);
+      const audioBuffer = pcm16ToBuffer(hit.pcm, hit.sampleRate);
+      return { audioBuffer, base64: arrayBufferToBase64(hit.pcm), warnings: hit.warnings, cached: true };
+    }
+  }
+
+  let pcm: ArrayBuffer;
+  let warnings: string[] = [];
+
+  if (request.isSSML && !options.speakers && !provider.capabilities.ssml) {
+    // The backend reads plain text only: compile SSML into delivery instructions,
+    // one call per speech part, with exact silences inserted locally for breaks.
+    const compiled = compileSSML(request.text);
+    warnings = compiled.warnings;
+
+    if (compiled.parts.length === 0) {
+      throw new Error("Nothing to speak: the SSML contains no text.");
+    }
+
+    const pieces: ArrayBuffer[] = [];
+    for (const part of compiled.parts) {
+      if (part.kind === 'silence') {
+        const silence = createSilencePcm(part.durationMs, sampleRate);
+        onAudio?.(silence);
+        pieces.push(silence);
+      } else {
+        const prompt = toPrompt({ ...part, instruction: withStyle(style, part.instruction) });
+        pieces.push(await synthesizePrompt(provider, prompt, options, onAudio, request.maxAttempts));
+      }
+    }
+    pcm = concatPcm(pieces);
+  } else {
+    // Direction goes in front of transcripts and plain text; SSML for an SSML backend stays as-is
+    let prompt = request.text;
+    if (style && options.speakers) prompt = `${style}\n${request.text}`;
+    else if (style && !request.isSSML) prompt = `${withStyle(style, '')}:\n${request.text}`;
+    pcm = await synthesizePrompt(provider, prompt, options, onAudio, request.maxAttempts);
+  }
+
+  // Providers return raw PCM data, not a WAV file, so the samples are converted by hand
+  // rather than through decodeAudioData (which expects a file header).
+  const audioBuffer = pcm16ToBuffer(pcm, sampleRate);
+  await putCachedAudio(cacheKey, pcm, sampleRate, warnings);
+
+  return { audioBuffer, base64: arrayBufferToBase64(pcm), warnings, cached: false };
+};
@@ -0,0 +1,29 @@
+import { VoiceSettings } from "../types";
+import { applyLexicon, LexiconEntry } from "./lexicon";
+import { normalizeArabicText } from "./textNormalizer";
+import { buildSSML } from "./ssmlBuilder";
+import { mapOutsideStyleTags } from "./speakingStyles";
+
+// What a simple-mode take actually sends: lexicon substitutions come first so entries
+// match the words as the user typed them, then dialect normalization, then SSML.
+// Neither text step touches [style] tags.
+
+export interface SpokenTextOptions {
+  dialectCode: string;
+  lexiconEntries?: LexiconEntry[];
+  normalize?: boolean;
+}
+
+export const substituteLexicon = (text: string, entries: LexiconEntry[], dialectCode: string): string =>
+  mapOutsideStyleTags(text, part => applyLexicon(part, entries, dialectCode).text);
+
+export const normalizeSpokenText = (text: string, dialectCode: string): string =>
+  mapOutsideStyleTags(text, part => normalizeArabicText(part, dialectCode));
+
+export const prepareSpokenText = (text: string, { dialectCode, lexiconEntries = [], normalize = true }: SpokenTextOptions): string => {
+  const substituted = substituteLexicon(text, lexiconEntries, dialectCode);
+  return normalize ? normalizeSpokenText(substituted, dialectCode) : substituted;
+};
+
+export const textToSSML = (text: string, settings: VoiceSettings, options: SpokenTextOptions): string =>
+  buildSSML(prepareSpokenText(text, options), settings, options.dialectCode);
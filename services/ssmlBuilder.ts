@@ -0,0 +1,77 @@
+import { EmotionType, SpeakingStyle, VoiceSettings } from "../types";
+import { clampIntensity, STYLE_ELEMENT, tokenizeStyleMarkup } from "./speakingStyles";
+
+// Map emotion to prosody tweaks since standard SSML doesn't have a universal 'emotion' tag supported by all engines.
+// These act as "presets" applied on top of user settings.
+const EMOTION_PROSODY: Record<EmotionType, { pitch: number; rate: number }> = {
+  [EmotionType.Calm]: { pitch: 0, rate: 1.0 },
+  [EmotionType.Happy]: { pitch: 10, rate: 1.1 },
+  [EmotionType.Sad]: { pitch: -10, rate: 0.85 },
+  [EmotionType.Energetic]: { pitch: 5, rate: 1.2 },
+  [EmotionType.Dramatic]: { pitch: -5, rate: 0.9 },
+};
+
+// Sanitize text for XML
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Final pitch (percent) and rate (multiplier) after the emotion preset is applied
+export const resolveProsody = (settings: VoiceSettings): { pitch: number; rate: number } => {
+  const preset = EMOTION_PROSODY[settings.emotion] ?? EMOTION_PROSODY[EmotionType.Calm];
+  return {
+    pitch: settings.pitch + preset.pitch,
+    rate: settings.speed * preset.rate
+  };
+};
+
+// Escaped SSML content with every [style] span wrapped. Spans nest; a closing tag ends
+// the innermost open span of that style (and any opened inside it), and spans still
+// open at the end of the text close there.
+export const styleMarkupToSSML = (text: string, defaultIntensity: number): string => {
+  const open: SpeakingStyle[] = [];
+  let out = '';
+  for (const token of tokenizeStyleMarkup(text)) {
+    if (token.kind === 'text') {
+      out += escapeXml(token.value);
+    } else if (token.kind === 'open') {
+      const degree = clampIntensity(token.intensity ?? defaultIntensity) / 100;
+      out += `<${STYLE_ELEMENT} style="${token.style.id}" styledegree="${degree.toFixed(2)}">`;
+      open.push(token.style);
+    } else {
+      const depth = open.lastIndexOf(token.style);
+      if (depth === -1) continue; // Stray closing tag
+      out += `</${STYLE_ELEMENT}>`.repeat(open.length - depth);
+      open.length = depth;
+    }
+  }
+  return out + `</${STYLE_ELEMENT}>`.repeat(open.length);
+};
+
+export const buildSSML = (text: string, settings: VoiceSettings, dialectCode: string): string => {
+  // If text is empty, return empty
+  if (!text.trim()) return '';
+
+  // With exact prosody the model gets neutral text; pitch and speed are applied locally afterwards
+  if (settings.exactProsody) {
+    return `
+<speak version="1.1" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="${dialectCode}">
+  ${styleMarkupToSSML(text, settings.styleIntensity)}
+</speak>
+  `.trim();
+  }
+
+  const { pitch: finalPitch, rate: finalRate } = resolveProsody(settings);
+
+  return `
+<speak version="1.1" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="${dialectCode}">
+  <prosody rate="${finalRate.toFixed(2)}" pitch="${finalPitch > 0 ? '+' : ''}${finalPitch}%">
+    ${styleMarkupToSSML(text, settings.styleIntensity)}
+  </prosody>
+</speak>
+  `.trim();
+};
@@ -0,0 +1,348 @@
+import { SUPPORTED_DIALECTS } from "../types";
+import { parseSSML, SSMLElement, SSMLNode } from "./ssmlParser";
+import { describeStyle, findStyle, STYLE_ELEMENT, styleProsody } from "./speakingStyles";
+
+// The Gemini TTS model takes a plain-text prompt, not SSML. This compiler lowers the
+// supported SSML subset into what the backend can honour:
+//  - prosody / lang / emphasis  -> natural-language delivery instructions
+//  - mstts:express-as           -> a speaking style, plus its prosody offsets
+//  - sub / say-as               -> text substitutions
+//  - break / p                  -> exact silence inserted locally after synthesis
+// Anything else is reported as a warning rather than silently dropped.
+
+export type CompiledPart =
+  | { kind: 'speech'; text: string; instruction: string }
+  | { kind: 'silence'; durationMs: number };
+
+export interface CompiledSSML {
+  parts: CompiledPart[];
+  warnings: string[];
+}
+
+interface DeliveryContext {
+  rate: number; // multiplier
+  pitch: number; // percent offset
+  volume: 'soft' | 'normal' | 'loud';
+  lang?: string;
+  emphasis: boolean;
+  style?: string; // Style phrase, e.g. "in a hushed, breathy whisper"
+}
+
+export const BREAK_STRENGTH_MS: Record<string, number> = {
+  'none': 0,
+  'x-weak': 100,
+  'weak': 250,
+  'medium': 500,
+  'strong': 800,
+  'x-strong': 1200,
+};
+export const MAX_BREAK_MS = 10000;
+export const STYLE_DEGREE_RANGE = { min: 0.01, max: 2 };
+const PARAGRAPH_PAUSE_MS = 400;
+
+export const RATE_KEYWORDS: Record<string, number> = {
+  'x-slow': 0.5, 'slow': 0.75, 'medium': 1, 'default': 1, 'fast': 1.25, 'x-fast': 1.5,
+};
+export const PITCH_KEYWORDS: Record<string, number> = {
+  'x-low': -30, 'low': -15, 'medium': 0, 'default': 0, 'high': 15, 'x-high': 30,
+};
+
+export const SSML_ATTRIBUTES: Record<string, string[]> = {
+  'speak': ['version', 'xmlns', 'xml:lang', 'xmlns:xsi', 'xsi:schemaLocation'],
+  'prosody': ['rate', 'pitch', 'volume'],
+  'break': ['time', 'strength'],
+  'emphasis': ['level'],
+  'say-as': ['interpret-as', 'format', 'detail'],
+  'sub': ['alias'],
+  'lang': ['xml:lang'],
+  'p': [],
+  's': [],
+  [STYLE_ELEMENT]: ['style', 'styledegree'],
+};
+
+export const SAY_AS_PASSTHROUGH = ['cardinal', 'number', 'date', 'time', 'telephone', 'currency'];
+export const SAY_AS_SPELLED = ['characters', 'spell-out', 'verbatim'];
+
+export const parseBreakTime = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/i);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  return match[2].toLowerCase() === 's' ? amount * 1000 : amount;
+};
+
+export const parseRate = (value: string): number | null => {
+  const v = value.trim().toLowerCase();
+  if (RATE_KEYWORDS[v] !== undefined) return RATE_KEYWORDS[v];
+  const percent = v.match(/^(\d+(?:\.\d+)?)%$/);
+  if (percent) return parseFloat(percent[1]) / 100;
+  const number = v.match(/^\d+(?:\.\d+)?$/);
+  if (number) return parseFloat(v);
+  return null;
+};
+
+export const parsePitch = (value: string): number | null => {
+  const v = value.trim().toLowerCase();
+  if (PITCH_KEYWORDS[v] !== undefined) return PITCH_KEYWORDS[v];
+  const percent = v.match(/^([+-]?\d+(?:\.\d+)?)%$/);
+  if (percent) return parseFloat(percent[1]);
+  // Semitones, roughly 6% per step
+  const semitones = v.match(/^([+-]?\d+(?:\.\d+)?)st$/);
+  if (semitones) return (Math.pow(2, parseFloat(semitones[1]) / 12) - 1) * 100;
+  return null;
+};
+
+export const parseVolume = (value: string): DeliveryContext['volume'] | null => {
+  const v = value.trim().toLowerCase();
+  if (['silent', 'x-soft', 'soft'].includes(v)) return 'soft';
+  if (['medium', 'default'].includes(v)) return 'normal';
+  if (['loud', 'x-loud'].includes(v)) return 'loud';
+  const db = v.match(/^([+-]?\d+(?:\.\d+)?)db$/);
+  if (db) {
+    const amount = parseFloat(db[1]);
+    return amount <= -3 ? 'soft' : amount >= 3 ? 'loud' : 'normal';
+  }
+  return null;
+};
+
+const describeLanguage = (code: string): string => {
+  const dialect = SUPPORTED_DIALECTS.find(d => d.code === code);
+  if (dialect) {
+    return /arabic/i.test(dialect.label) ? dialect.label : `${dialect.label} Arabic`;
+  }
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+export const describeDelivery = (ctx: DeliveryContext): string => {
+  const phrases: string[] = [];
+
+  if (ctx.style) phrases.push(ctx.style);
+  if (ctx.lang) phrases.push(`in ${describeLanguage(ctx.lang)}`);
+
+  if (ctx.rate < 0.8) phrases.push(`very slowly (about ${ctx.rate.toFixed(2)}x normal speed)`);
+  else if (ctx.rate < 0.95) phrases.push(`slowly (about ${ctx.rate.toFixed(2)}x normal speed)`);
+  else if (ctx.rate > 1.25) phrases.push(`very quickly (about ${ctx.rate.toFixed(2)}x normal speed)`);
+  else if (ctx.rate > 1.05) phrases.push(`quickly (about ${ctx.rate.toFixed(2)}x normal speed)`);
+
+  if (ctx.pitch <= -15) phrases.push('with a much lower pitch');
+  else if (ctx.pitch < -2) phrases.push('with a slightly lower pitch');
+  else if (ctx.pitch >= 15) phrases.push('with a much higher pitch');
+  else if (ctx.pitch > 2) phrases.push('with a slightly higher pitch');
+
+  if (ctx.volume === 'soft') phrases.push('softly');
+  if (ctx.volume === 'loud') phrases.push('loudly');
+
+  const instruction = phrases.length > 0 ? `Speak ${phrases.join(', ')}` : '';
+  // A dialect's accent notes follow, so e.g. Sa'idi ق is realised as g rather than MSA q
+  const dialect = ctx.lang ? SUPPORTED_DIALECTS.find(d => d.code === ctx.lang) : undefined;
+  return dialect?.deliveryInstructions
+    ? `${instruction}. ${dialect.deliveryInstructions.replace(/\.$/, '')}`
+    : instruction;
+};
+
+const textContent = (node: SSMLNode): string =>
+  node.type === 'text' ? node.value : node.children.map(textContent).join('');
+
+// Text sent to the model for one speech part
+export const toPrompt = (part: Extract<CompiledPart, { kind: 'speech' }>): string =>
+  part.instruction ? `${part.instruction}:\n${part.text}` : part.text;
+
+export const parseStyleDegree = (value: string): number | null => {
+  if (!/^\d+(?:\.\d+)?$/.test(value.trim())) return null;
+  const degree = parseFloat(value);
+  return degree >= STYLE_DEGREE_RANGE.min && degree <= STYLE_DEGREE_RANGE.max ? degree : null;
+};
+
+export const compileSSML = (input: string): CompiledSSML => {
+  const { root, issues } = parseSSML(input);
+  const warnings = new Set<string>(issues.map(i => i.message));
+  const parts: CompiledPart[] = [];
+
+  // Parts containing emphasised words get an extra instruction once compilation is done
+  const stressed = new Set<CompiledPart>();
+
+  const emitText = (text: string, ctx: DeliveryContext) => {
+    const normalized = text.replace(/\s+/g, ' ');
+    const last = parts[parts.length - 1];
+
+    if (!normalized.trim()) {
+      if (last?.kind === 'speech') last.text += ' ';
+      return;
+    }
+
+    const instruction = describeDelivery(ctx);
+    let target = last;
+    if (target?.kind !== 'speech' || target.instruction !== instruction) {
+      target = { kind: 'speech', text: '', instruction };
+      parts.push(target);
+    }
+
+    if (ctx.emphasis) {
+      target.text += normalized.replace(/\S(.*\S)?/, match => `*${match}*`);
+      stressed.add(target);
+    } else {
+      target.text += normalized;
+    }
+  };
+
+  const emitSilence = (durationMs: number) => {
+    if (durationMs <= 0) return;
+    const last = parts[parts.length - 1];
+    if (last?.kind === 'silence') {
+      last.durationMs = Math.min(MAX_BREAK_MS, last.durationMs + durationMs);
+    } else {
+      parts.push({ kind: 'silence', durationMs: Math.min(MAX_BREAK_MS, durationMs) });
+    }
+  };
+
+  const checkAttributes = (el: SSMLElement) => {
+    const allowed = SSML_ATTRIBUTES[el.name] ?? [];
+    for (const attr of Object.keys(el.attributes)) {
+      if (!allowed.includes(attr)) {
+        warnings.add(`Attribute '${attr}' on <${el.name}> is not supported and was ignored.`);
+      }
+    }
+  };
+
+  const walk = (nodes: SSMLNode[], ctx: DeliveryContext) => {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        emitText(node.value, ctx);
+        continue;
+      }
+
+      const el = node;
+      const attrs = el.attributes;
+      if (SSML_ATTRIBUTES[el.name]) checkAttributes(el);
+
+      switch (el.name) {
+        case 'speak':
+          walk(el.children, attrs['xml:lang'] ? { ...ctx, lang: attrs['xml:lang'] } : ctx);
+          break;
+
+        case 'lang':
+          walk(el.children, attrs['xml:lang'] ? { ...ctx, lang: attrs['xml:lang'] } : ctx);
+          break;
+
+        case 'prosody': {
+          const next = { ...ctx };
+          if (attrs.rate !== undefined) {
+            const rate = parseRate(attrs.rate);
+            if (rate === null) warnings.add(`Invalid prosody rate '${attrs.rate}' was ignored.`);
+            else next.rate = ctx.rate * rate;
+          }
+          if (attrs.pitch !== undefined) {
+            const pitch = parsePitch(attrs.pitch);
+            if (pitch === null) warnings.add(`Invalid prosody pitch '${attrs.pitch}' was ignored.`);
+            else next.pitch = ctx.pitch + pitch;
+          }
+          if (attrs.volume !== undefined) {
+            const volume = parseVolume(attrs.volume);
+            if (volume === null) warnings.add(`Invalid prosody volume '${attrs.volume}' was ignored.`);
+            else next.volume = volume;
+          }
+          walk(el.children, next);
+          break;
+        }
+
+        case 'emphasis': {
+          const level = attrs.level || 'moderate';
+          walk(el.children, { ...ctx, emphasis: level !== 'none' && level !== 'reduced' });
+          break;
+        }
+
+        case 'break': {
+          let duration: number | null = null;
+          if (attrs.time !== undefined) {
+            duration = parseBreakTime(attrs.time);
+            if (duration === null) warnings.add(`Invalid break time '${attrs.time}'; a medium pause was used.`);
+            else if (duration > MAX_BREAK_MS) warnings.add(`Break of ${attrs.time} was capped at ${MAX_BREAK_MS / 1000}s.`);
+          }
+          if (duration === null) {
+            duration = BREAK_STRENGTH_MS[attrs.strength || 'medium'] ?? BREAK_STRENGTH_MS.medium;
+          }
+          emitSilence(duration);
+          break;
+        }
+
+        case 'sub':
+          if (attrs.alias !== undefined) emitText(attrs.alias, ctx);
+          else walk(el.children, ctx);
+          break;
+
+        case 'say-as': {
+          const interpretAs = (attrs['interpret-as'] || '').toLowerCase();
+          const content = textContent(el);
+          if (SAY_AS_SPELLED.includes(interpretAs)) {
+            emitText(Array.from(content.replace(/\s+/g, '')).join(' '), ctx);
+          } else if (interpretAs === 'digits') {
+            emitText(content.replace(/\d/g, d => ` ${d} `).replace(/\s+/g, ' '), ctx);
+          } else {
+            if (!SAY_AS_PASSTHROUGH.includes(interpretAs)) {
+              warnings.add(`say-as interpret-as="${interpretAs}" is not supported; the text is read as written.`);
+            }
+            emitText(content, ctx);
+          }
+          break;
+        }
+
+        case 'p':
+          walk(el.children, ctx);
+          emitSilence(PARAGRAPH_PAUSE_MS);
+          break;
+
+        case STYLE_ELEMENT: {
+          // Each styled span gets its own instruction, so it is synthesized as a separate part
+          const style = findStyle(attrs.style ?? '');
+          if (!style) {
+            warnings.add(`Unknown speaking style '${attrs.style ?? ''}'; its text is read without it.`);
+            walk(el.children, ctx);
+            break;
+          }
+          let degree = 1;
+          if (attrs.styledegree !== undefined) {
+            const parsed = parseStyleDegree(attrs.styledegree);
+            if (parsed === null) warnings.add(`Invalid styledegree '${attrs.styledegree}' was ignored.`);
+            else degree = parsed;
+          }
+          const prosody = styleProsody(style, degree);
+          walk(el.children, {
+            ...ctx,
+            style: describeStyle(style, degree),
+            rate: ctx.rate * prosody.rate,
+            pitch: ctx.pitch + prosody.pitch
+          });
+          break;
+        }
+
+        case 's':
+          walk(el.children, ctx);
+          emitText(' ', ctx);
+          break;
+
+        default:
+          warnings.add(`<${el.name}> is not supported by the Gemini backend; its text is read without it.`);
+          walk(el.children, ctx);
+      }
+    }
+  };
+
+  walk(root.children, { rate: 1, pitch: 0, volume: 'normal', emphasis: false });
+
+  // Tidy whitespace at part edges and drop anything that ended up empty
+  const cleaned = parts
+    .map(part => {
+      if (part.kind !== 'speech') return part;
+      const stressNote = 'Stress the words between asterisks and do not read the asterisks aloud';
+      const instruction = stressed.has(part)
+        ? (part.instruction ? `${part.instruction}. ${stressNote}` : stressNote)
+        : part.instruction;
+      return { ...part, text: part.text.replace(/\s+/g, ' ').trim(), instruction };
+    })
+    .filter(part => part.kind === 'silence' || part.text.length > 0);
+
+  return { parts: cleaned, warnings: Array.from(warnings) };
+};
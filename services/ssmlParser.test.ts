@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseSSML, SSMLElement, SSMLText } from './ssmlParser';
+import { validateSSML } from './ssmlValidator';
+
+const firstText = (element: SSMLElement): string =>
+  element.children.map(child => (child.type === 'text' ? (child as SSMLText).value : firstText(child))).join('');
+
+describe('parseSSML', () => {
+  it('builds a tree with decoded text and attributes', () => {
+    const { root, issues } = parseSSML('<speak><prosody rate="slow">A &amp; B &#x41;&#66;</prosody><break time="1s"/></speak>');
+    expect(issues).toEqual([]);
+    const speak = root.children[0] as SSMLElement;
+    const prosody = speak.children[0] as SSMLElement;
+    expect(prosody.attributes).toEqual({ rate: 'slow' });
+    expect(firstText(prosody)).toBe('A & B AB');
+    expect((speak.children[1] as SSMLElement).name).toBe('break');
+  });
+
+  it('recovers from unclosed and stray tags', () => {
+    const { root, issues } = parseSSML('<speak><emphasis>loud</speak></voice>');
+    expect(issues.map(i => i.message)).toEqual(['Missing </emphasis>.', 'Closing tag </voice> has no matching opening tag.']);
+    expect(firstText(root)).toBe('loud');
+  });
+
+  it('reports a bare ampersand and unknown entities', () => {
+    const { issues } = parseSSML('<speak>Tom & Jerry &nbsp;</speak>');
+    expect(issues.map(i => i.message)).toEqual(["Unescaped '&'. Write it as &amp;.", "Unknown entity '&nbsp;'."]);
+  });
+
+  it('decodes astral code points', () => {
+    expect(firstText(parseSSML('&#x1F600;').root)).toBe('😀');
+  });
+
+  it.each(['&#x110000;', '&#1114112;', '&#xD800;', '&#99999999999999999999;'])('reports %s instead of throwing', reference => {
+    const { root, issues } = parseSSML(`<speak>${reference}</speak>`);
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toBe(`Invalid character reference '${reference}'.`);
+    expect(issues[0].offset).toBe(7);
+    expect(firstText(root)).toBe(reference);
+  });
+
+  it('keeps the validator running on invalid references', () => {
+    expect(() => validateSSML('<speak>&#x110000;</speak>')).not.toThrow();
+  });
+});
@@ -0,0 +1,196 @@
+// Small, forgiving SSML parser. It always returns a tree (unclosed or stray tags are
+// recovered from) together with the problems it found, each tied to a source offset.
+
+export interface SSMLElement {
+  type: 'element';
+  name: string;
+  attributes: Record<string, string>;
+  children: SSMLNode[];
+  start: number; // offset of '<'
+  end: number; // offset just past the closing tag (or the self-closing tag)
+}
+
+export interface SSMLText {
+  type: 'text';
+  value: string; // entity-decoded
+  start: number;
+}
+
+export type SSMLNode = SSMLElement | SSMLText;
+
+export interface SSMLIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  offset: number;
+  length: number;
+}
+
+export interface SSMLParseResult {
+  root: SSMLElement; // synthetic '#document' element
+  issues: SSMLIssue[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+const ENTITY = /&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/y;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+// Numeric references must name a Unicode scalar value: no surrogates, nothing past U+10FFFF
+const isCodePoint = (code: number) => code <= 0x10FFFF && (code < 0xD800 || code > 0xDFFF);
+
+const decodeEntities = (raw: string, baseOffset: number, issues: SSMLIssue[]): string => {
+  let result = '';
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] !== '&') {
+      result += raw[i];
+      continue;
+    }
+    ENTITY.lastIndex = i;
+    const match = ENTITY.exec(raw);
+    if (!match) {
+      issues.push({
+        severity: 'error',
+        message: "Unescaped '&'. Write it as &amp;.",
+        offset: baseOffset + i,
+        length: 1
+      });
+      result += '&';
+      continue;
+    }
+    const body = match[1];
+    if (body.startsWith('#')) {
+      const code = body.startsWith('#x') ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      if (isCodePoint(code)) {
+        result += String.fromCodePoint(code);
+      } else {
+        issues.push({
+          severity: 'error',
+          message: `Invalid character reference '&${body};'.`,
+          offset: baseOffset + i,
+          length: match[0].length
+        });
+        result += match[0];
+      }
+    } else if (NAMED_ENTITIES[body] !== undefined) {
+      result += NAMED_ENTITIES[body];
+    } else {
+      issues.push({
+        severity: 'error',
+        message: `Unknown entity '&${body};'.`,
+        offset: baseOffset + i,
+        length: match[0].length
+      });
+      result += match[0];
+    }
+    i += match[0].length - 1;
+  }
+  return result;
+};
+
+export const parseSSML = (input: string): SSMLParseResult => {
+  const issues: SSMLIssue[] = [];
+  const root: SSMLElement = { type: 'element', name: '#document', attributes: {}, children: [], start: 0, end: input.length };
+  const stack: SSMLElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const pushText = (raw: string, offset: number) => {
+    if (!raw) return;
+    current().children.push({ type: 'text', value: decodeEntities(raw, offset, issues), start: offset });
+  };
+
+  let pos = 0;
+  while (pos < input.length) {
+    const lt = input.indexOf('<', pos);
+    if (lt === -1) {
+      pushText(input.slice(pos), pos);
+      break;
+    }
+    pushText(input.slice(pos, lt), pos);
+
+    // Comments, processing instructions and doctypes carry no speech
+    if (input.startsWith('<!--', lt)) {
+      const close = input.indexOf('-->', lt + 4);
+      if (close === -1) {
+        issues.push({ severity: 'error', message: 'Unclosed comment.', offset: lt, length: 4 });
+        break;
+      }
+      pos = close + 3;
+      continue;
+    }
+
+    const gt = input.indexOf('>', lt);
+    const nextLt = input.indexOf('<', lt + 1);
+    if (gt === -1 || (nextLt !== -1 && nextLt < gt)) {
+      issues.push({ severity: 'error', message: "Unescaped '<' or unterminated tag. Write a literal '<' as &lt;.", offset: lt, length: 1 });
+      pushText('<', lt);
+      pos = lt + 1;
+      continue;
+    }
+
+    const raw = input.slice(lt, gt + 1);
+    pos = gt + 1;
+
+    if (raw.startsWith('<?') || raw.startsWith('<!')) continue;
+
+    if (raw.startsWith('</')) {
+      const name = raw.slice(2, -1).trim();
+      const idx = stack.map(e => e.name).lastIndexOf(name);
+      if (idx <= 0) {
+        issues.push({ severity: 'error', message: `Closing tag </${name}> has no matching opening tag.`, offset: lt, length: raw.length });
+        continue;
+      }
+      // Anything opened after the matching element was never closed
+      for (let i = stack.length - 1; i > idx; i--) {
+        const unclosed = stack[i];
+        unclosed.end = lt;
+        issues.push({ severity: 'error', message: `Missing </${unclosed.name}>.`, offset: unclosed.start, length: unclosed.name.length + 1 });
+      }
+      stack[idx].end = gt + 1;
+      stack.length = idx;
+      continue;
+    }
+
+    const nameMatch = raw.match(/^<([\w:.-]+)/);
+    if (!nameMatch) {
+      issues.push({ severity: 'error', message: 'Malformed tag.', offset: lt, length: raw.length });
+      continue;
+    }
+
+    const selfClosing = raw.endsWith('/>');
+    const attrSource = raw.slice(nameMatch[0].length, selfClosing ? -2 : -1);
+    const attributes: Record<string, string> = {};
+    ATTRIBUTE.lastIndex = 0;
+    let attrMatch: RegExpExecArray | null;
+    while ((attrMatch = ATTRIBUTE.exec(attrSource)) !== null) {
+      const value = attrMatch[3] ?? attrMatch[4] ?? '';
+      attributes[attrMatch[1]] = decodeEntities(value, lt + nameMatch[0].length + attrMatch.index, issues);
+    }
+    if (attrSource.replace(ATTRIBUTE, '').trim()) {
+      issues.push({ severity: 'error', message: `Malformed attributes in <${nameMatch[1]}>. Values must be quoted.`, offset: lt, length: raw.length });
+    }
+
+    const element: SSMLElement = {
+      type: 'element',
+      name: nameMatch[1],
+      attributes,
+      children: [],
+      start: lt,
+      end: gt + 1
+    };
+    current().children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  for (let i = stack.length - 1; i > 0; i--) {
+    issues.push({ severity: 'error', message: `Missing </${stack[i].name}>.`, offset: stack[i].start, length: stack[i].name.length + 1 });
+    stack[i].end = input.length;
+  }
+
+  return { root, issues };
+};
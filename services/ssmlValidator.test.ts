@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { SUPPORTED_DIALECTS } from '../types';
+import { getCompletions, insertBreak, SSML_ATTRIBUTE_VALUES, validateSSML, wrapSelection } from './ssmlValidator';
+
+describe('SSML_ATTRIBUTE_VALUES', () => {
+  it('suggests every registered dialect for xml:lang', () => {
+    const codes = SUPPORTED_DIALECTS.map(d => d.code);
+    expect(SSML_ATTRIBUTE_VALUES['speak.xml:lang']).toEqual(codes);
+    expect(SSML_ATTRIBUTE_VALUES['lang.xml:lang']).toEqual(expect.arrayContaining(codes));
+  });
+});
+
+describe('validateSSML', () => {
+  it('accepts a well-formed document', () => {
+    expect(validateSSML('<speak><prosody rate="slow" pitch="+10%">Hi<break time="500ms"/></prosody></speak>')).toEqual([]);
+  });
+
+  it('reports an unclosed tag at the line and column where it opens', () => {
+    const [diagnostic] = validateSSML('<speak>\n  <prosody rate="fast">Hi\n</speak>');
+    expect(diagnostic).toMatchObject({ severity: 'error', message: 'Missing </prosody>.', line: 2, column: 3 });
+  });
+
+  it('reports a closing tag with no matching opening tag', () => {
+    expect(validateSSML('<speak>Hi</emphasis></speak>')).toEqual([
+      { severity: 'error', message: 'Closing tag </emphasis> has no matching opening tag.', offset: 9, length: 11, line: 1, column: 10 }
+    ]);
+  });
+
+  it('warns about unknown elements and attributes', () => {
+    expect(validateSSML('<speak>\nA <foo>b</foo> <prosody speed="2">c</prosody></speak>')).toEqual([
+      expect.objectContaining({ severity: 'warning', message: 'Unknown tag <foo>. Its text will be read without it.', line: 2, column: 3 }),
+      expect.objectContaining({ severity: 'warning', message: "Unknown attribute 'speed' on <prosody>.", line: 2, column: 16 })
+    ]);
+  });
+
+  it('rejects invalid attribute values', () => {
+    const messages = validateSSML(
+      '<speak><prosody rate="zippy" volume="huge">a</prosody><break time="soon"/><emphasis level="max">b</emphasis><sub>c</sub></speak>'
+    ).map(d => [d.severity, d.message]);
+    expect(messages).toEqual([
+      ['error', "Invalid rate 'zippy'. Use a keyword (slow, fast…), a percentage like 90% or a number like 1.2."],
+      ['error', "Invalid volume 'huge'."],
+      ['error', "Invalid break time 'soon'. Use milliseconds or seconds, e.g. 500ms or 1.5s."],
+      ['error', "Invalid emphasis level 'max'."],
+      ['error', '<sub> requires an alias attribute.']
+    ]);
+  });
+
+  it('warns when the document is not a single <speak> element', () => {
+    expect(validateSSML('Hello <emphasis>there</emphasis>')).toEqual([
+      expect.objectContaining({ severity: 'warning', message: 'The document should be a single <speak> element.', line: 1, column: 1 })
+    ]);
+  });
+});
+
+describe('getCompletions', () => {
+  it('completes tag names after <', () => {
+    expect(getCompletions('<speak><pro', 11)).toEqual({ items: ['prosody'], from: 8, to: 11, kind: 'tag' });
+  });
+
+  it('completes attributes not already present', () => {
+    const input = '<prosody rate="slow" ';
+    expect(getCompletions(input, input.length)).toEqual({ items: ['pitch', 'volume'], from: input.length, to: input.length, kind: 'attribute' });
+  });
+
+  it('completes attribute values inside quotes', () => {
+    const input = '<break time="1';
+    expect(getCompletions(input, input.length)).toEqual({ items: ['1s'], from: input.length - 1, to: input.length, kind: 'value' });
+  });
+
+  it('offers nothing outside a tag or in a closing tag', () => {
+    expect(getCompletions('<speak>Hi', 9)).toBeNull();
+    expect(getCompletions('<speak>Hi</sp', 13)).toBeNull();
+  });
+});
+
+describe('wrapSelection', () => {
+  it('wraps the selection in the tag template and keeps the same text selected', () => {
+    expect(wrapSelection('say hi now', 4, 6, 'emphasis')).toEqual({
+      text: 'say <emphasis level="moderate">hi</emphasis> now',
+      selectionStart: 31,
+      selectionEnd: 33
+    });
+  });
+
+  it('uses a bare tag for elements without a template', () => {
+    expect(wrapSelection('hi', 0, 2, 'foo').text).toBe('<foo>hi</foo>');
+  });
+});
+
+describe('insertBreak', () => {
+  it('inserts a break at the cursor and moves the cursor past it', () => {
+    expect(insertBreak('ab', 1)).toEqual({ text: 'a<break time="500ms"/>b', cursor: 22 });
+    expect(insertBreak('ab', 2, '1s').text).toBe('ab<break time="1s"/>');
+  });
+});
@@ -0,0 +1,241 @@
+import { parseSSML, SSMLElement, SSMLNode } from "./ssmlParser";
+import {
+  BREAK_STRENGTH_MS,
+  MAX_BREAK_MS,
+  PITCH_KEYWORDS,
+  RATE_KEYWORDS,
+  SAY_AS_PASSTHROUGH,
+  SAY_AS_SPELLED,
+  SSML_ATTRIBUTES,
+  STYLE_DEGREE_RANGE,
+  parseBreakTime,
+  parsePitch,
+  parseRate,
+  parseStyleDegree,
+  parseVolume
+} from "./ssmlCompiler";
+import { findStyle, STYLE_ELEMENT } from "./speakingStyles";
+import { SPEAKING_STYLES, SUPPORTED_DIALECTS } from "../types";
+
+// Editor-side checks and helpers for Advanced Mode. Everything here is synchronous
+// and cheap enough to run on every keystroke.
+
+export interface SSMLDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  offset: number;
+  length: number;
+}
+
+// Dialect codes come from the registry, so a new dialects.json entry is suggested too;
+// <lang> can also switch to a few common non-Arabic languages
+const DIALECT_CODES = SUPPORTED_DIALECTS.map(d => d.code);
+const FOREIGN_LANGUAGES = ['en-US', 'fr-FR'];
+
+// Suggested values per "tag.attribute", used for completion
+export const SSML_ATTRIBUTE_VALUES: Record<string, string[]> = {
+  'prosody.rate': [...Object.keys(RATE_KEYWORDS), '90%', '1.2'],
+  'prosody.pitch': [...Object.keys(PITCH_KEYWORDS), '+10%', '-10%', '+2st'],
+  'prosody.volume': ['x-soft', 'soft', 'medium', 'loud', 'x-loud', '+6dB', '-6dB'],
+  'break.time': ['250ms', '500ms', '1s', '2s'],
+  'break.strength': Object.keys(BREAK_STRENGTH_MS),
+  'emphasis.level': ['strong', 'moderate', 'reduced', 'none'],
+  'say-as.interpret-as': [...SAY_AS_SPELLED, 'digits', ...SAY_AS_PASSTHROUGH],
+  'lang.xml:lang': [...DIALECT_CODES, ...FOREIGN_LANGUAGES],
+  'speak.xml:lang': DIALECT_CODES,
+  [`${STYLE_ELEMENT}.style`]: SPEAKING_STYLES.map(s => s.id),
+  [`${STYLE_ELEMENT}.styledegree`]: ['0.5', '1', '1.5', '2'],
+};
+
+// Snippets used by completion and "wrap selection"
+const TAG_TEMPLATES: Record<string, { open: string; close: string }> = {
+  'speak': { open: `<speak version="1.1" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="${DIALECT_CODES[0]}">`, close: '</speak>' },
+  'prosody': { open: '<prosody rate="medium" pitch="+0%">', close: '</prosody>' },
+  'emphasis': { open: '<emphasis level="moderate">', close: '</emphasis>' },
+  'say-as': { open: '<say-as interpret-as="characters">', close: '</say-as>' },
+  'sub': { open: '<sub alias="">', close: '</sub>' },
+  'lang': { open: `<lang xml:lang="${FOREIGN_LANGUAGES[0]}">`, close: '</lang>' },
+  'p': { open: '<p>', close: '</p>' },
+  's': { open: '<s>', close: '</s>' },
+  [STYLE_ELEMENT]: { open: `<${STYLE_ELEMENT} style="${SPEAKING_STYLES[0].id}" styledegree="1">`, close: `</${STYLE_ELEMENT}>` },
+};
+
+export const WRAPPABLE_TAGS = Object.keys(TAG_TEMPLATES).filter(t => t !== 'speak');
+
+export const offsetToPosition = (input: string, offset: number): { line: number; column: number } => {
+  const before = input.slice(0, offset);
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+export const validateSSML = (input: string): SSMLDiagnostic[] => {
+  const { root, issues } = parseSSML(input);
+  const found: Omit<SSMLDiagnostic, 'line' | 'column'>[] = [...issues];
+
+  const report = (severity: SSMLDiagnostic['severity'], message: string, el: SSMLElement) => {
+    found.push({ severity, message, offset: el.start, length: el.name.length + 1 });
+  };
+
+  const checkElement = (el: SSMLElement) => {
+    const allowed = SSML_ATTRIBUTES[el.name];
+    if (!allowed) {
+      report('warning', `Unknown tag <${el.name}>. Its text will be read without it.`, el);
+      return;
+    }
+
+    for (const attr of Object.keys(el.attributes)) {
+      if (!allowed.includes(attr)) {
+        report('warning', `Unknown attribute '${attr}' on <${el.name}>.`, el);
+      }
+    }
+
+    const attrs = el.attributes;
+    switch (el.name) {
+      case 'prosody':
+        if (attrs.rate !== undefined) {
+          const rate = parseRate(attrs.rate);
+          if (rate === null) report('error', `Invalid rate '${attrs.rate}'. Use a keyword (slow, fast…), a percentage like 90% or a number like 1.2.`, el);
+          else if (rate < 0.25 || rate > 4) report('warning', `Rate '${attrs.rate}' is outside the usable range (25%–400%).`, el);
+        }
+        if (attrs.pitch !== undefined) {
+          const pitch = parsePitch(attrs.pitch);
+          if (pitch === null) report('error', `Invalid pitch '${attrs.pitch}'. Use a keyword (low, high…), a signed percentage like +10% or semitones like -2st.`, el);
+          else if (Math.abs(pitch) > 100) report('warning', `Pitch '${attrs.pitch}' is outside the usable range (±100%).`, el);
+        }
+        if (attrs.volume !== undefined && parseVolume(attrs.volume) === null) {
+          report('error', `Invalid volume '${attrs.volume}'.`, el);
+        }
+        break;
+      case 'break':
+        if (attrs.time !== undefined) {
+          const duration = parseBreakTime(attrs.time);
+          if (duration === null) report('error', `Invalid break time '${attrs.time}'. Use milliseconds or seconds, e.g. 500ms or 1.5s.`, el);
+          else if (duration > MAX_BREAK_MS) report('warning', `Break time '${attrs.time}' exceeds ${MAX_BREAK_MS / 1000}s and will be capped.`, el);
+        }
+        if (attrs.strength !== undefined && BREAK_STRENGTH_MS[attrs.strength] === undefined) {
+          report('error', `Invalid break strength '${attrs.strength}'.`, el);
+        }
+        if (el.children.length > 0) report('warning', '<break> should be self-closing: <break time="500ms"/>.', el);
+        break;
+      case 'sub':
+        if (!attrs.alias) report('error', '<sub> requires an alias attribute.', el);
+        break;
+      case 'say-as': {
+        const interpretAs = attrs['interpret-as'];
+        if (!interpretAs) report('error', '<say-as> requires an interpret-as attribute.', el);
+        else if (!SSML_ATTRIBUTE_VALUES['say-as.interpret-as'].includes(interpretAs.toLowerCase())) {
+          report('warning', `interpret-as="${interpretAs}" is not supported; the text is read as written.`, el);
+        }
+        break;
+      }
+      case 'emphasis':
+        if (attrs.level !== undefined && !SSML_ATTRIBUTE_VALUES['emphasis.level'].includes(attrs.level)) {
+          report('error', `Invalid emphasis level '${attrs.level}'.`, el);
+        }
+        break;
+      case 'lang':
+        if (!attrs['xml:lang']) report('error', '<lang> requires an xml:lang attribute.', el);
+        break;
+      case STYLE_ELEMENT:
+        if (!attrs.style) report('error', `<${STYLE_ELEMENT}> requires a style attribute.`, el);
+        else if (!findStyle(attrs.style)) report('warning', `Unknown speaking style '${attrs.style}'. Known styles: ${SPEAKING_STYLES.map(s => s.id).join(', ')}.`, el);
+        if (attrs.styledegree !== undefined && parseStyleDegree(attrs.styledegree) === null) {
+          report('error', `Invalid styledegree '${attrs.styledegree}'. Use a number from ${STYLE_DEGREE_RANGE.min} to ${STYLE_DEGREE_RANGE.max}.`, el);
+        }
+        break;
+    }
+  };
+
+  const walk = (nodes: SSMLNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'element') {
+        checkElement(node);
+        walk(node.children);
+      }
+    }
+  };
+  walk(root.children);
+
+  const topElements = root.children.filter((n): n is SSMLElement => n.type === 'element');
+  const strayText = root.children.some(n => n.type === 'text' && n.value.trim());
+  if (input.trim() && (topElements.length !== 1 || topElements[0].name !== 'speak' || strayText)) {
+    found.push({ severity: 'warning', message: 'The document should be a single <speak> element.', offset: 0, length: 1 });
+  }
+
+  return found
+    .map(d => ({ ...d, ...offsetToPosition(input, d.offset) }))
+    .sort((a, b) => a.offset - b.offset);
+};
+
+export interface CompletionResult {
+  items: string[];
+  from: number; // start of the text the chosen item replaces
+  to: number;
+  kind: 'tag' | 'attribute' | 'value';
+}
+
+// Work out what can be typed at the cursor: a tag name after '<', an attribute
+// name inside an open tag, or an attribute value inside quotes.
+export const getCompletions = (input: string, cursor: number): CompletionResult | null => {
+  const lt = input.lastIndexOf('<', cursor - 1);
+  if (lt === -1 || input.lastIndexOf('>', cursor - 1) > lt) return null;
+
+  const inside = input.slice(lt + 1, cursor);
+  if (inside.startsWith('/') || inside.startsWith('!') || inside.startsWith('?')) return null;
+
+  const tagMatch = inside.match(/^([\w:.-]*)$/);
+  if (tagMatch) {
+    const prefix = tagMatch[1];
+    const items = Object.keys(SSML_ATTRIBUTES).filter(t => t.startsWith(prefix) && t !== prefix);
+    return items.length ? { items, from: lt + 1, to: cursor, kind: 'tag' } : null;
+  }
+
+  const tagName = inside.match(/^([\w:.-]+)/)?.[1] || '';
+
+  const valueMatch = inside.match(/([\w:.-]+)\s*=\s*["']([^"']*)$/);
+  if (valueMatch) {
+    const prefix = valueMatch[2];
+    const items = (SSML_ATTRIBUTE_VALUES[`${tagName}.${valueMatch[1]}`] || []).filter(v => v.startsWith(prefix) && v !== prefix);
+    return items.length ? { items, from: cursor - prefix.length, to: cursor, kind: 'value' } : null;
+  }
+
+  const attrMatch = inside.match(/\s([\w:.-]*)$/);
+  if (attrMatch) {
+    const prefix = attrMatch[1];
+    const present = Array.from(inside.matchAll(/([\w:.-]+)\s*=/g)).map(m => m[1]);
+    const items = (SSML_ATTRIBUTES[tagName] || []).filter(a => a.startsWith(prefix) && !present.includes(a));
+    return items.length ? { items, from: cursor - prefix.length, to: cursor, kind: 'attribute' } : null;
+  }
+
+  return null;
+};
+
+// Text to insert for a chosen completion item
+export const completionInsertText = (item: string, kind: CompletionResult['kind']): string => {
+  if (kind === 'attribute') return `${item}=""`;
+  if (kind === 'tag' && item === 'break') return 'break time="500ms"/>';
+  return item;
+};
+
+export const wrapSelection = (
+  input: string,
+  start: number,
+  end: number,
+  tag: string
+): { text: string; selectionStart: number; selectionEnd: number } => {
+  const template = TAG_TEMPLATES[tag] ?? { open: `<${tag}>`, close: `</${tag}>` };
+  const selected = input.slice(start, end);
+  const text = input.slice(0, start) + template.open + selected + template.close + input.slice(end);
+  return {
+    text,
+    selectionStart: start + template.open.length,
+    selectionEnd: start + template.open.length + selected.length
+  };
+};
+
+export const insertBreak = (input: string, cursor: number, time: string = '500ms') => {
+  const snippet = `<break time="${time}"/>`;
+  return { text: input.slice(0, cursor) + snippet + input.slice(cursor), cursor: cursor + snippet.length };
+};
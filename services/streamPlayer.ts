@@ -0,0 +1,218 @@
+import { ChunkAudioSink } from "./synthesisPipeline";
+
+// Live playback of PCM as it arrives from a streaming synthesis call. Pieces are queued
+// in an AudioWorklet; playback starts once a short prebuffer is filled, and when the
+// network falls behind the worklet fades out, waits for a larger cushion, then fades
+// back in rather than stuttering through every gap.
+
+export type StreamPlayerState = 'buffering' | 'playing' | 'underrun' | 'ended' | 'stopped';
+
+export interface StreamPlayer {
+  readonly sampleRate: number;
+  push: (pcm: ArrayBuffer) => void; // Raw Int16 PCM at `sampleRate`, in order
+  end: () => void; // No more audio: play out what is queued, then finish
+  stop: () => void; // Silence now and release the audio device
+  finished: Promise<void>; // Settles once the queue has played out or the player is stopped
+}
+
+const PREBUFFER_MS = 250;
+const REBUFFER_MS = 600;
+const FADE_MS = 8;
+
+const PROCESSOR_NAME = 'hamza-stream-queue';
+
+// Runs on the audio rendering thread. Messages in: Float32Array pieces, 'end'.
+// Messages out: state changes.
+const PROCESSOR_SOURCE = `
+class StreamQueueProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { prebuffer, rebuffer, fade } = options.processorOptions;
+    this.queue = [];
+    this.offset = 0; // Read position in queue[0]
+    this.queued = 0; // Samples waiting
+    this.threshold = prebuffer;
+    this.rebuffer = rebuffer;
+    this.fade = fade;
+    this.gain = 0;
+    this.state = 'buffering';
+    this.ended = false;
+    this.port.onmessage = (event) => {
+      if (event.data === 'end') {
+        this.ended = true;
+      } else {
+        this.queue.push(event.data);
+        this.queued += event.data.length;
+      }
+    };
+  }
+
+  setState(state) {
+    if (state === this.state) return;
+    this.state = state;
+    this.port.postMessage(state);
+  }
+
+  next() {
+    const piece = this.queue[0];
+    const value = piece[this.offset++];
+    this.queued--;
+    if (this.offset >= piece.length) {
+      this.queue.shift();
+      this.offset = 0;
+    }
+    return value;
+  }
+
+  process(inputs, outputs) {
+    const out = outputs[0][0];
+    if (this.state !== 'playing') {
+      if (this.queued >= this.threshold || (this.ended && this.queued > 0)) {
+        this.setState('playing');
+      } else if (this.ended) {
+        this.setState('ended');
+        return false;
+      } else {
+        return true;
+      }
+    }
+
+    const step = 1 / this.fade;
+    for (let i = 0; i < out.length; i++) {
+      // Start fading out while a fade's worth of samples is left, so a gap never clicks
+      const starving = this.queued <= this.fade && !this.ended;
+      this.gain = Math.max(0, Math.min(1, this.gain + (starving ? -step : step)));
+      out[i] = this.queued > 0 ? this.next() * this.gain : 0;
+    }
+    for (let ch = 1; ch < outputs[0].length; ch++) outputs[0][ch].set(out);
+
+    if (this.queued === 0) {
+      if (this.ended) {
+        this.setState('ended');
+        return false;
+      }
+      this.threshold = this.rebuffer;
+      this.setState('underrun');
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', StreamQueueProcessor);
+`;
+
+let processorUrl: string | null = null;
+
+export const isStreamPlaybackSupported = (): boolean =>
+  typeof window !== 'undefined' && typeof AudioWorkletNode !== 'undefined';
+
+// Each player owns a context at the stream's own rate, so the browser resamples to the
+// device and the pieces never need converting here
+export const createStreamPlayer = async (
+  sampleRate: number,
+  onStateChange?: (state: StreamPlayerState) => void
+): Promise<StreamPlayer> => {
+  if (!isStreamPlaybackSupported()) {
+    throw new Error("This browser cannot play streamed audio (AudioWorklet is unavailable).");
+  }
+
+  const ctx = new AudioContext({ sampleRate, latencyHint: 'interactive' });
+  if (!processorUrl) processorUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'text/javascript' }));
+  await ctx.audioWorklet.addModule(processorUrl);
+  if (ctx.state === 'suspended') await ctx.resume();
+
+  const msToSamples = (ms: number) => Math.round((ms / 1000) * sampleRate);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 0,
+    outputChannelCount: [1],
+    processorOptions: { prebuffer: msToSamples(PREBUFFER_MS), rebuffer: msToSamples(REBUFFER_MS), fade: msToSamples(FADE_MS) }
+  });
+  node.connect(ctx.destination);
+
+  let closed = false;
+  let settle: () => void = () => {};
+  const finished = new Promise<void>(resolve => (settle = resolve));
+
+  const close = (state: StreamPlayerState) => {
+    if (closed) return;
+    closed = true;
+    node.port.onmessage = null;
+    node.disconnect();
+    ctx.close().catch(() => {});
+    onStateChange?.(state);
+    settle();
+  };
+
+  node.port.onmessage = (event: MessageEvent<StreamPlayerState>) => {
+    if (event.data === 'ended') close('ended');
+    else onStateChange?.(event.data);
+  };
+
+  // Network pieces can split a sample, so an odd trailing byte waits for the next piece
+  let carry: number | null = null;
+
+  onStateChange?.('buffering');
+
+  return {
+    sampleRate,
+    push: (pcm: ArrayBuffer) => {
+      if (closed || pcm.byteLength === 0) return;
+      let bytes = new Uint8Array(pcm);
+      if (carry !== null) {
+        const joined = new Uint8Array(bytes.length + 1);
+        joined[0] = carry;
+        joined.set(bytes, 1);
+        bytes = joined;
+        carry = null;
+      }
+      if (bytes.length % 2) {
+        carry = bytes[bytes.length - 1];
+        bytes = bytes.subarray(0, bytes.length - 1);
+      }
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const samples = new Float32Array(bytes.length / 2);
+      for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(i * 2, true) / 32768;
+      node.port.postMessage(samples, [samples.buffer]);
+    },
+    end: () => {
+      if (!closed) node.port.postMessage('end');
+    },
+    stop: () => close('stopped'),
+    finished
+  };
+};
+
+// Chunks of a take are synthesized concurrently but must be heard in order. Audio for
+// the chunk at the head of the line goes straight to the player; later chunks are held
+// until every chunk before them has settled (finished or given up).
+export const createChunkSequencer = (order: number[], player: StreamPlayer): ChunkAudioSink => {
+  const held = new Map<number, ArrayBuffer[]>();
+  const settled = new Set<number>();
+  let head = 0;
+
+  const advance = () => {
+    while (head < order.length && settled.has(order[head])) {
+      head++;
+      if (head < order.length) {
+        held.get(order[head])?.forEach(player.push);
+        held.delete(order[head]);
+      }
+    }
+    if (head >= order.length) player.end();
+  };
+
+  return {
+    audio: (index, pcm) => {
+      if (order[head] === index) player.push(pcm);
+      else if (held.has(index)) held.get(index)!.push(pcm);
+      else held.set(index, [pcm]);
+    },
+    // Audio already played for the head chunk cannot be taken back; anything held is dropped
+    restart: index => {
+      held.delete(index);
+    },
+    settle: index => {
+      settled.add(index);
+      advance();
+    }
+  };
+};
@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPcmBuffer } from './audioUtils';
+import { generateSpeech, TTSResult } from './speechService';
+import { createChunkStates, synthesizeChunks } from './synthesisPipeline';
+import { RateLimitError } from './ttsErrors';
+
+vi.mock('./speechService', () => ({ generateSpeech: vi.fn() }));
+
+const speech = vi.mocked(generateSpeech);
+const result: TTSResult = { audioBuffer: createPcmBuffer([new Float32Array(10)], 24000), base64: '', warnings: [], cached: false };
+// A rate limit that asks for no wait, so retries run at once
+const transient = () => new RateLimitError(false, 0);
+const sink = () => ({ audio: vi.fn(), restart: vi.fn(), settle: vi.fn() });
+
+beforeEach(() => {
+  speech.mockReset();
+});
+
+describe('synthesizeChunks', () => {
+  it('leaves retries to generateSpeech while no audio has been emitted', async () => {
+    speech.mockRejectedValue(transient());
+    const audioSink = sink();
+    const [chunk] = await synthesizeChunks(createChunkStates(['نص']), { voiceId: 'v', audioSink });
+    expect(speech).toHaveBeenCalledTimes(1);
+    expect(chunk.status).toBe('failed');
+    expect(chunk.failure?.code).toBe('rate-limit');
+    expect(audioSink.settle).toHaveBeenCalledWith(0);
+  });
+
+  it('resends a chunk whose stream failed after emitting audio', async () => {
+    speech
+      .mockImplementationOnce(async request => {
+        request.onAudio?.(new ArrayBuffer(4), 24000);
+        throw transient();
+      })
+      .mockResolvedValueOnce(result);
+    const audioSink = sink();
+    const [chunk] = await synthesizeChunks(createChunkStates(['نص']), { voiceId: 'v', audioSink });
+    expect(speech).toHaveBeenCalledTimes(2);
+    expect(audioSink.restart).toHaveBeenCalledWith(0);
+    expect(chunk).toMatchObject({ status: 'done', attempts: 2 });
+  });
+
+  it('only runs the chunks that are not done', async () => {
+    speech.mockResolvedValue(result);
+    const first = await synthesizeChunks(createChunkStates(['أ', 'ب']), { voiceId: 'v' });
+    const again = await synthesizeChunks([first[0], { ...first[1], status: 'failed' }], { voiceId: 'v' });
+    expect(speech).toHaveBeenCalledTimes(3);
+    expect(again.map(c => c.status)).toEqual(['done', 'done']);
+  });
+});
@@ -0,0 +1,141 @@
+import { generateSpeech, SpeakerVoice } from "./speechService";
+import { concatAudioBuffers, PcmBuffer } from "./audioUtils";
+import { retryDelay, sleep } from "./retry";
+import { CancelledError, toTTSError, TTSError } from "./ttsErrors";
+
+export type ChunkStatus = 'pending' | 'generating' | 'done' | 'failed';
+
+export interface ChunkState {
+  index: number;
+  text: string;
+  status: ChunkStatus;
+  attempts: number;
+  error?: string;
+  failure?: TTSError; // Typed cause of `error`, with its Arabic message
+  audioBuffer?: PcmBuffer;
+  warnings?: string[];
+  cached?: boolean; // Audio came from the cache
+  // Per-chunk overrides used by dialogue rendering
+  voiceId?: string;
+  speakers?: SpeakerVoice[];
+  group?: number; // Chunks sharing a group are crossfaded; groups are separated by gaps
+}
+
+// Receives chunk audio while it is synthesized, e.g. for live playback
+export interface ChunkAudioSink {
+  audio: (index: number, pcm: ArrayBuffer) => void;
+  restart: (index: number) => void; // A retry is about to resend this chunk
+  settle: (index: number) => void; // No more audio will come for this chunk
+}
+
+export interface PipelineOptions {
+  voiceId: string; // Default VoiceOption.id for chunks without their own
+  concurrency?: number;
+  maxAttempts?: number;
+  bypassCache?: boolean;
+  audioSink?: ChunkAudioSink;
+  signal?: AbortSignal; // Stops the run; unfinished chunks come back as failed
+  onProgress?: (chunks: ChunkState[]) => void;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+// generateSpeech retries transient failures itself until audio has reached the sink.
+// After that it gives up, so the pipeline restarts the sink and resends the chunk;
+// failures before any audio are final here.
+const DEFAULT_MAX_ATTEMPTS = 2;
+
+export const createChunkStates = (chunks: string[]): ChunkState[] =>
+  chunks.map((text, index) => ({ index, text, status: 'pending', attempts: 0 }));
+
+// Synthesize every chunk that isn't already done, with a bounded number of requests
+// in flight. Chunks that were completed by an earlier run are left untouched, so
+// calling this again on the returned states only retries the failures.
+export const synthesizeChunks = async (
+  initial: ChunkState[],
+  options: PipelineOptions
+): Promise<ChunkState[]> => {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+  const states = initial.map(c => (c.status === 'done' ? c : { ...c, status: 'pending' as ChunkStatus, error: undefined, failure: undefined }));
+  const queue = states.filter(c => c.status !== 'done').map(c => c.index);
+
+  const update = (index: number, patch: Partial<ChunkState>) => {
+    states[index] = { ...states[index], ...patch };
+    options.onProgress?.([...states]);
+  };
+
+  const runChunk = async (index: number) => {
+    const sink = options.audioSink;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      update(index, { status: 'generating', attempts: states[index].attempts + 1 });
+      if (attempt > 1) sink?.restart(index);
+      let emitted = false;
+      try {
+        const { audioBuffer, warnings, cached } = await generateSpeech({
+          text: states[index].text,
+          voiceId: states[index].voiceId ?? options.voiceId,
+          isSSML: !states[index].speakers,
+          speakers: states[index].speakers,
+          bypassCache: options.bypassCache,
+          onAudio: sink && (pcm => {
+            emitted = true;
+            sink.audio(index, pcm);
+          }),
+          signal: options.signal
+        });
+        update(index, { status: 'done', audioBuffer, warnings, cached, error: undefined, failure: undefined });
+        sink?.settle(index);
+        return;
+      } catch (err) {
+        const error = toTTSError(err, options.signal);
+        if (!error.retryable || !emitted || attempt === maxAttempts) {
+          update(index, { status: 'failed', error: error.message, failure: error });
+          sink?.settle(index);
+          return;
+        }
+        try {
+          await sleep(retryDelay(attempt, error), options.signal);
+        } catch {
+          const cancelled = new CancelledError();
+          update(index, { status: 'failed', error: cancelled.message, failure: cancelled });
+          sink?.settle(index);
+          return;
+        }
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (queue.length > 0 && !options.signal?.aborted) {
+      const index = queue.shift()!;
+      await runChunk(index);
+    }
+  };
+
+  options.onProgress?.([...states]);
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+  // Chunks a cancelled run never reached are failed too, so a retry picks them up
+  if (queue.length > 0) {
+    const cancelled = new CancelledError();
+    queue.forEach(index => update(index, { status: 'failed', error: cancelled.message, failure: cancelled }));
+  }
+
+  return states;
+};
+
+// Join the chunk audio in order. Every chunk must have completed.
+export const stitchChunks = (chunks: ChunkState[], crossfadeMs?: number): PcmBuffer => {
+  const buffers = chunks.map(c => {
+    if (c.status !== 'done' || !c.audioBuffer) {
+      throw new Error(`Chunk ${c.index + 1} has no audio.`);
+    }
+    return c.audioBuffer;
+  });
+  return concatAudioBuffers(buffers, crossfadeMs);
+};
+
+// Unique compiler warnings across all chunks
+export const collectWarnings = (chunks: ChunkState[]): string[] =>
+  Array.from(new Set(chunks.flatMap(c => c.warnings ?? [])));
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { splitIntoChunks, splitIntoPhrases } from './textChunker';
+
+describe('splitIntoPhrases', () => {
+  it('breaks after sentence punctuation in Arabic and Latin text', () => {
+    expect(splitIntoPhrases('مرحبا. كيف حالك؟ Fine!\nنعم')).toEqual(['مرحبا.', 'كيف حالك؟', 'Fine!', 'نعم']);
+  });
+
+  it('keeps decimals and thousands separators inside their number', () => {
+    expect(splitIntoPhrases('ارتفع السعر 3.5 بالمئة. ثم هبط.')).toEqual(['ارتفع السعر 3.5 بالمئة.', 'ثم هبط.']);
+    expect(splitIntoPhrases('Sales reached 1,000 units, then 2,500 units, then fell back to almost nothing at all', 20))
+      .toEqual(['Sales reached 1,000 units,', 'then 2,500 units,', 'then fell back to almost nothing at all']);
+    expect(splitIntoPhrases('بلغ ٣.٥ مليون. انتهى.')).toEqual(['بلغ ٣.٥ مليون.', 'انتهى.']);
+  });
+
+  it('still breaks at a point after a number that ends a sentence', () => {
+    expect(splitIntoPhrases('Chapter 3. Next one.')).toEqual(['Chapter 3.', 'Next one.']);
+  });
+});
+
+describe('splitIntoChunks', () => {
+  it('never cuts a number when a chunk fills up', () => {
+    const text = 'The total was 1,234.56 dollars. '.repeat(6);
+    const chunks = splitIntoChunks(text, 40);
+    expect(chunks.every(c => c.length <= 40)).toBe(true);
+    expect(chunks.every(c => c.includes('1,234.56'))).toBe(true);
+  });
+
+  it('closes and reopens SSML elements across a break', () => {
+    const chunks = splitIntoChunks('<speak><prosody rate="slow">One sentence here. Another one there.</prosody></speak>', 20);
+    expect(chunks).toEqual([
+      '<speak><prosody rate="slow">One sentence here. </prosody></speak>',
+      '<speak><prosody rate="slow">Another one there.</prosody></speak>'
+    ]);
+  });
+});
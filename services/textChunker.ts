@@ -0,0 +1,153 @@
+// Splits long text (plain or SSML) into pieces small enough for a single TTS call.
+// Breaks fall after sentence/clause punctuation or newlines, and any SSML elements
+// still open at a break are closed at the end of the chunk and re-opened in the next one.
+
+export const DEFAULT_MAX_CHUNK_CHARS = 800;
+
+// A point or comma between digits is part of a number ("3.5", "1,000"), not a break
+const DIGIT = '[0-9٠-٩]';
+const outsideNumber = (mark: string) => `(?<!${DIGIT})${mark}|${mark}(?!${DIGIT})`;
+const SENTENCE_END = new RegExp(`((?:[!?؟\\n]|${outsideNumber('\\.')})+\\s*)`);
+const CLAUSE_END = new RegExp(`((?:[،؛;]|${outsideNumber(',')})+\\s*)`);
+
+type Token =
+  | { kind: 'text'; value: string }
+  | { kind: 'open'; name: string; raw: string }
+  | { kind: 'close'; name: string; raw: string }
+  | { kind: 'void'; raw: string };
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  const tagRegex = /<[^>]+>/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagRegex.exec(input)) !== null) {
+    if (match.index > last) {
+      tokens.push({ kind: 'text', value: input.slice(last, match.index) });
+    }
+    const raw = match[0];
+    const name = (raw.match(/^<\/?\s*([\w:-]+)/)?.[1] || '').toLowerCase();
+
+    if (raw.startsWith('<?') || raw.startsWith('<!') || raw.endsWith('/>') || !name) {
+      tokens.push({ kind: 'void', raw });
+    } else if (raw.startsWith('</')) {
+      tokens.push({ kind: 'close', name, raw });
+    } else {
+      tokens.push({ kind: 'open', name, raw });
+    }
+    last = match.index + raw.length;
+  }
+  if (last < input.length) {
+    tokens.push({ kind: 'text', value: input.slice(last) });
+  }
+  return tokens;
+};
+
+// Split keeping the delimiter attached to the preceding piece
+const splitAfter = (text: string, delimiter: RegExp): string[] => {
+  const parts = text.split(delimiter);
+  const pieces: string[] = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    const piece = parts[i] + (parts[i + 1] || '');
+    if (piece) pieces.push(piece);
+  }
+  return pieces;
+};
+
+// Plain text as sentences, and long sentences as clauses, e.g. for caption cues
+export const splitIntoPhrases = (text: string, maxChars: number = 80): string[] =>
+  splitAfter(text, SENTENCE_END)
+    .flatMap(sentence => (sentence.trim().length > maxChars ? splitAfter(sentence, CLAUSE_END) : [sentence]))
+    .map(phrase => phrase.trim())
+    .filter(Boolean);
+
+// Break a text run into pieces no longer than maxChars, preferring sentence
+// boundaries, then clause boundaries, then whitespace, then a hard cut.
+const segmentText = (text: string, maxChars: number): string[] => {
+  const result: string[] = [];
+
+  for (const sentence of splitAfter(text, SENTENCE_END)) {
+    if (sentence.length <= maxChars) {
+      result.push(sentence);
+      continue;
+    }
+    for (const clause of splitAfter(sentence, CLAUSE_END)) {
+      if (clause.length <= maxChars) {
+        result.push(clause);
+        continue;
+      }
+      let current = '';
+      for (const word of clause.split(/(?<=\s)/)) {
+        if (current && current.length + word.length > maxChars) {
+          result.push(current);
+          current = '';
+        }
+        if (word.length > maxChars) {
+          for (let i = 0; i < word.length; i += maxChars) {
+            result.push(word.slice(i, i + maxChars));
+          }
+        } else {
+          current += word;
+        }
+      }
+      if (current) result.push(current);
+    }
+  }
+
+  return result;
+};
+
+export const splitIntoChunks = (input: string, maxChars: number = DEFAULT_MAX_CHUNK_CHARS): string[] => {
+  const chunks: string[] = [];
+  const openTags: { name: string; raw: string }[] = [];
+
+  let body = '';
+  let spokenLength = 0;
+
+  const startChunk = () => {
+    body = openTags.map(t => t.raw).join('');
+    spokenLength = 0;
+  };
+
+  const flush = () => {
+    if (spokenLength > 0) {
+      const closing = [...openTags].reverse().map(t => `</${t.name}>`).join('');
+      chunks.push((body + closing).trim());
+    }
+    startChunk();
+  };
+
+  startChunk();
+
+  for (const token of tokenize(input)) {
+    switch (token.kind) {
+      case 'open':
+        openTags.push({ name: token.name, raw: token.raw });
+        body += token.raw;
+        break;
+      case 'close': {
+        const idx = openTags.map(t => t.name).lastIndexOf(token.name);
+        if (idx !== -1) openTags.splice(idx);
+        body += token.raw;
+        break;
+      }
+      case 'void':
+        body += token.raw;
+        break;
+      case 'text':
+        for (const piece of segmentText(token.value, maxChars)) {
+          const pieceLength = piece.trim().length;
+          if (spokenLength > 0 && spokenLength + pieceLength > maxChars) {
+            flush();
+          }
+          body += piece;
+          spokenLength += pieceLength;
+        }
+        break;
+    }
+  }
+
+  flush();
+  return chunks;
+};
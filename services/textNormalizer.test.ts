@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { cleanArabicText, normalizeArabicText } from './textNormalizer';
+import { SUPPORTED_DIALECTS } from '../types';
+
+const msa = (text: string) => normalizeArabicText(text, 'ar-XA');
+const cairene = (text: string) => normalizeArabicText(text, 'ar-EG');
+
+describe('numbers', () => {
+  it.each([
+    ['0', 'صفر'],
+    ['15', 'خمسة عشر'],
+    ['21', 'واحد وعشرون'],
+    ['1000', 'ألف'],
+    ['2000', 'ألفان'],
+    ['3000', 'ثلاثة آلاف'],
+    ['11000', 'أحد عشر ألف'],
+    ['103000', 'مئة وثلاثة آلاف'],
+    ['110000', 'مئة وعشرة آلاف'],
+    ['5000000', 'خمسة ملايين'],
+    ['1234567', 'مليون ومئتان وأربعة وثلاثون ألف وخمسمئة وسبعة وستون'],
+    ['3.05', 'ثلاثة فاصلة صفر خمسة'],
+  ])('reads %s in MSA', (input, expected) => {
+    expect(msa(input)).toBe(expected);
+  });
+
+  it.each([
+    ['15', 'خمستاشر'],
+    ['103000', 'مية وتلات آلاف'],
+  ])('reads %s in Cairene', (input, expected) => {
+    expect(cairene(input)).toBe(expected);
+  });
+
+  it('uses the Sa\'idi differences', () => {
+    expect(normalizeArabicText('8', 'ar-EG-Saidi')).toBe('تمنية');
+  });
+
+  it('falls back to MSA for dialects without rules', () => {
+    expect(normalizeArabicText('15', 'ar-LB')).toBe('خمسة عشر');
+  });
+});
+
+describe('currencies and percentages', () => {
+  it.each([
+    ['50 ريال', 'خمسون ريالًا'],
+    ['ريال 3', 'ثلاثة ريالات'],
+    ['$5', 'خمسة دولارات'],
+    ['12 جنيه', 'اثنا عشر جنيهًا'],
+    ['25%', 'خمسة وعشرون في المئة'],
+  ])('reads %s', (input, expected) => {
+    expect(msa(input)).toBe(expected);
+  });
+
+  it('puts the number after the noun for one', () => {
+    expect(cairene('1 ريال')).toBe('ريال واحد');
+  });
+});
+
+describe('dates, times and phone numbers', () => {
+  it('reads dates per dialect', () => {
+    expect(msa('2024-03-15')).toBe('الخامس عشر من مارس عام ألفين وأربعة وعشرين');
+    expect(cairene('15/3/2024')).toBe('خمستاشر مارس ألفين وأربعة وعشرين');
+  });
+
+  it('reads times', () => {
+    expect(msa('10:30')).toBe('الساعة العاشرة والنصف');
+    expect(cairene('14:45')).toBe('الساعة تلاتة إلا ربع بالليل');
+  });
+
+  it('reads Hijri years in the genitive', () => {
+    expect(msa('1445 ه')).toBe('ألف وأربعمئة وخمسة وأربعين هجرية');
+  });
+
+  it('reads phone numbers digit by digit', () => {
+    expect(cairene('+20 100 123 4567')).toBe('زائد اتنين صفر، واحد صفر صفر، واحد اتنين تلاتة، أربعة خمسة ستة سبعة');
+  });
+});
+
+describe('abbreviations and cleanup', () => {
+  it('expands abbreviations and spells Latin initialisms', () => {
+    expect(msa('د.أحمد')).toBe('الدكتور أحمد');
+    expect(msa('USB')).toBe('يو إس بي');
+  });
+
+  it('turns Arabic-Indic digits and separators into ASCII', () => {
+    expect(cleanArabicText('١٢٣٬٤٥٦٫٥')).toBe('123456.5');
+    expect(msa('١٢٣')).toBe('مئة وثلاثة وعشرون');
+  });
+
+  it('removes tatweel and invisible marks', () => {
+    expect(cleanArabicText('مـــرحبا‏')).toBe('مرحبا');
+  });
+});
+
+describe('dialect rules from dialects.json', () => {
+  it('lets a new dialect extend another with only its differences', () => {
+    SUPPORTED_DIALECTS.push({
+      code: 'ar-EG-test',
+      label: 'Test',
+      nativeLabel: 'Test',
+      adaptationGuide: '',
+      deliveryInstructions: '',
+      normalization: { extends: 'ar-EG', percent: 'بالمية', time: { morning: 'بدري' } },
+    });
+    try {
+      expect(normalizeArabicText('15%', 'ar-EG-test')).toBe('خمستاشر بالمية');
+      expect(normalizeArabicText('9:30 ص', 'ar-EG-test')).toBe('الساعة تسعة ونص بدري');
+    } finally {
+      SUPPORTED_DIALECTS.pop();
+    }
+  });
+
+  it('reads a dialect with incomplete rules as MSA', () => {
+    SUPPORTED_DIALECTS.push({
+      code: 'ar-partial-test',
+      label: 'Test',
+      nativeLabel: 'Test',
+      adaptationGuide: '',
+      deliveryInstructions: '',
+      normalization: { percent: 'بالمية' },
+    });
+    try {
+      expect(normalizeArabicText('15%', 'ar-partial-test')).toBe('خمسة عشر في المئة');
+    } finally {
+      SUPPORTED_DIALECTS.pop();
+    }
+  });
+});
@@ -0,0 +1,284 @@
+import { DialectNormalization, NormalizationRules, NumberWords, CurrencyWords, SUPPORTED_DIALECTS } from "../types";
+
+// Rewrites typed text into what should actually be spoken: digits, dates, times,
+// currencies, percentages, phone numbers and abbreviations become Arabic words, and
+// invisible or decorative Unicode is cleaned up. Wording comes from each dialect's
+// `normalization` in dialects.json, so MSA, Cairene and Sa'idi can each read "15" their way.
+
+// Used for dialects without rules of their own, and when a dialect's rules are incomplete
+const FALLBACK_DIALECT = 'ar-XA';
+
+const REQUIRED_RULES: (keyof NormalizationRules)[] = [
+  'numbers', 'zero', 'plus', 'decimalPoint', 'percent', 'months', 'dateFormat', 'time', 'currencies', 'yearSuffix', 'abbreviations'
+];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// `extends` chains are followed to their root, then each level is laid over its parent
+const resolveNormalization = (code: string, seen: Set<string> = new Set()): Partial<NormalizationRules> | null => {
+  if (seen.has(code)) return null;
+  seen.add(code);
+  const own: DialectNormalization | undefined = SUPPORTED_DIALECTS.find(d => d.code === code)?.normalization;
+  if (!own) return null;
+  const { extends: parentCode, ...rules } = own;
+  const parent = parentCode ? resolveNormalization(parentCode, seen) : null;
+  if (!parent) return rules as Partial<NormalizationRules>;
+  const merged: Record<string, unknown> = { ...parent };
+  for (const [key, value] of Object.entries(rules)) {
+    const base = merged[key];
+    merged[key] = isPlainObject(base) && isPlainObject(value) ? { ...base, ...value } : value;
+  }
+  return merged as Partial<NormalizationRules>;
+};
+
+const isComplete = (rules: Partial<NormalizationRules> | null): rules is NormalizationRules =>
+  !!rules && REQUIRED_RULES.every(key => rules[key] !== undefined);
+
+const rulesCache = new Map<string, NormalizationRules>();
+
+const rulesFor = (dialectCode: string): NormalizationRules => {
+  const cached = rulesCache.get(dialectCode);
+  if (cached) return cached;
+  const own = resolveNormalization(dialectCode);
+  const fallback = resolveNormalization(FALLBACK_DIALECT);
+  if (!isComplete(fallback)) throw new Error(`dialects.json: the ${FALLBACK_DIALECT} normalization rules are incomplete.`);
+  const rules = isComplete(own) ? own : fallback;
+  rulesCache.set(dialectCode, rules);
+  return rules;
+};
+
+// Symbols and codes as they appear in text, mapped to a CurrencyWords key
+const CURRENCY_SYMBOLS: [symbol: string, code: string][] = [
+  ['ج.م', 'EGP'], ['جنيه', 'EGP'], ['EGP', 'EGP'], ['LE', 'EGP'],
+  ['ر.س', 'SAR'], ['ريال', 'SAR'], ['SAR', 'SAR'],
+  ['د.إ', 'AED'], ['AED', 'AED'],
+  ['$', 'USD'], ['USD', 'USD'],
+  ['€', 'EUR'], ['EUR', 'EUR'],
+];
+
+// How Latin capitals are read out when spelling an abbreviation
+const LATIN_LETTERS: Record<string, string> = {
+  A: 'إيه', B: 'بي', C: 'سي', D: 'دي', E: 'إي', F: 'إف', G: 'جي', H: 'إتش', I: 'آي',
+  J: 'جيه', K: 'كيه', L: 'إل', M: 'إم', N: 'إن', O: 'أو', P: 'بي', Q: 'كيو', R: 'آر',
+  S: 'إس', T: 'تي', U: 'يو', V: 'في', W: 'دبليو', X: 'إكس', Y: 'واي', Z: 'زد',
+};
+
+// ---------- Numbers ----------
+
+const below100 = (n: number, words: NumberWords): string => {
+  if (n <= 10) return words.ones[n];
+  if (n < 20) return words.teens[n - 11];
+  const unit = n % 10;
+  const tens = words.tens[Math.floor(n / 10) - 2];
+  return unit === 0 ? tens : `${words.ones[unit]} و${tens}`;
+};
+
+const below1000 = (n: number, words: NumberWords): string => {
+  const parts: string[] = [];
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (hundreds) parts.push(words.hundreds[hundreds - 1]);
+  if (rest) parts.push(below100(rest, words));
+  return parts.join(' و');
+};
+
+const spellNumber = (n: number, rules: NormalizationRules, genitive: boolean = false): string => {
+  const words: NumberWords = genitive && rules.genitive ? { ...rules.numbers, ...rules.genitive } : rules.numbers;
+  if (n === 0) return rules.zero;
+
+  const parts: string[] = [];
+  let rest = n;
+  for (const { value, singular, dual, plural } of words.scales) {
+    const count = Math.floor(rest / value);
+    rest %= value;
+    if (count === 0) continue;
+    if (count === 1) parts.push(singular);
+    else if (count === 2) parts.push(dual);
+    else if (count <= 10) parts.push(`${words.counted[count - 3]} ${plural}`);
+    else {
+      // The noun follows the last two digits of the count: 103000 is "مئة وثلاثة آلاف"
+      const lastTwo = count % 100;
+      if (lastTwo >= 3 && lastTwo <= 10) {
+        parts.push(`${below1000(count - lastTwo, words)} و${words.counted[lastTwo - 3]} ${plural}`);
+      } else {
+        parts.push(`${below1000(count, words)} ${singular}`);
+      }
+    }
+  }
+  if (rest) parts.push(below1000(rest, words));
+  return parts.join(' و');
+};
+
+const spellDigits = (digits: string, rules: NormalizationRules): string =>
+  Array.from(digits).map(d => rules.numbers.ones[Number(d)]).join(' ');
+
+// "12", "3.5", "0.05": integers as words, fractions after the decimal word
+const spellDecimal = (value: string, rules: NormalizationRules): string => {
+  const [whole, fraction] = value.split('.');
+  if (whole.length > 12) return spellDigits(whole, rules);
+  const spokenWhole = spellNumber(Number(whole), rules);
+  if (!fraction) return spokenWhole;
+  const spokenFraction = fraction.startsWith('0') || fraction.length > 12
+    ? spellDigits(fraction, rules)
+    : spellNumber(Number(fraction), rules);
+  return `${spokenWhole} ${rules.decimalPoint} ${spokenFraction}`;
+};
+
+const countedNoun = (n: number, words: CurrencyWords, rules: NormalizationRules): string => {
+  if (n === 1) return `${words.singular} ${rules.numbers.ones[1]}`;
+  if (n === 2) return words.dual;
+  const spoken = spellNumber(n, rules);
+  const lastTwo = n % 100;
+  if (lastTwo >= 3 && lastTwo <= 10) return `${spoken} ${words.plural}`;
+  return `${spoken} ${lastTwo >= 11 ? words.counted : words.singular}`;
+};
+
+// ---------- Cleanup ----------
+
+const INVISIBLE_CHARS = /[\u00AD\u200B\u200E\u200F\u202A-\u202E\u2060\u2066-\u2069\uFEFF]/g;
+const PRESENTATION_FORMS = /[\uFB50-\uFDFF\uFE70-\uFEFC]+/g;
+
+export const cleanArabicText = (text: string): string =>
+  text
+    .replace(INVISIBLE_CHARS, '')
+    .replace(PRESENTATION_FORMS, forms => forms.normalize('NFKC'))
+    .replace(/\u0640/g, '') // Tatweel
+    .replace(/[\u0660-\u0669]/g, d => String(d.charCodeAt(0) - 0x0660)) // Arabic-Indic digits
+    .replace(/[\u06F0-\u06F9]/g, d => String(d.charCodeAt(0) - 0x06F0)) // Extended (Persian) digits
+    .replace(/\u066B/g, '.') // Arabic decimal separator
+    .replace(/\u066C/g, ',') // Arabic thousands separator
+    .replace(/\u066A/g, '%')
+    .replace(/(\d),(?=\d{3}(?!\d))/g, '$1')
+    .replace(/[ \t\u00A0]{2,}/g, ' ');
+
+// ---------- Expansion ----------
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// \b only knows ASCII word characters, so Arabic-safe boundaries are spelled out
+const NOT_LETTER_BEFORE = '(?<![\\p{L}\\p{N}])';
+const NOT_LETTER_AFTER = '(?![\\p{L}\\p{N}])';
+
+const expandPhones = (text: string, rules: NormalizationRules) =>
+  text.replace(/(?<![\d.])(\+|00)?(0?\d[\d -]{6,}\d)(?![\d.])/g, (match, prefix: string | undefined, body: string) => {
+    const digitCount = body.replace(/\D/g, '').length;
+    if (!prefix && !body.startsWith('0')) return match;
+    if (digitCount < 8 || digitCount > 15) return match;
+    const groups = body.split(/[ -]+/).map(group => spellDigits(group, rules));
+    const lead = prefix === '+' ? `${rules.plus} ` : prefix === '00' ? `${spellDigits('00', rules)} ` : '';
+    return lead + groups.join('، ');
+  });
+
+const formatDate = (day: number, month: number, year: number, rules: NormalizationRules): string => {
+  const values: Record<string, () => string> = {
+    day: () => spellNumber(day, rules),
+    ordinalDay: () => rules.ordinalDays?.[day - 1] ?? spellNumber(day, rules),
+    month: () => rules.months[month - 1],
+    year: () => spellNumber(year, rules),
+    yearGenitive: () => spellNumber(year, rules, true),
+  };
+  return rules.dateFormat.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name]?.() ?? placeholder);
+};
+
+const expandDates = (text: string, rules: NormalizationRules) => {
+  const format = (day: number, month: number, year: number, match: string) =>
+    month >= 1 && month <= 12 && day >= 1 && day <= 31
+      ? formatDate(day, month, year, rules)
+      : match;
+  return text
+    .replace(/(?<!\d)(\d{4})-(\d{1,2})-(\d{1,2})(?!\d)/g, (m, y, mo, d) => format(Number(d), Number(mo), Number(y), m))
+    .replace(/(?<!\d)(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?!\d)/g, (m, d, mo, y) => format(Number(d), Number(mo), Number(y), m));
+};
+
+const expandTimes = (text: string, rules: NormalizationRules) =>
+  text.replace(
+    // A "الساعة" already in the text is absorbed so it isn't said twice
+    new RegExp(`(?:${escapeRegExp(rules.time.prefix)}\\s+)?(?<![\\d:])(\\d{1,2}):(\\d{2})(?![\\d:])(?:\\s*(ص|م|AM|PM|am|pm)${NOT_LETTER_AFTER})?`, 'gu'),
+    (match, h: string, m: string, period: string | undefined) => {
+      const hour = Number(h);
+      const minute = Number(m);
+      if (hour > 23 || minute > 59) return match;
+
+      const { time } = rules;
+      const isEvening = period ? /^(م|PM|pm)$/.test(period) : hour > 12;
+      const hour12 = (hour % 12) || 12;
+      const nextHour = (hour12 % 12) + 1;
+
+      let spoken: string;
+      if (minute === 0) spoken = time.hours[hour12 - 1];
+      else if (minute === 15) spoken = `${time.hours[hour12 - 1]} ${time.quarter}`;
+      else if (minute === 20) spoken = `${time.hours[hour12 - 1]} ${time.third}`;
+      else if (minute === 30) spoken = `${time.hours[hour12 - 1]} ${time.half}`;
+      else if (minute === 40) spoken = `${time.hours[nextHour - 1]} ${time.toThird}`;
+      else if (minute === 45) spoken = `${time.hours[nextHour - 1]} ${time.toQuarter}`;
+      else {
+        const unit = minute >= 3 && minute <= 10 ? time.minutes : time.minute;
+        spoken = `${time.hours[hour12 - 1]} و${spellNumber(minute, rules)} ${unit}`;
+      }
+
+      const suffix = period || hour > 12 ? ` ${isEvening ? time.evening : time.morning}` : '';
+      return `${time.prefix} ${spoken}${suffix}`;
+    }
+  );
+
+const expandCurrencies = (text: string, rules: NormalizationRules) => {
+  const symbols = CURRENCY_SYMBOLS.map(([symbol]) => escapeRegExp(symbol)).join('|');
+  const amount = '(\\d+(?:\\.\\d+)?)';
+  // A dialect that doesn't list a currency leaves its amounts to expandNumbers
+  const speak = (match: string, value: string, symbol: string) => {
+    const code = CURRENCY_SYMBOLS.find(([s]) => s === symbol)![1];
+    const words = rules.currencies[code];
+    if (!words) return match;
+    return value.includes('.')
+      ? `${spellDecimal(value, rules)} ${words.singular}`
+      : countedNoun(Number(value), words, rules);
+  };
+  return text
+    .replace(new RegExp(`${amount}\\s*(${symbols})${NOT_LETTER_AFTER}`, 'gu'), (match, value, symbol) => speak(match, value, symbol))
+    .replace(new RegExp(`${NOT_LETTER_BEFORE}(${symbols})\\s*${amount}`, 'gu'), (match, symbol, value) => speak(match, value, symbol));
+};
+
+const expandPercentages = (text: string, rules: NormalizationRules) =>
+  text.replace(/(\d+(?:\.\d+)?)\s*%/g, (_, value) => `${spellDecimal(value, rules)} ${rules.percent}`);
+
+const expandYearSuffixes = (text: string, rules: NormalizationRules) =>
+  text.replace(
+    new RegExp(`(?<!\\d)(\\d{3,4})\\s*(م|ه)${NOT_LETTER_AFTER}\\.?`, 'gu'),
+    (_, year, suffix) =>
+      `${spellNumber(Number(year), rules, true)} ${suffix === 'م' ? rules.yearSuffix.gregorian : rules.yearSuffix.hijri}`
+  );
+
+const expandAbbreviations = (text: string, rules: NormalizationRules) => {
+  let result = text;
+  // Longest first so "أ.د." wins over "أ."
+  const entries = Object.entries(rules.abbreviations).sort((a, b) => b[0].length - a[0].length);
+  for (const [abbreviation, expansion] of entries) {
+    // A trailing dot already ends the abbreviation, and the space after it is often missing ("د.أحمد")
+    const pattern = abbreviation.endsWith('.')
+      ? `${NOT_LETTER_BEFORE}${escapeRegExp(abbreviation)}\\s*`
+      : `${NOT_LETTER_BEFORE}${escapeRegExp(abbreviation)}${NOT_LETTER_AFTER}`;
+    const replacement = abbreviation.endsWith('.') ? `${expansion} ` : expansion;
+    result = result.replace(new RegExp(pattern, 'gu'), replacement);
+  }
+  // Latin initialisms such as "USB" or "CEO" are spelled letter by letter
+  return result.replace(/\b[A-Z]{2,5}\b/g, word => Array.from(word).map(l => LATIN_LETTERS[l]).join(' '));
+};
+
+const expandNumbers = (text: string, rules: NormalizationRules) =>
+  text.replace(/\d+(?:\.\d+)?/g, value => spellDecimal(value, rules));
+
+// Full pipeline. Order matters: the more specific patterns must see the digits first.
+export const normalizeArabicText = (text: string, dialectCode: string): string => {
+  const rules = rulesFor(dialectCode);
+  let result = cleanArabicText(text);
+  result = expandDates(result, rules);
+  result = expandTimes(result, rules);
+  result = expandPhones(result, rules);
+  result = expandCurrencies(result, rules);
+  result = expandPercentages(result, rules);
+  result = expandYearSuffixes(result, rules);
+  result = expandAbbreviations(result, rules);
+  result = expandNumbers(result, rules);
+  return result.replace(/[ \t]{2,}/g, ' ');
+};
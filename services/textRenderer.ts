@@ -0,0 +1,59 @@
+import { VoiceSettings } from "../types";
+import { PcmBuffer } from "./audioUtils";
+import { LexiconEntry } from "./lexicon";
+import { textToSSML } from "./spokenText";
+import { splitIntoChunks } from "./textChunker";
+import { ChunkState, collectWarnings, createChunkStates, stitchChunks, synthesizeChunks } from "./synthesisPipeline";
+import { canEnhance, renderTake } from "./outputRenderer";
+
+// One text in, finished audio out, with no UI and no Web Audio required: the path a
+// simple or SSML take follows in the app, for scripts and the CLI.
+
+export interface TextRenderOptions {
+  text: string;
+  isSSML?: boolean; // `text` is SSML already; lexicon, normalization and local prosody are skipped
+  voiceId: string;
+  dialectCode: string;
+  settings: VoiceSettings;
+  lexiconEntries?: LexiconEntry[];
+  normalize?: boolean;
+  bypassCache?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (chunks: ChunkState[]) => void;
+}
+
+export interface RenderedText {
+  audio: PcmBuffer;
+  ssml: string; // What was sent for synthesis
+  warnings: string[];
+  chunks: number;
+  cached: boolean; // Every chunk came from the audio cache
+}
+
+export const renderText = async (options: TextRenderOptions): Promise<RenderedText> => {
+  const { settings } = options;
+  const ssml = options.isSSML
+    ? options.text
+    : textToSSML(options.text, settings, {
+        dialectCode: options.dialectCode,
+        lexiconEntries: options.lexiconEntries,
+        normalize: options.normalize
+      });
+
+  const chunks = await synthesizeChunks(createChunkStates(splitIntoChunks(ssml)), {
+    voiceId: options.voiceId,
+    bypassCache: options.bypassCache,
+    signal: options.signal,
+    onProgress: options.onProgress
+  });
+  const failed = chunks.find(c => c.status === 'failed');
+  if (failed) throw failed.failure ?? new Error(failed.error || 'Synthesis failed.');
+
+  const audio = await renderTake(stitchChunks(chunks), settings, !options.isSSML);
+  const warnings = collectWarnings(chunks);
+  if (settings.clarity > 0 && !canEnhance()) {
+    warnings.push("Clarity was not applied: it needs Web Audio, which is not available here.");
+  }
+
+  return { audio, ssml, warnings, chunks: chunks.length, cached: chunks.every(c => c.cached) };
+};
@@ -0,0 +1,196 @@
+// Everything that can go wrong in a synthesis call, as one error type per cause. Each
+// carries a message in English and Arabic for the UI and says whether trying again
+// might help. Providers throw these; anything else is classified by `toTTSError`.
+
+export type TTSErrorCode =
+  | 'missing-key'
+  | 'invalid-key'
+  | 'rate-limit'
+  | 'content-blocked'
+  | 'no-audio'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'cancelled'
+  | 'too-large'
+  | 'bad-request'
+  | 'not-found'
+  | 'unknown';
+
+export interface LocalizedMessage {
+  en: string;
+  ar: string;
+}
+
+export class TTSError extends Error {
+  readonly code: TTSErrorCode;
+  readonly retryable: boolean;
+  readonly localized: LocalizedMessage;
+
+  constructor(code: TTSErrorCode, localized: LocalizedMessage, retryable: boolean, options?: { cause?: unknown }) {
+    super(localized.en, options);
+    this.name = 'TTSError';
+    this.code = code;
+    this.localized = localized;
+    this.retryable = retryable;
+  }
+}
+
+export class MissingKeyError extends TTSError {
+  constructor() {
+    super('missing-key', {
+      en: "No API key is configured. Set API_KEY for the app, or switch to the Offline Mock provider.",
+      ar: "لم يتم ضبط مفتاح API. أضف المفتاح API_KEY للتطبيق أو اختر المزوّد التجريبي دون اتصال."
+    }, false);
+  }
+}
+
+export class InvalidKeyError extends TTSError {
+  constructor(cause?: unknown) {
+    super('invalid-key', {
+      en: "The API key was rejected. Check that it is correct and allowed to use the Gemini API.",
+      ar: "تم رفض مفتاح API. تأكد من صحته ومن أنه مسموح له باستخدام Gemini API."
+    }, false, { cause });
+  }
+}
+
+export class RateLimitError extends TTSError {
+  readonly retryAfterMs?: number; // From the server, when it said how long to wait
+
+  constructor(quotaExhausted: boolean, retryAfterMs?: number, cause?: unknown) {
+    super('rate-limit', quotaExhausted
+      ? {
+          en: "The API quota is used up. Wait for it to reset or raise the limit in Google AI Studio.",
+          ar: "تم استهلاك حصة الاستخدام. انتظر حتى تتجدد أو ارفع الحد من Google AI Studio."
+        }
+      : {
+          en: "Too many requests at once. Retrying shortly.",
+          ar: "عدد الطلبات كبير جداً في وقت واحد. ستتم إعادة المحاولة بعد قليل."
+        }, !quotaExhausted, { cause });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ContentBlockedError extends TTSError {
+  readonly reason?: string;
+
+  constructor(reason?: string) {
+    super('content-blocked', {
+      en: `The model refused this text${reason ? ` (${reason})` : ''}. Rephrase the passage and try again.`,
+      ar: `رفض النموذج هذا النص${reason ? ` (${reason})` : ''}. أعد صياغة المقطع وحاول مرة أخرى.`
+    }, false);
+    this.reason = reason;
+  }
+}
+
+export class NoAudioError extends TTSError {
+  constructor() {
+    super('no-audio', {
+      en: "The model answered without any audio.",
+      ar: "أجاب النموذج دون أي صوت."
+    }, true);
+  }
+}
+
+export class TimeoutError extends TTSError {
+  constructor(ms?: number) {
+    super('timeout', ms
+      ? {
+          en: `The speech service did not respond within ${Math.round(ms / 1000)} seconds.`,
+          ar: `لم تستجب خدمة الكلام خلال ${Math.round(ms / 1000)} ثانية.`
+        }
+      : {
+          en: "The speech service timed out.",
+          ar: "انتهت مهلة خدمة الكلام."
+        }, true);
+  }
+}
+
+export class NetworkError extends TTSError {
+  constructor(cause?: unknown) {
+    super('network', {
+      en: "Could not reach the speech service. Check your internet connection.",
+      ar: "تعذر الوصول إلى خدمة الكلام. تحقق من اتصالك بالإنترنت."
+    }, true, { cause });
+  }
+}
+
+export class ServerError extends TTSError {
+  constructor(status: number, cause?: unknown) {
+    super('server', {
+      en: `The speech service is having trouble (HTTP ${status}).`,
+      ar: `تواجه خدمة الكلام مشكلة (HTTP ${status}).`
+    }, true, { cause });
+  }
+}
+
+export class CancelledError extends TTSError {
+  constructor() {
+    super('cancelled', { en: "Generation was cancelled.", ar: "تم إلغاء التوليد." }, false);
+  }
+}
+
+export class RequestTooLargeError extends TTSError {
+  constructor(limit: string) {
+    super('too-large', {
+      en: `The request is larger than the speech server accepts (${limit}). Split the text into shorter parts.`,
+      ar: `الطلب أكبر مما يقبله خادم الكلام (${limit}). قسّم النص إلى أجزاء أقصر.`
+    }, false);
+  }
+}
+
+// Seconds from a "retryDelay": "17s" detail or a "Please retry in 17.2s" message
+const parseRetryAfter = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay"?\s*:\s*"| in )(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Map whatever a provider or fetch threw to a TTSError. An aborted signal wins: its
+// reason is the TimeoutError or CancelledError that caused the abort.
+export const toTTSError = (err: unknown, signal?: AbortSignal): TTSError => {
+  if (err instanceof TTSError) return err;
+  if (signal?.aborted) return signal.reason instanceof TTSError ? signal.reason : new CancelledError();
+
+  const name = (err as any)?.name;
+  const message = String((err as any)?.message ?? err ?? '');
+  const status: number | undefined = typeof (err as any)?.status === 'number' ? (err as any).status : undefined;
+
+  if (name === 'AbortError') return new CancelledError();
+
+  if (status !== undefined) {
+    if (/API[_ ]KEY|api key/i.test(message) || status === 401 || status === 403) return new InvalidKeyError(err);
+    // Per-minute limits clear by themselves; a daily or billing quota does not
+    if (status === 429) return new RateLimitError(/per[ _]?day|billing/i.test(message), parseRetryAfter(message), err);
+    if (status === 408 || status === 504) return new TimeoutError();
+    if (status >= 500) return new ServerError(status, err);
+  }
+
+  if (err instanceof TypeError && /fetch|network|load failed/i.test(message)) return new NetworkError(err);
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return new NetworkError(err);
+
+  return new TTSError('unknown', { en: message || "Speech generation failed.", ar: "فشل توليد الكلام." }, false, { cause: err });
+};
+
+// How a TTSError crosses the speech proxy: the server sends this as `{ error }` and
+// the client turns it back into an error of the same code
+export interface TTSErrorPayload {
+  code: TTSErrorCode;
+  message: string;
+  messageAr: string;
+  retryable: boolean;
+  retryAfterMs?: number;
+}
+
+export const toErrorPayload = (error: TTSError): TTSErrorPayload => ({
+  code: error.code,
+  message: error.localized.en,
+  messageAr: error.localized.ar,
+  retryable: error.retryable,
+  retryAfterMs: error instanceof RateLimitError ? error.retryAfterMs : undefined
+});
+
+export const fromErrorPayload = (payload: TTSErrorPayload): TTSError => {
+  // Backoff looks for RateLimitError to honour the server's wait
+  if (payload.code === 'rate-limit') return new RateLimitError(!payload.retryable, payload.retryAfterMs);
+  return new TTSError(payload.code, { en: payload.message, ar: payload.messageAr }, payload.retryable);
+};
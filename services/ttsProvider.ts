@@ -0,0 +1,110 @@
+import { findVoice } from "./voiceCatalog";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+import { createProxyProvider } from "./proxyProvider";
+
+// A TTS backend turns a text prompt into raw mono Int16 PCM. Everything above this
+// interface (SSML compilation, chunking, local DSP, encoding) is provider-agnostic.
+// Providers report failures as the TTSError subclasses in ttsErrors.ts.
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface ProviderCapabilities {
+  ssml: boolean; // Accepts SSML as-is; otherwise it is compiled to plain prompts first
+  sampleRate: number; // Of the returned PCM
+  streaming: boolean; // Provides synthesizeStream
+  multiSpeaker: boolean; // Can render a two-speaker transcript in one call
+}
+
+export interface ProviderSpeaker {
+  speaker: string; // Must match the speaker label used in the text
+  voiceName: string; // Provider voice name
+}
+
+export interface SynthesisOptions {
+  voiceName: string; // Provider voice name
+  speakers?: ProviderSpeaker[];
+  signal?: AbortSignal; // Aborting ends the call with the signal's reason
+}
+
+export interface TTSProvider {
+  id: ProviderId;
+  label: string;
+  model: string; // Part of the cache key, so switching models never serves stale audio
+  capabilities: ProviderCapabilities;
+  synthesize: (prompt: string, options: SynthesisOptions) => Promise<ArrayBuffer>;
+  // Same audio as `synthesize`, yielded in pieces as the backend produces it. A piece
+  // may end mid-sample; joined in order the pieces form the full PCM.
+  synthesizeStream?: (prompt: string, options: SynthesisOptions) => AsyncGenerator<ArrayBuffer>;
+}
+
+// Gemini is called from the browser with a bundled key, or through the speech proxy
+export type Transport = 'direct' | 'proxy';
+
+export interface ProviderConfig {
+  providerId: ProviderId;
+  geminiModel: string;
+  transport: Transport;
+  proxyUrl: string; // Base URL of the speech proxy; empty for the page's own origin
+}
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Google Gemini' },
+  { id: 'mock', label: 'Offline Mock' },
+];
+
+const CONFIG_KEY = 'hamza.providerConfig';
+
+// Builds made with TTS_TRANSPORT=proxy default to the proxy (and carry no key)
+const DEFAULT_CONFIG: ProviderConfig = {
+  providerId: 'gemini',
+  geminiModel: DEFAULT_GEMINI_MODEL,
+  transport: process.env.TTS_TRANSPORT === 'proxy' ? 'proxy' : 'direct',
+  proxyUrl: process.env.TTS_PROXY_URL || '',
+};
+
+const loadConfig = (): ProviderConfig => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(CONFIG_KEY) : null;
+    return stored ? { ...DEFAULT_CONFIG, ...JSON.parse(stored) } : DEFAULT_CONFIG;
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+};
+
+let config: ProviderConfig = loadConfig();
+let activeProvider: TTSProvider | null = null;
+
+export const getProviderConfig = (): ProviderConfig => config;
+
+export const setProviderConfig = (next: ProviderConfig) => {
+  config = next;
+  activeProvider = null;
+  try {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(next));
+  } catch {
+    // Persisting is best-effort
+  }
+};
+
+export const createProvider = (cfg: ProviderConfig): TTSProvider => {
+  if (cfg.providerId === 'mock') return createMockProvider();
+  return cfg.transport === 'proxy' ? createProxyProvider(cfg.proxyUrl, cfg.geminiModel) : createGeminiProvider(cfg.geminiModel);
+};
+
+export const getActiveProvider = (): TTSProvider => {
+  if (!activeProvider) activeProvider = createProvider(config);
+  return activeProvider;
+};
+
+// Voice name a provider uses for one of our VoiceOptions
+export const resolveVoiceName = (voiceId: string, providerId: ProviderId = config.providerId): string => {
+  // A persona deleted since the request was made must not quietly speak as another voice
+  const voice = findVoice(voiceId);
+  if (!voice) throw new Error(`Unknown voice "${voiceId}".`);
+  const name = voice.providerVoices[providerId];
+  if (!name) {
+    throw new Error(`Voice "${voice.name}" has no mapping for the ${providerId} provider.`);
+  }
+  return name;
+};
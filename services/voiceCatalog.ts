@@ -0,0 +1,16 @@
+import { AVAILABLE_VOICES, VoiceOption } from "../types";
+
+// Every voice the studio can speak with: the built-in characters followed by the user's
+// personas. Personas load asynchronously, so the app registers them here once they are
+// read (and again after every edit) and everything resolving a voice id looks here.
+
+let personaVoices: VoiceOption[] = [];
+
+export const registerPersonaVoices = (voices: VoiceOption[]) => {
+  personaVoices = voices;
+};
+
+export const listVoices = (): VoiceOption[] => [...AVAILABLE_VOICES, ...personaVoices];
+
+export const findVoice = (voiceId: string): VoiceOption | undefined =>
+  AVAILABLE_VOICES.find(v => v.id === voiceId) ?? personaVoices.find(v => v.id === voiceId);
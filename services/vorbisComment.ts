@@ -0,0 +1,30 @@
+// Vorbis comment block shared by FLAC (VORBIS_COMMENT metadata) and Ogg Opus (OpusTags).
+// Lengths are little-endian; fields are "NAME=value" in UTF-8.
+
+export const VENDOR = "HAMZA Hilal Speech Studio";
+
+export const buildVorbisComment = (tags: Record<string, string | undefined>, prefix: string = ''): Uint8Array => {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode(VENDOR);
+  const comments = Object.entries(tags)
+    .filter(([, value]) => value && value.trim())
+    .map(([name, value]) => encoder.encode(`${name.toUpperCase()}=${value!.trim()}`));
+
+  const head = encoder.encode(prefix);
+  const size = head.length + 4 + vendor.length + 4 + comments.reduce((sum, c) => sum + 4 + c.length, 0);
+  const block = new Uint8Array(size);
+  const view = new DataView(block.buffer);
+  block.set(head, 0);
+  let offset = head.length;
+  view.setUint32(offset, vendor.length, true);
+  block.set(vendor, offset + 4);
+  offset += 4 + vendor.length;
+  view.setUint32(offset, comments.length, true);
+  offset += 4;
+  for (const comment of comments) {
+    view.setUint32(offset, comment.length, true);
+    block.set(comment, offset + 4);
+    offset += 4 + comment.length;
+  }
+  return block;
+};
@@ -0,0 +1,87 @@
+// Word-level diff between an original and a rewritten text, grouped into changes that
+// can be accepted or rejected one by one.
+
+export type DiffPart =
+  | { kind: 'equal'; text: string }
+  | { kind: 'change'; id: number; removed: string; added: string };
+
+// Words and the whitespace between them are separate tokens so spacing survives
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+
+// Longest common subsequence table is O(n*m); past this size fall back to one big change
+const MAX_TABLE_CELLS = 4_000_000;
+
+export const diffWords = (original: string, revised: string): DiffPart[] => {
+  const a = tokenize(original);
+  const b = tokenize(revised);
+
+  // Common prefix and suffix never need the table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: { kind: 'equal' | 'removed' | 'added'; token: string }[] = a.slice(0, prefix).map(token => ({ kind: 'equal', token }));
+
+  if (midA.length * midB.length > MAX_TABLE_CELLS) {
+    midA.forEach(token => ops.push({ kind: 'removed', token }));
+    midB.forEach(token => ops.push({ kind: 'added', token }));
+  } else {
+    const n = midA.length;
+    const m = midB.length;
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        ops.push({ kind: 'equal', token: midA[i] });
+        i++;
+        j++;
+      } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+        ops.push({ kind: 'added', token: midB[j++] });
+      } else {
+        ops.push({ kind: 'removed', token: midA[i++] });
+      }
+    }
+  }
+  a.slice(a.length - suffix).forEach(token => ops.push({ kind: 'equal', token }));
+
+  // Merge runs into parts. Whitespace alone between two changes is folded into one change,
+  // so "A B" -> "C D" reads as a single edit rather than two.
+  const parts: DiffPart[] = [];
+  let nextId = 0;
+  for (let k = 0; k < ops.length; k++) {
+    const op = ops[k];
+    const last = parts[parts.length - 1];
+    const bridgesChanges = op.kind === 'equal' && /^\s+$/.test(op.token)
+      && last?.kind === 'change' && ops[k + 1] && ops[k + 1].kind !== 'equal';
+
+    if (op.kind === 'equal' && !bridgesChanges) {
+      if (last?.kind === 'equal') last.text += op.token;
+      else parts.push({ kind: 'equal', text: op.token });
+      continue;
+    }
+
+    const change = last?.kind === 'change' ? last : { kind: 'change' as const, id: nextId++, removed: '', added: '' };
+    if (change !== last) parts.push(change);
+    if (op.kind !== 'added') change.removed += op.token;
+    if (op.kind !== 'removed') change.added += op.token;
+  }
+  return parts;
+};
+
+// Rebuild the text, taking the revised wording only for accepted changes
+export const applyDiff = (parts: DiffPart[], accepted: Set<number>): string =>
+  parts.map(part => (part.kind === 'equal' ? part.text : accepted.has(part.id) ? part.added : part.removed)).join('');
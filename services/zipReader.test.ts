@@ -0,0 +1,70 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { openZip } from './zipReader';
+import { createZip } from './zipWriter';
+
+const text = (data: Uint8Array | null) => (data ? new TextDecoder().decode(data) : null);
+
+// One entry with the given compression method, laid out by hand: local header, data,
+// central directory, end record. CRCs are left at zero; the reader does not check them.
+const singleEntryZip = (name: string, body: Uint8Array, method: number, size: number): Uint8Array => {
+  const nameBytes = new TextEncoder().encode(name);
+  const local = new Uint8Array(30 + nameBytes.length);
+  const lv = new DataView(local.buffer);
+  lv.setUint32(0, 0x04034B50, true);
+  lv.setUint16(8, method, true);
+  lv.setUint32(18, body.length, true);
+  lv.setUint32(22, size, true);
+  lv.setUint16(26, nameBytes.length, true);
+  local.set(nameBytes, 30);
+
+  const central = new Uint8Array(46 + nameBytes.length);
+  const cv = new DataView(central.buffer);
+  cv.setUint32(0, 0x02014B50, true);
+  cv.setUint16(10, method, true);
+  cv.setUint32(20, body.length, true);
+  cv.setUint32(24, size, true);
+  cv.setUint16(28, nameBytes.length, true);
+  cv.setUint32(42, 0, true);
+  central.set(nameBytes, 46);
+
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054B50, true);
+  ev.setUint16(8, 1, true);
+  ev.setUint16(10, 1, true);
+  ev.setUint32(12, central.length, true);
+  ev.setUint32(16, local.length + body.length, true);
+
+  const zip = new Uint8Array(local.length + body.length + central.length + end.length);
+  zip.set(local, 0);
+  zip.set(body, local.length);
+  zip.set(central, local.length + body.length);
+  zip.set(end, local.length + body.length + central.length);
+  return zip;
+};
+
+describe('openZip', () => {
+  it('lists and reads stored entries', async () => {
+    const blob = createZip([
+      { name: 'mimetype', data: new TextEncoder().encode('application/epub+zip') },
+      { name: 'OEBPS/فصل.xhtml', data: new TextEncoder().encode('<p>نص</p>') }
+    ]);
+    const zip = openZip(new Uint8Array(await blob.arrayBuffer()));
+    expect(zip.names).toEqual(['mimetype', 'OEBPS/فصل.xhtml']);
+    expect(text(await zip.read('OEBPS/فصل.xhtml'))).toBe('<p>نص</p>');
+    expect(await zip.read('missing')).toBeNull();
+  });
+
+  it('inflates deflated entries', async () => {
+    const content = new TextEncoder().encode('repeat '.repeat(200));
+    const zip = openZip(singleEntryZip('a.txt', deflateRawSync(content), 8, content.length));
+    expect(text(await zip.read('a.txt'))).toBe('repeat '.repeat(200));
+  });
+
+  it('rejects data that is not a ZIP, and compression it cannot read', async () => {
+    expect(() => openZip(new Uint8Array(100))).toThrow("Not a ZIP archive.");
+    const zip = openZip(singleEntryZip('b.bin', new Uint8Array(4), 12, 4));
+    await expect(zip.read('b.bin')).rejects.toThrow("unsupported compression method (12)");
+  });
+});
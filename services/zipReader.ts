@@ -0,0 +1,74 @@
+// Minimal ZIP archive reader for imports (an EPUB is a ZIP). Entries are found through
+// the central directory and read on demand; stored and deflated entries are supported,
+// with deflate handled by the platform's DecompressionStream. No ZIP64, no encryption.
+
+export interface ZipArchive {
+  names: string[];
+  read: (name: string) => Promise<Uint8Array | null>;
+}
+
+interface CentralEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054B50;
+const CENTRAL_HEADER = 0x02014B50;
+const LOCAL_HEADER = 0x04034B50;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const openZip = (data: Uint8Array): ZipArchive => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end record sits in the last 22 bytes plus a comment of up to 64 KB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xFFFF); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a ZIP archive.");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xFFFFFFFF) throw new Error("ZIP64 archives are not supported.");
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, CentralEntry>();
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || view.getUint32(offset, true) !== CENTRAL_HEADER) {
+      throw new Error("The ZIP directory is damaged.");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (name: string): Promise<Uint8Array | null> => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+    const local = entry.localOffset;
+    if (view.getUint32(local, true) !== LOCAL_HEADER) throw new Error(`The ZIP entry ${name} is damaged.`);
+    // The local header's name and extra field can differ in length from the central copy
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const body = data.subarray(start, start + entry.compressedSize);
+    if (entry.method === 0) return body.slice();
+    if (entry.method === 8) return inflateRaw(body);
+    throw new Error(`The ZIP entry ${name} uses an unsupported compression method (${entry.method}).`);
+  };
+
+  return { names: [...entries.keys()], read };
+};
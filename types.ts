@@ -1,16 +1,26 @@
+import dialectData from "./dialects.json";
+import styleData from "./speakingStyles.json";
+
 export interface VoiceOption {
   id: string;
   name: string;
   gender: 'Male' | 'Female';
-  type: 'Narrator' | 'Character' | 'Standard' | 'Child' | 'Teen';
-  geminiVoiceName: string; // Maps to 'Puck', 'Kore', etc.
+  type: 'Narrator' | 'Character' | 'Standard' | 'Child' | 'Teen' | 'Persona';
+  providerVoices: Record<string, string>; // Provider id -> that backend's voice name, e.g. { gemini: 'Puck' }
+  // Personas only: delivery direction sent with every request, and the defaults
+  // applied when the voice is picked
+  style?: string;
+  dialectCode?: string;
+  settings?: VoiceSettings;
 }
 
 export interface VoiceSettings {
-  pitch: number; // -20 to +20 (percentage in SSML)
+  pitch: number; // -50 to +50 (percentage in SSML)
   speed: number; // 0.5 to 2.0 (rate in SSML)
   emotion: EmotionType;
-  clarity: number; // 0-100 (Conceptual mapping)
+  clarity: number; // 0-100, drives the local enhancement chain
+  exactProsody: boolean; // Apply pitch/speed locally with DSP instead of asking the model
+  styleIntensity: number; // 10-200 (percent), how strongly inline [style] spans are played
 }
 
 export enum EmotionType {
@@ -21,25 +31,112 @@ export enum EmotionType {
   Sad = 'Sad'
 }
 
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  pitch: 0,
+  speed: 1.0,
+  emotion: EmotionType.Calm,
+  clarity: 90,
+  exactProsody: true,
+  styleIntensity: 100
+};
+
+// Voice and dialect chosen for one speaker of a dialogue script
+export interface SpeakerAssignment {
+  voiceId: string; // VoiceOption.id
+  dialectCode: string; // DialectOption.code
+}
+
 export interface DialectOption {
   code: string; // e.g., 'ar-EG'
   label: string;
   nativeLabel: string;
+  adaptationGuide: string; // Vocabulary and grammar notes for rewriting text into this dialect
+  deliveryInstructions: string; // Accent and pronunciation notes added to the TTS prompt
+  normalization?: DialectNormalization; // How numbers, dates and abbreviations are read; see textNormalizer.ts
+}
+
+// Wording the text normalizer uses for one dialect. A dialect with `extends` lists only
+// what differs from that dialect (objects are merged one level deep, lists replaced); a
+// dialect without `normalization` is read as Modern Standard Arabic.
+export interface NormalizationRules {
+  numbers: NumberWords;
+  genitive?: Partial<NumberWords>; // MSA reads years and similar counts in the genitive ("عام ألفين")
+  zero: string;
+  plus: string;
+  decimalPoint: string;
+  percent: string;
+  months: string[];
+  dateFormat: string; // Placeholders: {day}, {ordinalDay}, {month}, {year}, {yearGenitive}
+  ordinalDays?: string[]; // 1..31, for {ordinalDay}
+  time: TimeWords;
+  currencies: Record<string, CurrencyWords>; // Keyed by ISO 4217 code
+  yearSuffix: { gregorian: string; hijri: string };
+  abbreviations: Record<string, string>;
+}
+
+export type DialectNormalization = { [K in keyof NormalizationRules]?: Partial<NormalizationRules[K]> } & {
+  extends?: string; // Code of the dialect these rules start from
+};
+
+export interface NumberWords {
+  ones: string[]; // 0..10
+  teens: string[]; // 11..19
+  tens: string[]; // 20, 30 .. 90
+  hundreds: string[]; // 100 .. 900
+  counted: string[]; // 3..10 as used before a plural scale word ("ثلاثة آلاف")
+  scales: ScaleWords[]; // Largest first
+}
+
+export interface ScaleWords {
+  value: number; // 1000, 1e6, 1e9
+  singular: string;
+  dual: string;
+  plural: string;
+}
+
+export interface CurrencyWords {
+  singular: string;
+  dual: string;
+  plural: string; // After 3..10
+  counted: string; // After 11 and above
+}
+
+export interface TimeWords {
+  prefix: string;
+  hours: string[]; // 1..12
+  quarter: string;
+  third: string;
+  half: string;
+  toQuarter: string;
+  toThird: string;
+  minute: string;
+  minutes: string; // After 3..10
+  morning: string;
+  evening: string;
+}
+
+// Dialects are data: add an entry to dialects.json to support a new one
+export const SUPPORTED_DIALECTS: DialectOption[] = dialectData;
+
+export interface SpeakingStyle {
+  id: string; // e.g. 'whisper'; the lower-cased EmotionType values are styles too
+  label: string;
+  aliases: string[]; // Other names accepted in [style] markup, e.g. Arabic ones
+  instruction: string; // Completes "Speak ...", e.g. "in a hushed, breathy whisper"
+  pitch: number; // Percent offset at full intensity
+  rate: number; // Multiplier at full intensity
 }
 
-export const SUPPORTED_DIALECTS: DialectOption[] = [
-  { code: 'ar-XA', label: 'Modern Standard Arabic', nativeLabel: 'الفصحى' },
-  { code: 'ar-EG', label: 'Egyptian (Cairo)', nativeLabel: 'مصر - قاهري' },
-  { code: 'ar-EG-Saidi', label: 'Egyptian (Sa\'idi)', nativeLabel: 'مصر - صعيدي' },
-];
+// Styles are data too: add an entry to speakingStyles.json to make a new [style] tag
+export const SPEAKING_STYLES: SpeakingStyle[] = styleData;
 
 export const AVAILABLE_VOICES: VoiceOption[] = [
-  { id: 'v_boy_7', name: 'Boy (7 yrs)', gender: 'Male', type: 'Child', geminiVoiceName: 'Puck' },
-  { id: 'v_girl_7', name: 'Girl (7 yrs)', gender: 'Female', type: 'Child', geminiVoiceName: 'Zephyr' },
-  { id: 'v_boy_17', name: 'Teen Boy (17 yrs)', gender: 'Male', type: 'Teen', geminiVoiceName: 'Puck' },
-  { id: 'v_girl_17', name: 'Teen Girl (17 yrs)', gender: 'Female', type: 'Teen', geminiVoiceName: 'Kore' },
-  { id: 'v_male_std', name: 'Male Standard', gender: 'Male', type: 'Standard', geminiVoiceName: 'Puck' },
-  { id: 'v_female_clear', name: 'Female Clear', gender: 'Female', type: 'Standard', geminiVoiceName: 'Zephyr' },
-  { id: 'v_narrator', name: 'Narrator', gender: 'Male', type: 'Narrator', geminiVoiceName: 'Charon' },
-  { id: 'v_male_deep', name: 'Male Deep', gender: 'Male', type: 'Character', geminiVoiceName: 'Fenrir' },
+  { id: 'v_boy_7', name: 'Boy (7 yrs)', gender: 'Male', type: 'Child', providerVoices: { gemini: 'Puck', mock: 'child-m' } },
+  { id: 'v_girl_7', name: 'Girl (7 yrs)', gender: 'Female', type: 'Child', providerVoices: { gemini: 'Zephyr', mock: 'child-f' } },
+  { id: 'v_boy_17', name: 'Teen Boy (17 yrs)', gender: 'Male', type: 'Teen', providerVoices: { gemini: 'Puck', mock: 'teen-m' } },
+  { id: 'v_girl_17', name: 'Teen Girl (17 yrs)', gender: 'Female', type: 'Teen', providerVoices: { gemini: 'Kore', mock: 'teen-f' } },
+  { id: 'v_male_std', name: 'Male Standard', gender: 'Male', type: 'Standard', providerVoices: { gemini: 'Puck', mock: 'male' } },
+  { id: 'v_female_clear', name: 'Female Clear', gender: 'Female', type: 'Standard', providerVoices: { gemini: 'Zephyr', mock: 'female' } },
+  { id: 'v_narrator', name: 'Narrator', gender: 'Male', type: 'Narrator', providerVoices: { gemini: 'Charon', mock: 'narrator' } },
+  { id: 'v_male_deep', name: 'Male Deep', gender: 'Male', type: 'Character', providerVoices: { gemini: 'Fenrir', mock: 'deep' } },
 ];
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+
+// Builds the speech-studio CLI as one Node ES module. Dependencies stay external and
+// the API key is read from the environment at run time, not inlined.
+export default defineConfig({
+  build: {
+    ssr: 'cli/speechStudio.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'speech-studio.js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});
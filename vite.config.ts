@@ -4,15 +4,24 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Proxied builds leave the key on the server (server/ttsServer.ts) and out of the bundle
+    const proxied = env.TTS_TRANSPORT === 'proxy';
+    const apiKey = proxied ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // In development the speech proxy runs next to Vite on its default port
+        proxy: proxied && !env.TTS_PROXY_URL
+          ? { '/api': `http://localhost:${env.TTS_PROXY_PORT || 8787}` }
+          : undefined,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.TTS_TRANSPORT': JSON.stringify(env.TTS_TRANSPORT || 'direct'),
+        'process.env.TTS_PROXY_URL': JSON.stringify(env.TTS_PROXY_URL || '')
       },
       resolve: {
         alias: {
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Builds the speech proxy (server/ttsServer.ts) as one Node ES module. Like the CLI,
+// it reads its key and settings from the environment at run time.
+export default defineConfig({
+  build: {
+    ssr: 'server/ttsServer.ts',
+    outDir: 'dist-server',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'tts-server.js'
+      }
+    }
+  }
+});